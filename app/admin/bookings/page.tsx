@@ -12,10 +12,13 @@ import {
   RefreshCw,
   Clock,
   Zap,
+  Banknote,
 } from "lucide-react";
 import { cn, formatDuration } from "@/lib/utils";
 import { Badge } from "@/components/ui/Badge";
 import { Spinner } from "@/components/ui/Spinner";
+import { RefundStatus } from "@/components/booking/RefundStatus";
+import { BillingSummary } from "@/components/booking/BillingSummary";
 import type { IBooking, IStation } from "@/types";
 import { format } from "date-fns";
 import { calculateArrivalStatus, formatArrivalTime, getUrgencyIcon } from "@/lib/arrivalStatus";
@@ -145,6 +148,29 @@ export default function AdminBookingsPage() {
     }, {} as Record<string, ReturnType<typeof calculateArrivalStatus>>);
   }, [bookings]);
 
+  const collectTopUp = async (bookingId: string) => {
+    setActionLoadingId(bookingId);
+    try {
+      const res = await fetch(`/api/admin/bookings/${bookingId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ topUpCollected: true }),
+      });
+      if (res.ok) {
+        const data = await res.json();
+        setBookings((prev) =>
+          prev.map((b) =>
+            b._id === bookingId ? { ...b, billing: data.booking?.billing } : b
+          )
+        );
+      }
+    } catch (err) {
+      console.error("Failed to record top-up:", err);
+    } finally {
+      setActionLoadingId(null);
+    }
+  };
+
   const updateBookingStatus = async (
     bookingId: string,
     newStatus: string
@@ -157,10 +183,16 @@ export default function AdminBookingsPage() {
         body: JSON.stringify({ status: newStatus }),
       });
       if (res.ok) {
+        const data = await res.json();
         setBookings((prev) =>
           prev.map((b) =>
             b._id === bookingId
-              ? { ...b, status: newStatus as IBooking["status"] }
+              ? {
+                  ...b,
+                  status: newStatus as IBooking["status"],
+                  refund: data.booking?.refund,
+                  billing: data.booking?.billing,
+                }
               : b
           )
         );
@@ -332,6 +364,8 @@ export default function AdminBookingsPage() {
                             {booking.status.charAt(0).toUpperCase() +
                               booking.status.slice(1)}
                           </Badge>
+                          <BillingSummary billing={booking.billing} className="mt-1.5" />
+                          <RefundStatus refund={booking.refund} className="mt-1.5" />
                         </td>
                         <td className="px-4 py-3">
                           {["pending", "confirmed"].includes(booking.status) ? (
@@ -362,6 +396,15 @@ export default function AdminBookingsPage() {
                               <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
                             ) : (
                               <>
+                                {booking.billing?.settlement === "topup_due" && (
+                                  <button
+                                    onClick={() => collectTopUp(booking._id)}
+                                    className="rounded-lg p-2 text-amber-400 transition-colors hover:bg-amber-500/10"
+                                    title="Mark balance collected"
+                                  >
+                                    <Banknote className="h-4 w-4" />
+                                  </button>
+                                )}
                                 {booking.status === "pending" && (
                                   <button
                                     onClick={() =>
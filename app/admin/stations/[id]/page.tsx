@@ -22,9 +22,15 @@ import {
   Download,
   ExternalLink,
 } from "lucide-react";
-import { cn } from "@/lib/utils";
+import { cn, fromNepalClock, toNepalDate, formatNepalTime } from "@/lib/utils";
 import { Spinner } from "@/components/ui/Spinner";
-import type { IStation } from "@/types";
+import { MINUTES_PER_DAY } from "@/lib/constants";
+import { useRealtimeSocket } from "@/hooks/useRealtimeSocket";
+import { HardwareDevices } from "@/components/station/HardwareDevices";
+import { ChargePoints } from "@/components/station/ChargePoints";
+import { PortUptime } from "@/components/station/PortUptime";
+import type { BillingMode } from "@/lib/tariff";
+import type { IStation, PaymentMethod } from "@/types";
 
 interface StationFormData {
   name: string;
@@ -41,8 +47,43 @@ interface StationFormData {
     chargerType: string;
   }[];
   perHour: number;
+  billingMode: BillingMode;
+  perKwh: number;
+  perMinute: number;
+  timeOfUse: {
+    label: string;
+    days: number[];
+    start: string;
+    end: string;
+    multiplier: number;
+  }[];
+  weekendDays: number[];
+  weekendMultiplier: number;
+  acMultiplier: number;
+  dcMultiplier: number;
+  idleFeePerMinute: number;
+  idleGraceMinutes: number;
+  promos: {
+    code: string;
+    percentOff: number;
+    validFrom: string;
+    validUntil: string;
+    active: boolean;
+  }[];
+  fullRefundHoursBefore: number;
+  partialRefundPercent: number;
+  paymentMethods: PaymentMethod[];
   openTime: string;
   closeTime: string;
+  closures: {
+    reason: string;
+    /** Inclusive Nepal-time dates of a scheduled closure */
+    startDate: string;
+    endDate: string;
+    /** Closed from `startsAt` until reopened */
+    temporary: boolean;
+    startsAt: string;
+  }[];
   amenities: string[];
 }
 
@@ -54,6 +95,29 @@ const CONNECTOR_OPTIONS = [
   { value: "wall-bs1363", label: "Wall BS1363" },
 ];
 
+const BILLING_MODE_OPTIONS: { value: BillingMode; label: string }[] = [
+  { value: "hourly", label: "Flat hourly (prepaid)" },
+  { value: "per_kwh", label: "Per kWh (metered)" },
+  { value: "per_minute", label: "Per minute (metered)" },
+  { value: "hybrid", label: "Per kWh + per minute (metered)" },
+];
+
+const DAY_OPTIONS = [
+  { value: 0, label: "Sun" },
+  { value: 1, label: "Mon" },
+  { value: 2, label: "Tue" },
+  { value: 3, label: "Wed" },
+  { value: 4, label: "Thu" },
+  { value: 5, label: "Fri" },
+  { value: 6, label: "Sat" },
+];
+
+const PAYMENT_METHOD_OPTIONS: { value: PaymentMethod; label: string }[] = [
+  { value: "khalti", label: "Khalti" },
+  { value: "esewa", label: "eSewa" },
+  { value: "cash", label: "Pay at station" },
+];
+
 const AMENITY_OPTIONS = [
   { value: "wifi", label: "WiFi" },
   { value: "parking", label: "Parking" },
@@ -96,8 +160,23 @@ export default function EditStationPage({
       lng: 0,
       chargingPorts: [],
       perHour: 0,
+      billingMode: "hourly",
+      perKwh: 0,
+      perMinute: 0,
+      timeOfUse: [],
+      weekendDays: [6],
+      weekendMultiplier: 1,
+      acMultiplier: 1,
+      dcMultiplier: 1,
+      idleFeePerMinute: 0,
+      idleGraceMinutes: 10,
+      promos: [],
+      fullRefundHoursBefore: 2,
+      partialRefundPercent: 50,
+      paymentMethods: ["khalti"],
       openTime: "06:00",
       closeTime: "22:00",
+      closures: [],
       amenities: [],
     },
   });
@@ -107,7 +186,29 @@ export default function EditStationPage({
     name: "chargingPorts",
   });
 
+  const {
+    fields: touFields,
+    append: appendTou,
+    remove: removeTou,
+  } = useFieldArray({ control, name: "timeOfUse" });
+
+  const {
+    fields: promoFields,
+    append: appendPromo,
+    remove: removePromo,
+  } = useFieldArray({ control, name: "promos" });
+
+  const {
+    fields: closureFields,
+    append: appendClosure,
+    remove: removeClosure,
+  } = useFieldArray({ control, name: "closures" });
+
   const watchAmenities = watch("amenities");
+  const watchTimeOfUse = watch("timeOfUse");
+  const watchWeekendDays = watch("weekendDays");
+  const watchPaymentMethods = watch("paymentMethods");
+  const watchBillingMode = watch("billingMode");
 
   useEffect(() => {
     params.then((p) => setStationId(p.id));
@@ -140,8 +241,40 @@ export default function EditStationPage({
                 chargerType: p.chargerType,
               })) ?? [],
             perHour: s.pricing?.perHour ?? 0,
+            billingMode: s.pricing?.billingMode ?? "hourly",
+            perKwh: s.pricing?.perKwh ?? 0,
+            perMinute: s.pricing?.perMinute ?? 0,
+            timeOfUse: s.pricingRules?.timeOfUse ?? [],
+            weekendDays: s.pricingRules?.weekend?.days ?? [6],
+            weekendMultiplier: s.pricingRules?.weekend?.multiplier ?? 1,
+            acMultiplier: s.pricingRules?.portMultipliers?.ac ?? 1,
+            dcMultiplier: s.pricingRules?.portMultipliers?.dc ?? 1,
+            idleFeePerMinute: s.pricingRules?.idleFee?.perMinute ?? 0,
+            idleGraceMinutes: s.pricingRules?.idleFee?.graceMinutes ?? 10,
+            promos:
+              s.pricingRules?.promos?.map((p) => ({
+                code: p.code,
+                percentOff: p.percentOff,
+                validFrom: p.validFrom?.slice(0, 10) ?? "",
+                validUntil: p.validUntil?.slice(0, 10) ?? "",
+                active: p.active,
+              })) ?? [],
+            fullRefundHoursBefore:
+              s.cancellationPolicy?.fullRefundHoursBefore ?? 2,
+            partialRefundPercent:
+              s.cancellationPolicy?.partialRefundPercent ?? 50,
+            paymentMethods: s.paymentMethods?.length ? s.paymentMethods : ["khalti"],
             openTime: s.operatingHours?.open ?? "06:00",
             closeTime: s.operatingHours?.close ?? "22:00",
+            closures:
+              s.closures?.map((c) => ({
+                reason: c.reason ?? "",
+                startDate: toNepalDate(new Date(c.startsAt)),
+                // endsAt is the midnight after the last closed day
+                endDate: c.endsAt ? toNepalDate(new Date(new Date(c.endsAt).getTime() - 1)) : "",
+                temporary: !c.endsAt,
+                startsAt: c.startsAt,
+              })) ?? [],
             amenities: s.amenities ?? [],
           });
         }
@@ -154,6 +287,25 @@ export default function EditStationPage({
     fetchStation();
   }, [stationId, reset]);
 
+  // Port statuses change under the operator's feet (bookings, walk-ins,
+  // chargers); keep them live and send overrides over the same socket
+  const { isConnected, sendCommand } = useRealtimeSocket(
+    stationId ? [{ channel: "station", stationId }] : [],
+    {
+      "port-update": (event) =>
+        setStation((prev) =>
+          prev && {
+            ...prev,
+            chargingPorts: prev.chargingPorts.map((port) =>
+              port._id === event.portId || port.portNumber === event.portId
+                ? { ...port, status: event.status as typeof port.status }
+                : port
+            ),
+          }
+        ),
+    }
+  );
+
   const toggleAmenity = (amenity: string) => {
     const current = watchAmenities || [];
     const updated = current.includes(amenity)
@@ -162,31 +314,55 @@ export default function EditStationPage({
     setValue("amenities", updated);
   };
 
-  const togglePortStatus = async (portId: string, currentStatus: string) => {
-    if (!stationId) return;
-    setTogglingPortId(portId);
-    try {
-      const newStatus = currentStatus === "available" ? "occupied" : "available";
-      const res = await fetch(`/api/admin/stations/${stationId}/ports`, {
-        method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ portId, status: newStatus }),
-      });
-      if (res.ok) {
-        const data = await res.json();
-        setStation(data.station);
-      }
-    } catch (err) {
-      console.error("Failed to toggle port status:", err);
-    } finally {
-      setTogglingPortId(null);
-    }
+  const togglePaymentMethod = (method: PaymentMethod) => {
+    const current = watchPaymentMethods || [];
+    const updated = current.includes(method)
+      ? current.filter((m) => m !== method)
+      : [...current, method];
+    // A station must accept at least one way to pay
+    if (updated.length > 0) setValue("paymentMethods", updated);
+  };
+
+  const toggleWindowDay = (index: number, day: number) => {
+    const current = watchTimeOfUse?.[index]?.days || [];
+    setValue(
+      `timeOfUse.${index}.days`,
+      current.includes(day)
+        ? current.filter((d) => d !== day)
+        : [...current, day].sort()
+    );
+  };
+
+  const toggleWeekendDay = (day: number) => {
+    const current = watchWeekendDays || [];
+    setValue(
+      "weekendDays",
+      current.includes(day)
+        ? current.filter((d) => d !== day)
+        : [...current, day].sort()
+    );
   };
 
+  const togglePortStatus = (portId: string, currentStatus: string) =>
+    setPortStatus(portId, currentStatus === "available" ? "occupied" : "available");
+
   const setPortStatus = async (portId: string, status: string) => {
     if (!stationId) return;
     setTogglingPortId(portId);
     try {
+      if (isConnected) {
+        const result = await sendCommand({
+          command: "set_port_status",
+          stationId,
+          portId,
+          status,
+        });
+        if (!result.ok) console.error("Failed to set port status:", result.error);
+        else if (result.data && typeof result.data === "object" && "station" in result.data) {
+          setStation(result.data.station as IStation);
+        }
+        return;
+      }
       const res = await fetch(`/api/admin/stations/${stationId}/ports`, {
         method: "PATCH",
         headers: { "Content-Type": "application/json" },
@@ -231,11 +407,54 @@ export default function EditStationPage({
         }),
         pricing: {
           perHour: data.perHour,
+          billingMode: data.billingMode,
+          perKwh: data.perKwh,
+          perMinute: data.perMinute,
+        },
+        pricingRules: {
+          timeOfUse: data.timeOfUse,
+          weekend: {
+            days: data.weekendDays,
+            multiplier: data.weekendMultiplier,
+          },
+          portMultipliers: {
+            ac: data.acMultiplier,
+            dc: data.dcMultiplier,
+          },
+          idleFee: {
+            perMinute: data.idleFeePerMinute,
+            graceMinutes: data.idleGraceMinutes,
+          },
+          promos: data.promos
+            .filter((p) => p.code.trim())
+            .map((p) => ({
+              code: p.code.trim().toUpperCase(),
+              percentOff: p.percentOff,
+              active: p.active,
+              ...(p.validFrom && { validFrom: p.validFrom }),
+              ...(p.validUntil && { validUntil: `${p.validUntil}T23:59:59+05:45` }),
+            })),
         },
+        cancellationPolicy: {
+          fullRefundHoursBefore: data.fullRefundHoursBefore,
+          partialRefundPercent: data.partialRefundPercent,
+        },
+        paymentMethods: data.paymentMethods,
         operatingHours: {
           open: data.openTime,
           close: data.closeTime,
         },
+        closures: data.closures
+          .filter((c) => c.temporary || c.startDate)
+          .map((c) =>
+            c.temporary
+              ? { startsAt: c.startsAt || new Date().toISOString(), reason: c.reason }
+              : {
+                  startsAt: fromNepalClock(c.startDate, 0).toISOString(),
+                  endsAt: fromNepalClock(c.endDate || c.startDate, MINUTES_PER_DAY).toISOString(),
+                  reason: c.reason,
+                }
+          ),
         amenities: data.amenities,
       };
 
@@ -615,7 +834,11 @@ export default function EditStationPage({
                         <button
                           type="button"
                           onClick={() => togglePortStatus(portId, port.status)}
-                          disabled={isToggling || port.status === "maintenance"}
+                          disabled={
+                            isToggling ||
+                            port.status === "maintenance" ||
+                            port.status === "offline"
+                          }
                           className="rounded-lg p-1.5 text-muted-foreground transition-colors hover:bg-muted disabled:opacity-50"
                           title={port.status === "available" ? "Mark as Occupied" : "Mark as Available"}
                         >
@@ -639,6 +862,12 @@ export default function EditStationPage({
                           <option value="occupied">Occupied</option>
                           <option value="reserved">Reserved</option>
                           <option value="maintenance">Maintenance</option>
+                          {/* Set by the device watchdog only */}
+                          {port.status === "offline" && (
+                            <option value="offline" disabled>
+                              Offline
+                            </option>
+                          )}
                         </select>
                       </div>
                     </div>
@@ -648,6 +877,21 @@ export default function EditStationPage({
             </div>
           )}
 
+          {/* Hardware devices bound to the ports */}
+          {station && station.chargingPorts && station.chargingPorts.length > 0 && (
+            <HardwareDevices stationId={stationId} ports={station.chargingPorts} />
+          )}
+
+          {/* OCPP charge points feeding the ports */}
+          {station && station.chargingPorts && station.chargingPorts.length > 0 && (
+            <ChargePoints stationId={stationId} ports={station.chargingPorts} />
+          )}
+
+          {/* Port status history and uptime */}
+          {station && station.chargingPorts && station.chargingPorts.length > 0 && (
+            <PortUptime stationId={stationId} ports={station.chargingPorts} />
+          )}
+
           {/* Walk-in QR Codes */}
           {station && station.chargingPorts && station.chargingPorts.length > 0 && (
             <div className="rounded-xl border border-border bg-card p-6">
@@ -731,6 +975,349 @@ export default function EditStationPage({
                   className="mt-1 w-full rounded-lg border border-border bg-background px-3 py-2.5 text-sm text-foreground focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
                 />
               </div>
+              <div>
+                <label className="block text-sm font-medium text-foreground">
+                  Billing Mode
+                </label>
+                <select
+                  {...register("billingMode")}
+                  className="mt-1 w-full rounded-lg border border-border bg-background px-3 py-2.5 text-sm text-foreground focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+                >
+                  {BILLING_MODE_OPTIONS.map((opt) => (
+                    <option key={opt.value} value={opt.value}>
+                      {opt.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {(watchBillingMode === "per_kwh" || watchBillingMode === "hybrid") && (
+                <div>
+                  <label className="block text-sm font-medium text-foreground">
+                    Rate per kWh (Rs.)
+                  </label>
+                  <input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    {...register("perKwh", { valueAsNumber: true, min: 0 })}
+                    className="mt-1 w-full rounded-lg border border-border bg-background px-3 py-2.5 text-sm text-foreground focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+                  />
+                </div>
+              )}
+              {(watchBillingMode === "per_minute" || watchBillingMode === "hybrid") && (
+                <div>
+                  <label className="block text-sm font-medium text-foreground">
+                    Rate per Minute (Rs.)
+                  </label>
+                  <input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    {...register("perMinute", { valueAsNumber: true, min: 0 })}
+                    className="mt-1 w-full rounded-lg border border-border bg-background px-3 py-2.5 text-sm text-foreground focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+                  />
+                </div>
+              )}
+            </div>
+
+            <h3 className="mt-6 text-sm font-semibold text-card-foreground">
+              Peak &amp; Off-Peak Rates
+            </h3>
+            <p className="mt-1 text-xs text-muted-foreground">
+              Multiply the charge for the part of a session that falls in a window (Nepal time). Use a multiplier below 1 for off-peak discounts. The first matching window applies.
+            </p>
+            <div className="mt-3 space-y-3">
+              {touFields.map((field, index) => (
+                <div
+                  key={field.id}
+                  className="rounded-lg border border-border bg-background p-3"
+                >
+                  <div className="grid gap-2 sm:grid-cols-[1fr_auto_auto_auto_auto]">
+                    <input
+                      {...register(`timeOfUse.${index}.label` as const, { required: true })}
+                      placeholder="Peak"
+                      className="w-full rounded-lg border border-border bg-background px-3 py-2 text-sm text-foreground focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+                    />
+                    <input
+                      type="time"
+                      {...register(`timeOfUse.${index}.start` as const, { required: true })}
+                      className="w-full rounded-lg border border-border bg-background px-3 py-2 text-sm text-foreground focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+                    />
+                    <input
+                      type="time"
+                      {...register(`timeOfUse.${index}.end` as const, { required: true })}
+                      className="w-full rounded-lg border border-border bg-background px-3 py-2 text-sm text-foreground focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+                    />
+                    <input
+                      type="number"
+                      min={0}
+                      step="0.05"
+                      title="Multiplier"
+                      {...register(`timeOfUse.${index}.multiplier` as const, { valueAsNumber: true, min: 0 })}
+                      className="w-24 rounded-lg border border-border bg-background px-3 py-2 text-sm text-foreground focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => removeTou(index)}
+                      className="rounded p-1 text-red-500 transition-colors hover:bg-red-500/10"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                  <div className="mt-2 flex flex-wrap items-center gap-1.5">
+                    {DAY_OPTIONS.map((day) => {
+                      const active = (watchTimeOfUse?.[index]?.days || []).includes(day.value);
+                      return (
+                        <button
+                          key={day.value}
+                          type="button"
+                          onClick={() => toggleWindowDay(index, day.value)}
+                          className={cn(
+                            "rounded-md border px-2 py-1 text-xs font-medium transition-colors",
+                            active
+                              ? "border-primary bg-primary/10 text-primary"
+                              : "border-border text-muted-foreground hover:border-primary/30"
+                          )}
+                        >
+                          {day.label}
+                        </button>
+                      );
+                    })}
+                    <span className="ml-1 text-xs text-muted-foreground">
+                      {(watchTimeOfUse?.[index]?.days || []).length === 0 && "Every day"}
+                    </span>
+                  </div>
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() =>
+                  appendTou({ label: "Peak", days: [], start: "17:00", end: "21:00", multiplier: 1.25 })
+                }
+                className="flex items-center gap-1 rounded-lg bg-primary/10 px-3 py-1.5 text-sm font-medium text-primary transition-colors hover:bg-primary/20"
+              >
+                <Plus className="h-4 w-4" />
+                Add Rate Window
+              </button>
+            </div>
+
+            <div className="mt-6 grid gap-4 sm:grid-cols-2">
+              <div>
+                <label className="block text-sm font-medium text-foreground">
+                  Weekend Days
+                </label>
+                <div className="mt-1 flex flex-wrap gap-1.5">
+                  {DAY_OPTIONS.map((day) => {
+                    const active = (watchWeekendDays || []).includes(day.value);
+                    return (
+                      <button
+                        key={day.value}
+                        type="button"
+                        onClick={() => toggleWeekendDay(day.value)}
+                        className={cn(
+                          "rounded-md border px-2 py-1.5 text-xs font-medium transition-colors",
+                          active
+                            ? "border-primary bg-primary/10 text-primary"
+                            : "border-border text-muted-foreground hover:border-primary/30"
+                        )}
+                      >
+                        {day.label}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-foreground">
+                  Weekend Multiplier
+                </label>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.05"
+                  {...register("weekendMultiplier", { valueAsNumber: true, min: 0 })}
+                  className="mt-1 w-full rounded-lg border border-border bg-background px-3 py-2.5 text-sm text-foreground focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-foreground">
+                  AC Port Multiplier
+                </label>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.05"
+                  {...register("acMultiplier", { valueAsNumber: true, min: 0 })}
+                  className="mt-1 w-full rounded-lg border border-border bg-background px-3 py-2.5 text-sm text-foreground focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-foreground">
+                  DC Fast Port Multiplier
+                </label>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.05"
+                  {...register("dcMultiplier", { valueAsNumber: true, min: 0 })}
+                  className="mt-1 w-full rounded-lg border border-border bg-background px-3 py-2.5 text-sm text-foreground focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-foreground">
+                  Idle Fee per Minute (Rs.)
+                </label>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.5"
+                  {...register("idleFeePerMinute", { valueAsNumber: true, min: 0 })}
+                  className="mt-1 w-full rounded-lg border border-border bg-background px-3 py-2.5 text-sm text-foreground focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+                />
+                <p className="mt-1 text-xs text-muted-foreground">
+                  Charged while a vehicle stays plugged in after charging completes.
+                </p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-foreground">
+                  Idle Grace Period (minutes)
+                </label>
+                <input
+                  type="number"
+                  min={0}
+                  {...register("idleGraceMinutes", { valueAsNumber: true, min: 0 })}
+                  className="mt-1 w-full rounded-lg border border-border bg-background px-3 py-2.5 text-sm text-foreground focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+                />
+              </div>
+            </div>
+
+            <h3 className="mt-6 text-sm font-semibold text-card-foreground">
+              Promo Codes
+            </h3>
+            <p className="mt-1 text-xs text-muted-foreground">
+              Percentage discounts drivers can enter when booking. Dates are inclusive; leave blank for no limit.
+            </p>
+            <div className="mt-3 space-y-2">
+              {promoFields.map((field, index) => (
+                <div
+                  key={field.id}
+                  className="grid items-center gap-2 rounded-lg border border-border bg-background p-3 sm:grid-cols-[1fr_auto_auto_auto_auto_auto]"
+                >
+                  <input
+                    {...register(`promos.${index}.code` as const, { required: true })}
+                    placeholder="CODE"
+                    className="w-full rounded-lg border border-border bg-background px-3 py-2 text-sm uppercase text-foreground focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+                  />
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    title="Percent off"
+                    {...register(`promos.${index}.percentOff` as const, { valueAsNumber: true, min: 0, max: 100 })}
+                    className="w-20 rounded-lg border border-border bg-background px-3 py-2 text-sm text-foreground focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+                  />
+                  <input
+                    type="date"
+                    title="Valid from"
+                    {...register(`promos.${index}.validFrom` as const)}
+                    className="w-full rounded-lg border border-border bg-background px-3 py-2 text-sm text-foreground focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+                  />
+                  <input
+                    type="date"
+                    title="Valid until"
+                    {...register(`promos.${index}.validUntil` as const)}
+                    className="w-full rounded-lg border border-border bg-background px-3 py-2 text-sm text-foreground focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+                  />
+                  <label className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                    <input
+                      type="checkbox"
+                      {...register(`promos.${index}.active` as const)}
+                      className="h-4 w-4 rounded border-border text-primary focus:ring-primary"
+                    />
+                    Active
+                  </label>
+                  <button
+                    type="button"
+                    onClick={() => removePromo(index)}
+                    className="rounded p-1 text-red-500 transition-colors hover:bg-red-500/10"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() =>
+                  appendPromo({ code: "", percentOff: 10, validFrom: "", validUntil: "", active: true })
+                }
+                className="flex items-center gap-1 rounded-lg bg-primary/10 px-3 py-1.5 text-sm font-medium text-primary transition-colors hover:bg-primary/20"
+              >
+                <Plus className="h-4 w-4" />
+                Add Promo Code
+              </button>
+            </div>
+
+            <h3 className="mt-6 text-sm font-semibold text-card-foreground">
+              Cancellation Policy
+            </h3>
+            <p className="mt-1 text-xs text-muted-foreground">
+              Paid bookings cancelled early are refunded in full; later cancellations get a partial refund. No-shows are not refunded.
+            </p>
+            <div className="mt-3 grid gap-4 sm:grid-cols-2">
+              <div>
+                <label className="block text-sm font-medium text-foreground">
+                  Full refund up to (hours before start)
+                </label>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.5"
+                  {...register("fullRefundHoursBefore", { valueAsNumber: true, min: 0 })}
+                  className="mt-1 w-full rounded-lg border border-border bg-background px-3 py-2.5 text-sm text-foreground focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-foreground">
+                  Late cancellation refund (%)
+                </label>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  {...register("partialRefundPercent", { valueAsNumber: true, min: 0, max: 100 })}
+                  className="mt-1 w-full rounded-lg border border-border bg-background px-3 py-2.5 text-sm text-foreground focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+                />
+              </div>
+            </div>
+            <h3 className="mt-6 text-sm font-semibold text-card-foreground">
+              Accepted Payment Methods
+            </h3>
+            <p className="mt-1 text-xs text-muted-foreground">
+              Drivers choose one of these when booking. Pay-at-station bookings are confirmed immediately and collected on arrival.
+            </p>
+            <div className="mt-3 grid grid-cols-2 gap-3 sm:grid-cols-3">
+              {PAYMENT_METHOD_OPTIONS.map((method) => {
+                const isChecked = (watchPaymentMethods || []).includes(method.value);
+                return (
+                  <label
+                    key={method.value}
+                    className={cn(
+                      "flex cursor-pointer items-center gap-2 rounded-lg border px-3 py-2.5 transition-all",
+                      isChecked
+                        ? "border-primary bg-primary/5 text-primary"
+                        : "border-border text-foreground hover:border-primary/30"
+                    )}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={isChecked}
+                      onChange={() => togglePaymentMethod(method.value)}
+                      className="h-4 w-4 rounded border-border text-primary focus:ring-primary"
+                    />
+                    <span className="text-sm font-medium">{method.label}</span>
+                  </label>
+                );
+              })}
             </div>
           </div>
 
@@ -762,6 +1349,108 @@ export default function EditStationPage({
                 />
               </div>
             </div>
+            <p className="mt-2 text-xs text-muted-foreground">
+              Nepal time. A closing time earlier than the opening time keeps the station open past midnight.
+            </p>
+
+            <h3 className="mt-6 text-sm font-semibold text-card-foreground">
+              Holidays &amp; Closures
+            </h3>
+            <p className="mt-1 text-xs text-muted-foreground">
+              No bookings, walk-ins or queue offers while the station is closed.
+            </p>
+            <div className="mt-3 space-y-2">
+              {closureFields.map((field, index) =>
+                field.temporary ? (
+                  <div
+                    key={field.id}
+                    className="flex items-center gap-2 rounded-lg border border-amber-500/30 bg-amber-500/5 p-3"
+                  >
+                    <span className="shrink-0 text-xs font-medium text-amber-400">
+                      Closed since {toNepalDate(new Date(field.startsAt))}{" "}
+                      {formatNepalTime(field.startsAt)}
+                    </span>
+                    <input
+                      {...register(`closures.${index}.reason` as const)}
+                      placeholder="Reason"
+                      className="w-full rounded-lg border border-border bg-background px-3 py-2 text-sm text-foreground focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => removeClosure(index)}
+                      className="shrink-0 rounded-lg bg-primary/10 px-3 py-1.5 text-sm font-medium text-primary transition-colors hover:bg-primary/20"
+                    >
+                      Reopen
+                    </button>
+                  </div>
+                ) : (
+                  <div
+                    key={field.id}
+                    className="grid items-center gap-2 rounded-lg border border-border bg-background p-3 sm:grid-cols-[auto_auto_1fr_auto]"
+                  >
+                    <input
+                      type="date"
+                      title="First closed day"
+                      {...register(`closures.${index}.startDate` as const, { required: true })}
+                      className="w-full rounded-lg border border-border bg-background px-3 py-2 text-sm text-foreground focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+                    />
+                    <input
+                      type="date"
+                      title="Last closed day"
+                      {...register(`closures.${index}.endDate` as const)}
+                      className="w-full rounded-lg border border-border bg-background px-3 py-2 text-sm text-foreground focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+                    />
+                    <input
+                      {...register(`closures.${index}.reason` as const)}
+                      placeholder="Reason (e.g. Dashain)"
+                      className="w-full rounded-lg border border-border bg-background px-3 py-2 text-sm text-foreground focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => removeClosure(index)}
+                      className="rounded p-1 text-red-500 transition-colors hover:bg-red-500/10"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                )
+              )}
+              <div className="flex flex-wrap gap-2">
+                <button
+                  type="button"
+                  onClick={() =>
+                    appendClosure({
+                      reason: "",
+                      startDate: toNepalDate(new Date()),
+                      endDate: "",
+                      temporary: false,
+                      startsAt: "",
+                    })
+                  }
+                  className="flex items-center gap-1 rounded-lg bg-primary/10 px-3 py-1.5 text-sm font-medium text-primary transition-colors hover:bg-primary/20"
+                >
+                  <Plus className="h-4 w-4" />
+                  Add Closure Dates
+                </button>
+                {!closureFields.some((c) => c.temporary) && (
+                  <button
+                    type="button"
+                    onClick={() =>
+                      appendClosure({
+                        reason: "",
+                        startDate: "",
+                        endDate: "",
+                        temporary: true,
+                        startsAt: new Date().toISOString(),
+                      })
+                    }
+                    className="flex items-center gap-1 rounded-lg bg-amber-500/10 px-3 py-1.5 text-sm font-medium text-amber-400 transition-colors hover:bg-amber-500/20"
+                  >
+                    Close Temporarily
+                  </button>
+                )}
+              </div>
+            </div>
           </div>
 
           {/* Amenities */}
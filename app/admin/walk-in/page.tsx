@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, useCallback, useRef } from "react";
+import { useState, useEffect, useCallback } from "react";
 import Link from "next/link";
 import {
   ArrowLeft,
@@ -18,6 +18,8 @@ import {
 import { cn, formatPrice } from "@/lib/utils";
 import { format } from "date-fns";
 import { Spinner } from "@/components/ui/Spinner";
+import { useRealtimeSocket, type SocketCommandResult } from "@/hooks/useRealtimeSocket";
+import type { SocketCommand } from "@/lib/realtime/protocol";
 
 interface Port {
   _id: string;
@@ -97,7 +99,6 @@ export default function WalkInPage() {
   const [loading, setLoading] = useState(true);
   const [actionLoading, setActionLoading] = useState<string | null>(null);
   const [error, setError] = useState("");
-  const pollRef = useRef<ReturnType<typeof setInterval> | null>(null);
 
   const fetchData = useCallback(async () => {
     try {
@@ -126,13 +127,40 @@ export default function WalkInPage() {
 
   useEffect(() => {
     fetchData();
-    // Poll every 30s to keep active sessions fresh
-    pollRef.current = setInterval(fetchData, 30000);
-    return () => {
-      if (pollRef.current) clearInterval(pollRef.current);
-    };
   }, [fetchData]);
 
+  // Live port updates for every station on the page; sessions are started
+  // and stopped over the same socket
+  const { isConnected, sendCommand } = useRealtimeSocket(
+    stations.map((station) => ({ channel: "station", stationId: station._id })),
+    { "port-update": () => fetchData() },
+    () => fetchData()
+  );
+
+  // Poll every 30s to keep active sessions fresh while the socket is down
+  useEffect(() => {
+    if (isConnected) return;
+    const poll = setInterval(fetchData, 30000);
+    return () => clearInterval(poll);
+  }, [isConnected, fetchData]);
+
+  // Over the socket when it's up, plain REST otherwise
+  const runCommand = async (
+    command: SocketCommand,
+    body: Record<string, unknown>
+  ): Promise<SocketCommandResult> => {
+    if (isConnected) return sendCommand(command);
+    const res = await fetch("/api/admin/walk-in", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    const data = await res.json();
+    return res.ok
+      ? { ok: true, data }
+      : { ok: false, error: data.error, status: res.status };
+  };
+
   const getActiveSession = (stationId: string, portId: string) => {
     return activeSessions.find(
       (s) =>
@@ -145,14 +173,12 @@ export default function WalkInPage() {
     setError("");
     setActionLoading(portId);
     try {
-      const res = await fetch("/api/admin/walk-in", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ action: "start", stationId, portId }),
-      });
-      const data = await res.json();
-      if (!res.ok) {
-        setError(data.error || "Failed to start session");
+      const result = await runCommand(
+        { command: "start_session", stationId, portId },
+        { action: "start", stationId, portId }
+      );
+      if (!result.ok) {
+        setError(result.error || "Failed to start session");
         return;
       }
       await fetchData();
@@ -167,14 +193,12 @@ export default function WalkInPage() {
     setError("");
     setActionLoading(bookingId);
     try {
-      const res = await fetch("/api/admin/walk-in", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ action: "stop", bookingId }),
-      });
-      if (!res.ok) {
-        const data = await res.json();
-        setError(data.error || "Failed to stop session");
+      const result = await runCommand(
+        { command: "stop_session", bookingId },
+        { action: "stop", bookingId }
+      );
+      if (!result.ok) {
+        setError(result.error || "Failed to stop session");
       }
       await fetchData();
     } catch {
@@ -301,7 +325,9 @@ export default function WalkInPage() {
                         <button
                           onClick={() => handleStart(station._id, port._id)}
                           disabled={
-                            isLoading || port.status === "maintenance"
+                            isLoading ||
+                            port.status === "maintenance" ||
+                            port.status === "offline"
                           }
                           className="inline-flex items-center gap-1.5 rounded-lg bg-emerald-500/10 border border-emerald-500/20 px-4 py-2 text-sm font-semibold text-emerald-400 transition-colors hover:bg-emerald-500/20 disabled:opacity-50 disabled:cursor-not-allowed"
                         >
@@ -4,6 +4,7 @@ import dbConnect from "@/lib/db";
 import Booking from "@/lib/models/Booking";
 import Station from "@/lib/models/Station";
 import User from "@/lib/models/User";
+import { getUtilizationRate } from "@/lib/portStatusHistory";
 import mongoose from "mongoose";
 
 export async function GET(req: Request) {
@@ -174,12 +175,11 @@ export async function GET(req: Request) {
       totalPortCount += item.count;
     });
 
-    const utilizationRate =
-      totalPortCount > 0
-        ? (((portsByStatus["occupied"] || 0) + (portsByStatus["reserved"] || 0)) /
-            totalPortCount) *
-          100
-        : 0;
+    // Share of port time actually spent occupied (charging) over the period
+    const utilizationRate = await getUtilizationRate(
+      { isActive: { $ne: false }, ...stationFilter },
+      startDate
+    );
 
     const sourceCounts: Record<string, { count: number; revenue: number }> = {};
     sourceBreakdown.forEach((item: { _id: string; count: number; revenue: number }) => {
@@ -210,7 +210,7 @@ export async function GET(req: Request) {
           totalUsers,
           totalPorts: totalPortCount,
           portsByStatus,
-          utilizationRate: Math.round(utilizationRate * 100) / 100,
+          utilizationRate,
         },
         dailyBookings,
         sourceBreakdown: {
@@ -4,6 +4,11 @@ import dbConnect from "@/lib/db";
 import Booking from "@/lib/models/Booking";
 import Station from "@/lib/models/Station";
 import { verifyAdminRole } from "@/lib/auth";
+import {
+  transitionBooking,
+  BookingTransitionError,
+} from "@/lib/bookingLifecycle";
+import { markTopUpCollected } from "@/lib/billing";
 
 export async function PATCH(
   req: Request,
@@ -22,7 +27,7 @@ export async function PATCH(
 
     const { id } = await params;
     const body = await req.json();
-    const { status } = body;
+    const { status, topUpCollected } = body;
 
     const booking = await Booking.findById(id);
     if (!booking) {
@@ -46,49 +51,32 @@ export async function PATCH(
       }
     }
 
-    const validTransitions: Record<string, string[]> = {
-      pending: ["confirmed", "active", "completed", "cancelled"],
-      confirmed: ["active", "completed", "cancelled", "no-show"],
-      active: ["completed"],
-      completed: [],
-      cancelled: [],
-      "no-show": [],
-    };
+    if (status) {
+      await transitionBooking(booking, status, {
+        actor: "admin",
+        actorId: userId,
+      });
+    }
 
-    if (status && !validTransitions[booking.status]?.includes(status)) {
+    // Attendant collected the balance of a metered session
+    if (topUpCollected && !(await markTopUpCollected(booking))) {
       return NextResponse.json(
-        { error: `Cannot transition from "${booking.status}" to "${status}"` },
+        { error: "Booking has no top-up due" },
         { status: 400 }
       );
     }
 
-    if (status) {
-      booking.status = status;
-    }
+    // Re-read so any refund opened by the transition is included
+    const updated = await Booking.findById(id).lean();
 
-    // Release port if booking is completed/cancelled
-    const sid = String(booking.stationId);
-    if (
-      (status === "completed" || status === "cancelled") &&
-      !sid.startsWith("station-")
-    ) {
-      const isOid = /^[a-f\d]{24}$/i.test(String(booking.portId));
-      const portFilter = isOid
-        ? { "chargingPorts._id": booking.portId }
-        : { "chargingPorts.portNumber": booking.portId };
-      await Station.updateOne(
-        { _id: booking.stationId, ...portFilter } as Record<string, unknown>,
-        {
-          $set: { "chargingPorts.$.status": "available" },
-          $unset: { "chargingPorts.$.currentBookingId": "" },
-        }
+    return NextResponse.json({ booking: updated }, { status: 200 });
+  } catch (error) {
+    if (error instanceof BookingTransitionError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.httpStatus }
       );
     }
-
-    await booking.save();
-
-    return NextResponse.json({ booking }, { status: 200 });
-  } catch (error) {
     console.error("Error updating booking:", error);
     return NextResponse.json(
       { error: "Failed to update booking" },
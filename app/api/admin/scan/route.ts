@@ -5,6 +5,11 @@ import Booking from "@/lib/models/Booking";
 import Station from "@/lib/models/Station";
 import { loadStationFromFile } from "@/lib/stations";
 import { verifyAdminRole } from "@/lib/auth";
+import {
+  transitionBooking,
+  BookingTransitionError,
+  type BookingStatus,
+} from "@/lib/bookingLifecycle";
 
 export async function POST(req: Request) {
   try {
@@ -112,12 +117,13 @@ export async function POST(req: Request) {
         );
       }
 
-      const validTransitions: Record<string, string> = {
+      // Scanning advances the booking one step: check-in, then start charging
+      const scanAdvance: Partial<Record<BookingStatus, BookingStatus>> = {
         pending: "confirmed",
         confirmed: "active",
       };
 
-      const nextStatus = validTransitions[liveBooking.status];
+      const nextStatus = scanAdvance[liveBooking.status];
       if (!nextStatus) {
         return NextResponse.json(
           {
@@ -131,25 +137,11 @@ export async function POST(req: Request) {
         );
       }
 
-      liveBooking.status = nextStatus as "pending" | "confirmed" | "active" | "completed" | "cancelled" | "no-show";
-      await liveBooking.save();
-
-      // If activating, mark port as occupied for DB-based stations
-      if (nextStatus === "active" && !sid.startsWith("station-")) {
-        const isOid = /^[a-f\d]{24}$/i.test(String(booking.portId));
-        const portFilter = isOid
-          ? { "chargingPorts._id": booking.portId }
-          : { "chargingPorts.portNumber": booking.portId };
-        await Station.updateOne(
-          { _id: booking.stationId, ...portFilter } as Record<string, unknown>,
-          {
-            $set: {
-              "chargingPorts.$.status": "occupied",
-              "chargingPorts.$.currentBookingId": liveBooking._id,
-            },
-          }
-        );
-      }
+      await transitionBooking(liveBooking, nextStatus, {
+        actor: "admin",
+        actorId: userId,
+        reason: "qr-scan",
+      });
 
       const updatedBooking = await Booking.findById(parsed.bookingId).lean();
 
@@ -169,6 +161,12 @@ export async function POST(req: Request) {
       { status: 400 }
     );
   } catch (error) {
+    if (error instanceof BookingTransitionError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.httpStatus }
+      );
+    }
     console.error("Error processing QR scan:", error);
     return NextResponse.json(
       { error: "Failed to process QR code" },
@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { findStationOperator } from "@/lib/stationOperators";
+import { sendRemoteCommand, ChargePointError } from "@/lib/ocpp/chargePoints";
+
+/**
+ * POST /api/admin/stations/[id]/charge-points/[chargePointId]/remote
+ * Start or stop charging on one of the charge point's ports
+ * (RemoteStartTransaction / RemoteStopTransaction). Answers once the charge
+ * point has accepted the command; the session itself is reported by the
+ * charge point afterwards. Needs the custom server (server.ts).
+ * Body: { action: "start" | "stop", portId: string }
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string; chargePointId: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await findStationOperator(userId);
+    if (!user) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { id, chargePointId } = await params;
+    const { action, portId } = await req.json();
+    if ((action !== "start" && action !== "stop") || !portId) {
+      return NextResponse.json(
+        { error: "action must be start or stop, with a portId" },
+        { status: 400 }
+      );
+    }
+
+    const response = await sendRemoteCommand(user, id, chargePointId, action, portId);
+
+    return NextResponse.json({ success: true, status: response.status }, { status: 200 });
+  } catch (error) {
+    if (error instanceof ChargePointError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.httpStatus }
+      );
+    }
+    console.error("Error sending remote command:", error);
+    return NextResponse.json(
+      { error: "Failed to send remote command" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,95 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { findStationOperator } from "@/lib/stationOperators";
+import {
+  rotateChargePointPassword,
+  removeChargePoint,
+  ChargePointError,
+} from "@/lib/ocpp/chargePoints";
+
+/**
+ * PATCH /api/admin/stations/[id]/charge-points/[chargePointId]
+ * Rotate the charge point's password. The response carries the new password;
+ * the charge point is disconnected at its next call until it is reconfigured.
+ * Body: { action: "rotate" }
+ */
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ id: string; chargePointId: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await findStationOperator(userId);
+    if (!user) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { id, chargePointId } = await params;
+    const { action } = await req.json();
+    if (action !== "rotate") {
+      return NextResponse.json({ error: "Unknown action" }, { status: 400 });
+    }
+
+    const { chargePoint, password } = await rotateChargePointPassword(
+      user,
+      id,
+      chargePointId
+    );
+
+    return NextResponse.json({ chargePoint, password }, { status: 200 });
+  } catch (error) {
+    if (error instanceof ChargePointError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.httpStatus }
+      );
+    }
+    console.error("Error rotating charge point password:", error);
+    return NextResponse.json(
+      { error: "Failed to rotate charge point password" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/admin/stations/[id]/charge-points/[chargePointId]
+ * Remove the charge point; its connection is refused from then on.
+ */
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ id: string; chargePointId: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await findStationOperator(userId);
+    if (!user) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { id, chargePointId } = await params;
+    await removeChargePoint(user, id, chargePointId);
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error) {
+    if (error instanceof ChargePointError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.httpStatus }
+      );
+    }
+    console.error("Error removing charge point:", error);
+    return NextResponse.json(
+      { error: "Failed to remove charge point" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,100 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { findStationOperator } from "@/lib/stationOperators";
+import {
+  listChargePoints,
+  registerChargePoint,
+  ChargePointError,
+} from "@/lib/ocpp/chargePoints";
+
+/**
+ * GET /api/admin/stations/[id]/charge-points
+ * OCPP charge points registered to the station.
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await findStationOperator(userId);
+    if (!user) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const chargePoints = await listChargePoints(user, id);
+
+    return NextResponse.json({ chargePoints }, { status: 200 });
+  } catch (error) {
+    if (error instanceof ChargePointError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.httpStatus }
+      );
+    }
+    console.error("Error fetching charge points:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch charge points" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/stations/[id]/charge-points
+ * Register a charge point; its connectors 1, 2, … feed `portIds` in order.
+ * The response carries the charge point's password, which is not shown again.
+ * Body: { chargePointId: string, portIds: string[], name?: string }
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await findStationOperator(userId);
+    if (!user) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const { chargePointId, portIds, name } = await req.json();
+    if (typeof chargePointId !== "string" || !Array.isArray(portIds)) {
+      return NextResponse.json(
+        { error: "chargePointId and portIds are required" },
+        { status: 400 }
+      );
+    }
+
+    const { chargePoint, password } = await registerChargePoint(
+      user,
+      id,
+      chargePointId.trim(),
+      portIds.map(String),
+      name
+    );
+
+    return NextResponse.json({ chargePoint, password }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ChargePointError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.httpStatus }
+      );
+    }
+    console.error("Error registering charge point:", error);
+    return NextResponse.json(
+      { error: "Failed to register charge point" },
+      { status: 500 }
+    );
+  }
+}
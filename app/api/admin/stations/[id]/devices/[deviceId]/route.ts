@@ -0,0 +1,91 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { findStationOperator } from "@/lib/stationOperators";
+import {
+  rotateDeviceSecret,
+  removeDevice,
+  HardwareDeviceError,
+} from "@/lib/hardwareDevices";
+
+/**
+ * PATCH /api/admin/stations/[id]/devices/[deviceId]
+ * Rotate the device's secret. The response carries the new secret; the old
+ * one stops working immediately.
+ * Body: { action: "rotate" }
+ */
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ id: string; deviceId: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await findStationOperator(userId);
+    if (!user) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { id, deviceId } = await params;
+    const { action } = await req.json();
+    if (action !== "rotate") {
+      return NextResponse.json({ error: "Unknown action" }, { status: 400 });
+    }
+
+    const { device, secret } = await rotateDeviceSecret(user, id, deviceId);
+
+    return NextResponse.json({ device, secret }, { status: 200 });
+  } catch (error) {
+    if (error instanceof HardwareDeviceError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.httpStatus }
+      );
+    }
+    console.error("Error rotating device secret:", error);
+    return NextResponse.json(
+      { error: "Failed to rotate device secret" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/admin/stations/[id]/devices/[deviceId]
+ * Remove the device; its requests are rejected from then on.
+ */
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ id: string; deviceId: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await findStationOperator(userId);
+    if (!user) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { id, deviceId } = await params;
+    await removeDevice(user, id, deviceId);
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error) {
+    if (error instanceof HardwareDeviceError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.httpStatus }
+      );
+    }
+    console.error("Error removing device:", error);
+    return NextResponse.json(
+      { error: "Failed to remove device" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,91 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { findStationOperator } from "@/lib/stationOperators";
+import {
+  listDevices,
+  registerDevice,
+  HardwareDeviceError,
+} from "@/lib/hardwareDevices";
+
+/**
+ * GET /api/admin/stations/[id]/devices
+ * Hardware devices registered to the station's ports.
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await findStationOperator(userId);
+    if (!user) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const devices = await listDevices(user, id);
+
+    return NextResponse.json({ devices }, { status: 200 });
+  } catch (error) {
+    if (error instanceof HardwareDeviceError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.httpStatus }
+      );
+    }
+    console.error("Error fetching devices:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch devices" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/stations/[id]/devices
+ * Register a device for a port. The response carries the device's secret,
+ * which is not shown again.
+ * Body: { portId: string, name?: string }
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await findStationOperator(userId);
+    if (!user) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const { portId, name } = await req.json();
+    if (!portId) {
+      return NextResponse.json({ error: "portId is required" }, { status: 400 });
+    }
+
+    const { device, secret } = await registerDevice(user, id, portId, name);
+
+    return NextResponse.json({ device, secret }, { status: 201 });
+  } catch (error) {
+    if (error instanceof HardwareDeviceError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.httpStatus }
+      );
+    }
+    console.error("Error registering device:", error);
+    return NextResponse.json(
+      { error: "Failed to register device" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { findStationOperator } from "@/lib/stationOperators";
+import { getStationPortHistory, PortHistoryError } from "@/lib/portStatusHistory";
+import { PORT_HISTORY_DEFAULT_DAYS } from "@/lib/constants";
+
+/**
+ * GET /api/admin/stations/[id]/port-history?days=7
+ * Uptime, availability and time in maintenance of each of the station's
+ * ports over the last `days` days, with their recent status changes.
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await findStationOperator(userId);
+    if (!user) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const { searchParams } = new URL(req.url);
+    const days = Number(searchParams.get("days") || PORT_HISTORY_DEFAULT_DAYS);
+    const history = await getStationPortHistory(user, id, days);
+
+    return NextResponse.json(history, { status: 200 });
+  } catch (error) {
+    if (error instanceof PortHistoryError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.httpStatus }
+      );
+    }
+    console.error("Error fetching port history:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch port history" },
+      { status: 500 }
+    );
+  }
+}
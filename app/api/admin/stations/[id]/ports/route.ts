@@ -1,15 +1,10 @@
 import { NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
-import dbConnect from "@/lib/db";
-import Station from "@/lib/models/Station";
-import User from "@/lib/models/User";
-
-async function verifyAdmin(userId: string) {
-  await dbConnect();
-  const user = await User.findOne({ clerkId: userId });
-  if (!user || (user.role !== "admin" && user.role !== "superadmin")) return null;
-  return user;
-}
+import {
+  findStationOperator,
+  setPortStatus,
+  StationCommandError,
+} from "@/lib/stationCommands";
 
 /**
  * PATCH /api/admin/stations/[id]/ports
@@ -26,65 +21,24 @@ export async function PATCH(
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    const user = await verifyAdmin(userId);
+    const user = await findStationOperator(userId);
     if (!user) {
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
 
     const { id } = await params;
+    const { portId, status } = await req.json();
 
-    // Verify station access
-    const station = await Station.findById(id);
-    if (!station) {
-      return NextResponse.json({ error: "Station not found" }, { status: 404 });
-    }
-
-    if (user.role !== "superadmin" && station.adminId !== userId) {
-      return NextResponse.json(
-        { error: "You can only manage your own stations" },
-        { status: 403 }
-      );
-    }
-
-    const body = await req.json();
-    const { portId, status } = body;
-
-    if (!portId || !status) {
-      return NextResponse.json(
-        { error: "portId and status are required" },
-        { status: 400 }
-      );
-    }
+    const station = await setPortStatus(user, id, portId, status);
 
-    const validStatuses = ["available", "occupied", "maintenance", "reserved"];
-    if (!validStatuses.includes(status)) {
+    return NextResponse.json({ station: station.toObject() }, { status: 200 });
+  } catch (error) {
+    if (error instanceof StationCommandError) {
       return NextResponse.json(
-        { error: `Invalid status. Must be one of: ${validStatuses.join(", ")}` },
-        { status: 400 }
+        { error: error.message },
+        { status: error.httpStatus }
       );
     }
-
-    // Find the port by _id or portNumber
-    const port = station.chargingPorts.find(
-      (p: { _id?: { toString(): string }; portNumber?: string }) =>
-        p._id?.toString() === portId || p.portNumber === portId
-    );
-
-    if (!port) {
-      return NextResponse.json({ error: "Port not found" }, { status: 404 });
-    }
-
-    // Update port status
-    port.status = status;
-    // Clear booking reference if marking as available
-    if (status === "available") {
-      port.currentBookingId = undefined;
-    }
-
-    await station.save();
-
-    return NextResponse.json({ station: station.toObject() }, { status: 200 });
-  } catch (error) {
     console.error("Error updating port status:", error);
     return NextResponse.json(
       { error: "Failed to update port status" },
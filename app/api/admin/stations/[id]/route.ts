@@ -87,8 +87,8 @@ export async function PUT(
     const allowedFields: Record<string, unknown> = {};
     const whitelist = [
       "name", "location", "telephone", "vehicleTypes",
-      "operatingHours", "chargingPorts", "pricing",
-      "amenities", "photos", "isActive",
+      "operatingHours", "closures", "chargingPorts", "pricing",
+      "pricingRules", "cancellationPolicy", "paymentMethods", "amenities", "photos", "isActive",
     ];
     for (const key of whitelist) {
       if (body[key] !== undefined) allowedFields[key] = body[key];
@@ -148,8 +148,8 @@ export async function PATCH(
     const patchable: Record<string, unknown> = {};
     const patchWhitelist = [
       "name", "location", "telephone", "vehicleTypes",
-      "operatingHours", "chargingPorts", "pricing",
-      "amenities", "photos", "isActive",
+      "operatingHours", "closures", "chargingPorts", "pricing",
+      "pricingRules", "cancellationPolicy", "paymentMethods", "amenities", "photos", "isActive",
     ];
     for (const key of patchWhitelist) {
       if (body[key] !== undefined) patchable[key] = body[key];
@@ -97,6 +97,7 @@ export async function POST(req: Request) {
       "operatingHours",
       "chargingPorts",
       "pricing",
+      "pricingRules",
       "photos",
       "description",
     ];
@@ -4,7 +4,12 @@ import dbConnect from "@/lib/db";
 import Booking from "@/lib/models/Booking";
 import Station from "@/lib/models/Station";
 import User from "@/lib/models/User";
-import mongoose from "mongoose";
+import { openBooking, BookingTransitionError } from "@/lib/bookingLifecycle";
+import {
+  startWalkInSession,
+  stopWalkInSession,
+  StationCommandError,
+} from "@/lib/stationCommands";
 
 /**
  * POST /api/admin/walk-in
@@ -32,96 +37,7 @@ export async function POST(req: Request) {
 
     // ── START a walk-in session ──
     if (action === "start") {
-      const { stationId, portId } = body;
-      if (!stationId || !portId) {
-        return NextResponse.json(
-          { error: "Station and port are required" },
-          { status: 400 }
-        );
-      }
-
-      // Convert to ObjectId if valid, keep as string otherwise
-      const stationObjId = mongoose.Types.ObjectId.isValid(stationId)
-        ? new mongoose.Types.ObjectId(stationId)
-        : null;
-      const portObjId = mongoose.Types.ObjectId.isValid(portId)
-        ? new mongoose.Types.ObjectId(portId)
-        : null;
-
-      // Verify station exists in DB
-      const station = stationObjId
-        ? await Station.findById(stationObjId)
-        : null;
-
-      if (!station) {
-        console.error("Walk-in start: station not found", { stationId });
-        return NextResponse.json(
-          { error: "Station not found in database" },
-          { status: 404 }
-        );
-      }
-
-      // Verify ownership for regular admins
-      if (user.role === "admin" && station.adminId !== userId) {
-        console.error("Walk-in start: not authorized", {
-          stationAdminId: station.adminId,
-          userId,
-        });
-        return NextResponse.json(
-          { error: "Not authorized for this station" },
-          { status: 403 }
-        );
-      }
-
-      // Check no active walk-in already on this port (match both ObjectId and string)
-      const portMatches = portObjId ? [portObjId, portId] : [portId];
-      const stationMatches = stationObjId ? [stationObjId, stationId] : [stationId];
-      const existing = await Booking.findOne({
-        stationId: { $in: stationMatches },
-        portId: { $in: portMatches },
-        source: { $in: ["walk-in-manual", "walk-in-qr"] },
-        status: "active",
-      });
-      if (existing) {
-        return NextResponse.json(
-          { error: "This port already has an active walk-in session" },
-          { status: 409 }
-        );
-      }
-
-      const now = new Date();
-      const booking = await Booking.create({
-        userId: `walk-in-${Date.now()}`,
-        userName: "Walk-in",
-        userEmail: "",
-        stationId: stationObjId || stationId,
-        portId: portObjId || portId,
-        startTime: now,
-        endTime: new Date(now.getTime() + 3600000), // placeholder 1h
-        estimatedDuration: 60,
-        status: "active",
-        source: "walk-in-manual",
-        amountPaid: 0,
-        paymentMethod: "cash",
-        customerName: "Walk-in",
-        customerPhone: "",
-        vehicleNumber: "",
-        vehicleType: "",
-        notes: "",
-      });
-
-      // Mark port occupied (non-blocking — don't fail if this doesn't match)
-      try {
-        if (portObjId) {
-          await Station.updateOne(
-            { _id: stationObjId, "chargingPorts._id": portObjId },
-            { $set: { "chargingPorts.$.status": "occupied" } }
-          );
-        }
-      } catch (e) {
-        console.warn("Walk-in: failed to update port status", e);
-      }
-
+      const booking = await startWalkInSession(user, body.stationId, body.portId);
       return NextResponse.json(
         { booking, message: "Walk-in session started" },
         { status: 201 }
@@ -130,69 +46,10 @@ export async function POST(req: Request) {
 
     // ── STOP a walk-in session ──
     if (action === "stop") {
-      const { bookingId } = body;
-      if (!bookingId) {
-        return NextResponse.json(
-          { error: "Booking ID is required" },
-          { status: 400 }
-        );
-      }
-
-      const booking = await Booking.findById(bookingId);
-      if (!booking || booking.status !== "active") {
-        return NextResponse.json(
-          { error: "Active walk-in session not found" },
-          { status: 404 }
-        );
-      }
-
-      // Verify ownership for regular admins
-      if (user.role === "admin") {
-        const stObjId = mongoose.Types.ObjectId.isValid(String(booking.stationId))
-          ? new mongoose.Types.ObjectId(String(booking.stationId))
-          : null;
-        const station = stObjId ? await Station.findById(stObjId) : null;
-        if (!station || station.adminId !== userId) {
-          return NextResponse.json(
-            { error: "Not authorized" },
-            { status: 403 }
-          );
-        }
-      }
-
-      const now = new Date();
-      const durationMs = now.getTime() - new Date(booking.startTime).getTime();
-      const durationMins = Math.max(1, Math.round(durationMs / 60000));
-
-      // Calculate amount from station pricing
-      const stObjId = mongoose.Types.ObjectId.isValid(String(booking.stationId))
-        ? new mongoose.Types.ObjectId(String(booking.stationId))
-        : null;
-      const station = stObjId ? await Station.findById(stObjId) : null;
-      const perHour = station?.pricing?.perHour || 200;
-      const amount = Math.round((durationMs / 3600000) * perHour);
-
-      booking.endTime = now;
-      booking.estimatedDuration = durationMins;
-      booking.amountPaid = amount;
-      booking.status = "completed";
-      await booking.save();
-
-      // Free the port (non-blocking)
-      try {
-        const portObjId = mongoose.Types.ObjectId.isValid(String(booking.portId))
-          ? new mongoose.Types.ObjectId(String(booking.portId))
-          : null;
-        if (stObjId && portObjId) {
-          await Station.updateOne(
-            { _id: stObjId, "chargingPorts._id": portObjId },
-            { $set: { "chargingPorts.$.status": "available" } }
-          );
-        }
-      } catch (e) {
-        console.warn("Walk-in stop: failed to free port", e);
-      }
-
+      const { booking, amount, durationMins } = await stopWalkInSession(
+        user,
+        body.bookingId
+      );
       return NextResponse.json(
         { booking, amount, durationMins, message: "Walk-in session completed" },
         { status: 200 }
@@ -236,31 +93,41 @@ export async function POST(req: Request) {
     const durationMs = end.getTime() - start.getTime();
     const estimatedDuration = Math.max(1, Math.round(durationMs / 60000));
 
-    const booking = await Booking.create({
-      userId: `walk-in-${Date.now()}`,
-      userName: customerName || "Walk-in",
-      userEmail: "",
-      stationId,
-      portId,
-      startTime: start,
-      endTime: end,
-      estimatedDuration,
-      status: "completed",
-      source: "walk-in-manual",
-      amountPaid: amountPaid || 0,
-      paymentMethod: paymentMethod || "cash",
-      customerName: customerName || "Walk-in",
-      customerPhone: customerPhone || "",
-      vehicleNumber: vehicleNumber || "",
-      vehicleType: vehicleType || "",
-      notes: notes || "",
-    });
+    // Logged after the fact, so the booking opens already completed
+    const booking = await openBooking(
+      {
+        userId: `walk-in-${Date.now()}`,
+        userName: customerName || "Walk-in",
+        userEmail: "",
+        stationId,
+        portId,
+        startTime: start,
+        endTime: end,
+        estimatedDuration,
+        status: "completed",
+        source: "walk-in-manual",
+        amountPaid: amountPaid || 0,
+        paymentMethod: paymentMethod || "cash",
+        customerName: customerName || "Walk-in",
+        customerPhone: customerPhone || "",
+        vehicleNumber: vehicleNumber || "",
+        vehicleType: vehicleType || "",
+        notes: notes || "",
+      },
+      { actor: "admin", actorId: userId, reason: "walk-in-log" }
+    );
 
     return NextResponse.json(
       { booking, message: "Walk-in session logged successfully" },
       { status: 201 }
     );
   } catch (error) {
+    if (error instanceof BookingTransitionError || error instanceof StationCommandError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.httpStatus }
+      );
+    }
     console.error("Error in walk-in:", error);
     return NextResponse.json(
       { error: "Failed to process walk-in session" },
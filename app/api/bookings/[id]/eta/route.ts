@@ -3,6 +3,7 @@ import { auth } from "@clerk/nextjs/server";
 import dbConnect from "@/lib/db";
 import Booking from "@/lib/models/Booking";
 import { calculateETA, getStationCoordinates } from "@/lib/eta";
+import { syncBookingReminders } from "@/lib/bookingReminders";
 
 /**
  * PUT /api/bookings/[id]/eta
@@ -73,6 +74,8 @@ export async function PUT(
     booking.userLocation = { lat, lng };
     booking.eta = eta;
     await booking.save();
+    // Move the "leave now" nudge to the new ETA
+    await syncBookingReminders(booking);
 
     return NextResponse.json(
       {
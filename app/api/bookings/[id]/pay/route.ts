@@ -0,0 +1,103 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import dbConnect from "@/lib/db";
+import Booking from "@/lib/models/Booking";
+import Station from "@/lib/models/Station";
+import User from "@/lib/models/User";
+import { getPaymentProvider, checkoutResponse } from "@/lib/payments";
+import {
+  MS_PER_MINUTE,
+  PAYMENT_PENDING_EXPIRY_MINUTES,
+} from "@/lib/constants";
+
+/** Start the checkout for a series occurrence that is paid on its own */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await dbConnect();
+    const { id } = await params;
+
+    const booking = await Booking.findById(id);
+    if (!booking) {
+      return NextResponse.json({ error: "Booking not found" }, { status: 404 });
+    }
+    if (booking.userId !== userId) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const provider = getPaymentProvider(booking.paymentMethod);
+    if (
+      !booking.seriesId ||
+      booking.status !== "pending" ||
+      booking.paymentAmount != null ||
+      !provider
+    ) {
+      return NextResponse.json(
+        { error: "This booking can't be paid separately" },
+        { status: 400 }
+      );
+    }
+    if (booking.startTime <= new Date()) {
+      return NextResponse.json(
+        { error: "This session has already started" },
+        { status: 400 }
+      );
+    }
+    if (!provider.isConfigured()) {
+      return NextResponse.json(
+        { error: "Payment gateway is not configured. Please contact the administrator." },
+        { status: 503 }
+      );
+    }
+
+    const [user, station] = await Promise.all([
+      User.findOne({ clerkId: userId }),
+      Station.findById(booking.stationId).select("name").lean(),
+    ]);
+
+    const origin = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+    const payment = await provider.initiate({
+      booking,
+      amount: booking.amountPaid ?? 0,
+      orderName: `Charging – ${station?.name ?? "EV station"}`,
+      customer: {
+        name: user?.name ?? booking.userName,
+        email: user?.email ?? booking.userEmail,
+        phone: user?.phone || undefined,
+      },
+      returnUrl: `${origin}/booking/confirmation/${booking._id}`,
+      websiteUrl: origin,
+    });
+
+    // The checkout link is live from now, so the usual expiry applies
+    Object.assign(booking, payment.set);
+    booking.paymentDueAt = new Date(
+      Date.now() + PAYMENT_PENDING_EXPIRY_MINUTES * MS_PER_MINUTE
+    );
+    await booking.save();
+
+    return NextResponse.json(
+      {
+        bookingId: booking._id,
+        paymentMethod: provider.method,
+        ...checkoutResponse(payment),
+        amount: booking.amountPaid,
+        currency: "NPR",
+      },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    console.error("Error starting occurrence payment:", error);
+    return NextResponse.json(
+      { error: error?.message || "Failed to start payment" },
+      { status: 500 }
+    );
+  }
+}
@@ -4,6 +4,7 @@ import dbConnect from "@/lib/db";
 import Booking from "@/lib/models/Booking";
 import User from "@/lib/models/User";
 import { calculateETA, getStationCoordinates } from "@/lib/eta";
+import { syncBookingReminders } from "@/lib/bookingReminders";
 
 /**
  * POST /api/bookings/[id]/refresh-eta
@@ -69,6 +70,8 @@ export async function POST(
     booking.userLocation = userLocation;
     booking.eta = newETA;
     await booking.save();
+    // Move the "leave now" nudge to the new ETA
+    await syncBookingReminders(booking);
 
     return NextResponse.json(
       { booking, message: "ETA refreshed successfully" },
@@ -3,8 +3,12 @@ import { auth } from "@clerk/nextjs/server";
 import dbConnect from "@/lib/db";
 import { loadStationFromFile } from "@/lib/stations";
 import Booking from "@/lib/models/Booking";
-import Station from "@/lib/models/Station";
 import User from "@/lib/models/User";
+import {
+  transitionBooking,
+  BookingTransitionError,
+  type BookingActor,
+} from "@/lib/bookingLifecycle";
 
 export async function GET(
   req: Request,
@@ -47,7 +51,7 @@ export async function GET(
 
     // For DB-based stations, populate
     const populated = await Booking.findById(id)
-      .populate("stationId", "name location chargingPorts pricing photos")
+      .populate("stationId", "name location chargingPorts pricing cancellationPolicy photos")
       .lean();
 
     return NextResponse.json({ booking: populated }, { status: 200 });
@@ -83,57 +87,27 @@ export async function PUT(
       );
     }
 
+    let actor: BookingActor = "user";
     if (booking.userId !== userId) {
       const user = await User.findOne({ clerkId: userId });
       if (!user || (user.role !== "admin" && user.role !== "superadmin")) {
         return NextResponse.json({ error: "Forbidden" }, { status: 403 });
       }
+      actor = "admin";
     }
-
-    const validTransitions: Record<string, string[]> = {
-      pending: ["confirmed", "cancelled"],
-      confirmed: ["active", "cancelled", "no-show"],
-      active: ["completed"],
-      completed: [],
-      cancelled: [],
-      "no-show": [],
-    };
-
-    if (
-      status &&
-      !validTransitions[booking.status]?.includes(status)
-    ) {
+    if (status && actor === "user" && status !== "cancelled") {
       return NextResponse.json(
-        {
-          error: `Cannot transition from "${booking.status}" to "${status}"`,
-        },
-        { status: 400 }
+        { error: "You can only cancel your booking" },
+        { status: 403 }
       );
     }
 
     if (status) {
-      booking.status = status;
+      await transitionBooking(booking, status, { actor, actorId: userId });
     }
 
-    // Only update port status for DB-based stations
-    const sid = String(booking.stationId);
-    if ((status === "completed" || status === "cancelled") && !sid.startsWith("station-")) {
-      const isOid = /^[a-f\d]{24}$/i.test(String(booking.portId));
-      const portFilter = isOid
-        ? { "chargingPorts._id": booking.portId }
-        : { "chargingPorts.portNumber": booking.portId };
-      await Station.updateOne(
-        { _id: booking.stationId, ...portFilter } as Record<string, unknown>,
-        {
-          $set: { "chargingPorts.$.status": "available" },
-          $unset: { "chargingPorts.$.currentBookingId": "" },
-        }
-      );
-    }
-
-    await booking.save();
-
     // Enrich with station data
+    const sid = String(booking.stationId);
     if (sid.startsWith("station-")) {
       const updatedBooking = await Booking.findById(id).lean();
       const stationData = loadStationFromFile(sid);
@@ -144,11 +118,17 @@ export async function PUT(
     }
 
     const populated = await Booking.findById(id)
-      .populate("stationId", "name location chargingPorts pricing photos")
+      .populate("stationId", "name location chargingPorts pricing cancellationPolicy photos")
       .lean();
 
     return NextResponse.json({ booking: populated }, { status: 200 });
   } catch (error) {
+    if (error instanceof BookingTransitionError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.httpStatus }
+      );
+    }
     console.error("Error updating booking:", error);
     return NextResponse.json(
       { error: "Failed to update booking" },
@@ -181,48 +161,21 @@ export async function PATCH(
       return NextResponse.json({ error: "Booking not found" }, { status: 404 });
     }
 
+    let actor: BookingActor = "user";
     if (booking.userId !== userId) {
       const user = await User.findOne({ clerkId: userId });
       if (!user || (user.role !== "admin" && user.role !== "superadmin")) {
         return NextResponse.json({ error: "Forbidden" }, { status: 403 });
       }
+      actor = "admin";
     }
-
-    const validTransitions: Record<string, string[]> = {
-      pending: ["confirmed", "cancelled"],
-      confirmed: ["active", "cancelled", "no-show"],
-      active: ["completed"],
-      completed: [],
-      cancelled: [],
-      "no-show": [],
-    };
-
-    if (!validTransitions[booking.status]?.includes(status)) {
-      return NextResponse.json(
-        { error: `Cannot transition from "${booking.status}" to "${status}"` },
-        { status: 400 }
-      );
+    if (actor === "user" && status !== "cancelled") {
+      return NextResponse.json({ error: "You can only cancel your booking" }, { status: 403 });
     }
 
-    booking.status = status;
+    await transitionBooking(booking, status, { actor, actorId: userId });
 
     const sid = String(booking.stationId);
-    if ((status === "completed" || status === "cancelled") && !sid.startsWith("station-")) {
-      const isOid = /^[a-f\d]{24}$/i.test(String(booking.portId));
-      const portFilter = isOid
-        ? { "chargingPorts._id": booking.portId }
-        : { "chargingPorts.portNumber": booking.portId };
-      await Station.updateOne(
-        { _id: booking.stationId, ...portFilter } as Record<string, unknown>,
-        {
-          $set: { "chargingPorts.$.status": "available" },
-          $unset: { "chargingPorts.$.currentBookingId": "" },
-        }
-      );
-    }
-
-    await booking.save();
-
     if (sid.startsWith("station-")) {
       const stationData = loadStationFromFile(sid);
       const updated = await Booking.findById(id).lean();
@@ -230,11 +183,14 @@ export async function PATCH(
     }
 
     const populated = await Booking.findById(id)
-      .populate("stationId", "name location chargingPorts pricing photos")
+      .populate("stationId", "name location chargingPorts pricing cancellationPolicy photos")
       .lean();
 
     return NextResponse.json({ booking: populated }, { status: 200 });
   } catch (error) {
+    if (error instanceof BookingTransitionError) {
+      return NextResponse.json({ error: error.message }, { status: error.httpStatus });
+    }
     console.error("Error updating booking:", error);
     return NextResponse.json({ error: "Failed to update booking" }, { status: 500 });
   }
@@ -261,11 +217,13 @@ export async function DELETE(
       );
     }
 
+    let actor: BookingActor = "user";
     if (booking.userId !== userId) {
       const user = await User.findOne({ clerkId: userId });
       if (!user || (user.role !== "admin" && user.role !== "superadmin")) {
         return NextResponse.json({ error: "Forbidden" }, { status: 403 });
       }
+      actor = "admin";
     }
 
     if (booking.status === "active") {
@@ -275,30 +233,20 @@ export async function DELETE(
       );
     }
 
-    booking.status = "cancelled";
-    await booking.save();
-
-    // Only update port status for DB-based stations
-    const sid = String(booking.stationId);
-    if (!sid.startsWith("station-")) {
-      const isOid = /^[a-f\d]{24}$/i.test(String(booking.portId));
-      const portFilter = isOid
-        ? { "chargingPorts._id": booking.portId }
-        : { "chargingPorts.portNumber": booking.portId };
-      await Station.updateOne(
-        { _id: booking.stationId, ...portFilter } as Record<string, unknown>,
-        {
-          $set: { "chargingPorts.$.status": "available" },
-          $unset: { "chargingPorts.$.currentBookingId": "" },
-        }
-      );
-    }
+    await transitionBooking(booking, "cancelled", { actor, actorId: userId });
+    const cancelled = await Booking.findById(id).select("refund").lean();
 
     return NextResponse.json(
-      { message: "Booking cancelled successfully" },
+      { message: "Booking cancelled successfully", refund: cancelled?.refund ?? null },
       { status: 200 }
     );
   } catch (error) {
+    if (error instanceof BookingTransitionError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.httpStatus }
+      );
+    }
     console.error("Error cancelling booking:", error);
     return NextResponse.json(
       { error: "Failed to cancel booking" },
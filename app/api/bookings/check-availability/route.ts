@@ -3,6 +3,9 @@ import dbConnect from "@/lib/db";
 import { loadStationFromFile } from "@/lib/stations";
 import Booking from "@/lib/models/Booking";
 import Station from "@/lib/models/Station";
+import { isMetered, type StationTariff } from "@/lib/tariff";
+import { quoteSession, PromoCodeError } from "@/lib/pricing";
+import { slotClosedReason } from "@/lib/operatingHours";
 
 export async function POST(req: Request) {
   try {
@@ -24,7 +27,6 @@ export async function POST(req: Request) {
         { status: 400 }
       );
     }
-    const durationHours = durationMinutes / 60;
 
     const startDate = new Date(startTime);
     if (isNaN(startDate.getTime())) {
@@ -60,10 +62,11 @@ export async function POST(req: Request) {
     }
 
     // Check port status - only "available" ports can be booked
-    const unavailableStatuses = ["maintenance", "disabled", "reserved", "in-use"];
+    const unavailableStatuses = ["maintenance", "offline", "disabled", "reserved", "in-use"];
     if (unavailableStatuses.includes(port.status)) {
       const statusLabels: Record<string, string> = {
         maintenance: "Port is under maintenance",
+        offline: "Port's charger is offline",
         disabled: "Port is disabled",
         reserved: "Port is already reserved",
         "in-use": "Port is currently in use",
@@ -81,6 +84,14 @@ export async function POST(req: Request) {
     const start = startDate;
     const end = new Date(start.getTime() + durationMinutes * 60 * 1000);
 
+    const closedReason = slotClosedReason(station, start, end);
+    if (closedReason) {
+      return NextResponse.json(
+        { available: false, reason: closedReason },
+        { status: 200 }
+      );
+    }
+
     // Only check DB overlaps if station is in DB (not file-based)
     if (!stationId.startsWith("station-")) {
       await dbConnect();
@@ -106,7 +117,23 @@ export async function POST(req: Request) {
       }
     }
 
-    const pricing = station.pricing as { perHour: number };
+    const pricing = station.pricing as StationTariff;
+    let quote;
+    try {
+      quote = quoteSession({
+        tariff: pricing,
+        rules: "pricingRules" in station ? station.pricingRules : undefined,
+        port,
+        start,
+        durationMinutes,
+        promoCode: body.promoCode,
+      });
+    } catch (error) {
+      if (error instanceof PromoCodeError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
 
     return NextResponse.json(
       {
@@ -124,9 +151,12 @@ export async function POST(req: Request) {
         },
         estimatedCost: {
           perHour: pricing.perHour,
-          total: pricing.perHour * durationHours,
+          billingMode: pricing.billingMode ?? "hourly",
+          metered: isMetered(pricing),
+          total: quote.total,
           currency: "NPR",
         },
+        quote,
       },
       { status: 200 }
     );
@@ -0,0 +1,76 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import dbConnect from "@/lib/db";
+import Booking from "@/lib/models/Booking";
+import BookingSeries from "@/lib/models/BookingSeries";
+import User from "@/lib/models/User";
+import {
+  skipOccurrence,
+  cancelRemainingOccurrences,
+  BookingSeriesError,
+} from "@/lib/bookingSeries";
+import {
+  BookingTransitionError,
+  type BookingActor,
+} from "@/lib/bookingLifecycle";
+
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await dbConnect();
+    const { id } = await params;
+    const { action, bookingId } = await req.json();
+
+    const series = await BookingSeries.findById(id);
+    if (!series) {
+      return NextResponse.json({ error: "Series not found" }, { status: 404 });
+    }
+
+    let actor: BookingActor = "user";
+    if (series.userId !== userId) {
+      const user = await User.findOne({ clerkId: userId });
+      if (!user || (user.role !== "admin" && user.role !== "superadmin")) {
+        return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+      }
+      actor = "admin";
+    }
+
+    if (action === "skip") {
+      const booking = await Booking.findOne({ _id: bookingId, seriesId: series._id });
+      if (!booking) {
+        return NextResponse.json({ error: "Booking not found" }, { status: 404 });
+      }
+      const skipped = await skipOccurrence(booking, actor, userId);
+      return NextResponse.json({ booking: skipped }, { status: 200 });
+    }
+
+    if (action === "cancel_remaining") {
+      const cancelled = await cancelRemainingOccurrences(series, actor, userId);
+      return NextResponse.json({ series, cancelled }, { status: 200 });
+    }
+
+    return NextResponse.json(
+      { error: 'action must be "skip" or "cancel_remaining"' },
+      { status: 400 }
+    );
+  } catch (error) {
+    if (error instanceof BookingTransitionError || error instanceof BookingSeriesError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.httpStatus }
+      );
+    }
+    console.error("Error updating booking series:", error);
+    return NextResponse.json(
+      { error: "Failed to update booking series" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,293 @@
+import { NextResponse } from "next/server";
+import { auth, currentUser } from "@clerk/nextjs/server";
+import dbConnect from "@/lib/db";
+import Station from "@/lib/models/Station";
+import User from "@/lib/models/User";
+import Booking from "@/lib/models/Booking";
+import BookingSeries, { type IRecurrencePattern } from "@/lib/models/BookingSeries";
+import {
+  getPaymentProvider,
+  stationPaymentMethods,
+  checkoutResponse,
+} from "@/lib/payments";
+import {
+  expandRecurrence,
+  normalizeSlots,
+  findSlotConflicts,
+  openSeries,
+  BookingSeriesError,
+  type OpenedSeries,
+  type OccurrenceConflict,
+} from "@/lib/bookingSeries";
+import { PromoCodeError } from "@/lib/pricing";
+import { transitionBooking } from "@/lib/bookingLifecycle";
+import QRCode from "qrcode";
+import mongoose from "mongoose";
+
+export async function GET() {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await dbConnect();
+
+    const series = await BookingSeries.find({ userId })
+      .sort({ createdAt: -1 })
+      .limit(20)
+      .lean();
+
+    const occurrences = await Booking.find({
+      seriesId: { $in: series.map((s) => s._id) },
+    })
+      .select("seriesId startTime endTime status amountPaid paymentAmount paymentDueAt paymentMethod khaltiPidx esewaTransactionUuid")
+      .sort({ startTime: 1 })
+      .lean();
+
+    const stations = await Station.find({
+      _id: { $in: [...new Set(series.map((s) => s.stationId))] },
+    })
+      .select("name chargingPorts.portNumber chargingPorts._id")
+      .lean();
+
+    const enriched = series.map((s) => {
+      const station = stations.find((st) => String(st._id) === s.stationId);
+      const port = station?.chargingPorts?.find(
+        (p) => String(p._id ?? p.portNumber) === s.portId
+      );
+      return {
+        ...s,
+        stationName: station?.name,
+        portNumber: port?.portNumber,
+        occurrences: occurrences.filter((b) => String(b.seriesId) === String(s._id)),
+      };
+    });
+
+    return NextResponse.json({ series: enriched }, { status: 200 });
+  } catch (error) {
+    console.error("Error fetching booking series:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch booking series" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await dbConnect();
+
+    let user = await User.findOne({ clerkId: userId });
+    if (!user) {
+      const clerkUser = await currentUser();
+      if (!clerkUser) {
+        return NextResponse.json({ error: "User not found" }, { status: 404 });
+      }
+      user = await User.create({
+        clerkId: userId,
+        email: clerkUser.emailAddresses[0]?.emailAddress || "",
+        name: `${clerkUser.firstName || ""} ${clerkUser.lastName || ""}`.trim() || "User",
+        role: "user",
+        favoriteStations: [],
+      });
+    }
+
+    const body = await req.json();
+    const { stationId, portId, estimatedDuration, pattern, slots } = body;
+
+    if (!stationId || !portId || !estimatedDuration || (!pattern && !Array.isArray(slots))) {
+      return NextResponse.json(
+        { error: "stationId, portId, estimatedDuration and either pattern or slots are required" },
+        { status: 400 }
+      );
+    }
+
+    // Series are tracked against registered stations only
+    if (stationId.startsWith("station-")) {
+      return NextResponse.json(
+        { error: "Recurring bookings are not available at this station" },
+        { status: 400 }
+      );
+    }
+
+    const station = await Station.findById(stationId);
+    if (!station) {
+      return NextResponse.json({ error: "Station not found" }, { status: 404 });
+    }
+
+    const acceptedMethods = stationPaymentMethods(station);
+    const paymentMethod = body.paymentMethod ?? acceptedMethods[0];
+    const provider = getPaymentProvider(paymentMethod);
+    if (!provider || !acceptedMethods.includes(provider.method)) {
+      return NextResponse.json(
+        { error: "This station does not accept the selected payment method" },
+        { status: 400 }
+      );
+    }
+
+    if (!provider.isConfigured()) {
+      return NextResponse.json(
+        { error: "Payment gateway is not configured. Please contact the administrator." },
+        { status: 503 }
+      );
+    }
+
+    const port = station.chargingPorts?.find(
+      (p) => String(p._id || p.portNumber) === portId
+    );
+    if (!port) {
+      return NextResponse.json({ error: "Port not found" }, { status: 404 });
+    }
+    const canonicalPortId = String(port._id || port.portNumber);
+
+    const durationMinutes = Number(estimatedDuration);
+    const paymentMode = body.paymentMode === "per_occurrence" ? "per_occurrence" : "single";
+    const recurrence: IRecurrencePattern | undefined = pattern && {
+      frequency: pattern.frequency === "weekly" ? "weekly" : "daily",
+      daysOfWeek: (pattern.daysOfWeek ?? []).map(Number),
+      time: pattern.time,
+      startDate: pattern.startDate,
+      endDate: pattern.endDate,
+    };
+
+    const session = await mongoose.startSession();
+    session.startTransaction();
+
+    let opened: OpenedSeries;
+    let skipped: OccurrenceConflict[];
+    try {
+      const requested = recurrence
+        ? expandRecurrence(recurrence, durationMinutes)
+        : normalizeSlots(slots, durationMinutes);
+      if (requested.length === 0) {
+        throw new BookingSeriesError("No sessions to book");
+      }
+
+      // Each occurrence is checked on its own; the driver decides whether to
+      // book the rest when some can't be
+      skipped = await findSlotConflicts(station, canonicalPortId, requested, session);
+      if (skipped.length > 0 && !body.skipConflicts) {
+        await session.abortTransaction();
+        return NextResponse.json(
+          { error: "Some sessions can't be booked", conflicts: skipped },
+          { status: 409 }
+        );
+      }
+      const bookable = requested.filter(
+        (slot) => !skipped.some((c) => c.startTime.getTime() === slot.start.getTime())
+      );
+      if (bookable.length === 0) {
+        throw new BookingSeriesError("None of the requested sessions can be booked", 409);
+      }
+
+      opened = await openSeries({
+        station,
+        port,
+        slots: bookable,
+        user: { clerkId: userId, name: user.name, email: user.email },
+        kind: recurrence ? "recurring" : "multi",
+        pattern: recurrence,
+        durationMinutes,
+        paymentMethod: provider.method,
+        paymentMode,
+        promoCode: body.promoCode,
+        session,
+      });
+
+      await session.commitTransaction();
+    } catch (transactionError) {
+      if (session.inTransaction()) await session.abortTransaction();
+      if (
+        transactionError instanceof BookingSeriesError ||
+        transactionError instanceof PromoCodeError
+      ) {
+        const status =
+          transactionError instanceof BookingSeriesError ? transactionError.httpStatus : 400;
+        return NextResponse.json({ error: transactionError.message }, { status });
+      }
+      throw transactionError;
+    } finally {
+      session.endSession();
+    }
+
+    const { series, bookings, quotes, total } = opened;
+    for (const booking of bookings) {
+      booking.qrCode = await QRCode.toDataURL(
+        JSON.stringify({
+          bookingId: booking._id,
+          stationId,
+          portId: canonicalPortId,
+          startTime: booking.startTime.toISOString(),
+          endTime: booking.endTime.toISOString(),
+        })
+      );
+    }
+
+    const origin = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+    const [first] = bookings;
+    const amount = paymentMode === "single" ? total : quotes[0].total;
+
+    // One checkout covers the whole series, or just the first occurrence
+    const payment = await provider.initiate({
+      booking: first,
+      amount,
+      orderName:
+        paymentMode === "single"
+          ? `Charging – ${station.name} (${bookings.length} sessions)`
+          : `Charging – ${station.name}`,
+      customer: {
+        name: user.name,
+        email: user.email,
+        phone: user.phone || undefined,
+      },
+      returnUrl: `${origin}/booking/confirmation/${first._id}`,
+      websiteUrl: origin,
+    });
+
+    const paidTogether = paymentMode === "single" ? bookings : [first];
+    for (const booking of bookings) {
+      if (paidTogether.includes(booking)) Object.assign(booking, payment.set);
+      await booking.save();
+    }
+
+    // Pay-at-station series confirm every slot right away; each occurrence
+    // reserves its port only as its slot comes up
+    if (payment.confirmNow) {
+      for (const [i, booking] of bookings.entries()) {
+        bookings[i] = await transitionBooking(booking, "confirmed", {
+          actor: "payment",
+          reason: `${provider.method}:pay-at-station`,
+        });
+      }
+    }
+
+    return NextResponse.json(
+      {
+        seriesId: series._id,
+        bookingId: first._id,
+        bookingIds: bookings.map((b) => b._id),
+        paymentMethod: provider.method,
+        paymentMode,
+        bookingStatus: bookings[0].status,
+        ...checkoutResponse(payment),
+        amount,
+        total,
+        currency: "NPR",
+        skipped,
+      },
+      { status: 200 }
+    );
+  } catch (error: any) {
+    console.error("Error booking series:", error);
+    return NextResponse.json(
+      { error: error?.message || "Failed to book series" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { registerJobs } from "@/lib/jobs";
+import { getJob, runJob } from "@/lib/scheduler";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/**
+ * GET /api/cron/[job]
+ *
+ * Runs a registered background job once. Intended for external cron
+ * triggers (e.g. Vercel Cron) where the in-process scheduler can't run.
+ * Requires `Authorization: Bearer <CRON_SECRET>`.
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ job: string }> }
+) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { job } = await params;
+  registerJobs();
+
+  if (!getJob(job)) {
+    return NextResponse.json({ error: "Job not found" }, { status: 404 });
+  }
+
+  try {
+    const result = await runJob(job);
+    return NextResponse.json({ job, result });
+  } catch (error) {
+    console.error(`Cron job "${job}" failed:`, error);
+    return NextResponse.json(
+      { error: "Job failed" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { verifyDeviceRequest, HardwareAuthError } from "@/lib/hardwareAuth";
+import { recordDeviceContact } from "@/lib/deviceHealth";
+
+interface HeartbeatBody {
+  stationId: string;
+  portId: string;
+  firmwareVersion?: string;
+}
+
+/**
+ * POST /api/hardware/heartbeat
+ *
+ * Periodic liveness signal from a registered device, signed like port
+ * updates. Records the firmware version; a device whose port the watchdog
+ * marked offline brings it back to its previous status.
+ * Body: { stationId, portId, firmwareVersion? }
+ */
+export async function POST(req: Request) {
+  try {
+    const { device, body } = await verifyDeviceRequest<HeartbeatBody>(req);
+    const recovered = await recordDeviceContact(device, {
+      firmwareVersion: body.firmwareVersion,
+    });
+
+    return NextResponse.json({ success: true, recovered });
+  } catch (error) {
+    if (error instanceof HardwareAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.httpStatus }
+      );
+    }
+    console.error("Hardware heartbeat error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
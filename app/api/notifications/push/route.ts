@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import {
+  parsePushSubscription,
+  PushSubscriptionError,
+  removePushSubscription,
+  savePushSubscription,
+} from "@/lib/webPush";
+
+/** POST — store this browser's push subscription. Body: { subscription } */
+export async function POST(req: Request) {
+  try {
+    const { userId } = await auth();
+    if (!userId)
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const body = await req.json().catch(() => ({}));
+    const subscription = parsePushSubscription(body.subscription);
+    await savePushSubscription(
+      userId,
+      subscription,
+      req.headers.get("user-agent") ?? undefined
+    );
+
+    return NextResponse.json({ success: true }, { status: 201 });
+  } catch (error) {
+    if (error instanceof PushSubscriptionError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.httpStatus }
+      );
+    }
+    console.error("Push subscription POST error:", error);
+    return NextResponse.json(
+      { error: "Failed to save push subscription" },
+      { status: 500 }
+    );
+  }
+}
+
+/** DELETE — forget this browser's push subscription. Body: { endpoint } */
+export async function DELETE(req: Request) {
+  try {
+    const { userId } = await auth();
+    if (!userId)
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const body = await req.json().catch(() => ({}));
+    if (typeof body.endpoint !== "string") {
+      return NextResponse.json(
+        { error: "endpoint is required" },
+        { status: 400 }
+      );
+    }
+    await removePushSubscription(userId, body.endpoint);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Push subscription DELETE error:", error);
+    return NextResponse.json(
+      { error: "Failed to remove push subscription" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+import { verifyChargePointRequest, HardwareAuthError } from "@/lib/hardwareAuth";
+import { handleChargePointCall } from "@/lib/ocpp/handlers";
+import {
+  isChargePointAction,
+  OcppError,
+  type ForwardedCallResponse,
+} from "@/lib/ocpp/protocol";
+
+interface ForwardedCall {
+  action: string;
+  payload: Record<string, unknown>;
+}
+
+/**
+ * POST /api/ocpp/[chargePointId]
+ *
+ * Called by the OCPP central system (lib/ocpp/centralSystem) with each call
+ * its charge point makes; not by charge points themselves. Requests are
+ * signed with the charge point's password (see lib/hardwareAuth).
+ * Body: { action: string, payload: object }
+ * Returns { result } for a CALLRESULT or { error: { code, description } }
+ * for a CALLERROR.
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ chargePointId: string }> }
+) {
+  try {
+    const { chargePointId } = await params;
+    const { chargePoint, body } = await verifyChargePointRequest<ForwardedCall>(
+      req,
+      chargePointId
+    );
+
+    if (!isChargePointAction(body.action)) {
+      throw new OcppError("NotImplemented", `${body.action} is not supported`);
+    }
+    const result = await handleChargePointCall(
+      chargePoint,
+      body.action,
+      body.payload ?? {}
+    );
+
+    return NextResponse.json<ForwardedCallResponse>({
+      result: result as Record<string, unknown>,
+    });
+  } catch (error) {
+    if (error instanceof OcppError) {
+      return NextResponse.json<ForwardedCallResponse>(
+        { error: { code: error.code, description: error.message } },
+        { status: 400 }
+      );
+    }
+    if (error instanceof HardwareAuthError) {
+      return NextResponse.json<ForwardedCallResponse>(
+        { error: { code: "SecurityError", description: error.message } },
+        { status: error.httpStatus }
+      );
+    }
+    console.error("OCPP call error:", error);
+    return NextResponse.json<ForwardedCallResponse>(
+      { error: { code: "InternalError", description: "Internal server error" } },
+      { status: 500 }
+    );
+  }
+}
@@ -4,9 +4,18 @@ import dbConnect from "@/lib/db";
 import Station from "@/lib/models/Station";
 import User from "@/lib/models/User";
 import Booking from "@/lib/models/Booking";
-import { khaltiInitiate } from "@/lib/khalti";
+import {
+  getPaymentProvider,
+  stationPaymentMethods,
+  checkoutResponse,
+} from "@/lib/payments";
 import { loadStationFromFile } from "@/lib/stations";
 import { calculateETA } from "@/lib/eta";
+import { quoteSession, PromoCodeError } from "@/lib/pricing";
+import { slotClosedReason } from "@/lib/operatingHours";
+import { openBooking, transitionBooking } from "@/lib/bookingLifecycle";
+import { assertNoQueueHold, QueueError } from "@/lib/queue";
+import { claimQueueTurn } from "@/lib/queueTurns";
 import QRCode from "qrcode";
 import type { IStationDocument } from "@/lib/models/Station";
 import mongoose from "mongoose";
@@ -47,11 +56,20 @@ export async function POST(req: Request) {
       );
     }
 
-    // Fail fast if Khalti is not configured
-    if (!process.env.KHALTI_SECRET_KEY) {
+    // Same bounds check-availability quoted under
+    const durationMinutes = Number(estimatedDuration);
+    if (isNaN(durationMinutes) || durationMinutes <= 0 || durationMinutes > 1440) {
       return NextResponse.json(
-        { error: "Payment gateway is not configured. Please contact the administrator." },
-        { status: 503 }
+        { error: "estimatedDuration must be between 1 and 1440 minutes" },
+        { status: 400 }
+      );
+    }
+
+    const start = new Date(startTime);
+    if (isNaN(start.getTime())) {
+      return NextResponse.json(
+        { error: "Invalid startTime format" },
+        { status: 400 }
       );
     }
 
@@ -72,6 +90,25 @@ export async function POST(req: Request) {
       );
     }
 
+    // The driver picks a method; default to the first one the station accepts
+    const acceptedMethods = stationPaymentMethods(station);
+    const paymentMethod = body.paymentMethod ?? acceptedMethods[0];
+    const provider = getPaymentProvider(paymentMethod);
+    if (!provider || !acceptedMethods.includes(provider.method)) {
+      return NextResponse.json(
+        { error: "This station does not accept the selected payment method" },
+        { status: 400 }
+      );
+    }
+
+    // Fail fast if the provider is not configured
+    if (!provider.isConfigured()) {
+      return NextResponse.json(
+        { error: "Payment gateway is not configured. Please contact the administrator." },
+        { status: 503 }
+      );
+    }
+
     const port = station.chargingPorts?.find(
       (p: any) => String(p._id || p.portNumber) === portId
     );
@@ -82,16 +119,45 @@ export async function POST(req: Request) {
     // Normalize portId to the canonical _id so overlap checks are consistent
     const canonicalPortId = String(port._id || port.portNumber || portId);
 
-    const perHourNPR = station.pricing?.perHour ?? 200;
-    const durationMinutes = Number(estimatedDuration);
-    const totalAmountNPR = Math.round(perHourNPR * (durationMinutes / 60));
-    const totalAmountPaisa = Math.round(totalAmountNPR * 100);
+    // Priced exactly as check-availability quoted it. Metered tariffs prepay
+    // an estimate; the session is billed from the meter on completion
+    let quote;
+    try {
+      quote = quoteSession({
+        tariff: station.pricing,
+        rules: station.pricingRules,
+        port,
+        start,
+        durationMinutes,
+        promoCode: body.promoCode,
+      });
+    } catch (error) {
+      if (error instanceof PromoCodeError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+    const totalAmountNPR = quote.total;
 
     // Create a pending booking first so we have a bookingId for the return URL
     // Use transactions to prevent race conditions on concurrent booking requests
-    const start = new Date(startTime);
     const end = new Date(start.getTime() + durationMinutes * 60 * 1000);
 
+    const closedReason = slotClosedReason(station, start, end);
+    if (closedReason) {
+      return NextResponse.json({ error: closedReason }, { status: 400 });
+    }
+
+    // A port offered to the next driver in the queue is theirs until their turn ends
+    try {
+      await assertNoQueueHold(stationId, canonicalPortId, userId, start);
+    } catch (error) {
+      if (error instanceof QueueError) {
+        return NextResponse.json({ error: error.message }, { status: error.httpStatus });
+      }
+      throw error;
+    }
+
     // Start a session for transaction
     const session = await mongoose.startSession();
     session.startTransaction();
@@ -116,23 +182,21 @@ export async function POST(req: Request) {
       }
 
       // Create booking within transaction
-      booking = await Booking.create(
-        [
-          {
-            userId,
-            userName: user.name,
-            userEmail: user.email,
-            stationId,
-            portId: canonicalPortId,
-            startTime: start,
-            estimatedDuration: durationMinutes,
-            endTime: end,
-            status: "pending",
-          },
-        ],
-        { session }
+      booking = await openBooking(
+        {
+          userId,
+          userName: user.name,
+          userEmail: user.email,
+          stationId,
+          portId: canonicalPortId,
+          startTime: start,
+          estimatedDuration: durationMinutes,
+          endTime: end,
+          status: "pending",
+          paymentMethod: provider.method,
+        },
+        { actor: "user", actorId: userId, session }
       );
-      booking = booking[0]; // Create returns array when using session
 
       await session.commitTransaction();
     } catch (transactionError) {
@@ -142,6 +206,9 @@ export async function POST(req: Request) {
       session.endSession();
     }
 
+    // Booking uses up the driver's place in this station's queue
+    await claimQueueTurn(stationId, userId, canonicalPortId, booking._id);
+
     // Calculate ETA if user location is provided
     if (userLocation?.lat && userLocation?.lng) {
       const stationCoords = station.location?.coordinates;
@@ -170,42 +237,52 @@ export async function POST(req: Request) {
     const returnUrl = `${origin}/booking/confirmation/${booking._id}`;
     const websiteUrl = origin;
 
-    // Initiate Khalti payment
-    const khaltiRes = await khaltiInitiate({
-      return_url: returnUrl,
-      website_url: websiteUrl,
-      amount: totalAmountPaisa,
-      purchase_order_id: String(booking._id),
-      purchase_order_name: `Charging – ${(station as any).name}`,
-      customer_info: {
+    const payment = await provider.initiate({
+      booking,
+      amount: totalAmountNPR,
+      orderName: `Charging – ${(station as any).name}`,
+      customer: {
         name: user.name,
         email: user.email,
         phone: user.phone || undefined,
       },
-      merchant_booking_id: String(booking._id),
-      merchant_station_id: stationId,
-      merchant_port_id: portId,
-      merchant_start_time: startTime,
-      merchant_estimated_duration: String(estimatedDuration),
+      returnUrl,
+      websiteUrl,
     });
 
-    // Save Khalti payment reference
-    booking.khaltiPidx = khaltiRes.pidx;
+    // Save the provider's payment reference
+    Object.assign(booking, payment.set);
     booking.amountPaid = totalAmountNPR;
+    booking.quote = {
+      lineItems: quote.lineItems,
+      total: quote.total,
+      promoCode: quote.promoCode,
+      promoPercentOff: quote.promoPercentOff,
+    };
     await booking.save();
 
+    // Pay-at-station bookings hold the slot right away
+    if (payment.confirmNow) {
+      booking = await transitionBooking(booking, "confirmed", {
+        actor: "payment",
+        reason: `${provider.method}:pay-at-station`,
+      });
+    }
+
     return NextResponse.json(
       {
         bookingId: booking._id,
-        payment_url: khaltiRes.payment_url,
-        pidx: khaltiRes.pidx,
+        paymentMethod: provider.method,
+        bookingStatus: booking.status,
+        ...checkoutResponse(payment),
         amount: totalAmountNPR,
+        quote,
         currency: "NPR",
       },
       { status: 200 }
     );
   } catch (error: any) {
-    console.error("Error initiating Khalti payment:", error);
+    console.error("Error initiating payment:", error);
     return NextResponse.json(
       { error: error?.message || "Failed to initiate payment" },
       { status: 500 }
@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import { reconcileKhaltiPidx } from "@/lib/paymentReconciliation";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET|POST /api/payments/khalti/callback
+ *
+ * Public server-to-server callback. Khalti (or a local stand-in) sends the
+ * `pidx` as a query parameter or JSON body. No status in the request is
+ * trusted — the payment is re-checked through the Khalti lookup API and
+ * applied idempotently, so repeated or forged callbacks are harmless.
+ */
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  return handleCallback(searchParams.get("pidx"));
+}
+
+export async function POST(req: Request) {
+  const body = await req.json().catch(() => ({}));
+  return handleCallback(typeof body?.pidx === "string" ? body.pidx : null);
+}
+
+async function handleCallback(pidx: string | null) {
+  try {
+    if (!pidx) {
+      return NextResponse.json({ error: "pidx is required" }, { status: 400 });
+    }
+
+    if (!process.env.KHALTI_SECRET_KEY) {
+      return NextResponse.json(
+        { error: "Payment gateway is not configured." },
+        { status: 503 }
+      );
+    }
+
+    const result = await reconcileKhaltiPidx(pidx);
+    if (!result) {
+      return NextResponse.json(
+        { error: "Unknown payment reference" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        received: true,
+        bookingId: String(result.booking._id),
+        bookingStatus: result.booking.status,
+        paymentStatus: result.status,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Error handling Khalti callback:", error);
+    return NextResponse.json(
+      { error: "Failed to process callback" },
+      { status: 500 }
+    );
+  }
+}
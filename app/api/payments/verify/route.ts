@@ -2,8 +2,8 @@ import { NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import dbConnect from "@/lib/db";
 import Booking from "@/lib/models/Booking";
-import Station from "@/lib/models/Station";
-import { khaltiLookup } from "@/lib/khalti";
+import { getPaymentProvider } from "@/lib/payments";
+import { applyPaymentLookup } from "@/lib/paymentReconciliation";
 
 export async function POST(req: Request) {
   try {
@@ -17,23 +17,13 @@ export async function POST(req: Request) {
     const body = await req.json();
     const { pidx, bookingId } = body;
 
-    if (!pidx || !bookingId) {
+    if (!bookingId) {
       return NextResponse.json(
-        { error: "pidx and bookingId are required" },
+        { error: "bookingId is required" },
         { status: 400 }
       );
     }
 
-    if (!process.env.KHALTI_SECRET_KEY) {
-      return NextResponse.json(
-        { error: "Payment gateway is not configured." },
-        { status: 503 }
-      );
-    }
-
-    // Lookup payment status from Khalti
-    const lookup = await khaltiLookup(pidx);
-
     const booking = await Booking.findById(bookingId);
     if (!booking) {
       return NextResponse.json(
@@ -47,73 +37,45 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
 
-    // Skip if booking is already confirmed/active/completed
-    if (["confirmed", "active", "completed"].includes(booking.status)) {
+    const provider = getPaymentProvider(booking.paymentMethod);
+    if (!provider?.getReference(booking)) {
       return NextResponse.json(
-        { verified: true, status: "Completed", booking },
-        { status: 200 }
+        { error: "Booking has no online payment to verify" },
+        { status: 400 }
       );
     }
 
-    if (lookup.status === "Completed") {
-      // Payment successful — confirm the booking
-      booking.status = "confirmed";
-      await booking.save();
-
-      // Reserve the port
-      const isOid = /^[a-f\d]{24}$/i.test(String(booking.portId));
-      const portFilter = isOid
-        ? { "chargingPorts._id": booking.portId }
-        : { "chargingPorts.portNumber": booking.portId };
-      await Station.updateOne(
-        { _id: booking.stationId, ...portFilter } as Record<string, unknown>,
-        {
-          $set: {
-            "chargingPorts.$.status": "reserved",
-            "chargingPorts.$.currentBookingId": booking._id,
-          },
-        }
-      );
-
+    // A Khalti return carries the pidx, which must be the one issued for this booking
+    if (pidx && provider.getReference(booking) !== pidx) {
       return NextResponse.json(
-        { verified: true, status: "Completed", booking },
-        { status: 200 }
+        { error: "Payment reference does not match this booking" },
+        { status: 400 }
       );
     }
 
-    if (
-      lookup.status === "User canceled" ||
-      lookup.status === "Expired"
-    ) {
-      // Payment failed — cancel the booking
-      booking.status = "cancelled";
-      await booking.save();
-
+    if (!provider.isConfigured()) {
       return NextResponse.json(
-        { verified: false, status: lookup.status },
-        { status: 200 }
+        { error: "Payment gateway is not configured." },
+        { status: 503 }
       );
     }
 
-    if (
-      lookup.status === "Refunded" || lookup.status === "Partially refunded"
-    ) {
-      booking.status = "cancelled";
-      await booking.save();
+    // Lookup payment status from the provider
+    const lookup = await provider.lookup(booking);
+    const result = await applyPaymentLookup(booking, provider, lookup);
 
-      return NextResponse.json(
-        { verified: false, status: lookup.status },
-        { status: 200 }
-      );
-    }
-
-    // Pending / Initiated — still processing
     return NextResponse.json(
-      { verified: false, status: lookup.status },
+      result.verified
+        ? { verified: true, status: result.status, booking: result.booking }
+        : {
+            verified: false,
+            status: result.status,
+            bookingStatus: result.booking.status,
+          },
       { status: 200 }
     );
   } catch (error) {
-    console.error("Error verifying Khalti payment:", error);
+    console.error("Error verifying payment:", error);
     return NextResponse.json(
       { error: "Failed to verify payment" },
       { status: 500 }
@@ -1,9 +1,6 @@
 import { auth } from "@clerk/nextjs/server";
-import {
-  realtimeEmitter,
-  type UserNotificationEvent,
-  type QueueUpdateEvent,
-} from "@/lib/realtime";
+import { openEventStream } from "@/lib/realtime/sse";
+import { userStream } from "@/lib/realtime/streams";
 
 export const dynamic = "force-dynamic";
 export const runtime = "nodejs";
@@ -14,82 +11,12 @@ export async function GET(req: Request) {
     return new Response("Unauthorized", { status: 401 });
   }
 
-  const encoder = new TextEncoder();
-  let closed = false;
-
-  const stream = new ReadableStream({
-    start(controller) {
-      const connectMsg = JSON.stringify({
-        type: "connected",
-        userId,
-        timestamp: new Date().toISOString(),
-      });
-      controller.enqueue(encoder.encode(`data: ${connectMsg}\n\n`));
-
-      const notifListener = (event: UserNotificationEvent) => {
-        if (closed || event.userId !== userId) return;
-        try {
-          controller.enqueue(
-            encoder.encode(
-              `event: notification\ndata: ${JSON.stringify(event)}\n\n`
-            )
-          );
-        } catch {
-          closed = true;
-        }
-      };
-
-      const queueListener = (event: QueueUpdateEvent) => {
-        if (closed || event.userId !== userId) return;
-        try {
-          controller.enqueue(
-            encoder.encode(
-              `event: queue-update\ndata: ${JSON.stringify(event)}\n\n`
-            )
-          );
-        } catch {
-          closed = true;
-        }
-      };
-
-      realtimeEmitter.on("notification", notifListener);
-      realtimeEmitter.on("queue-update", queueListener);
-
-      const heartbeat = setInterval(() => {
-        if (closed) return;
-        try {
-          controller.enqueue(encoder.encode(`: heartbeat\n\n`));
-        } catch {
-          closed = true;
-          cleanup();
-        }
-      }, 30000);
-
-      function cleanup() {
-        realtimeEmitter.off("notification", notifListener);
-        realtimeEmitter.off("queue-update", queueListener);
-        clearInterval(heartbeat);
-        try {
-          controller.close();
-        } catch {}
-      }
-
-      req.signal?.addEventListener("abort", () => {
-        closed = true;
-        cleanup();
-      });
-    },
-    cancel() {
-      closed = true;
-    },
-  });
-
-  return new Response(stream, {
-    headers: {
-      "Content-Type": "text/event-stream",
-      "Cache-Control": "no-cache, no-transform",
-      Connection: "keep-alive",
-      "X-Accel-Buffering": "no",
-    },
+  return openEventStream(req, {
+    stream: userStream(userId),
+    types: ["notification", "queue-update"],
+    accepts: (event) =>
+      (event.type === "notification" || event.type === "queue-update") &&
+      event.userId === userId,
+    hello: { userId },
   });
 }
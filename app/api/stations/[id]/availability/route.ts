@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import dbConnect from "@/lib/db";
+import Station from "@/lib/models/Station";
+import { loadStationFromFile } from "@/lib/stations";
+import { getStationAvailability } from "@/lib/availability";
+import { toNepalDate } from "@/lib/utils";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/stations/[id]/availability?date=YYYY-MM-DD
+ *
+ * Booked intervals and free slots for each charging port on a day (Nepal
+ * time, defaults to today), within the station's operating hours.
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(req.url);
+    const date = searchParams.get("date") || toNepalDate(new Date());
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(Date.parse(date))) {
+      return NextResponse.json(
+        { error: "date must be in YYYY-MM-DD format" },
+        { status: 400 }
+      );
+    }
+
+    let station;
+    if (id.startsWith("station-")) {
+      station = loadStationFromFile(id);
+    } else {
+      await dbConnect();
+      station = await Station.findById(id)
+        .select("operatingHours closures chargingPorts")
+        .lean();
+    }
+
+    if (!station) {
+      return NextResponse.json(
+        { error: "Station not found" },
+        { status: 404 }
+      );
+    }
+
+    const availability = await getStationAvailability(station, date);
+
+    return NextResponse.json(availability, {
+      headers: { "Cache-Control": "no-store" },
+    });
+  } catch (error) {
+    console.error("Error fetching availability:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch availability" },
+      { status: 500 }
+    );
+  }
+}
@@ -14,7 +14,7 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id } = await params;
-  const statuses = getPortStatuses(id);
+  const statuses = await getPortStatuses(id);
   return NextResponse.json(statuses, {
     headers: { "Cache-Control": "no-store" },
   });
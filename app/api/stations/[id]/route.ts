@@ -27,7 +27,7 @@ export async function GET(
     }
 
     await dbConnect();
-    const station = await Station.findById(id).select("-__v").lean();
+    const station = await Station.findById(id).select("-__v -pricingRules.promos").lean();
     if (!station) {
       return NextResponse.json(
         { error: "Station not found" },
@@ -71,7 +71,7 @@ export async function PUT(
     const allowedFields: Record<string, unknown> = {};
     const whitelist = [
       "name", "location", "telephone", "vehicleTypes",
-      "operatingHours", "chargingPorts", "pricing",
+      "operatingHours", "closures", "chargingPorts", "pricing",
       "amenities", "photos", "isActive",
     ];
     for (const key of whitelist) {
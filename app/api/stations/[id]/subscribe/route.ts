@@ -1,35 +1,35 @@
 import { NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
-import dbConnect from "@/lib/db";
-import PortSubscription from "@/lib/models/PortSubscription";
+import {
+  getPortSubscription,
+  parsePortSubscription,
+  PortSubscriptionError,
+  subscribeToPorts,
+  unsubscribeFromPorts,
+} from "@/lib/portSubscriptions";
 
-/** GET — check current subscription status */
+/** GET — check current subscription status and filters */
 export async function GET(
   _req: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     const { userId } = await auth();
-    if (!userId) return NextResponse.json({ subscribed: false });
+    if (!userId) return NextResponse.json({ subscribed: false, subscription: null });
 
     const { id: stationId } = await params;
-    await dbConnect();
-
-    const sub = await PortSubscription.findOne({
-      userId,
-      stationId,
-      active: true,
-    }).lean();
-
-    return NextResponse.json({ subscribed: !!sub });
+    return NextResponse.json(await getPortSubscription(stationId, userId));
   } catch {
-    return NextResponse.json({ subscribed: false });
+    return NextResponse.json({ subscribed: false, subscription: null });
   }
 }
 
-/** POST — subscribe to "notify me when a port is free" */
+/**
+ * POST — subscribe to "notify me when a port is free".
+ * Body (all optional): { connectorType, minPowerKw, portId, window: { start, end }, expiresInHours }
+ */
 export async function POST(
-  _req: Request,
+  req: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
@@ -38,19 +38,20 @@ export async function POST(
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
 
     const { id: stationId } = await params;
-    await dbConnect();
-
-    await PortSubscription.findOneAndUpdate(
-      { userId, stationId },
-      { $set: { active: true } },
-      { upsert: true }
-    );
+    const body = await req.json().catch(() => ({}));
+    const status = await subscribeToPorts(stationId, userId, parsePortSubscription(body));
 
     return NextResponse.json({
-      subscribed: true,
-      message: "You'll be notified when a port is available",
+      ...status,
+      message: "You'll be notified when a matching port is available",
     });
   } catch (error) {
+    if (error instanceof PortSubscriptionError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.httpStatus }
+      );
+    }
     console.error("Subscribe error:", error);
     return NextResponse.json(
       { error: "Failed to subscribe" },
@@ -70,14 +71,9 @@ export async function DELETE(
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
 
     const { id: stationId } = await params;
-    await dbConnect();
-
-    await PortSubscription.findOneAndUpdate(
-      { userId, stationId },
-      { $set: { active: false } }
-    );
+    await unsubscribeFromPorts(stationId, userId);
 
-    return NextResponse.json({ subscribed: false });
+    return NextResponse.json({ subscribed: false, subscription: null });
   } catch (error) {
     console.error("Unsubscribe error:", error);
     return NextResponse.json(
@@ -43,7 +43,7 @@ export async function GET(req: Request) {
 
       dbStations = await Station.find(filter)
         .sort({ createdAt: -1 })
-        .select("-__v")
+        .select("-__v -pricingRules.promos")
         .lean();
     } catch {
       // DB connection failed, just use file stations
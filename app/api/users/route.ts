@@ -2,6 +2,10 @@ import { NextResponse } from "next/server";
 import { auth, clerkClient } from "@clerk/nextjs/server";
 import dbConnect from "@/lib/db";
 import User from "@/lib/models/User";
+import {
+  NotificationPreferencesError,
+  parseNotificationPreferences,
+} from "@/lib/notifications/preferences";
 
 export async function GET(req: Request) {
   try {
@@ -129,7 +133,7 @@ export async function PUT(req: Request) {
     await dbConnect();
 
     const body = await req.json();
-    const { name, phone, vehicleInfo } = body;
+    const { name, phone, vehicleInfo, notificationPreferences } = body;
 
     const user = await User.findOne({ clerkId: userId });
     if (!user) {
@@ -139,11 +143,20 @@ export async function PUT(req: Request) {
     if (name !== undefined) user.name = name;
     if (phone !== undefined) user.phone = phone;
     if (vehicleInfo !== undefined) user.vehicleInfo = vehicleInfo;
+    if (notificationPreferences !== undefined) {
+      user.notificationPreferences = parseNotificationPreferences(notificationPreferences);
+    }
 
     await user.save();
 
     return NextResponse.json({ user }, { status: 200 });
   } catch (error) {
+    if (error instanceof NotificationPreferencesError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.httpStatus }
+      );
+    }
     console.error("Error updating user:", error);
     return NextResponse.json(
       { error: "Failed to update user" },
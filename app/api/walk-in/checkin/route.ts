@@ -1,7 +1,9 @@
 import { NextResponse } from "next/server";
 import dbConnect from "@/lib/db";
-import Booking from "@/lib/models/Booking";
 import Station from "@/lib/models/Station";
+import { openBooking } from "@/lib/bookingLifecycle";
+import { quoteSession } from "@/lib/pricing";
+import { slotClosedReason } from "@/lib/operatingHours";
 
 /**
  * POST /api/walk-in/checkin
@@ -68,38 +70,43 @@ export async function POST(req: Request) {
     const start = new Date();
     const end = new Date(start.getTime() + duration * 60000);
 
-    // Calculate amount based on station pricing
-    const perHour = station.pricing?.perHour ?? 200;
-    const amount = Math.round((duration / 60) * perHour);
+    const closedReason = slotClosedReason(station, start, end);
+    if (closedReason) {
+      return NextResponse.json({ error: closedReason }, { status: 409 });
+    }
 
-    const booking = await Booking.create({
-      userId: `walk-in-qr-${Date.now()}`,
-      userName: customerName,
-      userEmail: "",
-      stationId: String(station._id),
-      portId: String(port._id || port.portNumber),
-      startTime: start,
-      endTime: end,
-      estimatedDuration: duration,
-      status: "active",
-      source: "walk-in-qr",
-      amountPaid: amount,
-      paymentMethod: "cash",
-      customerName,
-      customerPhone,
-      vehicleNumber: vehicleNumber || "",
-      vehicleType: vehicleType || "",
+    // Estimate from the station's pricing rules; metered stations bill the final amount on completion
+    const quote = quoteSession({
+      tariff: station.pricing,
+      rules: station.pricingRules,
+      port,
+      start,
+      durationMinutes: duration,
     });
+    const amount = quote.total;
 
-    // Mark port as occupied
-    await Station.updateOne(
-      { _id: station._id, "chargingPorts._id": port._id } as Record<string, unknown>,
+    // Opening the booking as active also marks the port occupied
+    const booking = await openBooking(
       {
-        $set: {
-          "chargingPorts.$.status": "occupied",
-          "chargingPorts.$.currentBookingId": booking._id,
-        },
-      }
+        userId: `walk-in-qr-${Date.now()}`,
+        userName: customerName,
+        userEmail: "",
+        stationId: String(station._id),
+        portId: String(port._id || port.portNumber),
+        startTime: start,
+        endTime: end,
+        estimatedDuration: duration,
+        status: "active",
+        source: "walk-in-qr",
+        amountPaid: amount,
+        quote: { lineItems: quote.lineItems, total: quote.total },
+        paymentMethod: "cash",
+        customerName,
+        customerPhone,
+        vehicleNumber: vehicleNumber || "",
+        vehicleType: vehicleType || "",
+      },
+      { actor: "user", reason: "walk-in-qr" }
     );
 
     return NextResponse.json(
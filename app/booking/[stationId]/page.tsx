@@ -11,11 +11,42 @@ import {
   Zap,
   CheckCircle2,
   Loader2,
+  Wallet,
+  Tag,
+  Repeat,
+  Plus,
+  X,
 } from "lucide-react";
-import { cn, formatPrice, getConnectorLabel, formatDuration } from "@/lib/utils";
+import {
+  cn,
+  formatPrice,
+  getConnectorLabel,
+  formatDuration,
+  fromNepalClock,
+  parseTimeOfDay,
+  toNepalDate,
+  formatNepalTime,
+} from "@/lib/utils";
+import { slotClosedReason } from "@/lib/operatingHours";
+import { submitPaymentForm } from "@/lib/paymentForm";
 import { Badge } from "@/components/ui/Badge";
 import { Spinner } from "@/components/ui/Spinner";
-import type { IStation } from "@/types";
+import { PriceBreakdown } from "@/components/booking/PriceBreakdown";
+import { AvailabilityTimeline } from "@/components/booking/AvailabilityTimeline";
+import { describeTariff, estimateSessionCost, isMetered } from "@/lib/tariff";
+import type {
+  IStation,
+  PaymentMethod,
+  PriceLineItem,
+  StationDayAvailability,
+} from "@/types";
+
+interface SlotQuote {
+  lineItems: PriceLineItem[];
+  total: number;
+  promoCode?: string;
+  idleFee?: { perMinute: number; graceMinutes: number };
+}
 
 const DURATION_OPTIONS = [
   { value: 30, label: "30 min" },
@@ -26,6 +57,16 @@ const DURATION_OPTIONS = [
   { value: 240, label: "4 hr" },
 ];
 
+type RepeatMode = "once" | "repeat" | "slots";
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const PAYMENT_METHOD_LABELS: Record<PaymentMethod, { label: string; hint: string }> = {
+  khalti: { label: "Khalti", hint: "Pay now with Khalti wallet" },
+  esewa: { label: "eSewa", hint: "Pay now with eSewa wallet" },
+  cash: { label: "Pay at station", hint: "Pay the attendant on arrival" },
+};
+
 export default function BookingPage({
   params,
 }: {
@@ -42,7 +83,20 @@ export default function BookingPage({
   const [selectedTime, setSelectedTime] = useState("");
   const [selectedDuration, setSelectedDuration] = useState(60);
   const [selectedPortId, setSelectedPortId] = useState("");
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod | "">("");
   const [userLocation, setUserLocation] = useState<{ lat: number; lng: number } | null>(null);
+  const [promoInput, setPromoInput] = useState("");
+  const [promoCode, setPromoCode] = useState("");
+  const [quote, setQuote] = useState<SlotQuote | null>(null);
+  const [quoteError, setQuoteError] = useState("");
+  const [availability, setAvailability] = useState<StationDayAvailability | null>(null);
+  const [repeatMode, setRepeatMode] = useState<RepeatMode>("once");
+  const [frequency, setFrequency] = useState<"daily" | "weekly">("weekly");
+  const [daysOfWeek, setDaysOfWeek] = useState<number[]>([]);
+  const [repeatUntil, setRepeatUntil] = useState("");
+  const [extraSlots, setExtraSlots] = useState<{ date: string; time: string }[]>([]);
+  const [seriesPaymentMode, setSeriesPaymentMode] = useState<"single" | "per_occurrence">("single");
+  const [seriesConflicts, setSeriesConflicts] = useState<{ startTime: string; reason: string }[]>([]);
 
   // Capture user location on mount for ETA calculation
   useEffect(() => {
@@ -79,9 +133,89 @@ export default function BookingPage({
     fetchStation();
   }, [stationId]);
 
+  // Day calendar of booked and free time per port
+  useEffect(() => {
+    if (!stationId || !selectedDate) {
+      setAvailability(null);
+      return;
+    }
+
+    let cancelled = false;
+    async function fetchAvailability() {
+      try {
+        const res = await fetch(
+          `/api/stations/${stationId}/availability?date=${selectedDate}`
+        );
+        if (res.ok && !cancelled) setAvailability(await res.json());
+      } catch (err) {
+        console.error("Failed to fetch availability:", err);
+      }
+    }
+    fetchAvailability();
+    return () => {
+      cancelled = true;
+    };
+  }, [stationId, selectedDate]);
+
+  // Price the exact slot the same way payment will
+  useEffect(() => {
+    if (!stationId || !selectedDate || !selectedTime || !selectedPortId) {
+      setQuote(null);
+      return;
+    }
+    const startTime = fromNepalClock(selectedDate, parseTimeOfDay(selectedTime));
+    if (isNaN(startTime.getTime())) return;
+
+    let cancelled = false;
+    async function fetchQuote() {
+      try {
+        const res = await fetch("/api/bookings/check-availability", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            stationId,
+            portId: selectedPortId,
+            startTime: startTime.toISOString(),
+            estimatedDuration: selectedDuration,
+            ...(promoCode && { promoCode }),
+          }),
+        });
+        const data = await res.json();
+        if (cancelled) return;
+        if (!res.ok) {
+          setQuoteError(data.error || "Could not price this slot.");
+          setQuote(null);
+          return;
+        }
+        setQuoteError("");
+        setQuote(data.quote ?? null);
+      } catch (err) {
+        console.error("Failed to fetch quote:", err);
+      }
+    }
+    fetchQuote();
+    return () => {
+      cancelled = true;
+    };
+  }, [stationId, selectedDate, selectedTime, selectedDuration, selectedPortId, promoCode]);
+
+  // A changed series has to be checked again
+  useEffect(() => {
+    setSeriesConflicts([]);
+  }, [repeatMode, frequency, daysOfWeek, repeatUntil, extraSlots, selectedDate, selectedTime, selectedDuration, selectedPortId]);
+
   const availablePorts =
     station?.chargingPorts?.filter((p) => p.status === "available") ?? [];
 
+  const selectedPort = station?.chargingPorts?.find(
+    (p, index) => String(p._id ?? p.portNumber ?? `port-${index}`) === selectedPortId
+  );
+
+  const acceptedMethods: PaymentMethod[] = station?.paymentMethods?.length
+    ? station.paymentMethods
+    : ["khalti"];
+  const selectedMethod = paymentMethod || acceptedMethods[0];
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError("");
@@ -91,8 +225,8 @@ export default function BookingPage({
       return;
     }
 
-    // Validate the booking is not in the past
-    const bookingTime = new Date(`${selectedDate}T${selectedTime}`);
+    // Validate the booking is not in the past (times are Nepal time)
+    const bookingTime = fromNepalClock(selectedDate, parseTimeOfDay(selectedTime));
     if (isNaN(bookingTime.getTime())) {
       setError("Invalid date or time selected.");
       return;
@@ -102,31 +236,28 @@ export default function BookingPage({
       return;
     }
 
-    // Validate against operating hours
-    if (station?.operatingHours) {
-      const [openH, openM] = station.operatingHours.open.split(":").map(Number);
-      const [closeH, closeM] = station.operatingHours.close.split(":").map(Number);
-      const bookingH = bookingTime.getHours();
-      const bookingM = bookingTime.getMinutes();
-      const bookingMinutes = bookingH * 60 + bookingM;
-      const endTime = new Date(bookingTime.getTime() + selectedDuration * 60 * 1000);
-      const endH = endTime.getHours();
-      const endM = endTime.getMinutes();
-      const endMinutes = endH * 60 + endM;
-      const openMinutes = openH * 60 + openM;
-      const closeMinutes = closeH * 60 + closeM;
-      if (bookingMinutes < openMinutes || endMinutes > closeMinutes) {
-        setError(
-          `Station operates between ${station.operatingHours.open} and ${station.operatingHours.close}. Your booking must start and end within these hours.`
-        );
+    // Validate against operating hours and closures
+    if (station) {
+      const closedReason = slotClosedReason(
+        station,
+        bookingTime,
+        new Date(bookingTime.getTime() + selectedDuration * 60 * 1000)
+      );
+      if (closedReason) {
+        setError(closedReason);
         return;
       }
     }
 
+    if (repeatMode !== "once") {
+      await submitSeries(bookingTime);
+      return;
+    }
+
     setSubmitting(true);
 
     try {
-      const startTime = new Date(`${selectedDate}T${selectedTime}`).toISOString();
+      const startTime = bookingTime.toISOString();
 
       // Check availability first
       const checkRes = await fetch("/api/bookings/check-availability", {
@@ -137,6 +268,7 @@ export default function BookingPage({
           portId: selectedPortId,
           startTime,
           estimatedDuration: selectedDuration,
+          ...(promoCode && { promoCode }),
         }),
       });
 
@@ -149,7 +281,7 @@ export default function BookingPage({
         return;
       }
 
-      // Create booking and initiate Khalti payment
+      // Create booking and initiate payment with the chosen provider
       const payRes = await fetch("/api/payments/initiate", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
@@ -159,6 +291,8 @@ export default function BookingPage({
           portId: selectedPortId,
           startTime,
           estimatedDuration: selectedDuration,
+          paymentMethod: selectedMethod,
+          ...(promoCode && { promoCode }),
           ...(userLocation && { userLocation }),
         }),
       });
@@ -175,9 +309,89 @@ export default function BookingPage({
       }
 
       const payData = await payRes.json();
-      // Redirect to Khalti payment page
+      // Hand over to the provider's checkout, or go straight to the booking
       if (payData.payment_url) {
         window.location.href = payData.payment_url;
+      } else if (payData.payment_form) {
+        submitPaymentForm(payData.payment_form.action, payData.payment_form.fields);
+      } else if (payData.bookingStatus === "confirmed") {
+        router.push(`/booking/confirmation/${payData.bookingId}`);
+      } else {
+        setError("Failed to get payment URL. Please try again.");
+        setSubmitting(false);
+      }
+    } catch (err) {
+      setError("An unexpected error occurred. Please try again.");
+      setSubmitting(false);
+    }
+  };
+
+  // Recurring and multi-slot bookings are checked and paid for together
+  const submitSeries = async (firstStart: Date) => {
+    const slots =
+      repeatMode === "slots"
+        ? [
+            firstStart,
+            ...extraSlots
+              .filter((slot) => slot.date && slot.time)
+              .map((slot) => fromNepalClock(slot.date, parseTimeOfDay(slot.time))),
+          ]
+        : undefined;
+    if (repeatMode === "repeat" && !repeatUntil) {
+      setError("Pick the last day of the series.");
+      return;
+    }
+    if (repeatMode === "repeat" && frequency === "weekly" && daysOfWeek.length === 0) {
+      setError("Pick at least one day of the week.");
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const res = await fetch("/api/bookings/series", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({
+          stationId,
+          portId: selectedPortId,
+          estimatedDuration: selectedDuration,
+          paymentMethod: selectedMethod,
+          paymentMode: seriesPaymentMode,
+          ...(repeatMode === "repeat"
+            ? {
+                pattern: {
+                  frequency,
+                  daysOfWeek,
+                  time: selectedTime,
+                  startDate: selectedDate,
+                  endDate: repeatUntil,
+                },
+              }
+            : { slots: slots?.map((slot) => slot.toISOString()) }),
+          ...(seriesConflicts.length > 0 && { skipConflicts: true }),
+          ...(promoCode && { promoCode }),
+        }),
+      });
+
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        if (res.status === 401) {
+          window.location.href = `/sign-in?redirect_url=${encodeURIComponent(window.location.pathname)}`;
+          return;
+        }
+        if (data.conflicts) setSeriesConflicts(data.conflicts);
+        setError(data.error || `Booking failed (${res.status}). Please try again.`);
+        setSubmitting(false);
+        return;
+      }
+
+      if (data.payment_url) {
+        window.location.href = data.payment_url;
+      } else if (data.payment_form) {
+        submitPaymentForm(data.payment_form.action, data.payment_form.fields);
+      } else if (data.bookingStatus === "confirmed") {
+        router.push("/dashboard/bookings");
       } else {
         setError("Failed to get payment URL. Please try again.");
         setSubmitting(false);
@@ -221,7 +435,7 @@ export default function BookingPage({
   }
 
   // Determine today as minimum date
-  const today = new Date().toISOString().split("T")[0];
+  const today = toNepalDate(new Date());
 
   return (
     <div className="h-full overflow-y-auto">
@@ -249,7 +463,7 @@ export default function BookingPage({
           {station.pricing && (
             <div className="mt-3 flex items-center gap-4">
               <Badge variant="info">
-                {formatPrice(station.pricing.perHour)}/hr
+                {describeTariff(station.pricing)}
               </Badge>
             </div>
           )}
@@ -290,6 +504,23 @@ export default function BookingPage({
                 />
               </div>
             </div>
+            {availability && (
+              <div className="mt-5 border-t border-border/50 pt-4">
+                <p className="mb-3 text-xs text-muted-foreground">
+                  Green is free, red is booked, grey is closed (Nepal time). Tap a free slot to pick it.
+                </p>
+                <AvailabilityTimeline
+                  availability={availability}
+                  selectedPortId={selectedPortId}
+                  selectedTime={selectedTime}
+                  durationMinutes={selectedDuration}
+                  onSelect={(portId, time) => {
+                    setSelectedPortId(portId);
+                    setSelectedTime(time);
+                  }}
+                />
+              </div>
+            )}
           </div>
 
           {/* Duration */}
@@ -317,6 +548,186 @@ export default function BookingPage({
             </div>
           </div>
 
+          {/* Repeat */}
+          <div className="rounded-xl border border-border/50 bg-card p-5">
+            <h3 className="flex items-center gap-2 font-semibold text-card-foreground">
+              <Repeat className="h-5 w-5 text-primary" />
+              Repeat
+            </h3>
+            <div className="mt-4 grid grid-cols-3 gap-2">
+              {([
+                { value: "once", label: "Just once" },
+                { value: "repeat", label: "Repeat" },
+                { value: "slots", label: "Several sessions" },
+              ] as const).map((opt) => (
+                <button
+                  key={opt.value}
+                  type="button"
+                  onClick={() => setRepeatMode(opt.value)}
+                  className={cn(
+                    "rounded-lg border px-3 py-2.5 text-sm font-medium transition-all",
+                    repeatMode === opt.value
+                      ? "border-primary bg-primary text-white"
+                      : "border-border bg-background text-foreground hover:border-primary/50"
+                  )}
+                >
+                  {opt.label}
+                </button>
+              ))}
+            </div>
+
+            {repeatMode === "repeat" && (
+              <div className="mt-4 space-y-3">
+                <div className="flex gap-2">
+                  {(["daily", "weekly"] as const).map((value) => (
+                    <button
+                      key={value}
+                      type="button"
+                      onClick={() => setFrequency(value)}
+                      className={cn(
+                        "rounded-lg border px-3 py-1.5 text-sm font-medium capitalize transition-all",
+                        frequency === value
+                          ? "border-primary bg-primary/10 text-primary"
+                          : "border-border bg-background text-foreground hover:border-primary/50"
+                      )}
+                    >
+                      {value}
+                    </button>
+                  ))}
+                </div>
+                {frequency === "weekly" && (
+                  <div className="flex flex-wrap gap-1.5">
+                    {WEEKDAYS.map((label, day) => (
+                      <button
+                        key={label}
+                        type="button"
+                        onClick={() =>
+                          setDaysOfWeek((prev) =>
+                            prev.includes(day) ? prev.filter((d) => d !== day) : [...prev, day]
+                          )
+                        }
+                        className={cn(
+                          "rounded-md border px-2.5 py-1 text-xs font-medium transition-colors",
+                          daysOfWeek.includes(day)
+                            ? "border-primary bg-primary text-white"
+                            : "border-border bg-background text-foreground hover:border-primary/50"
+                        )}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+                <div>
+                  <label className="block text-sm font-medium text-foreground">
+                    Repeat until
+                  </label>
+                  <input
+                    type="date"
+                    min={selectedDate || today}
+                    value={repeatUntil}
+                    onChange={(e) => setRepeatUntil(e.target.value)}
+                    className="mt-1 w-full rounded-lg border border-border bg-background px-3 py-2.5 text-sm text-foreground focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary sm:w-1/2"
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Every session starts at the arrival time above on the same port.
+                </p>
+              </div>
+            )}
+
+            {repeatMode === "slots" && (
+              <div className="mt-4 space-y-2">
+                <p className="text-xs text-muted-foreground">
+                  The date and time above is the first session. Add more on the same port:
+                </p>
+                {extraSlots.map((slot, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <input
+                      type="date"
+                      min={today}
+                      value={slot.date}
+                      onChange={(e) =>
+                        setExtraSlots((prev) =>
+                          prev.map((s, i) => (i === index ? { ...s, date: e.target.value } : s))
+                        )
+                      }
+                      className="w-full rounded-lg border border-border bg-background px-3 py-2 text-sm text-foreground focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+                    />
+                    <input
+                      type="time"
+                      value={slot.time}
+                      onChange={(e) =>
+                        setExtraSlots((prev) =>
+                          prev.map((s, i) => (i === index ? { ...s, time: e.target.value } : s))
+                        )
+                      }
+                      className="w-full rounded-lg border border-border bg-background px-3 py-2 text-sm text-foreground focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setExtraSlots((prev) => prev.filter((_, i) => i !== index))}
+                      className="rounded-lg p-2 text-muted-foreground hover:bg-muted hover:text-foreground"
+                      aria-label="Remove session"
+                    >
+                      <X className="h-4 w-4" />
+                    </button>
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => setExtraSlots((prev) => [...prev, { date: "", time: selectedTime }])}
+                  className="flex items-center gap-1 rounded-lg border border-dashed border-border px-3 py-2 text-sm font-medium text-foreground transition-colors hover:border-primary/50"
+                >
+                  <Plus className="h-4 w-4" />
+                  Add session
+                </button>
+              </div>
+            )}
+
+            {repeatMode !== "once" && selectedMethod !== "cash" && (
+              <div className="mt-4 grid gap-2 sm:grid-cols-2">
+                {([
+                  { value: "single", label: "Pay for all now", hint: "One checkout for every session" },
+                  { value: "per_occurrence", label: "Pay each session", hint: "Pay the first now, the rest before they start" },
+                ] as const).map((opt) => (
+                  <button
+                    key={opt.value}
+                    type="button"
+                    onClick={() => setSeriesPaymentMode(opt.value)}
+                    className={cn(
+                      "rounded-lg border px-3 py-2.5 text-left transition-all",
+                      seriesPaymentMode === opt.value
+                        ? "border-primary bg-primary/10 ring-2 ring-primary"
+                        : "border-border bg-background hover:border-primary/50"
+                    )}
+                  >
+                    <p className="text-sm font-medium text-foreground">{opt.label}</p>
+                    <p className="text-xs text-muted-foreground">{opt.hint}</p>
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {seriesConflicts.length > 0 && (
+              <div className="mt-4 rounded-lg border border-amber-500/20 bg-amber-500/10 p-3">
+                <p className="text-sm font-medium text-amber-400">
+                  These sessions can&apos;t be booked:
+                </p>
+                <ul className="mt-1 space-y-0.5 text-xs text-amber-400/90">
+                  {seriesConflicts.map((conflict) => (
+                    <li key={conflict.startTime}>
+                      {toNepalDate(new Date(conflict.startTime))} {formatNepalTime(conflict.startTime)} — {conflict.reason}
+                    </li>
+                  ))}
+                </ul>
+                <p className="mt-2 text-xs text-muted-foreground">
+                  Confirm again to book the remaining sessions.
+                </p>
+              </div>
+            )}
+          </div>
+
           {/* Port Selection */}
           <div className="rounded-xl border border-border/50 bg-card p-5">
             <h3 className="flex items-center gap-2 font-semibold text-card-foreground">
@@ -344,6 +755,7 @@ export default function BookingPage({
                   const statusLabel = port.status === "reserved" ? "Reserved" :
                                      port.status === "occupied" ? "Occupied" :
                                      port.status === "maintenance" ? "Maintenance" :
+                                     port.status === "offline" ? "Offline" :
                                      port.status;
 
                   return (
@@ -433,19 +845,107 @@ export default function BookingPage({
           </div>
 
           {/* Cost Estimate */}
-          {station?.pricing?.perHour > 0 && selectedDuration > 0 && (
+          {(station?.pricing?.perHour > 0 || isMetered(station?.pricing)) && selectedDuration > 0 && (
             <div className="rounded-xl border border-primary/20 bg-primary/5 p-5">
+              <PriceBreakdown
+                lineItems={quote?.lineItems}
+                className="mb-3 border-b border-primary/10 pb-3"
+              />
               <div className="flex items-center justify-between">
                 <span className="text-sm text-muted-foreground">
-                  Estimated charging cost ({formatDuration(selectedDuration)})
+                  {quote ? "Total" : "Estimated charging cost"} ({formatDuration(selectedDuration)})
                 </span>
                 <span className="text-lg font-bold text-primary">
-                  {formatPrice(station.pricing.perHour * (selectedDuration / 60))}
+                  {formatPrice(
+                    quote?.total ??
+                      estimateSessionCost(
+                        station.pricing,
+                        selectedDuration,
+                        selectedPort?.powerOutput
+                      )
+                  )}
                 </span>
               </div>
+              {isMetered(station.pricing) && (
+                <p className="mt-1 text-xs text-muted-foreground">
+                  Billed on metered usage. Unused prepaid credit is refunded after charging; any extra is paid at the station.
+                </p>
+              )}
+              {quote?.idleFee && (
+                <p className="mt-1 text-xs text-muted-foreground">
+                  Idle fee of {formatPrice(quote.idleFee.perMinute)}/min applies if your vehicle stays plugged in more than {quote.idleFee.graceMinutes} min after charging completes.
+                </p>
+              )}
+
+              {/* Promo Code */}
+              <div className="mt-4 flex items-center gap-2">
+                <Tag className="h-4 w-4 text-primary" />
+                <input
+                  type="text"
+                  value={promoInput}
+                  onChange={(e) => setPromoInput(e.target.value.toUpperCase())}
+                  placeholder="Promo code"
+                  className="w-full rounded-lg border border-border bg-background px-3 py-2 text-sm uppercase text-foreground focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+                />
+                {promoCode ? (
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setPromoCode("");
+                      setPromoInput("");
+                      setQuoteError("");
+                    }}
+                    className="rounded-lg border border-border px-3 py-2 text-sm font-medium text-foreground transition-colors hover:bg-muted"
+                  >
+                    Remove
+                  </button>
+                ) : (
+                  <button
+                    type="button"
+                    disabled={!promoInput.trim()}
+                    onClick={() => setPromoCode(promoInput.trim())}
+                    className="rounded-lg bg-primary px-3 py-2 text-sm font-medium text-white transition-colors hover:bg-primary/90 disabled:cursor-not-allowed disabled:bg-primary/50"
+                  >
+                    Apply
+                  </button>
+                )}
+              </div>
+              {quoteError && (
+                <p className="mt-2 text-xs text-red-400">{quoteError}</p>
+              )}
             </div>
           )}
 
+          {/* Payment Method */}
+          <div className="rounded-xl border border-border/50 bg-card p-5">
+            <h3 className="flex items-center gap-2 font-semibold text-card-foreground">
+              <Wallet className="h-5 w-5 text-primary" />
+              Payment Method
+            </h3>
+            <div className="mt-4 grid gap-2 sm:grid-cols-3">
+              {acceptedMethods.map((method) => (
+                <button
+                  key={method}
+                  type="button"
+                  onClick={() => setPaymentMethod(method)}
+                  className={cn(
+                    "rounded-lg border px-3 py-2.5 text-left transition-all",
+                    selectedMethod === method
+                      ? "border-primary bg-primary/10 ring-2 ring-primary"
+                      : "border-border bg-background hover:border-primary/50"
+                  )}
+                >
+                  <p className="text-sm font-medium text-foreground">
+                    {PAYMENT_METHOD_LABELS[method].label}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {PAYMENT_METHOD_LABELS[method].hint}
+                  </p>
+                </button>
+              ))}
+            </div>
+          </div>
+
           {/* Error */}
           {error && (
             <div className="rounded-lg bg-red-500/10 border border-red-500/20 p-4 text-sm text-red-400">
@@ -472,7 +972,11 @@ export default function BookingPage({
             ) : (
               <>
                 <CheckCircle2 className="h-4 w-4" />
-                Confirm & Pay
+                {seriesConflicts.length > 0
+                  ? "Book Remaining Sessions"
+                  : selectedMethod === "cash"
+                    ? "Confirm Booking"
+                    : "Confirm & Pay"}
               </>
             )}
           </button>
@@ -18,6 +18,10 @@ import {
 } from "lucide-react";
 import { Badge } from "@/components/ui/Badge";
 import { Spinner } from "@/components/ui/Spinner";
+import { RefundStatus } from "@/components/booking/RefundStatus";
+import { BillingSummary } from "@/components/booking/BillingSummary";
+import { PriceBreakdown } from "@/components/booking/PriceBreakdown";
+import { describeTariff, estimateSessionCost, isMetered } from "@/lib/tariff";
 import {
   cn,
   formatPrice,
@@ -58,11 +62,17 @@ export default function BookingConfirmationPage({
     params.then((p) => setBookingId(p.id));
   }, [params]);
 
-  // Verify Khalti payment if pidx is present in URL
+  // Verify the payment when returning from a provider's checkout —
+  // Khalti appends pidx, eSewa appends data (or payment=failed)
+  const isPaymentReturn =
+    searchParams.has("pidx") ||
+    searchParams.has("data") ||
+    searchParams.has("payment");
+
   useEffect(() => {
     if (!bookingId) return;
-    const pidx = searchParams.get("pidx");
-    if (!pidx) return;
+    if (!isPaymentReturn) return;
+    const pidx = searchParams.get("pidx") ?? undefined;
 
     async function verifyPayment() {
       setVerifying(true);
@@ -82,7 +92,7 @@ export default function BookingConfirmationPage({
             const bookingData = await bookingRes.json();
             setBooking(bookingData.booking ?? bookingData);
           }
-        } else if (data.status === "User canceled" || data.status === "Expired") {
+        } else if (data.bookingStatus === "cancelled") {
           setPaymentError("Payment was cancelled or expired. Your booking has been cancelled.");
           // Refresh booking to show cancelled status
           const bookingRes = await fetch(`/api/bookings/${bookingId}`);
@@ -104,13 +114,12 @@ export default function BookingConfirmationPage({
       }
     }
     verifyPayment();
-  }, [bookingId, searchParams]);
+  }, [bookingId, searchParams, isPaymentReturn]);
 
-  // Fetch booking details (skip if Khalti verification is handling it)
+  // Fetch booking details (skip if payment verification is handling it)
   useEffect(() => {
     if (!bookingId) return;
-    const pidx = searchParams.get("pidx");
-    if (pidx) return; // verification useEffect handles fetching
+    if (isPaymentReturn) return; // verification useEffect handles fetching
 
     async function fetchBooking() {
       try {
@@ -172,7 +181,7 @@ export default function BookingConfirmationPage({
   const handleCancel = async () => {
     if (!booking) return;
     const confirmed = window.confirm(
-      "Are you sure you want to cancel this booking?"
+      "Are you sure you want to cancel this booking? Refunds follow the station's cancellation policy."
     );
     if (!confirmed) return;
 
@@ -392,19 +401,63 @@ export default function BookingConfirmationPage({
             </div>
 
             {/* Charging Cost */}
-            {station?.pricing?.perHour && (
+            {booking.billing ? (
+              <div className="mt-2 rounded-lg border border-primary/20 bg-primary/5 px-4 py-3">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium text-foreground">
+                    Final Charge
+                  </span>
+                  <span className="text-lg font-bold text-primary">
+                    {formatPrice(booking.billing.finalAmount)}
+                  </span>
+                </div>
+                <BillingSummary billing={booking.billing} className="mt-1" />
+                <PriceBreakdown lineItems={booking.billing.lineItems} className="mt-2" />
+                {booking.billing.settlement === "topup_due" && (
+                  <p className="mt-1 text-xs text-amber-400">
+                    Your session used more than was prepaid. Please pay the balance of{" "}
+                    {formatPrice(booking.billing.adjustment)} at the station.
+                  </p>
+                )}
+              </div>
+            ) : station?.pricing && (station.pricing.perHour || isMetered(station.pricing)) ? (
               <div className="mt-2 rounded-lg border border-primary/20 bg-primary/5 px-4 py-3">
                 <div className="flex items-center justify-between">
                   <span className="text-sm font-medium text-foreground">
-                    Charging Cost
+                    {isMetered(station.pricing) ? "Estimated Charging Cost" : "Charging Cost"}
                   </span>
                   <span className="text-lg font-bold text-primary">
-                    {formatPrice(station.pricing.perHour * (booking.estimatedDuration / 60))}
+                    {formatPrice(
+                      booking.amountPaid ||
+                        estimateSessionCost(station.pricing, booking.estimatedDuration, portDetails?.powerOutput)
+                    )}
                   </span>
                 </div>
                 <p className="mt-1 text-xs text-muted-foreground">
-                  {formatPrice(station.pricing.perHour)}/hr × {formatDuration(booking.estimatedDuration)}
+                  {describeTariff(station.pricing)}
+                  {isMetered(station.pricing)
+                    ? " — final bill from metered usage"
+                    : ` × ${formatDuration(booking.estimatedDuration)}`}
                 </p>
+                <PriceBreakdown lineItems={booking.quote?.lineItems} className="mt-2" />
+              </div>
+            ) : null}
+
+            {/* Refund */}
+            {booking.refund && (
+              <div className="mt-2 rounded-lg border border-border px-4 py-3">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium text-foreground">
+                    Refund
+                  </span>
+                  <RefundStatus refund={booking.refund} />
+                </div>
+                {station?.cancellationPolicy && booking.refund.status !== "not_eligible" && (
+                  <p className="mt-1 text-xs text-muted-foreground">
+                    Full refund up to {station.cancellationPolicy.fullRefundHoursBefore}h before start,{" "}
+                    {station.cancellationPolicy.partialRefundPercent}% after that.
+                  </p>
+                )}
               </div>
             )}
 
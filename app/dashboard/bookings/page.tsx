@@ -3,9 +3,11 @@
 import { useState, useEffect, useMemo } from "react";
 import { Calendar, Loader2 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { submitPaymentForm } from "@/lib/paymentForm";
 import { BookingCard } from "@/components/booking/BookingCard";
+import { SeriesCard } from "@/components/booking/SeriesCard";
 import { Spinner } from "@/components/ui/Spinner";
-import type { IBooking } from "@/types";
+import type { IBooking, IBookingSeries } from "@/types";
 
 type TabValue = "upcoming" | "active" | "past" | "cancelled";
 
@@ -21,24 +23,89 @@ export default function MyBookingsPage() {
   const [loading, setLoading] = useState(true);
   const [activeTab, setActiveTab] = useState<TabValue>("upcoming");
   const [cancellingId, setCancellingId] = useState<string | null>(null);
+  const [series, setSeries] = useState<IBookingSeries[]>([]);
+  const [seriesBusyId, setSeriesBusyId] = useState<string | null>(null);
 
-  useEffect(() => {
-    async function fetchBookings() {
-      try {
-        const res = await fetch("/api/bookings");
-        if (res.ok) {
-          const data = await res.json();
-          setBookings(data.bookings ?? data ?? []);
-        }
-      } catch (err) {
-        console.error("Failed to fetch bookings:", err);
-      } finally {
-        setLoading(false);
+  async function fetchBookings() {
+    try {
+      const [bookingsRes, seriesRes] = await Promise.all([
+        fetch("/api/bookings"),
+        fetch("/api/bookings/series"),
+      ]);
+      if (bookingsRes.ok) {
+        const data = await bookingsRes.json();
+        setBookings(data.bookings ?? data ?? []);
       }
+      if (seriesRes.ok) {
+        const data = await seriesRes.json();
+        setSeries(data.series ?? []);
+      }
+    } catch (err) {
+      console.error("Failed to fetch bookings:", err);
+    } finally {
+      setLoading(false);
     }
+  }
+
+  useEffect(() => {
     fetchBookings();
   }, []);
 
+  const updateSeries = async (
+    busyId: string,
+    seriesId: string,
+    body: { action: "skip"; bookingId: string } | { action: "cancel_remaining" }
+  ) => {
+    setSeriesBusyId(busyId);
+    try {
+      const res = await fetch(`/api/bookings/series/${seriesId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      if (res.ok) {
+        await fetchBookings();
+      } else {
+        const data = await res.json().catch(() => ({}));
+        window.alert(data.error || "Failed to update the series.");
+      }
+    } catch (err) {
+      console.error("Failed to update series:", err);
+    } finally {
+      setSeriesBusyId(null);
+    }
+  };
+
+  const handleSkip = (seriesId: string, bookingId: string) => {
+    if (!window.confirm("Skip this session? Refunds follow the station's cancellation policy.")) return;
+    updateSeries(bookingId, seriesId, { action: "skip", bookingId });
+  };
+
+  const handleCancelRemaining = (seriesId: string) => {
+    if (!window.confirm("Cancel every remaining session in this series?")) return;
+    updateSeries(seriesId, seriesId, { action: "cancel_remaining" });
+  };
+
+  const handlePay = async (bookingId: string) => {
+    setSeriesBusyId(bookingId);
+    try {
+      const res = await fetch(`/api/bookings/${bookingId}/pay`, { method: "POST" });
+      const data = await res.json().catch(() => ({}));
+      if (data.payment_url) {
+        window.location.href = data.payment_url;
+        return;
+      }
+      if (data.payment_form) {
+        submitPaymentForm(data.payment_form.action, data.payment_form.fields);
+        return;
+      }
+      window.alert(data.error || "Failed to start payment.");
+    } catch (err) {
+      console.error("Failed to start payment:", err);
+    }
+    setSeriesBusyId(null);
+  };
+
   const filteredBookings = useMemo(() => {
     const now = new Date();
     return bookings.filter((b) => {
@@ -62,7 +129,7 @@ export default function MyBookingsPage() {
 
   const handleCancel = async (bookingId: string) => {
     const confirmed = window.confirm(
-      "Are you sure you want to cancel this booking?"
+      "Are you sure you want to cancel this booking? Refunds follow the station's cancellation policy."
     );
     if (!confirmed) return;
 
@@ -74,9 +141,12 @@ export default function MyBookingsPage() {
         body: JSON.stringify({ status: "cancelled" }),
       });
       if (res.ok) {
+        const data = await res.json();
         setBookings((prev) =>
           prev.map((b) =>
-            b._id === bookingId ? { ...b, status: "cancelled" } : b
+            b._id === bookingId
+              ? { ...b, status: "cancelled", refund: data.booking?.refund }
+              : b
           )
         );
       }
@@ -124,6 +194,23 @@ export default function MyBookingsPage() {
           Manage your charging station bookings.
         </p>
 
+        {/* Recurring & multi-slot series */}
+        {series.length > 0 && (
+          <div className="mt-6 space-y-3">
+            <h2 className="text-lg font-semibold text-foreground">Series</h2>
+            {series.map((s) => (
+              <SeriesCard
+                key={s._id}
+                series={s}
+                busyId={seriesBusyId}
+                onSkip={handleSkip}
+                onCancelRemaining={handleCancelRemaining}
+                onPay={handlePay}
+              />
+            ))}
+          </div>
+        )}
+
         {/* Tabs */}
         <div className="mt-6 flex gap-1 rounded-lg border border-border bg-muted p-1 overflow-x-auto">
           {TABS.map((tab) => (
@@ -14,12 +14,19 @@ import {
   CheckCircle2,
 } from "lucide-react";
 import { Spinner } from "@/components/ui/Spinner";
+import { NotificationPreferencesForm } from "@/components/notifications/NotificationPreferencesForm";
 import { getConnectorLabel } from "@/lib/utils";
+import {
+  DEFAULT_QUIET_HOURS,
+  type NotificationPreferences,
+} from "@/lib/notifications/preferences";
 
 interface UserProfile {
   name: string;
   email: string;
   phone: string;
+  role: "user" | "admin" | "superadmin";
+  notificationPreferences?: Partial<NotificationPreferences>;
   vehicleInfo: {
     make: string;
     model: string;
@@ -52,6 +59,8 @@ export default function ProfilePage() {
     batteryCapacity: "",
     connectorType: "type2",
   });
+  const [notificationPreferences, setNotificationPreferences] =
+    useState<NotificationPreferences>({ channels: [], quietHours: DEFAULT_QUIET_HOURS });
 
   useEffect(() => {
     async function fetchProfile() {
@@ -69,6 +78,10 @@ export default function ProfilePage() {
             batteryCapacity: u.vehicleInfo?.batteryCapacity?.toString() || "",
             connectorType: u.vehicleInfo?.connectorType || "type2",
           });
+          setNotificationPreferences({
+            channels: u.notificationPreferences?.channels ?? [],
+            quietHours: { ...DEFAULT_QUIET_HOURS, ...u.notificationPreferences?.quietHours },
+          });
         }
       } catch (err) {
         console.error("Failed to fetch profile:", err);
@@ -100,6 +113,7 @@ export default function ProfilePage() {
               : 0,
             connectorType: form.connectorType,
           },
+          notificationPreferences,
         }),
       });
 
@@ -135,7 +149,7 @@ export default function ProfilePage() {
       <div className="mx-auto max-w-2xl px-4 py-8 sm:px-6 lg:px-8">
         <h1 className="text-2xl font-bold text-foreground">My Profile</h1>
         <p className="mt-1 text-muted-foreground">
-          Manage your account and vehicle information.
+          Manage your account, vehicle information and notifications.
         </p>
 
         <form onSubmit={handleSubmit} className="mt-8 space-y-6">
@@ -273,6 +287,12 @@ export default function ProfilePage() {
             </div>
           </div>
 
+          <NotificationPreferencesForm
+            value={notificationPreferences}
+            onChange={setNotificationPreferences}
+            isAdmin={profile?.role === "admin" || profile?.role === "superadmin"}
+          />
+
           {/* Error / Success */}
           {error && (
             <div className="rounded-lg border border-red-500/20 bg-red-500/10 p-3">
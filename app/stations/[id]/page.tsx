@@ -23,11 +23,13 @@ import {
   getConnectorLabel,
   formatPrice,
   getStatusColor,
+  toNepalDate,
 } from "@/lib/utils";
 import { ETADisplay } from "@/components/station/ETADisplay";
 import { LivePortStatus } from "@/components/station/LivePortStatus";
 import { NotifyMeButton } from "@/components/station/NotifyMeButton";
 import { QueueManager } from "@/components/station/QueueManager";
+import { OpenStatus } from "@/components/station/OpenStatus";
 import { loadStationFromFile } from "@/lib/stations";
 import dbConnect from "@/lib/db";
 import Station from "@/lib/models/Station";
@@ -63,7 +65,7 @@ async function getStation(id: string): Promise<IStation | null> {
     }
     // DB station
     await dbConnect();
-    const station = await Station.findById(id).select("-__v").lean();
+    const station = await Station.findById(id).select("-__v -pricingRules.promos").lean();
     return station ? (JSON.parse(JSON.stringify(station)) as IStation) : null;
   } catch {
     return null;
@@ -146,6 +148,7 @@ export default async function StationDetailPage({
     occupied: { label: "Occupied", variant: "danger" },
     reserved: { label: "Reserved", variant: "warning" },
     maintenance: { label: "Maintenance", variant: "default" },
+    offline: { label: "Offline", variant: "default" },
   };
 
   return (
@@ -207,6 +210,12 @@ export default async function StationDetailPage({
                       {station.operatingHours.open} -{" "}
                       {station.operatingHours.close}
                     </span>
+                    <OpenStatus
+                      station={{
+                        operatingHours: station.operatingHours,
+                        closures: station.closures,
+                      }}
+                    />
                   </div>
                 )}
               </div>
@@ -350,12 +359,14 @@ export default async function StationDetailPage({
             <NotifyMeButton
               stationId={id}
               hasAvailablePorts={availablePorts > 0}
+              ports={station.chargingPorts || []}
             />
 
             {/* Virtual Queue */}
             <QueueManager
               stationId={id}
               hasAvailablePorts={availablePorts > 0}
+              ports={station.chargingPorts || []}
             />
 
             {/* Amenities */}
@@ -390,8 +401,19 @@ export default async function StationDetailPage({
                   Operating Hours
                 </h3>
                 <p className="mt-3 text-sm text-muted-foreground">
-                  {station.operatingHours.open} - {station.operatingHours.close}
+                  {station.operatingHours.open} - {station.operatingHours.close}{" "}
+                  (Nepal time)
                 </p>
+                {station.closures
+                  ?.filter((c) => !c.endsAt || new Date(c.endsAt) > new Date())
+                  .map((c) => (
+                    <p key={c.startsAt} className="mt-1 text-xs text-amber-400">
+                      {c.endsAt
+                        ? `Closed ${toNepalDate(new Date(c.startsAt))} – ${toNepalDate(new Date(new Date(c.endsAt).getTime() - 1))}`
+                        : "Temporarily closed"}
+                      {c.reason && ` · ${c.reason}`}
+                    </p>
+                  ))}
               </div>
             )}
           </div>
@@ -0,0 +1,161 @@
+"use client";
+
+import { Zap } from "lucide-react";
+import { cn, formatNepalTime, getConnectorLabel } from "@/lib/utils";
+import { MS_PER_MINUTE } from "@/lib/constants";
+import type { StationDayAvailability } from "@/types";
+
+interface AvailabilityTimelineProps {
+  availability: StationDayAvailability;
+  selectedPortId: string;
+  selectedTime: string;
+  durationMinutes: number;
+  onSelect: (portId: string, time: string) => void;
+}
+
+/** Start times (Nepal "HH:mm") in a port's free slots that fit the duration */
+function startTimes(
+  free: { start: string; end: string }[],
+  slotMinutes: number,
+  durationMinutes: number
+): string[] {
+  const step = slotMinutes * MS_PER_MINUTE;
+  const times: string[] = [];
+  for (const slot of free) {
+    const end = new Date(slot.end).getTime();
+    for (let t = new Date(slot.start).getTime(); t + durationMinutes * MS_PER_MINUTE <= end; t += step) {
+      times.push(formatNepalTime(new Date(t)));
+    }
+  }
+  return times;
+}
+
+/** Day view of each port's booked and free time; pick a free start to book it */
+export function AvailabilityTimeline({
+  availability,
+  selectedPortId,
+  selectedTime,
+  durationMinutes,
+  onSelect,
+}: AvailabilityTimelineProps) {
+  if (!availability.opensAt || !availability.closesAt) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        The station is closed on this day.
+      </p>
+    );
+  }
+
+  const dayStart = new Date(availability.opensAt).getTime();
+  const dayLength = new Date(availability.closesAt).getTime() - dayStart;
+  const position = (start: string, end: string) => {
+    const from = Math.max(0, new Date(start).getTime() - dayStart);
+    const to = Math.min(dayLength, new Date(end).getTime() - dayStart);
+    return {
+      left: `${(from / dayLength) * 100}%`,
+      width: `${(Math.max(0, to - from) / dayLength) * 100}%`,
+    };
+  };
+
+  const selectedPort = availability.ports.find((p) => p.portId === selectedPortId);
+  const selectedStarts = selectedPort
+    ? startTimes(selectedPort.free, availability.slotMinutes, durationMinutes)
+    : [];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>{formatNepalTime(availability.opensAt)}</span>
+        <span>{formatNepalTime(availability.closesAt)}</span>
+      </div>
+
+      {availability.closures.map((closure) => (
+        <p key={closure.start} className="text-xs text-slate-400">
+          Closed {formatNepalTime(closure.start)}–{formatNepalTime(closure.end)}
+          {closure.reason && ` · ${closure.reason}`}
+        </p>
+      ))}
+
+      {availability.ports.map((port) => (
+        <div key={port.portId}>
+          <div className="mb-1 flex items-center gap-2 text-xs">
+            <Zap className="h-3 w-3 text-primary" />
+            <span
+              className={cn(
+                "font-medium",
+                port.portId === selectedPortId ? "text-primary" : "text-foreground"
+              )}
+            >
+              Port {port.portNumber}
+            </span>
+            <span className="text-muted-foreground">
+              {getConnectorLabel(port.connectorType)} · {port.powerOutput}
+            </span>
+            {port.status === "maintenance" && (
+              <span className="text-slate-400">Maintenance</span>
+            )}
+          </div>
+          <div className="relative h-7 overflow-hidden rounded-md bg-muted/50">
+            {availability.closures.map((closure) => (
+              <div
+                key={closure.start}
+                style={position(closure.start, closure.end)}
+                className="absolute inset-y-0 bg-slate-500/30"
+                title={`Closed${closure.reason ? ` (${closure.reason})` : ""}`}
+              />
+            ))}
+            {port.booked.map((interval) => (
+              <div
+                key={interval.start}
+                style={position(interval.start, interval.end)}
+                className="absolute inset-y-0 bg-red-500/30"
+                title={`Booked ${formatNepalTime(interval.start)}–${formatNepalTime(interval.end)}`}
+              />
+            ))}
+            {port.free.map((slot) => (
+              <button
+                key={slot.start}
+                type="button"
+                style={position(slot.start, slot.end)}
+                onClick={() => onSelect(port.portId, formatNepalTime(slot.start))}
+                className="absolute inset-y-0 border-x border-background bg-green-500/25 transition-colors hover:bg-green-500/40"
+                title={`Free ${formatNepalTime(slot.start)}–${formatNepalTime(slot.end)}`}
+              />
+            ))}
+          </div>
+        </div>
+      ))}
+
+      {selectedPort && (
+        <div>
+          <p className="text-xs font-medium text-foreground">
+            Free start times on Port {selectedPort.portNumber}
+          </p>
+          {selectedStarts.length > 0 ? (
+            <div className="mt-2 flex flex-wrap gap-1.5">
+              {selectedStarts.map((time) => (
+                <button
+                  key={time}
+                  type="button"
+                  onClick={() => onSelect(selectedPort.portId, time)}
+                  className={cn(
+                    "rounded-md border px-2 py-1 text-xs font-medium transition-colors",
+                    selectedTime === time
+                      ? "border-primary bg-primary text-white"
+                      : "border-border bg-background text-foreground hover:border-primary/50"
+                  )}
+                >
+                  {time}
+                </button>
+              ))}
+            </div>
+          ) : (
+            <p className="mt-1 text-xs text-muted-foreground">
+              No free slot on this port fits the selected duration.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
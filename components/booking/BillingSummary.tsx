@@ -0,0 +1,40 @@
+import { Gauge } from "lucide-react";
+import { Badge } from "@/components/ui/Badge";
+import { cn, formatPrice, formatDuration } from "@/lib/utils";
+import type { IBooking } from "@/types";
+
+const settlementLabelMap: Partial<
+  Record<NonNullable<IBooking["billing"]>["settlement"], string>
+> = {
+  topup_due: "Balance due",
+  topup_paid: "Balance paid",
+};
+
+interface BillingSummaryProps {
+  billing: IBooking["billing"];
+  className?: string;
+}
+
+/** Metered usage and final bill of a completed session */
+export function BillingSummary({ billing, className }: BillingSummaryProps) {
+  if (!billing) return null;
+
+  const settlementLabel = settlementLabelMap[billing.settlement];
+
+  return (
+    <div className={cn("flex flex-wrap items-center gap-2", className)}>
+      <Gauge className="h-3.5 w-3.5 text-muted-foreground" />
+      <span className="text-xs text-muted-foreground">
+        {billing.energyKwh.toFixed(2)} kWh · {formatDuration(billing.durationMinutes)}
+      </span>
+      <span className="text-xs font-medium text-foreground">
+        {formatPrice(billing.finalAmount)}
+      </span>
+      {settlementLabel && (
+        <Badge variant={billing.settlement === "topup_due" ? "warning" : "success"}>
+          {settlementLabel} {formatPrice(billing.adjustment)}
+        </Badge>
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,8 @@
 import Link from "next/link";
 import { Calendar, Clock, MapPin, X } from "lucide-react";
 import { Badge } from "@/components/ui/Badge";
+import { RefundStatus } from "@/components/booking/RefundStatus";
+import { BillingSummary } from "@/components/booking/BillingSummary";
 import { cn, formatDuration, getConnectorLabel, getBookingStatusColor } from "@/lib/utils";
 import type { IBooking, IStation } from "@/types";
 import { format } from "date-fns";
@@ -107,6 +109,9 @@ export function BookingCard({ booking, onCancel, showActions = true }: BookingCa
         </div>
       </div>
 
+      <BillingSummary billing={booking.billing} className="mt-3" />
+      <RefundStatus refund={booking.refund} className="mt-3" />
+
       {showActions && (
         <div className="mt-4 flex items-center gap-2 border-t border-border pt-3">
           <Link
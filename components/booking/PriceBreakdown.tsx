@@ -0,0 +1,30 @@
+import { cn, formatPrice } from "@/lib/utils";
+import type { PriceLineItem } from "@/types";
+
+interface PriceBreakdownProps {
+  lineItems?: PriceLineItem[];
+  className?: string;
+}
+
+/** Itemized charges of a quote or final bill; discounts show as negatives */
+export function PriceBreakdown({ lineItems, className }: PriceBreakdownProps) {
+  if (!lineItems?.length) return null;
+
+  return (
+    <ul className={cn("space-y-1 text-sm", className)}>
+      {lineItems.map((item) => (
+        <li key={item.label} className="flex items-center justify-between">
+          <span className="text-muted-foreground">{item.label}</span>
+          <span
+            className={cn(
+              "font-medium",
+              item.amount < 0 ? "text-green-400" : "text-foreground"
+            )}
+          >
+            {item.amount < 0 ? `−${formatPrice(-item.amount)}` : formatPrice(item.amount)}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,46 @@
+import { RotateCcw } from "lucide-react";
+import { Badge } from "@/components/ui/Badge";
+import { cn, formatPrice } from "@/lib/utils";
+import type { IBooking } from "@/types";
+
+const refundVariantMap: Record<
+  NonNullable<IBooking["refund"]>["status"],
+  "default" | "success" | "warning" | "danger" | "info"
+> = {
+  pending: "warning",
+  completed: "success",
+  failed: "danger",
+  manual: "info",
+  not_eligible: "default",
+};
+
+const refundLabelMap: Record<NonNullable<IBooking["refund"]>["status"], string> = {
+  pending: "Refund processing",
+  completed: "Refunded",
+  failed: "Refund failed — retrying",
+  manual: "Refund via station",
+  not_eligible: "No refund",
+};
+
+interface RefundStatusProps {
+  refund: IBooking["refund"];
+  className?: string;
+}
+
+export function RefundStatus({ refund, className }: RefundStatusProps) {
+  if (!refund) return null;
+
+  return (
+    <div className={cn("flex items-center gap-2", className)}>
+      <RotateCcw className="h-3.5 w-3.5 text-muted-foreground" />
+      <Badge variant={refundVariantMap[refund.status] || "default"}>
+        {refundLabelMap[refund.status] || refund.status}
+      </Badge>
+      {refund.amount > 0 && (
+        <span className="text-xs font-medium text-foreground">
+          {formatPrice(refund.amount)}
+        </span>
+      )}
+    </div>
+  );
+}
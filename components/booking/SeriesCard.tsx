@@ -0,0 +1,136 @@
+"use client";
+
+import { Repeat, SkipForward, Wallet, X } from "lucide-react";
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/Badge";
+import { cn, formatDuration, formatPrice } from "@/lib/utils";
+import type { IBookingSeries } from "@/types";
+
+interface SeriesCardProps {
+  series: IBookingSeries;
+  busyId?: string | null;
+  onSkip: (seriesId: string, bookingId: string) => void;
+  onCancelRemaining: (seriesId: string) => void;
+  onPay: (bookingId: string) => void;
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+function describeSeries(series: IBookingSeries): string {
+  const pattern = series.pattern;
+  if (!pattern) return `${series.occurrences.length} selected sessions`;
+  const days =
+    pattern.frequency === "daily"
+      ? "Every day"
+      : `Every ${pattern.daysOfWeek.map((d) => WEEKDAYS[d]).join(", ")}`;
+  return `${days} at ${pattern.time} until ${pattern.endDate}`;
+}
+
+/** A recurring or multi-slot series with its upcoming occurrences */
+export function SeriesCard({
+  series,
+  busyId,
+  onSkip,
+  onCancelRemaining,
+  onPay,
+}: SeriesCardProps) {
+  const now = new Date();
+  const upcoming = series.occurrences.filter(
+    (b) =>
+      (b.status === "pending" || b.status === "confirmed") &&
+      new Date(b.startTime) > now
+  );
+  const active = series.status === "active" && upcoming.length > 0;
+
+  return (
+    <div className="rounded-xl border border-border bg-card p-5">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <div className="flex items-center gap-2">
+            <Repeat className="h-4 w-4 text-primary" />
+            <h3 className="font-semibold text-card-foreground">
+              {series.stationName ?? "Charging Station"}
+              {series.portNumber && ` · Port ${series.portNumber}`}
+            </h3>
+            <Badge variant={active ? "info" : "default"}>
+              {active ? "Active" : series.status === "cancelled" ? "Cancelled" : "Finished"}
+            </Badge>
+          </div>
+          <p className="mt-1 text-sm text-muted-foreground">
+            {describeSeries(series)} · {formatDuration(series.estimatedDuration)}
+            {series.paymentMode === "per_occurrence" && " · paid per session"}
+          </p>
+        </div>
+        {active && (
+          <button
+            type="button"
+            disabled={busyId === series._id}
+            onClick={() => onCancelRemaining(series._id)}
+            className="flex shrink-0 items-center gap-1 rounded-lg border border-red-500/30 px-3 py-1.5 text-xs font-medium text-red-400 transition-colors hover:bg-red-500/10 disabled:opacity-50"
+          >
+            <X className="h-3.5 w-3.5" />
+            Cancel remaining
+          </button>
+        )}
+      </div>
+
+      {upcoming.length > 0 && (
+        <ul className="mt-4 divide-y divide-border/50 border-t border-border/50">
+          {upcoming.map((booking) => {
+            const unpaid =
+              booking.status === "pending" &&
+              series.paymentMode === "per_occurrence" &&
+              series.paymentMethod !== "cash";
+            return (
+              <li
+                key={booking._id}
+                className="flex items-center justify-between gap-3 py-2.5 text-sm"
+              >
+                <div>
+                  <p className="text-foreground">
+                    {format(new Date(booking.startTime), "EEE, MMM d · h:mm a")}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatPrice(booking.amountPaid ?? 0)}
+                    {unpaid && booking.paymentDueAt &&
+                      ` · pay by ${format(new Date(booking.paymentDueAt), "MMM d, h:mm a")}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span
+                    className={cn(
+                      "text-xs font-medium",
+                      booking.status === "confirmed" ? "text-green-400" : "text-amber-400"
+                    )}
+                  >
+                    {booking.status === "confirmed" ? "Confirmed" : unpaid ? "Unpaid" : "Pending"}
+                  </span>
+                  {unpaid && (
+                    <button
+                      type="button"
+                      disabled={busyId === booking._id}
+                      onClick={() => onPay(booking._id)}
+                      className="flex items-center gap-1 rounded-lg bg-primary px-2.5 py-1 text-xs font-medium text-white transition-colors hover:bg-primary/90 disabled:opacity-50"
+                    >
+                      <Wallet className="h-3 w-3" />
+                      Pay
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    disabled={busyId === booking._id}
+                    onClick={() => onSkip(series._id, booking._id)}
+                    className="flex items-center gap-1 rounded-lg border border-border px-2.5 py-1 text-xs font-medium text-foreground transition-colors hover:bg-muted disabled:opacity-50"
+                  >
+                    <SkipForward className="h-3 w-3" />
+                    Skip
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
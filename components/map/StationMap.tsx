@@ -30,6 +30,7 @@ import { getConnectorLabel, haversineDistance } from "@/lib/utils";
 import "mapbox-gl/dist/mapbox-gl.css";
 import type { MapRef } from "react-map-gl/mapbox";
 import type { RouteData, RouteStep } from "@/components/station/RoutePlanner";
+import { OpenStatus } from "@/components/station/OpenStatus";
 
 /* ═══════════════════════════════════════════════════════════
    Mercator helpers – avoids direct mapbox-gl import for SSR
@@ -714,6 +715,7 @@ export function StationMap({
                     </span>
                   ))}
               </div>
+              <OpenStatus station={selectedStation} className="mt-2" />
               <p className="mt-2 text-xs text-muted-foreground">
                 <span className="font-medium text-green-400">
                   {availablePorts(selectedStation)}
@@ -1,7 +1,7 @@
 "use client";
 
 import { useState, useRef, useEffect } from "react";
-import { Bell, X, Check, Users, Clock, Zap } from "lucide-react";
+import { Bell, X, Check, Users, Clock, Zap, WifiOff, CalendarCheck, Wallet } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useNotifications } from "@/hooks/useNotifications";
 import { useRouter } from "next/navigation";
@@ -11,19 +11,25 @@ const typeIcons: Record<
   React.ComponentType<{ className?: string }>
 > = {
   port_available: Zap,
+  booking_confirmed: CalendarCheck,
   queue_turn: Users,
   booking_reminder: Clock,
   charging_complete: Check,
   queue_update: Users,
+  device_offline: WifiOff,
+  refund_issued: Wallet,
   general: Bell,
 };
 
 const typeColors: Record<string, string> = {
   port_available: "bg-emerald-500/10 text-emerald-400",
+  booking_confirmed: "bg-emerald-500/10 text-emerald-400",
   queue_turn: "bg-purple-500/10 text-purple-400",
   booking_reminder: "bg-blue-500/10 text-blue-400",
   charging_complete: "bg-amber-500/10 text-amber-400",
   queue_update: "bg-purple-500/10 text-purple-400",
+  device_offline: "bg-red-500/10 text-red-400",
+  refund_issued: "bg-blue-500/10 text-blue-400",
   general: "bg-muted text-muted-foreground",
 };
 
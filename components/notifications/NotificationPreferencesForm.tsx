@@ -0,0 +1,147 @@
+"use client";
+
+import { BellRing, Moon } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { PushNotificationsToggle } from "@/components/notifications/PushNotificationsToggle";
+import {
+  DEFAULT_QUIET_HOURS,
+  PREFERENCE_CHANNELS,
+  isChannelEnabled,
+  type NotificationPreferences,
+} from "@/lib/notifications/preferences";
+import type { NotificationChannel, NotificationType } from "@/lib/notifications/types";
+
+interface NotificationPreferencesFormProps {
+  value: NotificationPreferences;
+  onChange: (value: NotificationPreferences) => void;
+  /** Station admins also choose how they hear about offline chargers */
+  isAdmin?: boolean;
+}
+
+const TYPE_LABELS: { type: NotificationType; label: string; adminOnly?: boolean }[] = [
+  { type: "booking_confirmed", label: "Booking confirmations" },
+  { type: "booking_reminder", label: "Booking reminders" },
+  { type: "queue_turn", label: "Your turn in a queue" },
+  { type: "queue_update", label: "Queue updates" },
+  { type: "port_available", label: "Port available alerts" },
+  { type: "charging_complete", label: "Charging complete" },
+  { type: "refund_issued", label: "Refunds" },
+  { type: "device_offline", label: "Charger offline", adminOnly: true },
+  { type: "general", label: "Announcements" },
+];
+
+const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  in_app: "In-app",
+  email: "Email",
+  sms: "SMS",
+};
+
+const inputClass =
+  "rounded-lg border border-border bg-background px-3 py-2 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 focus:border-primary";
+
+/** Per-type channel choices and quiet hours, saved with the rest of the profile */
+export function NotificationPreferencesForm({
+  value,
+  onChange,
+  isAdmin = false,
+}: NotificationPreferencesFormProps) {
+  const quietHours = value.quietHours ?? DEFAULT_QUIET_HOURS;
+
+  const toggle = (type: NotificationType, channel: NotificationChannel) => {
+    const enabled = !isChannelEnabled(type, channel, value);
+    onChange({
+      ...value,
+      channels: [
+        ...value.channels.filter((p) => p.type !== type || p.channel !== channel),
+        { type, channel, enabled },
+      ],
+    });
+  };
+
+  return (
+    <div className="rounded-xl border border-border bg-card p-6">
+      <h2 className="flex items-center gap-2 font-semibold text-card-foreground">
+        <BellRing className="h-5 w-5 text-primary" />
+        Notifications
+      </h2>
+      <p className="mt-1 text-sm text-muted-foreground">
+        Choose how you hear about each kind of update. SMS goes to the phone number above.
+      </p>
+
+      <table className="mt-4 w-full text-sm">
+        <thead>
+          <tr className="text-xs text-muted-foreground">
+            <th className="pb-2 text-left font-medium">Notification</th>
+            {PREFERENCE_CHANNELS.map((channel) => (
+              <th key={channel} className="pb-2 text-center font-medium">
+                {CHANNEL_LABELS[channel]}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {TYPE_LABELS.filter((row) => isAdmin || !row.adminOnly).map(({ type, label }) => (
+            <tr key={type} className="border-t border-border">
+              <td className="py-2 text-foreground">{label}</td>
+              {PREFERENCE_CHANNELS.map((channel) => (
+                <td key={channel} className="py-2 text-center">
+                  <input
+                    type="checkbox"
+                    aria-label={`${label} by ${CHANNEL_LABELS[channel]}`}
+                    checked={isChannelEnabled(type, channel, value)}
+                    onChange={() => toggle(type, channel)}
+                    className="h-4 w-4 accent-primary"
+                  />
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <PushNotificationsToggle className="mt-6 border-t border-border pt-4" />
+
+      <div className="mt-6 border-t border-border pt-4">
+        <label className="flex items-center gap-2 text-sm font-medium text-foreground">
+          <input
+            type="checkbox"
+            checked={quietHours.enabled}
+            onChange={(e) =>
+              onChange({ ...value, quietHours: { ...quietHours, enabled: e.target.checked } })
+            }
+            className="h-4 w-4 accent-primary"
+          />
+          <Moon className="h-4 w-4 text-muted-foreground" />
+          Quiet hours
+        </label>
+        <p className="mt-1 text-xs text-muted-foreground">
+          Emails and texts that can wait are sent when quiet hours end. Queue turns,
+          reminders, port alerts and charging updates still come straight away.
+        </p>
+        <div className={cn("mt-3 flex items-center gap-2", !quietHours.enabled && "opacity-50")}>
+          <input
+            type="time"
+            aria-label="Quiet hours start"
+            value={quietHours.start}
+            disabled={!quietHours.enabled}
+            onChange={(e) =>
+              onChange({ ...value, quietHours: { ...quietHours, start: e.target.value } })
+            }
+            className={inputClass}
+          />
+          <span className="text-sm text-muted-foreground">to</span>
+          <input
+            type="time"
+            aria-label="Quiet hours end"
+            value={quietHours.end}
+            disabled={!quietHours.enabled}
+            onChange={(e) =>
+              onChange({ ...value, quietHours: { ...quietHours, end: e.target.value } })
+            }
+            className={inputClass}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+"use client";
+
+import { BellOff, BellRing, Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { usePushNotifications } from "@/hooks/usePushNotifications";
+
+interface PushNotificationsToggleProps {
+  /** Only offer to turn push on, as a one-line prompt */
+  compact?: boolean;
+  className?: string;
+}
+
+/** Turn Web Push on or off for this browser */
+export function PushNotificationsToggle({ compact = false, className }: PushNotificationsToggleProps) {
+  const { state, busy, enable, disable } = usePushNotifications();
+
+  if (state === "unsupported" || (compact && state !== "off")) return null;
+
+  if (compact) {
+    return (
+      <button
+        type="button"
+        onClick={enable}
+        disabled={busy}
+        className={cn(
+          "inline-flex items-center gap-1.5 text-xs font-medium text-primary hover:underline disabled:opacity-50",
+          className
+        )}
+      >
+        {busy ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <BellRing className="h-3.5 w-3.5" />}
+        Alert me even when the app is closed
+      </button>
+    );
+  }
+
+  return (
+    <div className={cn("flex items-center justify-between gap-4", className)}>
+      <div>
+        <p className="text-sm font-medium text-foreground">Push notifications on this device</p>
+        <p className="text-xs text-muted-foreground">
+          {state === "denied"
+            ? "Notifications are blocked for this site in your browser settings."
+            : "In-app notifications also arrive when the app is closed."}
+        </p>
+      </div>
+      {state !== "denied" && (
+        <button
+          type="button"
+          onClick={state === "on" ? disable : enable}
+          disabled={busy}
+          className={cn(
+            "inline-flex shrink-0 items-center gap-1.5 rounded-lg px-3 py-1.5 text-xs font-medium transition-colors disabled:opacity-50",
+            state === "on"
+              ? "border border-border text-muted-foreground hover:text-foreground"
+              : "bg-primary text-white hover:bg-primary/90"
+          )}
+        >
+          {busy ? (
+            <Loader2 className="h-3.5 w-3.5 animate-spin" />
+          ) : state === "on" ? (
+            <BellOff className="h-3.5 w-3.5" />
+          ) : (
+            <BellRing className="h-3.5 w-3.5" />
+          )}
+          {state === "on" ? "Turn off" : "Turn on"}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,328 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  KeyRound,
+  Loader2,
+  Play,
+  Plus,
+  PlugZap,
+  RefreshCw,
+  Square,
+  Trash2,
+} from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { cn } from "@/lib/utils";
+import { OCPP_PATH } from "@/lib/constants";
+import type { ChargingPort, IChargePoint } from "@/types";
+
+interface ChargePointsProps {
+  stationId: string;
+  ports: ChargingPort[];
+}
+
+interface IssuedPassword {
+  chargePointId: string;
+  password: string;
+}
+
+function connectionUrl(chargePointId: string): string {
+  const scheme = window.location.protocol === "https:" ? "wss" : "ws";
+  return `${scheme}://${window.location.host}${OCPP_PATH}/${encodeURIComponent(chargePointId)}`;
+}
+
+/**
+ * OCPP 1.6 charge points whose connectors feed this station's ports. Each
+ * connects with its own password, shown once right after it is issued, and
+ * charging on its ports can be started and stopped remotely while it is
+ * connected.
+ */
+export function ChargePoints({ stationId, ports }: ChargePointsProps) {
+  const [chargePoints, setChargePoints] = useState<IChargePoint[]>([]);
+  const [issued, setIssued] = useState<IssuedPassword | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState("");
+  const [newId, setNewId] = useState("");
+  const [newPortIds, setNewPortIds] = useState<string[]>([]);
+
+  const fetchChargePoints = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/admin/stations/${stationId}/charge-points`);
+      if (res.ok) {
+        const data = await res.json();
+        setChargePoints(data.chargePoints || []);
+      }
+    } catch (err) {
+      console.error("Failed to fetch charge points:", err);
+    }
+  }, [stationId]);
+
+  // Refetch when a port changes status — its charge point has been heard from
+  const portStatuses = ports.map((port) => port.status).join(",");
+  useEffect(() => {
+    fetchChargePoints();
+  }, [fetchChargePoints, portStatuses]);
+
+  const run = async (busy: string, request: () => Promise<Response>) => {
+    setBusyId(busy);
+    setError("");
+    try {
+      const res = await request();
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "Request failed");
+        return false;
+      }
+      if (data.password) {
+        setIssued({ chargePointId: data.chargePoint.chargePointId, password: data.password });
+      }
+      await fetchChargePoints();
+      return true;
+    } catch {
+      setError("Network error");
+      return false;
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const register = async () => {
+    const registered = await run("new", () =>
+      fetch(`/api/admin/stations/${stationId}/charge-points`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ chargePointId: newId.trim(), portIds: newPortIds }),
+      })
+    );
+    if (registered) {
+      setNewId("");
+      setNewPortIds([]);
+    }
+  };
+
+  const rotate = (chargePointId: string) => {
+    if (!confirm("Rotate this charge point's password? It is disconnected until it is reconfigured.")) return;
+    run(chargePointId, () =>
+      fetch(`/api/admin/stations/${stationId}/charge-points/${encodeURIComponent(chargePointId)}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "rotate" }),
+      })
+    );
+  };
+
+  const remove = (chargePointId: string) => {
+    if (!confirm("Remove this charge point? Its connection will be refused.")) return;
+    run(chargePointId, () =>
+      fetch(`/api/admin/stations/${stationId}/charge-points/${encodeURIComponent(chargePointId)}`, {
+        method: "DELETE",
+      })
+    );
+  };
+
+  const remote = (chargePointId: string, action: "start" | "stop", portId: string) =>
+    run(`${chargePointId}:${portId}`, () =>
+      fetch(
+        `/api/admin/stations/${stationId}/charge-points/${encodeURIComponent(chargePointId)}/remote`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ action, portId }),
+        }
+      )
+    );
+
+  const toggleNewPort = (portId: string) =>
+    setNewPortIds((prev) =>
+      prev.includes(portId) ? prev.filter((id) => id !== portId) : [...prev, portId]
+    );
+
+  const fedPortIds = new Set(chargePoints.flatMap((cp) => cp.connectors.map((c) => c.portId)));
+  const freePorts = ports.filter((port) => !fedPortIds.has(String(port._id)));
+
+  return (
+    <div className="rounded-xl border border-border bg-card p-6">
+      <h2 className="flex items-center gap-2 font-semibold text-card-foreground">
+        <PlugZap className="h-5 w-5 text-primary" />
+        OCPP Charge Points
+      </h2>
+      <p className="mt-1 text-sm text-muted-foreground">
+        Commercial chargers speaking OCPP 1.6-J. Connectors 1, 2, … feed the ports picked, in order.
+      </p>
+
+      {error && (
+        <div className="mt-4 rounded-lg border border-red-500/20 bg-red-500/10 px-4 py-3 text-sm text-red-400">
+          {error}
+        </div>
+      )}
+
+      {issued && (
+        <div className="mt-4 rounded-lg border border-amber-500/30 bg-amber-500/10 p-4 text-sm">
+          <p className="flex items-center gap-2 font-medium text-amber-400">
+            <KeyRound className="h-4 w-4" />
+            Configure {issued.chargePointId} with this password — it won&apos;t be shown again
+          </p>
+          <code className="mt-2 block break-all rounded bg-background px-3 py-2 font-mono text-xs text-foreground">
+            {issued.password}
+          </code>
+          <p className="mt-2 text-xs text-muted-foreground">
+            Central system URL:{" "}
+            <span className="font-mono text-foreground">{connectionUrl(issued.chargePointId)}</span>
+          </p>
+          <button
+            type="button"
+            onClick={() => setIssued(null)}
+            className="mt-2 text-xs text-muted-foreground hover:text-foreground"
+          >
+            I&apos;ve saved it
+          </button>
+        </div>
+      )}
+
+      <div className="mt-4 space-y-3">
+        {chargePoints.map((chargePoint) => {
+          const { chargePointId } = chargePoint;
+          return (
+            <div key={chargePointId} className="rounded-lg border border-border p-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="flex items-center gap-2 text-sm font-medium text-foreground">
+                    <span className="font-mono">{chargePointId}</span>
+                    <span
+                      className={cn(
+                        "rounded-full px-2 py-0.5 text-[10px] font-medium",
+                        chargePoint.connectedAt
+                          ? "bg-emerald-500/10 text-emerald-400"
+                          : "bg-red-500/10 text-red-400"
+                      )}
+                    >
+                      {chargePoint.connectedAt ? "Connected" : "Disconnected"}
+                    </span>
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {[chargePoint.vendor, chargePoint.modelName].filter(Boolean).join(" ") ||
+                      "Not booted yet"}
+                    {chargePoint.firmwareVersion && ` · firmware ${chargePoint.firmwareVersion}`}
+                    {chargePoint.lastSeenAt &&
+                      ` · last seen ${formatDistanceToNow(new Date(chargePoint.lastSeenAt), { addSuffix: true })}`}
+                  </p>
+                </div>
+
+                <div className="flex items-center gap-2">
+                  {busyId === chargePointId ? (
+                    <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                  ) : (
+                    <>
+                      <button
+                        type="button"
+                        onClick={() => rotate(chargePointId)}
+                        className="inline-flex items-center gap-1 rounded-lg border border-border px-2.5 py-1.5 text-xs font-medium text-muted-foreground transition-colors hover:text-foreground"
+                      >
+                        <RefreshCw className="h-3 w-3" />
+                        Rotate password
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => remove(chargePointId)}
+                        className="rounded-lg p-1.5 text-muted-foreground transition-colors hover:bg-red-500/10 hover:text-red-400"
+                        title="Remove charge point"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+
+              <div className="mt-3 space-y-2">
+                {chargePoint.connectors.map((connector) => {
+                  const port = ports.find((p) => String(p._id) === connector.portId);
+                  const charging = port?.status === "occupied";
+                  const isBusy = busyId === `${chargePointId}:${connector.portId}`;
+                  return (
+                    <div
+                      key={connector.connectorId}
+                      className="flex items-center justify-between rounded-md bg-muted/30 px-3 py-2 text-xs"
+                    >
+                      <span className="text-muted-foreground">
+                        Connector {connector.connectorId} → Port {port?.portNumber ?? "?"}
+                        {port && ` · ${port.status}`}
+                      </span>
+                      {isBusy ? (
+                        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                      ) : (
+                        <button
+                          type="button"
+                          disabled={!chargePoint.connectedAt}
+                          onClick={() =>
+                            remote(chargePointId, charging ? "stop" : "start", connector.portId)
+                          }
+                          className={cn(
+                            "inline-flex items-center gap-1 rounded-lg px-2.5 py-1 font-medium transition-colors disabled:cursor-not-allowed disabled:opacity-50",
+                            charging
+                              ? "bg-red-500/10 text-red-400 hover:bg-red-500/20"
+                              : "bg-primary/10 text-primary hover:bg-primary/20"
+                          )}
+                        >
+                          {charging ? <Square className="h-3 w-3" /> : <Play className="h-3 w-3" />}
+                          {charging ? "Remote stop" : "Remote start"}
+                        </button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+
+        {freePorts.length > 0 && (
+          <div className="rounded-lg border border-dashed border-border p-4">
+            <input
+              type="text"
+              value={newId}
+              onChange={(e) => setNewId(e.target.value)}
+              placeholder="Charge point id (as configured on the charger)"
+              className="w-full rounded-lg border border-border bg-background px-3 py-2 text-sm text-foreground placeholder:text-muted-foreground focus:border-primary focus:outline-none"
+            />
+            <div className="mt-3 flex flex-wrap gap-2">
+              {freePorts.map((port) => {
+                const portId = String(port._id);
+                const index = newPortIds.indexOf(portId);
+                return (
+                  <button
+                    key={portId}
+                    type="button"
+                    onClick={() => toggleNewPort(portId)}
+                    className={cn(
+                      "rounded-lg border px-2.5 py-1 text-xs font-medium transition-colors",
+                      index >= 0
+                        ? "border-primary bg-primary/10 text-primary"
+                        : "border-border text-muted-foreground hover:text-foreground"
+                    )}
+                  >
+                    Port {port.portNumber}
+                    {index >= 0 && ` · connector ${index + 1}`}
+                  </button>
+                );
+              })}
+            </div>
+            <button
+              type="button"
+              onClick={register}
+              disabled={!newId.trim() || newPortIds.length === 0 || busyId === "new"}
+              className="mt-3 inline-flex items-center gap-1 rounded-lg bg-primary/10 px-2.5 py-1.5 text-xs font-medium text-primary transition-colors hover:bg-primary/20 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {busyId === "new" ? (
+                <Loader2 className="h-3 w-3 animate-spin" />
+              ) : (
+                <Plus className="h-3 w-3" />
+              )}
+              Register charge point
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
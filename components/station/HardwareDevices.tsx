@@ -0,0 +1,215 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Cpu, KeyRound, Loader2, Plus, RefreshCw, Trash2 } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { cn } from "@/lib/utils";
+import type { ChargingPort, IHardwareDevice } from "@/types";
+
+interface HardwareDevicesProps {
+  stationId: string;
+  ports: ChargingPort[];
+}
+
+interface IssuedSecret {
+  deviceId: string;
+  secret: string;
+}
+
+/**
+ * Registry of the charging port controllers allowed to report on this
+ * station: one device per port, each with its own signing secret. Secrets are
+ * shown once, right after they are issued. Devices the heartbeat watchdog
+ * has flagged show as offline.
+ */
+export function HardwareDevices({ stationId, ports }: HardwareDevicesProps) {
+  const [devices, setDevices] = useState<IHardwareDevice[]>([]);
+  const [issued, setIssued] = useState<IssuedSecret | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState("");
+
+  const fetchDevices = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/admin/stations/${stationId}/devices`);
+      if (res.ok) {
+        const data = await res.json();
+        setDevices(data.devices || []);
+      }
+    } catch (err) {
+      console.error("Failed to fetch devices:", err);
+    }
+  }, [stationId]);
+
+  // Refetch when a port changes status — it may have gone offline or come back
+  const portStatuses = ports.map((port) => port.status).join(",");
+  useEffect(() => {
+    fetchDevices();
+  }, [fetchDevices, portStatuses]);
+
+  const run = async (busy: string, request: () => Promise<Response>) => {
+    setBusyId(busy);
+    setError("");
+    try {
+      const res = await request();
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "Request failed");
+        return;
+      }
+      setIssued(data.secret ? { deviceId: data.device.deviceId, secret: data.secret } : null);
+      await fetchDevices();
+    } catch {
+      setError("Network error");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const register = (portId: string) =>
+    run(portId, () =>
+      fetch(`/api/admin/stations/${stationId}/devices`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ portId }),
+      })
+    );
+
+  const rotate = (deviceId: string) => {
+    if (!confirm("Rotate this device's secret? It stops working until it is flashed with the new one.")) return;
+    run(deviceId, () =>
+      fetch(`/api/admin/stations/${stationId}/devices/${deviceId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "rotate" }),
+      })
+    );
+  };
+
+  const remove = (deviceId: string) => {
+    if (!confirm("Remove this device? Its reports will be rejected.")) return;
+    run(deviceId, () =>
+      fetch(`/api/admin/stations/${stationId}/devices/${deviceId}`, {
+        method: "DELETE",
+      })
+    );
+  };
+
+  return (
+    <div className="rounded-xl border border-border bg-card p-6">
+      <h2 className="flex items-center gap-2 font-semibold text-card-foreground">
+        <Cpu className="h-5 w-5 text-primary" />
+        Hardware Devices
+      </h2>
+      <p className="mt-1 text-sm text-muted-foreground">
+        Each port controller signs its reports with its own secret and can only report on its port.
+      </p>
+
+      {error && (
+        <div className="mt-4 rounded-lg border border-red-500/20 bg-red-500/10 px-4 py-3 text-sm text-red-400">
+          {error}
+        </div>
+      )}
+
+      {issued && (
+        <div className="mt-4 rounded-lg border border-amber-500/30 bg-amber-500/10 p-4 text-sm">
+          <p className="flex items-center gap-2 font-medium text-amber-400">
+            <KeyRound className="h-4 w-4" />
+            Flash this secret to {issued.deviceId} — it won&apos;t be shown again
+          </p>
+          <code className="mt-2 block break-all rounded bg-background px-3 py-2 font-mono text-xs text-foreground">
+            {issued.secret}
+          </code>
+          <button
+            type="button"
+            onClick={() => setIssued(null)}
+            className="mt-2 text-xs text-muted-foreground hover:text-foreground"
+          >
+            I&apos;ve saved it
+          </button>
+        </div>
+      )}
+
+      <div className="mt-4 space-y-3">
+        {ports.map((port) => {
+          const portId = String(port._id);
+          const device = devices.find((d) => d.portId === portId);
+          const isBusy = busyId === portId || (!!device && busyId === device.deviceId);
+
+          return (
+            <div
+              key={portId}
+              className="flex items-center justify-between rounded-lg border border-border p-4"
+            >
+              <div>
+                <p className="flex items-center gap-2 text-sm font-medium text-foreground">
+                  Port {port.portNumber}
+                  {device && (
+                    <>
+                      <span className="font-mono text-xs text-muted-foreground">
+                        {device.deviceId}
+                      </span>
+                      {device.lastSeenAt && (
+                        <span
+                          className={cn(
+                            "rounded-full px-2 py-0.5 text-[10px] font-medium",
+                            device.offlineAt
+                              ? "bg-red-500/10 text-red-400"
+                              : "bg-emerald-500/10 text-emerald-400"
+                          )}
+                        >
+                          {device.offlineAt ? "Offline" : "Online"}
+                        </span>
+                      )}
+                    </>
+                  )}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {!device
+                    ? "No device registered"
+                    : device.lastSeenAt
+                      ? `Last seen ${formatDistanceToNow(new Date(device.lastSeenAt), { addSuffix: true })}`
+                      : "No reports yet"}
+                  {device?.firmwareVersion && ` · firmware ${device.firmwareVersion}`}
+                </p>
+              </div>
+
+              <div className="flex items-center gap-2">
+                {isBusy ? (
+                  <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                ) : device ? (
+                  <>
+                    <button
+                      type="button"
+                      onClick={() => rotate(device.deviceId)}
+                      className="inline-flex items-center gap-1 rounded-lg border border-border px-2.5 py-1.5 text-xs font-medium text-muted-foreground transition-colors hover:text-foreground"
+                    >
+                      <RefreshCw className="h-3 w-3" />
+                      Rotate secret
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => remove(device.deviceId)}
+                      className="rounded-lg p-1.5 text-muted-foreground transition-colors hover:bg-red-500/10 hover:text-red-400"
+                      title="Remove device"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => register(portId)}
+                    className="inline-flex items-center gap-1 rounded-lg bg-primary/10 px-2.5 py-1.5 text-xs font-medium text-primary transition-colors hover:bg-primary/20"
+                  >
+                    <Plus className="h-3 w-3" />
+                    Register device
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
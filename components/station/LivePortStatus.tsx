@@ -14,6 +14,7 @@ const statusConfig: Record<
   occupied: { label: "Occupied", variant: "danger" },
   reserved: { label: "Reserved", variant: "warning" },
   maintenance: { label: "Maintenance", variant: "default" },
+  offline: { label: "Offline", variant: "default" },
 };
 
 interface LivePortStatusProps {
@@ -134,8 +135,14 @@ export function LivePortStatus({
               )}
             >
               <div className="flex items-center justify-between">
-                <span className="text-sm font-medium text-foreground">
+                <span className="flex items-center gap-1.5 text-sm font-medium text-foreground">
                   {port.portNumber}
+                  {port.status === "offline" && (
+                    <WifiOff
+                      className="h-3.5 w-3.5 text-slate-400"
+                      aria-label="Charger offline"
+                    />
+                  )}
                 </span>
                 <Badge variant={config.variant}>{config.label}</Badge>
               </div>
@@ -2,20 +2,52 @@
 
 import { useState, useEffect } from "react";
 import { Bell, BellOff, Loader2 } from "lucide-react";
-import { cn } from "@/lib/utils";
+import { cn, formatNepalTime, getConnectorLabel, toNepalDate } from "@/lib/utils";
+import { parsePowerKw } from "@/lib/tariff";
+import { PORT_SUBSCRIPTION_DEFAULT_HOURS } from "@/lib/constants";
+import type { ChargingPort } from "@/types";
 
 interface NotifyMeButtonProps {
   stationId: string;
   hasAvailablePorts: boolean;
+  ports?: Pick<ChargingPort, "_id" | "portNumber" | "connectorType" | "powerOutput">[];
 }
 
+interface Subscription {
+  connectorType: string | null;
+  minPowerKw: number | null;
+  portId: string | null;
+  window: { start: string; end: string } | null;
+  expiresAt: string;
+}
+
+const EXPIRY_HOURS = [2, 6, PORT_SUBSCRIPTION_DEFAULT_HOURS, 24, 72];
+
+const selectClass =
+  "rounded-lg border border-border bg-background px-2 py-2 text-xs text-foreground focus:border-primary focus:outline-none";
+
 export function NotifyMeButton({
   stationId,
   hasAvailablePorts,
+  ports = [],
 }: NotifyMeButtonProps) {
-  const [subscribed, setSubscribed] = useState(false);
+  const [subscription, setSubscription] = useState<Subscription | null>(null);
   const [loading, setLoading] = useState(false);
   const [checking, setChecking] = useState(true);
+  const [error, setError] = useState("");
+  // "" leaves the connector to the vehicle saved in the driver's profile
+  const [connectorType, setConnectorType] = useState("");
+  const [minPowerKw, setMinPowerKw] = useState(0);
+  const [portId, setPortId] = useState("");
+  const [useWindow, setUseWindow] = useState(false);
+  const [windowStart, setWindowStart] = useState("17:00");
+  const [windowEnd, setWindowEnd] = useState("21:00");
+  const [expiresInHours, setExpiresInHours] = useState(PORT_SUBSCRIPTION_DEFAULT_HOURS);
+
+  const connectorTypes = [...new Set(ports.map((p) => p.connectorType))];
+  const powers = [...new Set(ports.map((p) => parsePowerKw(p.powerOutput) ?? 0))]
+    .filter((kw) => kw > 0)
+    .sort((a, b) => a - b);
 
   useEffect(() => {
     async function check() {
@@ -23,7 +55,7 @@ export function NotifyMeButton({
         const res = await fetch(`/api/stations/${stationId}/subscribe`);
         if (res.ok) {
           const data = await res.json();
-          setSubscribed(data.subscribed);
+          setSubscription(data.subscription);
         }
       } catch {
         /* ignore */
@@ -36,17 +68,28 @@ export function NotifyMeButton({
 
   const handleToggle = async () => {
     setLoading(true);
+    setError("");
     try {
-      if (subscribed) {
+      if (subscription) {
         const res = await fetch(`/api/stations/${stationId}/subscribe`, {
           method: "DELETE",
         });
-        if (res.ok) setSubscribed(false);
+        if (res.ok) setSubscription(null);
       } else {
         const res = await fetch(`/api/stations/${stationId}/subscribe`, {
           method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            connectorType: connectorType || undefined,
+            minPowerKw: minPowerKw || undefined,
+            portId: portId || undefined,
+            window: useWindow ? { start: windowStart, end: windowEnd } : undefined,
+            expiresInHours,
+          }),
         });
-        if (res.ok) setSubscribed(true);
+        const data = await res.json().catch(() => ({}));
+        if (res.ok) setSubscription(data.subscription);
+        else setError(data.error || "Failed to subscribe");
       }
     } catch {
       /* ignore */
@@ -58,30 +101,133 @@ export function NotifyMeButton({
   // Hide when ports are available or still loading initial state
   if (hasAvailablePorts || checking) return null;
 
+  const subscribedPort = subscription?.portId
+    ? ports.find((p) => (p._id ?? p.portNumber) === subscription.portId)
+    : null;
+
   return (
-    <button
-      onClick={handleToggle}
-      disabled={loading}
-      className={cn(
-        "flex w-full items-center justify-center gap-2 rounded-xl py-3 text-sm font-semibold transition-all",
-        subscribed
-          ? "bg-amber-500/10 text-amber-400 border border-amber-500/30 hover:bg-amber-500/20"
-          : "bg-primary/10 text-primary border border-primary/30 hover:bg-primary/20"
-      )}
-    >
-      {loading ? (
-        <Loader2 className="h-4 w-4 animate-spin" />
-      ) : subscribed ? (
-        <>
-          <BellOff className="h-4 w-4" />
-          Stop Notifications
-        </>
+    <div className="space-y-2">
+      {subscription ? (
+        <p className="text-xs text-muted-foreground">
+          Watching{" "}
+          {subscribedPort
+            ? `port ${subscribedPort.portNumber}`
+            : subscription.connectorType
+              ? `${getConnectorLabel(subscription.connectorType)} ports`
+              : "every port"}
+          {subscription.minPowerKw ? ` of ${subscription.minPowerKw} kW or more` : ""}
+          {subscription.window
+            ? `, ${subscription.window.start}–${subscription.window.end} daily`
+            : ""}
+          , until {formatNepalTime(subscription.expiresAt)}
+          {toNepalDate(new Date(subscription.expiresAt)) !== toNepalDate(new Date())
+            ? ` on ${toNepalDate(new Date(subscription.expiresAt))}`
+            : ""}
+          .
+        </p>
       ) : (
-        <>
-          <Bell className="h-4 w-4" />
-          Notify Me When Free
-        </>
+        <div className="grid grid-cols-2 gap-2">
+          <select
+            value={connectorType}
+            onChange={(e) => setConnectorType(e.target.value)}
+            className={selectClass}
+          >
+            <option value="">My vehicle&apos;s connector</option>
+            <option value="any">Any connector</option>
+            {connectorTypes.map((type) => (
+              <option key={type} value={type}>
+                {getConnectorLabel(type)}
+              </option>
+            ))}
+          </select>
+          <select
+            value={minPowerKw}
+            onChange={(e) => setMinPowerKw(Number(e.target.value))}
+            className={selectClass}
+          >
+            <option value={0}>Any power</option>
+            {powers.map((kw) => (
+              <option key={kw} value={kw}>
+                {kw} kW or more
+              </option>
+            ))}
+          </select>
+          <select
+            value={portId}
+            onChange={(e) => setPortId(e.target.value)}
+            className={selectClass}
+          >
+            <option value="">Any port</option>
+            {ports.map((p) => (
+              <option key={p._id ?? p.portNumber} value={p._id ?? p.portNumber}>
+                Port {p.portNumber}
+              </option>
+            ))}
+          </select>
+          <select
+            value={expiresInHours}
+            onChange={(e) => setExpiresInHours(Number(e.target.value))}
+            className={selectClass}
+          >
+            {EXPIRY_HOURS.map((hours) => (
+              <option key={hours} value={hours}>
+                For {hours} hours
+              </option>
+            ))}
+          </select>
+          <label className="col-span-2 flex items-center gap-2 text-xs text-muted-foreground">
+            <input
+              type="checkbox"
+              checked={useWindow}
+              onChange={(e) => setUseWindow(e.target.checked)}
+              className="accent-primary"
+            />
+            Only between
+            <input
+              type="time"
+              value={windowStart}
+              disabled={!useWindow}
+              onChange={(e) => setWindowStart(e.target.value)}
+              className={cn(selectClass, "py-1 disabled:opacity-50")}
+            />
+            and
+            <input
+              type="time"
+              value={windowEnd}
+              disabled={!useWindow}
+              onChange={(e) => setWindowEnd(e.target.value)}
+              className={cn(selectClass, "py-1 disabled:opacity-50")}
+            />
+          </label>
+        </div>
       )}
-    </button>
+
+      <button
+        onClick={handleToggle}
+        disabled={loading}
+        className={cn(
+          "flex w-full items-center justify-center gap-2 rounded-xl py-3 text-sm font-semibold transition-all",
+          subscription
+            ? "bg-amber-500/10 text-amber-400 border border-amber-500/30 hover:bg-amber-500/20"
+            : "bg-primary/10 text-primary border border-primary/30 hover:bg-primary/20"
+        )}
+      >
+        {loading ? (
+          <Loader2 className="h-4 w-4 animate-spin" />
+        ) : subscription ? (
+          <>
+            <BellOff className="h-4 w-4" />
+            Stop Notifications
+          </>
+        ) : (
+          <>
+            <Bell className="h-4 w-4" />
+            Notify Me When Free
+          </>
+        )}
+      </button>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
   );
 }
@@ -0,0 +1,46 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/Badge";
+import { getOpenState, type StationHours } from "@/lib/operatingHours";
+import { formatNepalTime, toNepalClock, toNepalDate } from "@/lib/utils";
+import { MS_PER_MINUTE } from "@/lib/constants";
+
+const DAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+interface OpenStatusProps {
+  station: StationHours;
+  className?: string;
+}
+
+/** "Open · closes 22:00" / "Closed · opens Sun 06:00", in Nepal time */
+export function OpenStatus({ station, className }: OpenStatusProps) {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), MS_PER_MINUTE);
+    return () => clearInterval(timer);
+  }, []);
+
+  const state = getOpenState(station, now);
+
+  const at = (date: Date) =>
+    toNepalDate(date) === toNepalDate(now)
+      ? formatNepalTime(date)
+      : `${DAY_NAMES[toNepalClock(date).day]} ${formatNepalTime(date)}`;
+
+  if (state.open) {
+    return (
+      <Badge variant="success" className={className}>
+        Open{state.closesAt && ` · closes ${at(state.closesAt)}`}
+      </Badge>
+    );
+  }
+
+  return (
+    <Badge variant={state.reason ? "warning" : "danger"} className={className}>
+      {state.reason ? `Closed (${state.reason})` : "Closed"}
+      {state.opensAt && ` · opens ${at(state.opensAt)}`}
+    </Badge>
+  );
+}
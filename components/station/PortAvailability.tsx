@@ -37,6 +37,11 @@ const statusConfig: Record<
     variant: "default",
     dotColor: "bg-gray-400",
   },
+  offline: {
+    label: "Offline",
+    variant: "default",
+    dotColor: "bg-gray-600",
+  },
 };
 
 export function PortAvailability({
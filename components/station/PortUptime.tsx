@@ -0,0 +1,187 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Activity, ChevronDown, ChevronUp } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { cn, formatDuration, formatNepalTime, getStatusColor } from "@/lib/utils";
+import { MS_PER_MINUTE } from "@/lib/constants";
+import type { ChargingPort, PortHistory } from "@/types";
+
+interface PortUptimeProps {
+  stationId: string;
+  ports: ChargingPort[];
+}
+
+const WINDOWS = [1, 7, 30, 90];
+
+const STATUS_BAR_COLORS: Record<string, string> = {
+  available: "bg-emerald-500",
+  occupied: "bg-red-500",
+  reserved: "bg-yellow-500",
+  maintenance: "bg-slate-400",
+  offline: "bg-slate-600",
+};
+
+const SOURCE_LABELS: Record<string, string> = {
+  hardware: "Hardware",
+  admin: "Operator",
+  booking: "Booking",
+  watchdog: "Watchdog",
+  queue: "Queue turn",
+};
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div>
+      <p className="text-[10px] uppercase tracking-wide text-muted-foreground">{label}</p>
+      <p className="text-sm font-semibold text-foreground">{value}</p>
+    </div>
+  );
+}
+
+/**
+ * Uptime, availability and time in maintenance of each port over a window,
+ * from its recorded status changes, with the changes themselves as a timeline
+ */
+export function PortUptime({ stationId, ports }: PortUptimeProps) {
+  const [days, setDays] = useState(7);
+  const [history, setHistory] = useState<PortHistory[]>([]);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const fetchHistory = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/admin/stations/${stationId}/port-history?days=${days}`);
+      if (res.ok) {
+        const data = await res.json();
+        setHistory(data.ports || []);
+      }
+    } catch (err) {
+      console.error("Failed to fetch port history:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [stationId, days]);
+
+  // Refetch when a port changes status — the change is on its timeline now
+  const portStatuses = ports.map((port) => port.status).join(",");
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory, portStatuses]);
+
+  return (
+    <div className="rounded-xl border border-border bg-card p-6">
+      <div className="flex items-center justify-between">
+        <h2 className="flex items-center gap-2 font-semibold text-card-foreground">
+          <Activity className="h-5 w-5 text-primary" />
+          Port Uptime
+        </h2>
+        <div className="flex gap-1">
+          {WINDOWS.map((span) => (
+            <button
+              key={span}
+              type="button"
+              onClick={() => setDays(span)}
+              className={cn(
+                "rounded-lg px-2.5 py-1 text-xs font-medium transition-colors",
+                days === span
+                  ? "bg-primary/10 text-primary"
+                  : "text-muted-foreground hover:text-foreground"
+              )}
+            >
+              {span === 1 ? "24h" : `${span}d`}
+            </button>
+          ))}
+        </div>
+      </div>
+      <p className="mt-1 text-sm text-muted-foreground">
+        Time each port spent in each status, from every change reported by hardware,
+        operators, bookings, queue turns and the device watchdog.
+      </p>
+
+      <div className="mt-4 space-y-3">
+        {loading && <p className="text-sm text-muted-foreground">Loading…</p>}
+        {history.map((port) => {
+          const isExpanded = expanded === port.portId;
+          return (
+            <div key={port.portId} className="rounded-lg border border-border p-4">
+              <div className="flex items-center justify-between">
+                <p className="flex items-center gap-2 text-sm font-medium text-foreground">
+                  Port {port.portNumber}
+                  <span
+                    className={cn(
+                      "rounded-full px-2 py-0.5 text-[10px] font-medium capitalize",
+                      getStatusColor(port.status)
+                    )}
+                  >
+                    {port.status}
+                  </span>
+                </p>
+                <button
+                  type="button"
+                  onClick={() => setExpanded(isExpanded ? null : port.portId)}
+                  className="inline-flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+                >
+                  {port.changes} change{port.changes === 1 ? "" : "s"}
+                  {isExpanded ? <ChevronUp className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+                </button>
+              </div>
+
+              {/* Share of the window in each status */}
+              <div className="mt-3 flex h-2 overflow-hidden rounded-full bg-background">
+                {Object.entries(port.msByStatus).map(([status, ms]) => (
+                  <div
+                    key={status}
+                    title={`${status}: ${formatDuration(Math.round(ms / MS_PER_MINUTE))}`}
+                    className={STATUS_BAR_COLORS[status] ?? "bg-slate-500"}
+                    style={{ width: `${port.trackedMs ? (ms / port.trackedMs) * 100 : 0}%` }}
+                  />
+                ))}
+              </div>
+
+              <div className="mt-3 grid grid-cols-2 gap-3 sm:grid-cols-5">
+                <Stat label="Uptime" value={`${port.uptimePercent}%`} />
+                <Stat label="Available" value={`${port.availabilityPercent}%`} />
+                <Stat label="Utilization" value={`${port.utilizationPercent}%`} />
+                <Stat label="Reserved" value={`${port.reservedPercent}%`} />
+                <Stat
+                  label="Mean maintenance"
+                  value={
+                    port.maintenancePeriods
+                      ? formatDuration(Math.round(port.meanMaintenanceMs / MS_PER_MINUTE))
+                      : "—"
+                  }
+                />
+              </div>
+
+              {isExpanded && (
+                <ol className="mt-3 space-y-1.5 border-t border-border pt-3">
+                  {port.timeline.length === 0 && (
+                    <li className="text-xs text-muted-foreground">No status changes in this window.</li>
+                  )}
+                  {port.timeline.map((change) => (
+                    <li key={change._id} className="flex items-center justify-between text-xs">
+                      <span className="text-muted-foreground">
+                        <span className="capitalize">{change.previousStatus ?? "—"}</span>
+                        {" → "}
+                        <span className="font-medium capitalize text-foreground">{change.status}</span>
+                        {` · ${SOURCE_LABELS[change.source] ?? change.source}`}
+                        {change.event && ` (${change.event.replace(/_/g, " ")})`}
+                      </span>
+                      <span
+                        className="text-muted-foreground"
+                        title={formatNepalTime(change.at)}
+                      >
+                        {formatDistanceToNow(new Date(change.at), { addSuffix: true })}
+                      </span>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -2,7 +2,12 @@
 
 import { useState, useEffect, useCallback } from "react";
 import { Users, Clock, Loader2, LogOut, Trophy, Timer } from "lucide-react";
-import { cn } from "@/lib/utils";
+import { cn, formatNepalTime, getConnectorLabel } from "@/lib/utils";
+import { parsePowerKw } from "@/lib/tariff";
+import { useEventStream } from "@/hooks/useEventStream";
+import { PushNotificationsToggle } from "@/components/notifications/PushNotificationsToggle";
+import { QUEUE_TURN_MINUTES } from "@/lib/constants";
+import type { ChargingPort } from "@/types";
 
 interface QueueData {
   totalInQueue: number;
@@ -10,21 +15,38 @@ interface QueueData {
   userStatus: string | null;
   userExpiresAt: string | null;
   estimatedWaitMin: number | null;
+  penaltyUntil: string | null;
 }
 
 interface QueueManagerProps {
   stationId: string;
   hasAvailablePorts: boolean;
+  ports?: Pick<ChargingPort, "connectorType" | "powerOutput">[];
+}
+
+function formatWait(minutes: number | null): string {
+  if (minutes == null) return "unknown — no matching port is in service";
+  return minutes === 0 ? "any minute now" : `~${minutes} min`;
 }
 
 export function QueueManager({
   stationId,
   hasAvailablePorts,
+  ports = [],
 }: QueueManagerProps) {
   const [queueData, setQueueData] = useState<QueueData | null>(null);
   const [loading, setLoading] = useState(true);
   const [joining, setJoining] = useState(false);
   const [leaving, setLeaving] = useState(false);
+  const [error, setError] = useState("");
+  // "" leaves the connector to the vehicle saved in the driver's profile
+  const [connectorType, setConnectorType] = useState("");
+  const [minPowerKw, setMinPowerKw] = useState(0);
+
+  const connectorTypes = [...new Set(ports.map((p) => p.connectorType))];
+  const powers = [...new Set(ports.map((p) => parsePowerKw(p.powerOutput) ?? 0))]
+    .filter((kw) => kw > 0)
+    .sort((a, b) => a - b);
 
   const fetchQueue = useCallback(async () => {
     try {
@@ -47,43 +69,48 @@ export function QueueManager({
   }, [fetchQueue]);
 
   // Listen for SSE queue updates
-  useEffect(() => {
-    let es: EventSource | null = null;
-    try {
-      es = new EventSource("/api/sse/user");
-      es.addEventListener("queue-update", (e) => {
-        try {
-          const data = JSON.parse(e.data);
-          if (data.stationId === stationId) {
-            setQueueData((prev) =>
-              prev
-                ? {
-                    ...prev,
-                    userPosition: data.position,
-                    userStatus: data.queueStatus,
-                    estimatedWaitMin: data.estimatedWaitMin,
-                  }
-                : prev
-            );
-          }
-        } catch {
-          /* ignore */
+  useEventStream(
+    "/api/sse/user",
+    {
+      "queue-update": (data) => {
+        if (data.stationId !== stationId) return;
+        // A turn starting or ending changes more than the position
+        if (data.queueStatus !== "waiting") {
+          fetchQueue();
+          return;
         }
-      });
-    } catch {
-      /* SSE not available */
-    }
-    return () => es?.close();
-  }, [stationId]);
+        setQueueData((prev) =>
+          prev
+            ? {
+                ...prev,
+                userPosition: data.position,
+                userStatus: data.queueStatus,
+                estimatedWaitMin: data.estimatedWaitMin,
+              }
+            : prev
+        );
+      },
+    },
+    fetchQueue
+  );
 
   const handleJoin = async () => {
     setJoining(true);
+    setError("");
     try {
       const res = await fetch(`/api/stations/${stationId}/queue`, {
         method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          connectorType: connectorType || undefined,
+          minPowerKw: minPowerKw || undefined,
+        }),
       });
       if (res.ok || res.status === 409) {
         await fetchQueue();
+      } else {
+        const data = await res.json().catch(() => ({}));
+        setError(data.error || "Failed to join queue");
       }
     } catch {
       /* ignore */
@@ -134,8 +161,8 @@ export function QueueManager({
             </span>
           </div>
           <p className="text-xs text-emerald-300/80">
-            A port is now available. Book within 5 minutes before your spot
-            expires.
+            A port is now available. Book within {QUEUE_TURN_MINUTES} minutes
+            before your spot expires.
           </p>
           {queueData?.userExpiresAt && (
             <div className="mt-2 flex items-center gap-1 text-xs text-emerald-400">
@@ -156,11 +183,50 @@ export function QueueManager({
           </div>
           <div className="flex items-center gap-1 text-xs text-muted-foreground">
             <Clock className="h-3 w-3" />
-            Estimated wait: ~{queueData?.estimatedWaitMin || 30} min
+            Estimated wait: {formatWait(queueData?.estimatedWaitMin ?? null)}
           </div>
+          <PushNotificationsToggle compact className="mt-2" />
         </div>
       ) : null}
 
+      {!isInQueue && (
+        <div className="mb-3 grid grid-cols-2 gap-2">
+          <select
+            value={connectorType}
+            onChange={(e) => setConnectorType(e.target.value)}
+            className="rounded-lg border border-border bg-background px-2 py-2 text-xs text-foreground focus:border-primary focus:outline-none"
+          >
+            <option value="">My vehicle&apos;s connector</option>
+            <option value="any">Any connector</option>
+            {connectorTypes.map((type) => (
+              <option key={type} value={type}>
+                {getConnectorLabel(type)}
+              </option>
+            ))}
+          </select>
+          <select
+            value={minPowerKw}
+            onChange={(e) => setMinPowerKw(Number(e.target.value))}
+            className="rounded-lg border border-border bg-background px-2 py-2 text-xs text-foreground focus:border-primary focus:outline-none"
+          >
+            <option value={0}>Any power</option>
+            {powers.map((kw) => (
+              <option key={kw} value={kw}>
+                {kw} kW or more
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {error && <p className="mb-3 text-xs text-red-400">{error}</p>}
+      {!isInQueue && queueData?.penaltyUntil && (
+        <p className="mb-3 text-xs text-amber-400">
+          You missed several queue turns recently and can join again after{" "}
+          {formatNepalTime(queueData.penaltyUntil)}.
+        </p>
+      )}
+
       {isInQueue ? (
         <button
           onClick={handleLeave}
@@ -177,8 +243,8 @@ export function QueueManager({
       ) : (
         <button
           onClick={handleJoin}
-          disabled={joining}
-          className="flex w-full items-center justify-center gap-2 rounded-lg bg-purple-500/15 py-2.5 text-sm font-semibold text-purple-400 border border-purple-500/30 transition-colors hover:bg-purple-500/25"
+          disabled={joining || !!queueData?.penaltyUntil}
+          className="flex w-full items-center justify-center gap-2 rounded-lg bg-purple-500/15 py-2.5 text-sm font-semibold text-purple-400 border border-purple-500/30 transition-colors hover:bg-purple-500/25 disabled:cursor-not-allowed disabled:opacity-50"
         >
           {joining ? (
             <Loader2 className="h-4 w-4 animate-spin" />
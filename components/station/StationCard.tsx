@@ -18,6 +18,7 @@ import {
 } from "lucide-react";
 import { cn, getConnectorLabel } from "@/lib/utils";
 import { Badge } from "@/components/ui/Badge";
+import { OpenStatus } from "@/components/station/OpenStatus";
 import type { IStation } from "@/types";
 import { useState, useEffect } from "react";
 
@@ -114,6 +115,8 @@ export function StationCard({
           </button>
         </div>
 
+        <OpenStatus station={station} className="mt-2" />
+
         {/* ETA / Driving Time */}
         {etaMinutes != null && (
           <div className="mt-2.5 flex items-center gap-2">
@@ -13,20 +13,30 @@
  *   Green       = Available
  *   Blue        = Vehicle Connected
  *   Blue+Green  = Charging (blue pulses)
- *   Green+Red   = Charge Complete
+ *   Green+Red   = Charge Complete (vehicle still plugged in)
  *
  * Sends HTTP POST to /api/hardware/port-update on every state change.
+ * While charging it also simulates an energy meter and reports the kWh
+ * delivered in the session ("meter_values") so metered tariffs can bill it.
+ * Every request is signed with this device's own secret (HMAC-SHA256 over
+ * timestamp, nonce and body), so the clock is synced over NTP at boot.
+ * A heartbeat goes to /api/hardware/heartbeat every minute; after a few
+ * missed beats the backend marks the port offline and alerts the admin.
  *
  * SETUP:
  *   1. Install ESP32 board support in Arduino IDE
  *   2. Install ArduinoJson library (v7+)
  *   3. Update WiFi credentials and server URL below
- *   4. Set STATION_ID and PORT_ID from your admin panel
+ *   4. Register a device for the port on the admin station page and copy
+ *      its STATION_ID, PORT_ID, DEVICE_ID and DEVICE_SECRET below
  *   5. Upload to ESP32
  */
 
 #include <WiFi.h>
 #include <HTTPClient.h>
+#include <time.h>
+#include <esp_random.h>
+#include <mbedtls/md.h>
 
 // ═══════════════════ CONFIGURATION ═══════════════════
 // WiFi
@@ -35,13 +45,23 @@ const char* WIFI_PASSWORD = "Avocado@8008";
 
 // Urja Station Backend
 const char* SERVER_URL    = "http://192.168.18.40:3000/api/hardware/port-update";
-const char* API_KEY       = "esp32-secret-key-change-me"; // Must match HARDWARE_API_KEY env var
+const char* HEARTBEAT_URL = "http://192.168.18.40:3000/api/hardware/heartbeat";
+const char* NTP_SERVER    = "pool.ntp.org";
 
 // Station & Port — "Siddhartha Riverside Resort TATA" (MongoDB), Port P15-1
 const char* STATION_ID    = "698fc1f9d37a20005e3076d7";
 const char* PORT_ID       = "698fc1f9d37a20005e3076d8";
+
+// Device credentials — from "Hardware Devices" on the admin station page.
+// The device may only report on the port it is registered to.
+const char* DEVICE_ID     = "dev-000000000000";
+const char* DEVICE_SECRET = "paste-the-secret-shown-once-at-registration";
 // ═════════════════════════════════════════════════════
 
+// ─── Firmware & Heartbeat ────────────────────────────
+#define FIRMWARE_VERSION    "1.2.0"
+#define HEARTBEAT_MS        60000   // Must match HARDWARE_HEARTBEAT_INTERVAL_MS
+
 // ─── Pin Definitions ─────────────────────────────────
 #define BUTTON_PIN   0   // BOOT button (built-in on most ESP32 boards)
 #define LED_BUILTIN  2   // Built-in blue LED
@@ -55,6 +75,11 @@ const char* PORT_ID       = "698fc1f9d37a20005e3076d8";
 #define AUTO_CYCLE_MS    10000   // Auto-advance every 10s in demo mode
 #define CHARGE_DURATION  30000   // 30s simulated charge time
 
+// ─── Simulated Energy Meter ──────────────────────────
+#define SIM_POWER_KW        7.2    // Simulated charging power
+#define SIM_TIME_SCALE      120    // 1s of demo = 2min of charging (30s ≈ 1hr)
+#define METER_INTERVAL_MS   5000   // Report meter values every 5s while charging
+
 // ─── State Machine ───────────────────────────────────
 enum PortState {
   STATE_AVAILABLE,
@@ -76,7 +101,7 @@ const char* stateStatuses[] = {
   "available",   // → green in UI
   "occupied",    // → red in UI
   "occupied",    // → red in UI (charging)
-  "available",   // → green in UI (done, port free)
+  "occupied",    // → red in UI (done, vehicle still plugged in — idle)
   "maintenance"  // → grey in UI
 };
 
@@ -94,6 +119,11 @@ unsigned long lastChange = 0;
 unsigned long lastHeart  = 0;
 bool btnDown             = false;
 
+// Meter: kWh delivered in the current charging session
+float sessionKwh         = 0.0;
+unsigned long lastMeter  = 0;
+unsigned long lastEnergy = 0;
+
 // ═════════════════════════════════════════════════════
 //                       SETUP
 // ═════════════════════════════════════════════════════
@@ -128,6 +158,7 @@ void setup() {
 
   if (WiFi.status() == WL_CONNECTED) {
     Serial.printf("\n[WiFi] ✓ Connected — IP: %s\n", WiFi.localIP().toString().c_str());
+    syncClock();
   } else {
     Serial.println("\n[WiFi] ✗ Failed — running offline (will retry)");
   }
@@ -135,6 +166,7 @@ void setup() {
   Serial.println();
   Serial.printf("[Config] Station : %s\n", STATION_ID);
   Serial.printf("[Config] Port    : %s\n", PORT_ID);
+  Serial.printf("[Config] Device  : %s (firmware %s)\n", DEVICE_ID, FIRMWARE_VERSION);
   Serial.printf("[Config] Server  : %s\n", SERVER_URL);
   Serial.println();
   Serial.println("→ Press BOOT button to cycle charging states");
@@ -164,6 +196,16 @@ void loop() {
 
   // ── Auto-complete charging after simulated duration ──
   if (currentState == STATE_CHARGING) {
+    // Integrate simulated power into delivered energy
+    unsigned long now = millis();
+    sessionKwh += SIM_POWER_KW * SIM_TIME_SCALE * (now - lastEnergy) / 3600000.0;
+    lastEnergy = now;
+
+    if (now - lastMeter >= METER_INTERVAL_MS) {
+      lastMeter = now;
+      sendReport("meter_values");
+    }
+
     if (millis() - lastChange >= CHARGE_DURATION) {
       Serial.println("⚡ Charging complete!");
       currentState = STATE_CHARGE_COMPLETE;
@@ -185,10 +227,10 @@ void loop() {
   }
   #endif
 
-  // ── Heartbeat every 60s ──
-  if (millis() - lastHeart > 60000) {
+  // ── Heartbeat every minute ──
+  if (millis() - lastHeart > HEARTBEAT_MS) {
     lastHeart = millis();
-    sendStatusUpdate();
+    sendHeartbeat();
   }
 
   // ── WiFi reconnect ──
@@ -216,6 +258,13 @@ void advanceState() {
     default:                      currentState = STATE_AVAILABLE;         break;
   }
 
+  // A new charging session starts the meter from zero
+  if (currentState == STATE_CHARGING) {
+    sessionKwh = 0.0;
+    lastEnergy = millis();
+    lastMeter  = millis();
+  }
+
   lastChange = millis();
   updateLEDs();
   sendStatusUpdate();
@@ -260,31 +309,98 @@ void updateLEDs() {
   }
 }
 
+// ═════════════════════════════════════════════════════
+//                  REQUEST SIGNING
+// ═════════════════════════════════════════════════════
+// Signed requests carry a unix timestamp the server checks against its own
+// clock (±5 min), so the clock must be set before the first report.
+void syncClock() {
+  configTime(0, 0, NTP_SERVER);
+  Serial.print("[NTP] Syncing clock");
+  int attempts = 0;
+  while (time(nullptr) < 1700000000 && attempts < 20) {
+    delay(500);
+    Serial.print(".");
+    attempts++;
+  }
+  Serial.println(time(nullptr) < 1700000000 ? " ✗ failed" : " ✓");
+}
+
+// Hex HMAC-SHA256 of "<timestamp>.<nonce>.<body>" with DEVICE_SECRET
+String signRequest(const String& timestamp, const String& nonce, const String& body) {
+  String message = timestamp + "." + nonce + "." + body;
+  unsigned char mac[32];
+
+  mbedtls_md_context_t ctx;
+  mbedtls_md_init(&ctx);
+  mbedtls_md_setup(&ctx, mbedtls_md_info_from_type(MBEDTLS_MD_SHA256), 1);
+  mbedtls_md_hmac_starts(&ctx, (const unsigned char*)DEVICE_SECRET, strlen(DEVICE_SECRET));
+  mbedtls_md_hmac_update(&ctx, (const unsigned char*)message.c_str(), message.length());
+  mbedtls_md_hmac_finish(&ctx, mac);
+  mbedtls_md_free(&ctx);
+
+  char hex[65];
+  for (int i = 0; i < 32; i++) sprintf(hex + i * 2, "%02x", mac[i]);
+  return String(hex);
+}
+
 // ═════════════════════════════════════════════════════
 //                HTTP STATUS UPDATE
 // ═════════════════════════════════════════════════════
 void sendStatusUpdate() {
+  sendReport(stateEvents[currentState]);
+}
+
+void sendReport(const char* eventName) {
+  // Build JSON manually (no ArduinoJson needed)
+  String payload = "{";
+  payload += "\"stationId\":\"" + String(STATION_ID) + "\",";
+  payload += "\"portId\":\"" + String(PORT_ID) + "\",";
+  payload += "\"status\":\"" + String(stateStatuses[currentState]) + "\",";
+  payload += "\"event\":\"" + String(eventName) + "\",";
+  // Meter reading for the session in progress / just finished
+  if (currentState == STATE_CHARGING || currentState == STATE_CHARGE_COMPLETE) {
+    payload += "\"energyKwh\":" + String(sessionKwh, 3) + ",";
+  }
+  payload += "\"uptimeMs\":" + String(millis());
+  payload += "}";
+
+  postSigned(SERVER_URL, payload);
+}
+
+void sendHeartbeat() {
+  String payload = "{";
+  payload += "\"stationId\":\"" + String(STATION_ID) + "\",";
+  payload += "\"portId\":\"" + String(PORT_ID) + "\",";
+  payload += "\"firmwareVersion\":\"" + String(FIRMWARE_VERSION) + "\",";
+  payload += "\"uptimeMs\":" + String(millis());
+  payload += "}";
+
+  postSigned(HEARTBEAT_URL, payload);
+}
+
+void postSigned(const char* url, const String& payload) {
   if (WiFi.status() != WL_CONNECTED) {
     Serial.println("[HTTP] ⚠ Skipped — WiFi not connected");
     return;
   }
+  if (time(nullptr) < 1700000000) {
+    syncClock();  // booted offline — the server rejects unsynced timestamps
+  }
+
+  String timestamp = String((unsigned long)time(nullptr));
+  char nonce[17];
+  sprintf(nonce, "%08lx%08lx", (unsigned long)esp_random(), (unsigned long)esp_random());
 
   HTTPClient http;
-  http.begin(SERVER_URL);
+  http.begin(url);
   http.addHeader("Content-Type", "application/json");
-  http.addHeader("x-api-key", API_KEY);
+  http.addHeader("x-device-id", DEVICE_ID);
+  http.addHeader("x-timestamp", timestamp);
+  http.addHeader("x-nonce", nonce);
+  http.addHeader("x-signature", signRequest(timestamp, String(nonce), payload));
   http.setTimeout(5000);
 
-  // Build JSON manually (no ArduinoJson needed)
-  String payload = "{";
-  payload += "\"stationId\":\"" + String(STATION_ID) + "\",";
-  payload += "\"portId\":\"" + String(PORT_ID) + "\",";
-  payload += "\"status\":\"" + String(stateStatuses[currentState]) + "\",";
-  payload += "\"event\":\"" + String(stateEvents[currentState]) + "\",";
-  payload += "\"timestamp\":" + String(millis()) + ",";
-  payload += "\"deviceId\":\"" + WiFi.macAddress() + "\"";
-  payload += "}";
-
   Serial.printf("[HTTP] → %s\n", payload.c_str());
 
   int code = http.POST(payload);
@@ -0,0 +1,93 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { RealtimeEventOf, RealtimeEventType } from "@/lib/realtime/types";
+
+/** Handlers by event type, each given that type's event */
+export type EventHandlers = {
+  [T in RealtimeEventType]?: (data: RealtimeEventOf<T>) => void;
+};
+
+/**
+ * Resumable SSE subscription. Remembers the id of the last event received
+ * and reconnects (with exponential back-off, max 30 s) from that id, so the
+ * server replays whatever was missed. When the gap is too old to replay the
+ * server sends `resync` and `onResync` should reload state from the API.
+ */
+export function useEventStream(
+  url: string | null,
+  handlers: EventHandlers,
+  onResync?: () => void
+) {
+  const [isConnected, setIsConnected] = useState(false);
+  const handlersRef = useRef(handlers);
+  const onResyncRef = useRef(onResync);
+
+  useEffect(() => {
+    handlersRef.current = handlers;
+    onResyncRef.current = onResync;
+  });
+
+  // Event types are fixed per connection; re-subscribe only if they change
+  const types = Object.keys(handlers).sort().join(",");
+
+  useEffect(() => {
+    if (!url) return;
+
+    let es: EventSource | null = null;
+    let reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+    let attempts = 0;
+    let lastEventId: string | null = null;
+    let stopped = false;
+
+    const open = () => {
+      const target = lastEventId
+        ? `${url}${url.includes("?") ? "&" : "?"}lastEventId=${lastEventId}`
+        : url;
+      const source = new EventSource(target);
+      es = source;
+
+      source.onopen = () => {
+        setIsConnected(true);
+        attempts = 0;
+      };
+
+      for (const type of types.split(",").filter(Boolean) as RealtimeEventType[]) {
+        source.addEventListener(type, (e: MessageEvent) => {
+          if (e.lastEventId) lastEventId = e.lastEventId;
+          try {
+            const handler = handlersRef.current[type] as
+              | ((data: RealtimeEventOf<typeof type>) => void)
+              | undefined;
+            handler?.(JSON.parse(e.data));
+          } catch (err) {
+            console.error(`Failed to handle SSE ${type} event:`, err);
+          }
+        });
+      }
+
+      source.addEventListener("resync", () => {
+        lastEventId = null;
+        onResyncRef.current?.();
+      });
+
+      source.onerror = () => {
+        setIsConnected(false);
+        source.close();
+        if (stopped) return;
+        const delay = Math.min(1000 * Math.pow(2, attempts), 30000);
+        attempts++;
+        reconnectTimeout = setTimeout(open, delay);
+      };
+    };
+
+    open();
+    return () => {
+      stopped = true;
+      es?.close();
+      if (reconnectTimeout) clearTimeout(reconnectTimeout);
+    };
+  }, [url, types]);
+
+  return { isConnected };
+}
@@ -1,6 +1,7 @@
 "use client";
 
-import { useEffect, useRef, useState, useCallback } from "react";
+import { useEffect, useState, useCallback } from "react";
+import { useEventStream } from "@/hooks/useEventStream";
 
 interface Notification {
   _id: string;
@@ -16,14 +17,12 @@ interface Notification {
 
 /**
  * Real-time notification system.
- * Fetches existing notifications on mount then subscribes to SSE for live updates.
+ * Fetches existing notifications on mount then subscribes to SSE for live
+ * updates, refetching only if the server can't replay what was missed.
  */
 export function useNotifications() {
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [unreadCount, setUnreadCount] = useState(0);
-  const [isConnected, setIsConnected] = useState(false);
-  const eventSourceRef = useRef<EventSource | null>(null);
-  const reconnectRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   // ── Fetch existing notifications ──
   const fetchNotifications = useCallback(async () => {
@@ -39,56 +38,35 @@ export function useNotifications() {
     }
   }, []);
 
-  // ── Connect to user-scoped SSE ──
-  const connect = useCallback(() => {
-    if (eventSourceRef.current) eventSourceRef.current.close();
-
-    const es = new EventSource("/api/sse/user");
-    eventSourceRef.current = es;
-
-    es.onopen = () => setIsConnected(true);
-
-    es.addEventListener("notification", (e) => {
-      try {
-        const data = JSON.parse(e.data);
+  // ── Subscribe to user-scoped SSE (resumes after reconnects) ──
+  const { isConnected } = useEventStream(
+    "/api/sse/user",
+    {
+      notification: (data) => {
         const notif = data.notification;
-        if (notif) {
-          setNotifications((prev) => [
-            {
-              _id: notif._id,
-              type: notif.notificationType,
-              title: notif.title,
-              message: notif.message,
-              stationId: notif.stationId,
-              actionUrl: notif.actionUrl,
-              read: false,
-              createdAt: new Date().toISOString(),
-            },
-            ...prev,
-          ]);
-          setUnreadCount((prev) => prev + 1);
-        }
-      } catch {
-        /* ignore */
-      }
-    });
-
-    es.onerror = () => {
-      setIsConnected(false);
-      es.close();
-      reconnectRef.current = setTimeout(connect, 5000);
-    };
-  }, []);
+        if (!notif) return;
+        setNotifications((prev) => [
+          {
+            _id: notif._id,
+            type: notif.notificationType,
+            title: notif.title,
+            message: notif.message,
+            stationId: notif.stationId,
+            actionUrl: notif.actionUrl,
+            read: false,
+            createdAt: new Date().toISOString(),
+          },
+          ...prev,
+        ]);
+        setUnreadCount((prev) => prev + 1);
+      },
+    },
+    fetchNotifications
+  );
 
   useEffect(() => {
     fetchNotifications();
-    connect();
-
-    return () => {
-      eventSourceRef.current?.close();
-      if (reconnectRef.current) clearTimeout(reconnectRef.current);
-    };
-  }, [fetchNotifications, connect]);
+  }, [fetchNotifications]);
 
   // ── Mark as read ──
   const markAsRead = useCallback(async (ids?: string[]) => {
@@ -0,0 +1,112 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+const SERVICE_WORKER_URL = "/sw.js";
+const VAPID_PUBLIC_KEY = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+
+export type PushState =
+  | "unsupported" // no service workers / Push API, or push isn't set up on the server
+  | "denied" // the user blocked notifications for the site
+  | "off"
+  | "on";
+
+/** VAPID keys are URL-safe base64; the Push API wants the raw bytes */
+function decodeKey(base64: string): Uint8Array<ArrayBuffer> {
+  const padded = (base64 + "=".repeat((4 - (base64.length % 4)) % 4))
+    .replace(/-/g, "+")
+    .replace(/_/g, "/");
+  const raw = atob(padded);
+  const bytes = new Uint8Array(new ArrayBuffer(raw.length));
+  for (let i = 0; i < raw.length; i++) bytes[i] = raw.charCodeAt(i);
+  return bytes;
+}
+
+function isSupported(): boolean {
+  return (
+    !!VAPID_PUBLIC_KEY &&
+    typeof window !== "undefined" &&
+    "serviceWorker" in navigator &&
+    "PushManager" in window &&
+    "Notification" in window
+  );
+}
+
+/**
+ * Web Push on this device: registers the service worker, subscribes the
+ * browser and stores the subscription so notifications reach the driver
+ * with the app closed.
+ */
+export function usePushNotifications() {
+  const [state, setState] = useState<PushState>("unsupported");
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (!isSupported()) return;
+    if (Notification.permission === "denied") {
+      setState("denied");
+      return;
+    }
+    navigator.serviceWorker
+      .getRegistration(SERVICE_WORKER_URL)
+      .then((registration) => registration?.pushManager.getSubscription())
+      .then((subscription) => setState(subscription ? "on" : "off"))
+      .catch(() => setState("off"));
+  }, []);
+
+  const enable = useCallback(async () => {
+    if (!isSupported()) return;
+    setBusy(true);
+    try {
+      const permission = await Notification.requestPermission();
+      if (permission !== "granted") {
+        setState(permission === "denied" ? "denied" : "off");
+        return;
+      }
+
+      const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+      await navigator.serviceWorker.ready;
+      const subscription =
+        (await registration.pushManager.getSubscription()) ??
+        (await registration.pushManager.subscribe({
+          userVisibleOnly: true,
+          applicationServerKey: decodeKey(VAPID_PUBLIC_KEY!),
+        }));
+
+      const res = await fetch("/api/notifications/push", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ subscription: subscription.toJSON() }),
+      });
+      setState(res.ok ? "on" : "off");
+    } catch (err) {
+      console.error("Failed to enable push notifications:", err);
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  const disable = useCallback(async () => {
+    if (!isSupported()) return;
+    setBusy(true);
+    try {
+      const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+      const subscription = await registration?.pushManager.getSubscription();
+      if (subscription) {
+        await fetch("/api/notifications/push", {
+          method: "DELETE",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ endpoint: subscription.endpoint }),
+        });
+        await subscription.unsubscribe();
+      }
+      setState("off");
+    } catch (err) {
+      console.error("Failed to disable push notifications:", err);
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  return { state, busy, enable, disable };
+}
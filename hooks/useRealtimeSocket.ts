@@ -0,0 +1,174 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useAuth } from "@clerk/nextjs";
+import { REALTIME_SOCKET_PATH } from "@/lib/constants";
+import {
+  subscriptionKey,
+  type SocketCommand,
+  type SocketServerMessage,
+  type SocketSubscription,
+} from "@/lib/realtime/protocol";
+import type {
+  RealtimeEvent,
+  RealtimeEventOf,
+  RealtimeEventType,
+} from "@/lib/realtime/types";
+
+type SocketEventHandlers = {
+  [T in RealtimeEventType]?: (event: RealtimeEventOf<T>, key: string) => void;
+};
+
+export type SocketCommandResult =
+  | { ok: true; data: unknown }
+  | { ok: false; error: string; status: number };
+
+/**
+ * Two-way counterpart of `useStationSSE`: one WebSocket to the realtime
+ * gateway carrying any number of subscriptions, plus operator commands.
+ * Like the SSE hooks it reconnects with back-off and resumes every
+ * subscription from the last event it saw; `onResync` gets the subscription
+ * key when the gap was too old to replay. `sendCommand` resolves with the
+ * same outcome the matching REST route would have returned.
+ */
+export function useRealtimeSocket(
+  subscriptions: SocketSubscription[],
+  handlers: SocketEventHandlers,
+  onResync?: (key: string) => void
+) {
+  const { getToken } = useAuth();
+  const [isConnected, setIsConnected] = useState(false);
+  const socketRef = useRef<WebSocket | null>(null);
+  const pendingRef = useRef(
+    new Map<string, (result: SocketCommandResult) => void>()
+  );
+  const handlersRef = useRef(handlers);
+  const onResyncRef = useRef(onResync);
+  const getTokenRef = useRef(getToken);
+
+  useEffect(() => {
+    handlersRef.current = handlers;
+    onResyncRef.current = onResync;
+    getTokenRef.current = getToken;
+  });
+
+  // Subscriptions are fixed per connection; reconnect only if they change
+  const wanted = JSON.stringify(subscriptions);
+
+  useEffect(() => {
+    const subs: SocketSubscription[] = JSON.parse(wanted);
+    const pending = pendingRef.current;
+    const lastEventIds = new Map<string, number>();
+    let reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+    let attempts = 0;
+    let stopped = false;
+
+    const open = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      const ws = new WebSocket(`${protocol}//${window.location.host}${REALTIME_SOCKET_PATH}`);
+      socketRef.current = ws;
+
+      ws.onopen = async () => {
+        const token = await getTokenRef.current().catch(() => null);
+        if (ws.readyState !== WebSocket.OPEN) return;
+        if (token) ws.send(JSON.stringify({ type: "auth", token }));
+        for (const sub of subs) {
+          ws.send(
+            JSON.stringify({
+              type: "subscribe",
+              ...sub,
+              lastEventId: lastEventIds.get(subscriptionKey(sub)),
+            })
+          );
+        }
+        attempts = 0;
+        setIsConnected(true);
+      };
+
+      ws.onmessage = (e: MessageEvent) => {
+        let message: SocketServerMessage;
+        try {
+          message = JSON.parse(e.data);
+        } catch {
+          return;
+        }
+        switch (message.type) {
+          case "event": {
+            const { key, event } = message;
+            lastEventIds.set(key, event.id);
+            const handler = handlersRef.current[event.type] as
+              | ((event: RealtimeEvent, key: string) => void)
+              | undefined;
+            try {
+              handler?.(event, key);
+            } catch (err) {
+              console.error(`Failed to handle socket ${event.type} event:`, err);
+            }
+            break;
+          }
+          case "resync":
+            lastEventIds.delete(message.key);
+            onResyncRef.current?.(message.key);
+            break;
+          case "result": {
+            const settle = pending.get(message.requestId);
+            pending.delete(message.requestId);
+            settle?.(
+              message.ok
+                ? { ok: true, data: message.data }
+                : { ok: false, error: message.error, status: message.status }
+            );
+            break;
+          }
+          case "error":
+            console.warn("Realtime socket:", message.error);
+            break;
+        }
+      };
+
+      ws.onclose = () => {
+        if (socketRef.current === ws) socketRef.current = null;
+        setIsConnected(false);
+        for (const settle of pending.values()) {
+          settle({ ok: false, error: "Connection lost", status: 0 });
+        }
+        pending.clear();
+        if (stopped) return;
+        const delay = Math.min(1000 * Math.pow(2, attempts), 30000);
+        attempts++;
+        reconnectTimeout = setTimeout(open, delay);
+      };
+    };
+
+    open();
+    return () => {
+      stopped = true;
+      socketRef.current?.close();
+      if (reconnectTimeout) clearTimeout(reconnectTimeout);
+    };
+  }, [wanted]);
+
+  const sendCommand = useCallback(
+    async (command: SocketCommand): Promise<SocketCommandResult> => {
+      const ws = socketRef.current;
+      if (!ws || ws.readyState !== WebSocket.OPEN) {
+        return { ok: false, error: "Not connected", status: 0 };
+      }
+      // Session tokens are short-lived, so send a fresh one with each command
+      const token = await getTokenRef.current().catch(() => null);
+      if (ws.readyState !== WebSocket.OPEN) {
+        return { ok: false, error: "Connection lost", status: 0 };
+      }
+      if (token) ws.send(JSON.stringify({ type: "auth", token }));
+
+      const requestId = crypto.randomUUID();
+      return new Promise((resolve) => {
+        pendingRef.current.set(requestId, resolve);
+        ws.send(JSON.stringify({ type: "command", requestId, ...command }));
+      });
+    },
+    []
+  );
+
+  return { isConnected, sendCommand };
+}
@@ -0,0 +1,15 @@
+/**
+ * Next.js instrumentation hook — runs once per server instance on boot.
+ * Starts the in-process scheduler for background jobs (booking sweeps etc.).
+ * Set DISABLE_SCHEDULER=true where jobs are driven by /api/cron instead.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+  if (process.env.DISABLE_SCHEDULER === "true") return;
+
+  const { registerJobs } = await import("@/lib/jobs");
+  const { startScheduler } = await import("@/lib/scheduler");
+
+  registerJobs();
+  startScheduler();
+}
@@ -0,0 +1,169 @@
+/**
+ * Per-port day calendar: the intervals each port is booked and the free
+ * slots left within the station's operating hours.
+ *
+ * A day is a calendar date in Nepal time. Pending, confirmed and active
+ * bookings block their interval; an active session that has overrun its
+ * endTime blocks the port until now. Station closures block every port, and
+ * ports under maintenance have no free slots. Free slots are aligned to AVAILABILITY_SLOT_MINUTES and never start
+ * in the past.
+ */
+
+import dbConnect from "@/lib/db";
+import Booking from "@/lib/models/Booking";
+import { AVAILABILITY_SLOT_MINUTES, MS_PER_MINUTE } from "@/lib/constants";
+import {
+  operatingWindow,
+  closureWindow,
+  type StationHours,
+} from "@/lib/operatingHours";
+
+const BLOCKING_STATUSES = ["pending", "confirmed", "active"];
+
+export interface AvailabilityPort {
+  _id?: unknown;
+  portNumber: string;
+  connectorType: string;
+  powerOutput: string;
+  chargerType: string;
+  status: string;
+}
+
+export interface AvailabilityStation extends StationHours {
+  _id: unknown;
+  chargingPorts: AvailabilityPort[];
+}
+
+export interface TimeInterval {
+  start: Date;
+  end: Date;
+}
+
+export interface BookedInterval extends TimeInterval {
+  status: string;
+}
+
+export interface PortDayAvailability {
+  portId: string;
+  portNumber: string;
+  connectorType: string;
+  powerOutput: string;
+  chargerType: string;
+  status: string;
+  booked: BookedInterval[];
+  free: TimeInterval[];
+}
+
+export interface StationDayAvailability {
+  date: string;
+  /** Operating window for the day; null when the station doesn't open */
+  opensAt: Date | null;
+  closesAt: Date | null;
+  slotMinutes: number;
+  /** Station closures overlapping the day */
+  closures: (TimeInterval & { reason?: string })[];
+  ports: PortDayAvailability[];
+}
+
+function alignUp(date: Date): Date {
+  const step = AVAILABILITY_SLOT_MINUTES * MS_PER_MINUTE;
+  return new Date(Math.ceil(date.getTime() / step) * step);
+}
+
+/** The parts of `window` not covered by `busy`, at least one slot long */
+function freeIntervals(window: TimeInterval, busy: TimeInterval[]): TimeInterval[] {
+  const free: TimeInterval[] = [];
+  let cursor = alignUp(window.start);
+  const sorted = [...busy].sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  for (const interval of [...sorted, { start: window.end, end: window.end }]) {
+    const gapEnd = interval.start < window.end ? interval.start : window.end;
+    if (gapEnd.getTime() - cursor.getTime() >= AVAILABILITY_SLOT_MINUTES * MS_PER_MINUTE) {
+      free.push({ start: cursor, end: gapEnd });
+    }
+    if (interval.end > cursor) cursor = alignUp(interval.end);
+  }
+  return free;
+}
+
+/** Booked intervals and free slots for every port of a station on a Nepal-time date */
+export async function getStationAvailability(
+  station: AvailabilityStation,
+  date: string,
+  now: Date = new Date()
+): Promise<StationDayAvailability> {
+  const stationId = String(station._id);
+  const window = operatingWindow(date, station.operatingHours);
+
+  let bookings: { portId: unknown; startTime: Date; endTime: Date; status: string }[] = [];
+  if (window && !stationId.startsWith("station-")) {
+    await dbConnect();
+    bookings = await Booking.find({
+      stationId,
+      status: { $in: BLOCKING_STATUSES },
+      startTime: { $lt: window.end },
+      // Active sessions may have overrun into this window
+      $or: [{ endTime: { $gt: window.start } }, { status: "active" }],
+    })
+      .select("portId startTime endTime status")
+      .lean();
+  }
+
+  const closures = window
+    ? (station.closures ?? [])
+        .map((closure) => ({ ...closureWindow(closure), reason: closure.reason }))
+        .filter((c) => c.start < window.end && c.end > window.start)
+        .map((c) => ({
+          start: c.start < window.start ? window.start : c.start,
+          end: c.end > window.end ? window.end : c.end,
+          reason: c.reason,
+        }))
+    : [];
+
+  // Nothing before now can be booked
+  const bookable = window && {
+    start: window.start > now ? window.start : now,
+    end: window.end,
+  };
+
+  const ports = station.chargingPorts.map((port) => {
+    const portId = String(port._id ?? port.portNumber);
+    const booked: BookedInterval[] = bookings
+      .filter((b) => String(b.portId) === portId || String(b.portId) === port.portNumber)
+      .map((b) => ({
+        start: new Date(b.startTime),
+        // A session still charging past its slot holds the port until it ends
+        end:
+          b.status === "active" && new Date(b.endTime) < now
+            ? now
+            : new Date(b.endTime),
+        status: b.status,
+      }))
+      .filter((b) => !window || b.end > window.start);
+
+    const free =
+      bookable && bookable.start < bookable.end && port.status !== "maintenance"
+        ? freeIntervals(bookable, [...booked, ...closures])
+        : [];
+
+    return {
+      portId,
+      portNumber: port.portNumber,
+      connectorType: port.connectorType,
+      powerOutput: port.powerOutput,
+      chargerType: port.chargerType,
+      status: port.status,
+      booked,
+      free,
+    };
+  });
+
+  return {
+    date,
+    opensAt: window?.start ?? null,
+    closesAt: window?.end ?? null,
+    slotMinutes: AVAILABILITY_SLOT_MINUTES,
+    closures,
+    ports,
+  };
+}
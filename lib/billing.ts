@@ -0,0 +1,158 @@
+/**
+ * Final billing for charging sessions.
+ *
+ * When a booking completes at a station with a metered tariff, the session
+ * is re-priced through the pricing rules from the energy and time the port's
+ * meter reported. Idle fees are added for time a vehicle stayed plugged in
+ * after charging finished, at any tariff. For online payments the difference
+ * from the prepaid amount is settled: unused credit is refunded through the
+ * payment provider, an overrun is left as a top-up for the attendant to
+ * collect. Pay-at-station bookings simply owe the final amount.
+ */
+
+import Booking, {
+  type IBookingDocument,
+  type IBookingBilling,
+} from "@/lib/models/Booking";
+import Station from "@/lib/models/Station";
+import { hasOnlinePayment } from "@/lib/payments";
+import { createUsageRefund } from "@/lib/refunds";
+import { isMetered } from "@/lib/tariff";
+import {
+  quoteSession,
+  DEFAULT_PRICING_RULES,
+  type QuoteLineItem,
+} from "@/lib/pricing";
+import { MS_PER_MINUTE } from "@/lib/constants";
+
+function minutesBetween(from: Date, to: Date): number {
+  return Math.max(
+    0,
+    Math.round((new Date(to).getTime() - new Date(from).getTime()) / MS_PER_MINUTE)
+  );
+}
+
+function lastEnteredAt(booking: IBookingDocument, status: string): Date | undefined {
+  return [...(booking.statusHistory ?? [])].reverse().find((h) => h.to === status)?.at;
+}
+
+/**
+ * Bill a completed booking. Runs once per booking; returns the updated
+ * booking, or null when there is nothing beyond the prepaid quote to bill.
+ */
+export async function settleBookingUsage(
+  booking: IBookingDocument
+): Promise<IBookingDocument | null> {
+  if (booking.billing?.settledAt) return null;
+  if (String(booking.stationId).startsWith("station-")) return null;
+
+  const station = await Station.findById(booking.stationId)
+    .select("pricing pricingRules chargingPorts")
+    .lean();
+  if (!station) return null;
+
+  const rules = { ...DEFAULT_PRICING_RULES, ...station.pricingRules };
+  const metered = isMetered(station.pricing);
+  const sessionStart =
+    booking.metering?.startedAt ?? lastEnteredAt(booking, "active") ?? booking.startTime;
+  const completedAt = lastEnteredAt(booking, "completed") ?? booking.endTime;
+  const chargingEnd = booking.metering?.stoppedAt ?? booking.endTime;
+
+  // Idle time only exists when the meter reported when charging stopped
+  const idleMinutes = booking.metering?.stoppedAt
+    ? Math.max(0, minutesBetween(booking.metering.stoppedAt, completedAt) - rules.idleFee.graceMinutes)
+    : 0;
+  const idleFee = Math.round(idleMinutes * rules.idleFee.perMinute);
+
+  if (!metered && idleFee === 0) return null;
+
+  const energyKwh = booking.metering?.energyKwh ?? 0;
+  const durationMinutes =
+    booking.metering?.durationMinutes ?? minutesBetween(sessionStart, chargingEnd);
+  const prepaidAmount = booking.amountPaid ?? 0;
+
+  let lineItems: QuoteLineItem[];
+  if (metered) {
+    const port = station.chargingPorts.find(
+      (p) => String(p._id) === String(booking.portId) || p.portNumber === String(booking.portId)
+    );
+    // Priced as quoted: same rules, and the promo honoured as it was at booking
+    const promo = booking.quote?.promoCode
+      ? [{ code: booking.quote.promoCode, percentOff: booking.quote.promoPercentOff ?? 0, active: true }]
+      : [];
+    lineItems = quoteSession({
+      tariff: station.pricing,
+      rules: { ...rules, promos: promo },
+      port: port ?? {},
+      start: new Date(sessionStart),
+      durationMinutes,
+      energyKwh,
+      promoCode: booking.quote?.promoCode,
+    }).lineItems;
+  } else {
+    lineItems = booking.quote?.lineItems?.length
+      ? booking.quote.lineItems.map(({ label, amount }) => ({ label, amount }))
+      : [{ label: "Charging", amount: prepaidAmount }];
+  }
+  if (idleFee > 0) {
+    lineItems.push({ label: `Idle fee (${idleMinutes} min)`, amount: idleFee });
+  }
+
+  const finalAmount = Math.max(
+    0,
+    lineItems.reduce((sum, item) => sum + item.amount, 0)
+  );
+  const online = hasOnlinePayment(booking);
+  const adjustment = online ? finalAmount - prepaidAmount : 0;
+
+  const billing: IBookingBilling = {
+    mode: station.pricing.billingMode ?? "hourly",
+    energyKwh,
+    durationMinutes,
+    finalAmount,
+    prepaidAmount: online ? prepaidAmount : 0,
+    adjustment,
+    idleMinutes,
+    idleFee,
+    lineItems,
+    settlement: adjustment > 0 ? "topup_due" : adjustment < 0 ? "refund" : "none",
+    settledAt: new Date(),
+  };
+
+  const updated = await Booking.findOneAndUpdate(
+    { _id: booking._id, "billing.settledAt": { $exists: false } },
+    {
+      $set: {
+        billing,
+        // Pay-at-station bookings are collected at the final price
+        ...(!online && { amountPaid: finalAmount }),
+      },
+    },
+    { new: true }
+  );
+  if (!updated) return null;
+
+  if (adjustment < 0) {
+    await createUsageRefund(updated, -adjustment);
+    return Booking.findById(booking._id);
+  }
+  return updated;
+}
+
+/** Record that the attendant collected a metered session's top-up */
+export async function markTopUpCollected(
+  booking: IBookingDocument
+): Promise<boolean> {
+  if (booking.billing?.settlement !== "topup_due") return false;
+
+  const result = await Booking.updateOne(
+    { _id: booking._id, "billing.settlement": "topup_due" },
+    {
+      $set: {
+        "billing.settlement": "topup_paid",
+        amountPaid: booking.billing.finalAmount,
+      },
+    }
+  );
+  return result.modifiedCount > 0;
+}
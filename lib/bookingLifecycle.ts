@@ -0,0 +1,478 @@
+/**
+ * Booking lifecycle — the single place that changes Booking.status.
+ *
+ * Owns the allowed transitions, the matching side effects on the station's
+ * charging port (`chargingPorts.$.status` / `currentBookingId`, recorded in
+ * the port's status history), the realtime port broadcasts, the append-only
+ * `statusHistory` on the booking, the refund owed when a paid booking is
+ * cancelled or ends as a no-show, the final bill of a metered session
+ * when it completes, telling the driver a booking is confirmed and keeping
+ * its reminders (lib/bookingReminders) in step with its status.
+ */
+
+import type { ClientSession } from "mongoose";
+import Booking, {
+  type IBookingDocument,
+  type BookingStatus,
+  type BookingActor,
+} from "@/lib/models/Booking";
+import Station, { type IChargingPort } from "@/lib/models/Station";
+import { broadcastPortUpdate } from "@/lib/realtime";
+import { handlePortAvailable } from "@/lib/portAvailability";
+import { recordPortStatusChange } from "@/lib/portStatusHistory";
+import { createRefundForBooking } from "@/lib/refunds";
+import { settleBookingUsage } from "@/lib/billing";
+import { loadStationFromFile } from "@/lib/stations";
+import { notify } from "@/lib/notifications";
+import { syncBookingReminders } from "@/lib/bookingReminders";
+import {
+  MS_PER_MINUTE,
+  PORT_HOLD_LEAD_MINUTES,
+  VALID_BOOKING_STATUSES,
+} from "@/lib/constants";
+
+export type { BookingStatus, BookingActor };
+
+/** Transitions any actor may perform, unless RESTRICTED_TARGETS says otherwise */
+export const BOOKING_TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+  pending: ["confirmed", "cancelled"],
+  confirmed: ["active", "cancelled", "no-show"],
+  active: ["completed"],
+  completed: [],
+  cancelled: [],
+  "no-show": [],
+};
+
+/** Extra shortcuts station admins may take (e.g. closing out a booking by hand) */
+const ADMIN_TRANSITIONS: Partial<Record<BookingStatus, BookingStatus[]>> = {
+  pending: ["active", "completed"],
+  confirmed: ["completed"],
+};
+
+/** Statuses only some actors may move a booking to — confirming means it was paid for */
+const RESTRICTED_TARGETS: Partial<Record<BookingStatus, BookingActor[]>> = {
+  confirmed: ["payment", "admin"],
+};
+
+/** Port status a booking holds while it is in the given booking status */
+const PORT_STATUS_FOR_BOOKING: Partial<
+  Record<BookingStatus, IChargingPort["status"]>
+> = {
+  confirmed: "reserved",
+  active: "occupied",
+};
+
+/**
+ * Port statuses a booking's hold leaves alone: the port is down, or, for a
+ * reservation, someone is already charging on it. An active booking may
+ * take a port the hardware reports occupied — that's its driver plugging in.
+ */
+const HOLD_BLOCKED_BY: Partial<Record<BookingStatus, IChargingPort["status"][]>> = {
+  confirmed: ["maintenance", "offline", "occupied"],
+  active: ["maintenance", "offline"],
+};
+
+const RELEASING_STATUSES: BookingStatus[] = ["completed", "cancelled", "no-show"];
+
+export class BookingTransitionError extends Error {
+  constructor(
+    message: string,
+    public readonly httpStatus: number = 400
+  ) {
+    super(message);
+    this.name = "BookingTransitionError";
+  }
+}
+
+interface TransitionOptions {
+  actor: BookingActor;
+  actorId?: string;
+  reason?: string;
+  /** Additional booking fields to write in the same update */
+  set?: Partial<
+    Pick<
+      IBookingDocument,
+      | "endTime"
+      | "estimatedDuration"
+      | "amountPaid"
+      | "notes"
+      | "khaltiTransactionId"
+      | "esewaRefId"
+    >
+  >;
+}
+
+/** Whether a value (e.g. from a request body) is a booking status */
+export function isBookingStatus(value: unknown): value is BookingStatus {
+  return (VALID_BOOKING_STATUSES as readonly unknown[]).includes(value);
+}
+
+export function canTransition(
+  from: BookingStatus,
+  to: BookingStatus,
+  actor: BookingActor
+): boolean {
+  // Guards the lookups below against names like "constructor"
+  if (!isBookingStatus(from) || !isBookingStatus(to)) return false;
+  const allowed = RESTRICTED_TARGETS[to];
+  if (allowed && !allowed.includes(actor)) return false;
+  if (BOOKING_TRANSITIONS[from]?.includes(to)) return true;
+  return actor === "admin" && !!ADMIN_TRANSITIONS[from]?.includes(to);
+}
+
+/**
+ * Move a booking to a new status. The update is conditional on the booking
+ * still being in the status it was loaded with, so two concurrent callers
+ * can never both apply a transition.
+ *
+ * @throws BookingTransitionError when the transition is not allowed or lost a race
+ */
+export async function transitionBooking(
+  booking: IBookingDocument,
+  to: BookingStatus,
+  options: TransitionOptions
+): Promise<IBookingDocument> {
+  const from = booking.status;
+
+  if (!isBookingStatus(to)) {
+    throw new BookingTransitionError(`Unknown booking status "${to}"`);
+  }
+  if (!canTransition(from, to, options.actor)) {
+    throw new BookingTransitionError(
+      `Cannot transition from "${from}" to "${to}"`
+    );
+  }
+
+  const updated = await Booking.findOneAndUpdate(
+    { _id: booking._id, status: from },
+    {
+      $set: { ...options.set, status: to },
+      $push: {
+        statusHistory: {
+          from,
+          to,
+          actor: options.actor,
+          actorId: options.actorId,
+          reason: options.reason,
+          at: new Date(),
+        },
+      },
+    },
+    { new: true }
+  );
+
+  if (!updated) {
+    throw new BookingTransitionError(
+      `Booking status changed concurrently — it is no longer "${from}"`,
+      409
+    );
+  }
+
+  await applyPortSideEffects(updated, to, from);
+  await syncBookingReminders(updated);
+
+  // Only a confirmed booking has been paid for
+  if (from === "confirmed" && (to === "cancelled" || to === "no-show")) {
+    await settleRefund(updated, to, options.actor);
+  }
+
+  if (to === "completed") {
+    return (await settleUsage(updated)) ?? updated;
+  }
+
+  if (to === "confirmed") {
+    await notifyConfirmed(updated);
+  }
+
+  return updated;
+}
+
+/**
+ * Tell the driver of an online booking it is confirmed. Walk-in customers
+ * have no account to notify. Like refunds, a failure here must not undo
+ * the transition.
+ */
+async function notifyConfirmed(booking: IBookingDocument): Promise<void> {
+  if (booking.source !== "online") return;
+  try {
+    const stationId = String(booking.stationId);
+    const station = isFileBasedStation(stationId)
+      ? loadStationFromFile(stationId)
+      : await Station.findById(stationId).select("name chargingPorts").lean();
+    const port = station?.chargingPorts.find(
+      (p) => String(p._id) === String(booking.portId) || p.portNumber === String(booking.portId)
+    );
+
+    await notify({
+      type: "booking_confirmed",
+      userId: booking.userId,
+      bookingId: booking._id.toString(),
+      stationId,
+      stationName: station?.name ?? "the station",
+      portNumber: port?.portNumber,
+      startTime: booking.startTime,
+      endTime: booking.endTime,
+    });
+  } catch (error) {
+    console.error("Failed to notify driver of booking:", booking._id, error);
+  }
+}
+
+/**
+ * Bill a completed metered session. Like refunds, a failure here must not
+ * undo the completion; the booking is simply left unbilled.
+ */
+async function settleUsage(
+  booking: IBookingDocument
+): Promise<IBookingDocument | null> {
+  try {
+    return await settleBookingUsage(booking);
+  } catch (error) {
+    console.error("Failed to settle metered usage for booking:", booking._id, error);
+    return null;
+  }
+}
+
+/**
+ * Open the refund for a closed paid booking. A failure here must not undo
+ * the status change; the refund retry job picks up anything left pending.
+ */
+async function settleRefund(
+  booking: IBookingDocument,
+  to: "cancelled" | "no-show",
+  actor: BookingActor
+): Promise<void> {
+  const reason =
+    to === "no-show"
+      ? "no_show"
+      : actor === "admin"
+        ? "admin_cancelled"
+        : "user_cancelled";
+  try {
+    await createRefundForBooking(booking, reason);
+  } catch (error) {
+    console.error("Failed to open refund for booking:", booking._id, error);
+  }
+}
+
+interface OpenBookingOptions {
+  actor: BookingActor;
+  actorId?: string;
+  reason?: string;
+  session?: ClientSession;
+}
+
+/**
+ * Create a booking in its initial status, recording the first history entry
+ * and claiming the port when the booking starts out active.
+ */
+export async function openBooking(
+  data: Partial<IBookingDocument> & { status: BookingStatus },
+  options: OpenBookingOptions
+): Promise<IBookingDocument> {
+  const doc = {
+    ...data,
+    statusHistory: [
+      {
+        from: null,
+        to: data.status,
+        actor: options.actor,
+        actorId: options.actorId,
+        reason: options.reason,
+        at: new Date(),
+      },
+    ],
+  };
+
+  const [booking] = await Booking.create([doc], { session: options.session });
+
+  // A booking created already closed (manual walk-in log) never held the port
+  if (PORT_STATUS_FOR_BOOKING[booking.status]) {
+    await applyPortSideEffects(booking, booking.status, null);
+  }
+  return booking;
+}
+
+function isFileBasedStation(stationId: unknown): boolean {
+  return String(stationId).startsWith("station-");
+}
+
+function portMatch(portId: unknown): Record<string, unknown> {
+  const pid = String(portId);
+  return /^[a-f\d]{24}$/i.test(pid) ? { _id: pid } : { portNumber: pid };
+}
+
+/**
+ * Reflect a booking's new status on its charging port and broadcast the
+ * change. A booking confirmed ahead of time leaves the port alone until its
+ * slot is PORT_HOLD_LEAD_MINUTES away (see claimPortForBooking). A hold
+ * never takes a port that is down, nor reserves one in use
+ * (HOLD_BLOCKED_BY). A releasing status only frees the port if the booking
+ * is still the one recorded on it — it held the port once confirmed or
+ * active, or took over a queue turn's hold while pending — so a pending
+ * booking expiring never frees a walk-in's or someone else's port. A freed
+ * port goes to a confirmed booking about to start on it, if there is one,
+ * and otherwise runs the same subscriber/queue flow as a hardware report.
+ */
+async function applyPortSideEffects(
+  booking: IBookingDocument,
+  to: BookingStatus,
+  from: BookingStatus | null
+): Promise<void> {
+  if (isFileBasedStation(booking.stationId)) return;
+
+  const stationId = String(booking.stationId);
+  const portId = String(booking.portId);
+  const holdStatus = PORT_STATUS_FOR_BOOKING[to];
+  const now = new Date();
+  let before;
+
+  if (holdStatus) {
+    if (to === "confirmed" && !isPortHoldDue(booking, now)) return;
+    before = await Station.findOneAndUpdate(
+      {
+        _id: stationId,
+        chargingPorts: {
+          $elemMatch: { ...portMatch(portId), status: { $nin: HOLD_BLOCKED_BY[to] ?? [] } },
+        },
+      },
+      {
+        $set: {
+          "chargingPorts.$.status": holdStatus,
+          "chargingPorts.$.currentBookingId": booking._id,
+        },
+        // A booking takes over a port held for a queue turn
+        $unset: { "chargingPorts.$.heldForQueueEntryId": "" },
+      },
+      PORT_BEFORE
+    ).lean();
+  } else if (RELEASING_STATUSES.includes(to) && from) {
+    before = await Station.findOneAndUpdate(
+      {
+        _id: stationId,
+        chargingPorts: {
+          $elemMatch: {
+            ...portMatch(portId),
+            currentBookingId: booking._id,
+            // Held for someone's queue turn since; that turn's end frees it
+            heldForQueueEntryId: { $exists: false },
+          },
+        },
+      },
+      {
+        $set: { "chargingPorts.$.status": "available" },
+        $unset: { "chargingPorts.$.currentBookingId": "" },
+      },
+      PORT_BEFORE
+    ).lean();
+  } else {
+    return;
+  }
+
+  const port = before?.chargingPorts[0];
+  if (!port) return;
+  const status = holdStatus ?? "available";
+  const heldBy = port.currentBookingId ? String(port.currentBookingId) : undefined;
+  if (port.status === status && heldBy === (holdStatus ? String(booking._id) : undefined)) {
+    return;
+  }
+
+  await announcePortChange(stationId, portId, port, status, `booking_${to.replace("-", "_")}`);
+
+  if (!holdStatus && !(await claimPortForNextBooking(stationId, port, now))) {
+    await handlePortAvailable(stationId, portId);
+  }
+}
+
+// The port as it was before an update, to tell whether anything changed
+const PORT_BEFORE = { projection: { "chargingPorts.$": 1 } };
+
+/** Whether a confirmed booking's slot is close enough for it to hold the port */
+function isPortHoldDue(booking: IBookingDocument, now: Date): boolean {
+  return new Date(booking.startTime).getTime() - now.getTime() <= PORT_HOLD_LEAD_MINUTES * MS_PER_MINUTE;
+}
+
+async function announcePortChange(
+  stationId: string,
+  portId: string,
+  before: IChargingPort,
+  status: IChargingPort["status"],
+  event: string
+): Promise<void> {
+  await recordPortStatusChange({
+    stationId,
+    portId: String(before._id ?? portId),
+    source: "booking",
+    previousStatus: before.status,
+    status,
+    event,
+  });
+  await broadcastPortUpdate({
+    stationId,
+    portId,
+    status,
+    event,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+/**
+ * Reserve the port of a confirmed booking whose slot is coming up, if the
+ * port is free. Bookings confirmed ahead of time don't hold their port until
+ * then; the booking sweeper calls this as their slots come up. Returns
+ * whether the port was claimed.
+ */
+export async function claimPortForBooking(
+  booking: IBookingDocument,
+  now: Date = new Date()
+): Promise<boolean> {
+  if (isFileBasedStation(booking.stationId)) return false;
+  if (booking.status !== "confirmed" || !isPortHoldDue(booking, now)) return false;
+
+  const stationId = String(booking.stationId);
+  const portId = String(booking.portId);
+  const before = await Station.findOneAndUpdate(
+    {
+      _id: stationId,
+      chargingPorts: {
+        $elemMatch: {
+          ...portMatch(portId),
+          status: "available",
+          currentBookingId: { $exists: false },
+          heldForQueueEntryId: { $exists: false },
+        },
+      },
+    },
+    {
+      $set: {
+        "chargingPorts.$.status": "reserved",
+        "chargingPorts.$.currentBookingId": booking._id,
+      },
+    },
+    PORT_BEFORE
+  ).lean();
+  const port = before?.chargingPorts[0];
+  if (!port) return false;
+
+  await announcePortChange(stationId, portId, port, "reserved", "booking_due");
+  return true;
+}
+
+/** Hand a just-freed port to the confirmed booking due on it next, if any */
+async function claimPortForNextBooking(
+  stationId: string,
+  port: IChargingPort,
+  now: Date
+): Promise<boolean> {
+  const due = await Booking.find({
+    stationId,
+    status: "confirmed",
+    startTime: { $lte: new Date(now.getTime() + PORT_HOLD_LEAD_MINUTES * MS_PER_MINUTE) },
+    endTime: { $gt: now },
+  }).sort({ startTime: 1 });
+  // Bookings refer to a port by its _id or its number
+  const next = due.find(
+    (b) => String(b.portId) === String(port._id) || String(b.portId) === port.portNumber
+  );
+  return next ? claimPortForBooking(next, now) : false;
+}
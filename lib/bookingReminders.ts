@@ -0,0 +1,250 @@
+/**
+ * Reminders along a booking's life, stored as BookingReminder documents so
+ * they are still sent after a restart:
+ *  - "starts_soon" BOOKING_REMINDER_MINUTES before startTime
+ *  - "leave_now" when the driver has to set off to arrive on time, from the
+ *    booking's latest ETA; moved whenever the ETA is updated
+ *  - "ending_soon" SESSION_ENDING_ALERT_MINUTES before an active session ends
+ *  - "charging_complete" once, when hardware reports the car is done
+ *
+ * The booking lifecycle keeps the timed ones in step with the booking and
+ * cancels what's left when it closes; the reminder job sends what is due,
+ * checking the booking again first. Only online bookings have a driver
+ * account to remind.
+ */
+
+import dbConnect from "@/lib/db";
+import Booking, { type IBookingDocument } from "@/lib/models/Booking";
+import Station from "@/lib/models/Station";
+import BookingReminder, {
+  type BookingReminderKind,
+} from "@/lib/models/BookingReminder";
+import { loadStationFromFile } from "@/lib/stations";
+import { notify } from "@/lib/notifications";
+import {
+  BOOKING_REMINDER_MINUTES,
+  LEAVE_NOW_BUFFER_MINUTES,
+  MS_PER_MINUTE,
+  SESSION_ENDING_ALERT_MINUTES,
+} from "@/lib/constants";
+
+type TimedKind = Exclude<BookingReminderKind, "charging_complete">;
+
+const TIMED_KINDS: TimedKind[] = ["starts_soon", "leave_now", "ending_soon"];
+const REMINDER_BATCH_SIZE = 100;
+
+export interface BookingReminderResult {
+  sent: number;
+}
+
+function minutesFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+function minutesBefore(date: Date, minutes: number): Date {
+  return new Date(new Date(date).getTime() - minutes * MS_PER_MINUTE);
+}
+
+/**
+ * When a reminder is due for the booking as it stands, or null once it no
+ * longer applies: the booking moved on, or the moment it warns about passed
+ */
+function dueAt(booking: IBookingDocument, kind: TimedKind, now: Date): Date | null {
+  if (booking.source !== "online") return null;
+  const startsLater = new Date(booking.startTime) > now;
+
+  switch (kind) {
+    case "starts_soon":
+      if (booking.status !== "confirmed" || !startsLater) return null;
+      return minutesBefore(
+        booking.startTime,
+        minutesFromEnv("BOOKING_REMINDER_MINUTES", BOOKING_REMINDER_MINUTES)
+      );
+    case "leave_now":
+      if (booking.status !== "confirmed" || !startsLater || !booking.eta) return null;
+      return minutesBefore(
+        booking.startTime,
+        booking.eta.durationMinutes + LEAVE_NOW_BUFFER_MINUTES
+      );
+    case "ending_soon":
+      if (booking.status !== "confirmed" && booking.status !== "active") return null;
+      if (new Date(booking.endTime) <= now) return null;
+      return minutesBefore(booking.endTime, SESSION_ENDING_ALERT_MINUTES);
+  }
+}
+
+/**
+ * Schedule, move or cancel a booking's timed reminders to match its status,
+ * times and ETA. Failures are logged, never thrown: a missed reminder must
+ * not fail the booking change behind it.
+ */
+export async function syncBookingReminders(
+  booking: IBookingDocument,
+  now: Date = new Date()
+): Promise<void> {
+  try {
+    await dbConnect();
+    const existing = await BookingReminder.find({ bookingId: booking._id }).lean();
+
+    for (const kind of TIMED_KINDS) {
+      const reminder = existing.find((r) => r.kind === kind);
+      // Each reminder goes out once, even if the booking changes afterwards
+      if (reminder?.status === "sent") continue;
+
+      const sendAt = dueAt(booking, kind, now);
+      // A booking made or started inside a reminder's window doesn't get that
+      // reminder late, except a "leave now" — the driver should still set off
+      const late = !!sendAt && sendAt <= now && kind !== "leave_now";
+      if (sendAt && (!late || reminder?.status === "scheduled")) {
+        await BookingReminder.updateOne(
+          { bookingId: booking._id, kind },
+          { $set: { userId: booking.userId, sendAt, status: "scheduled" } },
+          { upsert: true }
+        );
+      } else if (reminder?.status === "scheduled") {
+        await BookingReminder.updateOne(
+          { _id: reminder._id, status: "scheduled" },
+          { $set: { status: "cancelled" } }
+        );
+      }
+    }
+  } catch (error) {
+    console.error("Failed to schedule reminders for booking:", booking._id, error);
+  }
+}
+
+async function stationName(stationId: string): Promise<string> {
+  const station = stationId.startsWith("station-")
+    ? loadStationFromFile(stationId)
+    : await Station.findById(stationId).select("name").lean();
+  return station?.name ?? "the station";
+}
+
+/** Scheduled job: send reminders that are due and still apply */
+export async function sendBookingReminders(
+  now: Date = new Date()
+): Promise<BookingReminderResult> {
+  await dbConnect();
+
+  const due = await BookingReminder.find({ status: "scheduled", sendAt: { $lte: now } })
+    .sort({ sendAt: 1 })
+    .limit(REMINDER_BATCH_SIZE);
+
+  let sent = 0;
+  for (const reminder of due) {
+    // Claim the reminder so concurrent runs send it once
+    const claimed = await BookingReminder.findOneAndUpdate(
+      { _id: reminder._id, status: "scheduled", sendAt: reminder.sendAt },
+      { $set: { status: "sent", sentAt: now } },
+      { new: true }
+    );
+    if (!claimed || claimed.kind === "charging_complete") continue;
+    const kind = claimed.kind;
+
+    try {
+      const booking = await Booking.findById(claimed.bookingId);
+      const sendAt = booking && dueAt(booking, kind, now);
+      // "Ends soon" only matters once the driver has started charging
+      if (!booking || !sendAt || (kind === "ending_soon" && booking.status !== "active")) {
+        claimed.status = "cancelled";
+        claimed.sentAt = undefined;
+        await claimed.save();
+        continue;
+      }
+      // The booking moved later since the reminder was scheduled
+      if (sendAt > now) {
+        claimed.status = "scheduled";
+        claimed.sendAt = sendAt;
+        claimed.sentAt = undefined;
+        await claimed.save();
+        continue;
+      }
+
+      const stationId = String(booking.stationId);
+      await notify(
+        {
+          type: "booking_reminder",
+          kind,
+          userId: booking.userId,
+          bookingId: booking._id.toString(),
+          stationId,
+          stationName: await stationName(stationId),
+          startTime: booking.startTime,
+          endTime: booking.endTime,
+          etaMinutes: booking.eta?.durationMinutes,
+        },
+        { now }
+      );
+      sent++;
+    } catch (error) {
+      console.error(`Failed to send booking reminder ${claimed._id}:`, error);
+    }
+  }
+
+  return { sent };
+}
+
+/**
+ * Hardware reported the car done charging: ask the driver of the booking
+ * holding the port to move it. Devices may report the end more than once
+ * (OCPP sends Finishing and then StopTransaction), so it goes out once per
+ * booking. Failures are logged, never thrown.
+ */
+export async function notifyChargingComplete(
+  stationId: string,
+  portId: string,
+  now: Date = new Date()
+): Promise<void> {
+  if (stationId.startsWith("station-")) return;
+  try {
+    await dbConnect();
+    const station = await Station.findOne(
+      { _id: stationId, "chargingPorts._id": portId },
+      { name: 1, "chargingPorts.$": 1 }
+    ).lean();
+    const bookingId = station?.chargingPorts?.[0]?.currentBookingId;
+    if (!bookingId) return;
+
+    const booking = await Booking.findById(bookingId);
+    if (!booking || booking.status !== "active" || booking.source !== "online") return;
+
+    const { upsertedCount } = await BookingReminder.updateOne(
+      { bookingId: booking._id, kind: "charging_complete" },
+      {
+        $setOnInsert: {
+          userId: booking.userId,
+          sendAt: now,
+          status: "sent",
+          sentAt: now,
+        },
+      },
+      { upsert: true }
+    );
+    if (!upsertedCount) return;
+
+    // The car is done, so the session is about to end anyway
+    await BookingReminder.updateOne(
+      { bookingId: booking._id, kind: "ending_soon", status: "scheduled" },
+      { $set: { status: "cancelled" } }
+    );
+
+    const startedAt = booking.metering?.startedAt;
+    await notify(
+      {
+        type: "charging_complete",
+        userId: booking.userId,
+        bookingId: booking._id.toString(),
+        stationId,
+        stationName: station.name,
+        energyKwh: booking.metering?.energyKwh,
+        durationMinutes: startedAt
+          ? Math.round((now.getTime() - new Date(startedAt).getTime()) / MS_PER_MINUTE)
+          : undefined,
+      },
+      { now }
+    );
+  } catch (error) {
+    console.error("Failed to notify charging complete:", stationId, portId, error);
+  }
+}
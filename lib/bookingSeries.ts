@@ -0,0 +1,332 @@
+/**
+ * Recurring and multi-slot bookings.
+ *
+ * A series is a set of ordinary bookings on one port that were booked
+ * together — either generated from a daily/weekly pattern up to an end date
+ * or hand-picked slots. Every occurrence is checked on its own against
+ * opening hours, closures and existing bookings, and priced on its own
+ * through the pricing rules. The series is paid in one checkout (each
+ * booking carries its share in amountPaid and the checkout total in
+ * paymentAmount) or occurrence by occurrence before each one falls due.
+ */
+
+import type { ClientSession } from "mongoose";
+import Booking, {
+  type IBookingDocument,
+  type PaymentMethod,
+} from "@/lib/models/Booking";
+import BookingSeries, {
+  type IBookingSeriesDocument,
+  type IRecurrencePattern,
+} from "@/lib/models/BookingSeries";
+import {
+  openBooking,
+  transitionBooking,
+  BookingTransitionError,
+  type BookingActor,
+} from "@/lib/bookingLifecycle";
+import { slotClosedReason, type StationHours } from "@/lib/operatingHours";
+import {
+  quoteSession,
+  type PriceQuote,
+  type PricingRules,
+  type QuoteInput,
+} from "@/lib/pricing";
+import type { StationTariff } from "@/lib/tariff";
+import {
+  fromNepalClock,
+  parseTimeOfDay,
+  toNepalClock,
+} from "@/lib/utils";
+import {
+  MAX_SERIES_OCCURRENCES,
+  MINUTES_PER_DAY,
+  MS_PER_MINUTE,
+  PAYMENT_PENDING_EXPIRY_MINUTES,
+  SERIES_OCCURRENCE_PAYMENT_DUE_MINUTES,
+} from "@/lib/constants";
+
+export class BookingSeriesError extends Error {
+  constructor(
+    message: string,
+    public readonly httpStatus: number = 400
+  ) {
+    super(message);
+    this.name = "BookingSeriesError";
+  }
+}
+
+export interface SeriesSlot {
+  start: Date;
+  end: Date;
+}
+
+export interface OccurrenceConflict {
+  startTime: Date;
+  reason: string;
+}
+
+export interface SeriesStation extends StationHours {
+  _id: unknown;
+  pricing: StationTariff;
+  pricingRules?: Partial<PricingRules>;
+}
+
+/** Occurrences of a daily/weekly pattern, in Nepal time */
+export function expandRecurrence(
+  pattern: IRecurrencePattern,
+  durationMinutes: number
+): SeriesSlot[] {
+  const time = parseTimeOfDay(pattern.time);
+  const first = fromNepalClock(pattern.startDate, time);
+  const last = fromNepalClock(pattern.endDate, time);
+  if (Number.isNaN(first.getTime()) || Number.isNaN(last.getTime()) || last < first) {
+    throw new BookingSeriesError("Invalid recurrence dates");
+  }
+  if (pattern.frequency === "weekly" && pattern.daysOfWeek.length === 0) {
+    throw new BookingSeriesError("Pick at least one day for a weekly series");
+  }
+
+  const slots: SeriesSlot[] = [];
+  for (
+    let start = first;
+    start <= last;
+    start = new Date(start.getTime() + MINUTES_PER_DAY * MS_PER_MINUTE)
+  ) {
+    if (
+      pattern.frequency === "weekly" &&
+      !pattern.daysOfWeek.includes(toNepalClock(start).day)
+    ) {
+      continue;
+    }
+    if (slots.length === MAX_SERIES_OCCURRENCES) {
+      throw new BookingSeriesError(
+        `A series can have at most ${MAX_SERIES_OCCURRENCES} occurrences`
+      );
+    }
+    slots.push({
+      start,
+      end: new Date(start.getTime() + durationMinutes * MS_PER_MINUTE),
+    });
+  }
+  return slots;
+}
+
+/** Hand-picked slots, sorted and checked not to overlap each other */
+export function normalizeSlots(
+  starts: (string | Date)[],
+  durationMinutes: number
+): SeriesSlot[] {
+  if (starts.length > MAX_SERIES_OCCURRENCES) {
+    throw new BookingSeriesError(
+      `A series can have at most ${MAX_SERIES_OCCURRENCES} occurrences`
+    );
+  }
+  const slots = starts
+    .map((value) => new Date(value))
+    .sort((a, b) => a.getTime() - b.getTime())
+    .map((start) => ({
+      start,
+      end: new Date(start.getTime() + durationMinutes * MS_PER_MINUTE),
+    }));
+
+  slots.forEach((slot, i) => {
+    if (Number.isNaN(slot.start.getTime())) {
+      throw new BookingSeriesError("Invalid slot start time");
+    }
+    if (i > 0 && slot.start < slots[i - 1].end) {
+      throw new BookingSeriesError("Selected slots overlap each other");
+    }
+  });
+  return slots;
+}
+
+/** Why each slot can't be booked: in the past, station closed, or already taken */
+export async function findSlotConflicts(
+  station: SeriesStation,
+  portId: string,
+  slots: SeriesSlot[],
+  session?: ClientSession,
+  now: Date = new Date()
+): Promise<OccurrenceConflict[]> {
+  const conflicts: OccurrenceConflict[] = [];
+
+  for (const slot of slots) {
+    const reason =
+      slot.start <= now
+        ? "Slot is in the past"
+        : slotClosedReason(station, slot.start, slot.end);
+    if (reason) {
+      conflicts.push({ startTime: slot.start, reason });
+      continue;
+    }
+
+    const overlapping = await Booking.findOne({
+      stationId: String(station._id),
+      portId,
+      status: { $in: ["pending", "confirmed", "active"] },
+      startTime: { $lt: slot.end },
+      endTime: { $gt: slot.start },
+    }).session(session ?? null);
+    if (overlapping) {
+      conflicts.push({
+        startTime: slot.start,
+        reason: "Time slot overlaps with an existing booking",
+      });
+    }
+  }
+  return conflicts;
+}
+
+export interface OpenSeriesInput {
+  station: SeriesStation;
+  port: QuoteInput["port"] & { _id?: unknown; portNumber?: string };
+  slots: SeriesSlot[];
+  user: { clerkId: string; name: string; email: string };
+  kind: IBookingSeriesDocument["kind"];
+  pattern?: IRecurrencePattern;
+  durationMinutes: number;
+  paymentMethod: PaymentMethod;
+  paymentMode: IBookingSeriesDocument["paymentMode"];
+  promoCode?: string;
+  session?: ClientSession;
+}
+
+export interface OpenedSeries {
+  series: IBookingSeriesDocument;
+  bookings: IBookingDocument[];
+  quotes: PriceQuote[];
+  total: number;
+}
+
+/**
+ * Create the series and one pending booking per slot. Callers check
+ * conflicts first (inside the same transaction) and start the payment after.
+ *
+ * @throws PromoCodeError when the promo code can't be applied
+ */
+export async function openSeries(input: OpenSeriesInput): Promise<OpenedSeries> {
+  const portId = String(input.port._id ?? input.port.portNumber);
+
+  const quotes = input.slots.map((slot) =>
+    quoteSession({
+      tariff: input.station.pricing,
+      rules: input.station.pricingRules,
+      port: input.port,
+      start: slot.start,
+      durationMinutes: input.durationMinutes,
+      promoCode: input.promoCode,
+    })
+  );
+  const total = quotes.reduce((sum, quote) => sum + quote.total, 0);
+
+  const [series] = await BookingSeries.create(
+    [
+      {
+        userId: input.user.clerkId,
+        stationId: String(input.station._id),
+        portId,
+        kind: input.kind,
+        pattern: input.pattern,
+        estimatedDuration: input.durationMinutes,
+        paymentMethod: input.paymentMethod,
+        paymentMode: input.paymentMode,
+      },
+    ],
+    { session: input.session }
+  );
+
+  const now = Date.now();
+  const bookings: IBookingDocument[] = [];
+  for (const [i, slot] of input.slots.entries()) {
+    // Occurrences paid on their own can be paid up to shortly before they start
+    const paidAtCheckout = input.paymentMode === "single" || i === 0;
+    const paymentDueAt = paidAtCheckout
+      ? new Date(now + PAYMENT_PENDING_EXPIRY_MINUTES * MS_PER_MINUTE)
+      : new Date(slot.start.getTime() - SERIES_OCCURRENCE_PAYMENT_DUE_MINUTES * MS_PER_MINUTE);
+
+    bookings.push(
+      await openBooking(
+        {
+          userId: input.user.clerkId,
+          userName: input.user.name,
+          userEmail: input.user.email,
+          stationId: String(input.station._id),
+          portId,
+          startTime: slot.start,
+          estimatedDuration: input.durationMinutes,
+          endTime: slot.end,
+          status: "pending",
+          paymentMethod: input.paymentMethod,
+          seriesId: series._id as IBookingDocument["seriesId"],
+          amountPaid: quotes[i].total,
+          ...(input.paymentMode === "single" && { paymentAmount: total }),
+          paymentDueAt,
+          quote: {
+            lineItems: quotes[i].lineItems,
+            total: quotes[i].total,
+            promoCode: quotes[i].promoCode,
+            promoPercentOff: quotes[i].promoPercentOff,
+          },
+        },
+        {
+          actor: "user",
+          actorId: input.user.clerkId,
+          reason: `series:${series._id}`,
+          session: input.session,
+        }
+      )
+    );
+  }
+
+  return { series, bookings, quotes, total };
+}
+
+/** Skip one occurrence — an ordinary cancellation, refunded per station policy */
+export async function skipOccurrence(
+  booking: IBookingDocument,
+  actor: BookingActor,
+  actorId: string
+): Promise<IBookingDocument> {
+  if (!booking.seriesId) {
+    throw new BookingSeriesError("Booking is not part of a series");
+  }
+  return transitionBooking(booking, "cancelled", {
+    actor,
+    actorId,
+    reason: "series:skipped",
+  });
+}
+
+/** Cancel every occurrence that hasn't started yet and close the series */
+export async function cancelRemainingOccurrences(
+  series: IBookingSeriesDocument,
+  actor: BookingActor,
+  actorId: string,
+  now: Date = new Date()
+): Promise<number> {
+  const upcoming = await Booking.find({
+    seriesId: series._id,
+    status: { $in: ["pending", "confirmed"] },
+    startTime: { $gt: now },
+  });
+
+  let cancelled = 0;
+  for (const booking of upcoming) {
+    try {
+      await transitionBooking(booking, "cancelled", {
+        actor,
+        actorId,
+        reason: "series:cancelled",
+      });
+      cancelled++;
+    } catch (error) {
+      // Started or paid concurrently — leave that occurrence as it is
+      if (!(error instanceof BookingTransitionError)) throw error;
+    }
+  }
+
+  series.status = "cancelled";
+  await series.save();
+  return cancelled;
+}
@@ -4,6 +4,8 @@ export const SECONDS_PER_MINUTE = 60;
 export const MS_PER_SECOND = 1000;
 export const MS_PER_MINUTE = SECONDS_PER_MINUTE * MS_PER_SECOND;
 export const MS_PER_HOUR = 60 * MS_PER_MINUTE;
+export const MS_PER_DAY = 24 * MS_PER_HOUR;
+export const NEPAL_UTC_OFFSET_MINUTES = 345; // Nepal Standard Time is UTC+5:45, no DST
 
 // ETA tracking constants
 export const ETA_UPDATE_INTERVAL_MS = 30_000; // 30 seconds
@@ -13,10 +15,81 @@ export const MIN_ETA_UPDATE_INTERVAL_MS = ETA_UPDATE_INTERVAL_MS;
 // Booking duration constants
 export const MIN_BOOKING_DURATION_MINUTES = 1;
 export const MAX_BOOKING_DURATION_MINUTES = MINUTES_PER_DAY;
+export const AVAILABILITY_SLOT_MINUTES = 15; // free slots start on this grid and are at least this long
+
+// Booking sweeper constants
+export const NO_SHOW_GRACE_MINUTES = 15; // after startTime before a confirmed booking is a no-show
+export const PORT_HOLD_LEAD_MINUTES = 15; // a confirmed booking reserves its port this long before startTime
+export const ACTIVE_OVERRUN_MINUTES = 60; // after endTime before an active booking is auto-completed
+export const BOOKING_SWEEP_INTERVAL_MS = MS_PER_MINUTE;
 
 // Pricing constants (NPR - Nepalese Rupee)
 export const DEFAULT_HOURLY_RATE_NPR = 200;
 export const KHALTI_AMOUNT_UNIT = 100; // Paisa (1 NPR = 100 Paisa)
+export const DEFAULT_PORT_POWER_KW = 7.2; // assumed when a port's powerOutput can't be parsed
+
+// Payment reconciliation constants
+export const PAYMENT_PENDING_EXPIRY_MINUTES = 60; // Khalti payment links expire after 60 min
+export const PAYMENT_RECONCILE_INTERVAL_MS = 5 * MS_PER_MINUTE;
+
+// Virtual queue constants
+export const QUEUE_TURN_MINUTES = 5; // a notified driver has this long to book the port offered
+export const QUEUE_DEFAULT_SESSION_MINUTES = 30; // assumed session length at stations with no history
+export const QUEUE_SESSION_HISTORY_DAYS = 30; // completed sessions averaged for wait estimates
+export const QUEUE_EXPIRY_INTERVAL_MS = 30 * MS_PER_SECOND; // how often expired turns are handed on
+export const QUEUE_MISSED_TURN_LIMIT = 3; // expired turns within the window before a driver is barred
+export const QUEUE_MISSED_TURN_WINDOW_DAYS = 30;
+export const QUEUE_PENALTY_HOURS = 24; // how long a driver who keeps missing turns can't queue
+
+// "Notify me when free" subscription constants
+export const PORT_SUBSCRIPTION_DEFAULT_HOURS = 12; // how long a subscription lasts unless the driver picks
+export const PORT_SUBSCRIPTION_MAX_HOURS = 72;
+export const PORT_ALERT_COOLDOWN_MINUTES = 5; // a free port announced to one subscriber isn't announced to another for this long
+
+// Booking reminder constants
+export const BOOKING_REMINDER_MINUTES = 30; // before startTime; BOOKING_REMINDER_MINUTES env overrides
+export const LEAVE_NOW_BUFFER_MINUTES = 5; // "leave now" nudges aim to get the driver there this early
+export const SESSION_ENDING_ALERT_MINUTES = 10; // before endTime of an active session
+export const BOOKING_REMINDER_INTERVAL_MS = MS_PER_MINUTE;
+
+// Recurring / multi-slot booking constants
+export const MAX_SERIES_OCCURRENCES = 30;
+export const SERIES_OCCURRENCE_PAYMENT_DUE_MINUTES = 120; // separately paid occurrences must be paid this long before start
+
+// Cancellation / refund constants
+export const DEFAULT_FULL_REFUND_HOURS_BEFORE = 2;
+export const DEFAULT_PARTIAL_REFUND_PERCENT = 50;
+export const MAX_REFUND_ATTEMPTS = 5;
+export const REFUND_RETRY_INTERVAL_MS = 10 * MS_PER_MINUTE;
+
+// Notification delivery constants
+export const NOTIFICATION_MAX_ATTEMPTS = 5; // email/SMS/in-app sends tried before a delivery is left failed
+export const NOTIFICATION_RETRY_BACKOFF_MS = MS_PER_MINUTE; // wait before the first retry, doubled after each failure
+export const NOTIFICATION_RETRY_INTERVAL_MS = MS_PER_MINUTE;
+export const WEB_PUSH_TTL_SECONDS = 60 * 60; // how long push services hold a push for an offline device
+
+// Realtime (SSE / WebSocket) constants
+export const REALTIME_REPLAY_LIMIT = 100; // events kept per station/user stream for reconnecting clients
+export const SSE_HEARTBEAT_INTERVAL_MS = 30_000;
+export const SSE_RETRY_MS = 3000; // reconnect delay suggested to EventSource
+export const REALTIME_SOCKET_PATH = "/api/ws"; // served by the custom server (server.ts)
+export const SOCKET_PING_INTERVAL_MS = 30_000; // sockets that miss a pong are dropped
+
+// Hardware device constants
+export const HARDWARE_SIGNATURE_WINDOW_MS = 5 * MS_PER_MINUTE; // max clock skew of a signed device request
+export const HARDWARE_HEARTBEAT_INTERVAL_MS = MS_PER_MINUTE; // how often devices send a heartbeat
+export const HARDWARE_MISSED_HEARTBEATS = 3; // missed beats before the port is marked offline
+export const DEVICE_WATCHDOG_INTERVAL_MS = MS_PER_MINUTE;
+
+// Port status history constants
+export const PORT_HISTORY_DEFAULT_DAYS = 7; // window of the admin uptime report
+export const PORT_HISTORY_MAX_DAYS = 90;
+export const PORT_TIMELINE_LIMIT = 50; // most recent changes listed per port
+
+// OCPP 1.6-J constants
+export const OCPP_PATH = "/ocpp"; // charge points connect to /ocpp/<chargePointId> (custom server)
+export const OCPP_CALL_TIMEOUT_MS = 30_000; // how long a charge point has to answer a call
+export const OCPP_REMOTE_ID_TAG = "URJA-REMOTE"; // idTag of sessions started from the admin dashboard
 
 // Geolocation constants
 export const GEOLOCATION_TIMEOUT_MS = 5000;
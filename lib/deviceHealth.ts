@@ -0,0 +1,296 @@
+/**
+ * Liveness of charging port hardware: signed HTTP devices and OCPP charge
+ * points alike.
+ *
+ * Every signed request from a device, and every OCPP call from a charge
+ * point, counts as contact; both also send a heartbeat every
+ * HARDWARE_HEARTBEAT_INTERVAL_MS. The watchdog marks the ports of one that
+ * has missed HARDWARE_MISSED_HEARTBEATS beats as "offline" and tells the
+ * station admin; its next contact brings the ports back to the status they
+ * had before.
+ */
+
+import dbConnect from "@/lib/db";
+import Station from "@/lib/models/Station";
+import HardwareDevice, {
+  type IHardwareDeviceDocument,
+} from "@/lib/models/HardwareDevice";
+import ChargePoint, { type IChargePointDocument } from "@/lib/models/ChargePoint";
+import { broadcastPortUpdate } from "@/lib/realtime";
+import { notify } from "@/lib/notifications";
+import { handlePortAvailable } from "@/lib/portAvailability";
+import { recordPortStatusChange } from "@/lib/portStatusHistory";
+import {
+  HARDWARE_HEARTBEAT_INTERVAL_MS,
+  HARDWARE_MISSED_HEARTBEATS,
+} from "@/lib/constants";
+
+const WATCHDOG_BATCH_SIZE = 100;
+
+function missedHeartbeats(): number {
+  const value = Number(process.env.HARDWARE_MISSED_HEARTBEATS);
+  return Number.isFinite(value) && value >= 1 ? value : HARDWARE_MISSED_HEARTBEATS;
+}
+
+export interface DeviceContact {
+  firmwareVersion?: string;
+  /**
+   * Put an offline port back to its previous status. Off for status reports,
+   * which set the port's status themselves.
+   */
+  restoreStatus?: boolean;
+}
+
+/** Record that a device was heard from; returns whether it was offline */
+export async function recordDeviceContact(
+  device: IHardwareDeviceDocument,
+  { firmwareVersion, restoreStatus = true }: DeviceContact = {},
+  now: Date = new Date()
+): Promise<boolean> {
+  await HardwareDevice.updateOne(
+    { _id: device._id },
+    {
+      $set: {
+        lastSeenAt: now,
+        ...(firmwareVersion ? { firmwareVersion: String(firmwareVersion).slice(0, 32) } : {}),
+      },
+      $unset: { offlineAt: 1, statusBeforeOffline: 1 },
+    }
+  );
+  if (!device.offlineAt) return false;
+
+  if (restoreStatus) {
+    await restorePort(device.stationId, device.portId, device.statusBeforeOffline, now);
+  }
+  return true;
+}
+
+/**
+ * Record that a charge point was heard from; returns whether it was
+ * offline. Off for status notifications, which set the ports' status
+ * themselves, `restoreStatus` leaves the ports offline.
+ */
+export async function recordChargePointContact(
+  chargePoint: IChargePointDocument,
+  { restoreStatus = true }: Pick<DeviceContact, "restoreStatus"> = {},
+  now: Date = new Date()
+): Promise<boolean> {
+  // The document as it was, so only one caller sees it come back
+  const before = await ChargePoint.findOneAndUpdate(
+    { _id: chargePoint._id },
+    {
+      $set: { lastSeenAt: now },
+      $unset: { offlineAt: 1, "connectors.$[].statusBeforeOffline": 1 },
+    }
+  );
+  if (!before?.offlineAt) return false;
+
+  if (restoreStatus) {
+    for (const connector of before.connectors) {
+      await restorePort(before.stationId, connector.portId, connector.statusBeforeOffline, now);
+    }
+  }
+  return true;
+}
+
+/** Put an offline port back to the status it had before it went offline */
+async function restorePort(
+  stationId: string,
+  portId: string,
+  statusBeforeOffline: string | undefined,
+  now: Date
+): Promise<void> {
+  const status = statusBeforeOffline || "available";
+  // Only if the port is still offline — an operator may have set it since
+  const restored = await Station.findOneAndUpdate(
+    {
+      _id: stationId,
+      chargingPorts: { $elemMatch: { _id: portId, status: "offline" } },
+    },
+    { $set: { "chargingPorts.$.status": status } }
+  );
+  if (!restored) return;
+
+  await recordPortStatusChange({
+    stationId,
+    portId,
+    source: "hardware",
+    previousStatus: "offline",
+    status,
+    event: "device_online",
+    at: now,
+  });
+  await broadcastPortUpdate({
+    stationId,
+    portId,
+    status,
+    event: "device_online",
+    timestamp: now.toISOString(),
+  });
+  if (status === "available") {
+    await handlePortAvailable(stationId, portId);
+  }
+}
+
+export interface DeviceWatchdogResult {
+  offline: number;
+  chargePointsOffline: number;
+}
+
+/** Mark the ports of devices and charge points that stopped sending heartbeats as offline */
+export async function detectOfflineDevices(
+  now: Date = new Date()
+): Promise<DeviceWatchdogResult> {
+  await dbConnect();
+
+  const missed = missedHeartbeats();
+  const cutoff = new Date(now.getTime() - missed * HARDWARE_HEARTBEAT_INTERVAL_MS);
+
+  // Devices that never reported aren't installed yet, so they can't go offline
+  const stale = await HardwareDevice.find({
+    lastSeenAt: { $lt: cutoff },
+    offlineAt: { $exists: false },
+  })
+    .sort({ lastSeenAt: 1 })
+    .limit(WATCHDOG_BATCH_SIZE);
+
+  let offline = 0;
+  for (const device of stale) {
+    // Claim the device so concurrent runs report it once
+    const claimed = await HardwareDevice.findOneAndUpdate(
+      { _id: device._id, offlineAt: { $exists: false }, lastSeenAt: { $lt: cutoff } },
+      { $set: { offlineAt: now } }
+    );
+    if (!claimed) continue;
+    offline++;
+
+    try {
+      await markPortOffline(claimed, now);
+    } catch (error) {
+      console.error(`Failed to mark device ${claimed.deviceId} offline:`, error);
+    }
+  }
+
+  // Charge points that never connected aren't installed yet either
+  const staleChargePoints = await ChargePoint.find({
+    lastSeenAt: { $lt: cutoff },
+    offlineAt: { $exists: false },
+  })
+    .sort({ lastSeenAt: 1 })
+    .limit(WATCHDOG_BATCH_SIZE);
+
+  let chargePointsOffline = 0;
+  for (const chargePoint of staleChargePoints) {
+    const claimed = await ChargePoint.findOneAndUpdate(
+      { _id: chargePoint._id, offlineAt: { $exists: false }, lastSeenAt: { $lt: cutoff } },
+      { $set: { offlineAt: now } }
+    );
+    if (!claimed) continue;
+    chargePointsOffline++;
+
+    try {
+      await markChargePointOffline(claimed, now);
+    } catch (error) {
+      console.error(`Failed to mark charge point ${claimed.chargePointId} offline:`, error);
+    }
+  }
+
+  return { offline, chargePointsOffline };
+}
+
+async function markPortOffline(device: IHardwareDeviceDocument, now: Date) {
+  // Unless the device has been heard from again in the meantime
+  const stillOffline = await HardwareDevice.exists({ _id: device._id, offlineAt: { $exists: true } });
+  if (stillOffline) {
+    const previousStatus = await setPortOffline(device.stationId, device.portId, now);
+    if (previousStatus) {
+      await HardwareDevice.updateOne(
+        { _id: device._id },
+        { $set: { statusBeforeOffline: previousStatus } }
+      );
+    }
+  }
+  await notifyAdmin(device.stationId, device.portId, device.lastSeenAt, now);
+}
+
+async function markChargePointOffline(chargePoint: IChargePointDocument, now: Date) {
+  for (const connector of chargePoint.connectors) {
+    const stillOffline = await ChargePoint.exists({ _id: chargePoint._id, offlineAt: { $exists: true } });
+    if (!stillOffline) return;
+
+    const previousStatus = await setPortOffline(chargePoint.stationId, connector.portId, now);
+    if (previousStatus) {
+      await ChargePoint.updateOne(
+        { _id: chargePoint._id },
+        { $set: { "connectors.$[c].statusBeforeOffline": previousStatus } },
+        { arrayFilters: [{ "c.connectorId": connector.connectorId }] }
+      );
+    }
+    await notifyAdmin(chargePoint.stationId, connector.portId, chargePoint.lastSeenAt, now);
+  }
+}
+
+/**
+ * Take a port offline; ports under maintenance (or already offline) stay
+ * as they are. Returns the status the port had, if it changed.
+ */
+async function setPortOffline(
+  stationId: string,
+  portId: string,
+  now: Date
+): Promise<string | null> {
+  const before = await Station.findOneAndUpdate(
+    {
+      _id: stationId,
+      chargingPorts: {
+        $elemMatch: { _id: portId, status: { $nin: ["maintenance", "offline"] } },
+      },
+    },
+    { $set: { "chargingPorts.$.status": "offline" } },
+    { projection: { "chargingPorts.$": 1 } }
+  ).lean();
+  const previousStatus = before?.chargingPorts[0]?.status;
+  if (!previousStatus) return null;
+
+  await recordPortStatusChange({
+    stationId,
+    portId,
+    source: "watchdog",
+    previousStatus,
+    status: "offline",
+    event: "device_offline",
+    at: now,
+  });
+  await broadcastPortUpdate({
+    stationId,
+    portId,
+    status: "offline",
+    event: "device_offline",
+    timestamp: now.toISOString(),
+  });
+  return previousStatus;
+}
+
+async function notifyAdmin(
+  stationId: string,
+  portId: string,
+  lastSeenAt: Date | undefined,
+  now: Date
+) {
+  const station = await Station.findById(stationId).select("name adminId chargingPorts").lean();
+  const port = station?.chargingPorts.find((p) => p._id?.toString() === portId);
+  if (!station?.adminId || !port) return;
+
+  await notify(
+    {
+      type: "device_offline",
+      userId: station.adminId,
+      stationId,
+      stationName: station.name,
+      portId,
+      portNumber: port.portNumber,
+      lastSeenAt,
+    },
+    { now }
+  );
+}
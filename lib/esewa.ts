@@ -0,0 +1,117 @@
+import "server-only";
+import crypto from "crypto";
+
+function getEsewaSecretKey() {
+  return process.env.ESEWA_SECRET_KEY || "";
+}
+
+function getProductCode() {
+  return process.env.ESEWA_PRODUCT_CODE || "EPAYTEST";
+}
+
+function isProduction() {
+  return process.env.ESEWA_ENV === "production";
+}
+
+/** Checkout form endpoint the browser posts to */
+function getFormUrl() {
+  return isProduction()
+    ? "https://epay.esewa.com.np/api/epay/main/v2/form"
+    : "https://rc-epay.esewa.com.np/api/epay/main/v2/form";
+}
+
+/** Status API root; ESEWA_API_URL points it at a local stub server in tests */
+function getStatusApiRoot() {
+  if (process.env.ESEWA_API_URL) return process.env.ESEWA_API_URL;
+  return isProduction()
+    ? "https://epay.esewa.com.np/api"
+    : "https://rc.esewa.com.np/api";
+}
+
+export interface EsewaFormPayload {
+  amount: number; // in NPR
+  transaction_uuid: string;
+  success_url: string;
+  failure_url: string;
+}
+
+export interface EsewaForm {
+  action: string;
+  fields: Record<string, string>;
+}
+
+export interface EsewaStatusResponse {
+  product_code: string;
+  transaction_uuid: string;
+  total_amount: number;
+  status:
+    | "COMPLETE"
+    | "PENDING"
+    | "FULL_REFUND"
+    | "PARTIAL_REFUND"
+    | "AMBIGUOUS"
+    | "NOT_FOUND"
+    | "CANCELED";
+  ref_id: string | null;
+}
+
+/** HMAC-SHA256 signature over the signed fields, as eSewa expects it */
+function sign(message: string): string {
+  return crypto
+    .createHmac("sha256", getEsewaSecretKey())
+    .update(message)
+    .digest("base64");
+}
+
+/**
+ * Build the signed ePay v2 form. eSewa has no initiate API — the browser
+ * submits these fields to the checkout page directly.
+ */
+export function esewaBuildForm(payload: EsewaFormPayload): EsewaForm {
+  const productCode = getProductCode();
+  const totalAmount = String(payload.amount);
+  const signedFieldNames = "total_amount,transaction_uuid,product_code";
+
+  return {
+    action: getFormUrl(),
+    fields: {
+      amount: totalAmount,
+      tax_amount: "0",
+      total_amount: totalAmount,
+      transaction_uuid: payload.transaction_uuid,
+      product_code: productCode,
+      product_service_charge: "0",
+      product_delivery_charge: "0",
+      success_url: payload.success_url,
+      failure_url: payload.failure_url,
+      signed_field_names: signedFieldNames,
+      signature: sign(
+        `total_amount=${totalAmount},transaction_uuid=${payload.transaction_uuid},product_code=${productCode}`
+      ),
+    },
+  };
+}
+
+/** Check the status of an eSewa transaction */
+export async function esewaStatus(
+  transactionUuid: string,
+  totalAmount: number
+): Promise<EsewaStatusResponse> {
+  const query = new URLSearchParams({
+    product_code: getProductCode(),
+    total_amount: String(totalAmount),
+    transaction_uuid: transactionUuid,
+  });
+  const res = await fetch(
+    `${getStatusApiRoot()}/epay/transaction/status/?${query.toString()}`
+  );
+
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(
+      `eSewa status check failed (${res.status}): ${JSON.stringify(err)}`
+    );
+  }
+
+  return res.json();
+}
@@ -0,0 +1,183 @@
+/**
+ * Authentication of charging port hardware.
+ *
+ * Every device has its own secret and is bound to one station port. A
+ * request carries the device id, a unix timestamp (seconds), a random nonce
+ * and an HMAC-SHA256 signature of `<timestamp>.<nonce>.<raw body>`, hex
+ * encoded:
+ *
+ *   x-device-id, x-timestamp, x-nonce, x-signature
+ *
+ * Requests outside the signature window, or reusing a nonce within it, are
+ * rejected, so a captured request can't be replayed.
+ *
+ * The OCPP central system forwards its charge points' calls to the app the
+ * same way, signed with the charge point's password. Signing itself lives in
+ * lib/hardwareSignature.
+ */
+
+import { randomBytes, timingSafeEqual } from "crypto";
+import dbConnect from "@/lib/db";
+import HardwareDevice, {
+  type IHardwareDeviceDocument,
+} from "@/lib/models/HardwareDevice";
+import HardwareNonce from "@/lib/models/HardwareNonce";
+import ChargePoint, {
+  type IChargePointDocument,
+} from "@/lib/models/ChargePoint";
+import { signDeviceRequest } from "@/lib/hardwareSignature";
+import { HARDWARE_SIGNATURE_WINDOW_MS, MS_PER_SECOND } from "@/lib/constants";
+
+export class HardwareAuthError extends Error {
+  constructor(
+    message: string,
+    public readonly httpStatus: number = 401
+  ) {
+    super(message);
+    this.name = "HardwareAuthError";
+  }
+}
+
+export function generateDeviceId(): string {
+  return `dev-${randomBytes(6).toString("hex")}`;
+}
+
+export function generateDeviceSecret(): string {
+  return randomBytes(32).toString("hex");
+}
+
+function signaturesMatch(expected: string, received: string): boolean {
+  const a = Buffer.from(expected, "hex");
+  const b = Buffer.from(received, "hex");
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+interface SignatureHeaders {
+  timestamp: string;
+  nonce: string;
+  signature: string;
+  sentAt: number;
+}
+
+/** The signature headers, once they are present and fresh */
+function signatureHeaders(req: Request): SignatureHeaders {
+  const timestamp = req.headers.get("x-timestamp");
+  const nonce = req.headers.get("x-nonce");
+  const signature = req.headers.get("x-signature");
+  if (!timestamp || !nonce || !signature) {
+    throw new HardwareAuthError("Missing device signature headers");
+  }
+
+  const sentAt = Number(timestamp) * MS_PER_SECOND;
+  if (
+    !Number.isFinite(sentAt) ||
+    Math.abs(Date.now() - sentAt) > HARDWARE_SIGNATURE_WINDOW_MS
+  ) {
+    throw new HardwareAuthError("Request timestamp outside the allowed window");
+  }
+  return { timestamp, nonce, signature, sentAt };
+}
+
+/**
+ * Check the body's signature against the sender's secret and burn its nonce.
+ * Returns the parsed body.
+ */
+async function verifySignedBody<T>(
+  req: Request,
+  headers: SignatureHeaders,
+  sender: { nonceKey: string; secret: string }
+): Promise<T> {
+  const raw = await req.text();
+  if (
+    !signaturesMatch(
+      signDeviceRequest(sender.secret, headers.timestamp, headers.nonce, raw),
+      headers.signature
+    )
+  ) {
+    throw new HardwareAuthError("Invalid signature");
+  }
+
+  // Only checked once the signature holds, so nobody can burn a sender's nonces
+  try {
+    await HardwareNonce.create({
+      deviceId: sender.nonceKey,
+      nonce: headers.nonce,
+      expiresAt: new Date(headers.sentAt + HARDWARE_SIGNATURE_WINDOW_MS),
+    });
+  } catch (error) {
+    if ((error as { code?: number }).code === 11000) {
+      throw new HardwareAuthError("Replayed request");
+    }
+    throw error;
+  }
+
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new HardwareAuthError("Malformed body", 400);
+  }
+}
+
+export interface VerifiedDeviceRequest<T> {
+  device: IHardwareDeviceDocument;
+  body: T;
+}
+
+/**
+ * Check a device request's signature, freshness and nonce, and that it only
+ * reports on the port its device is bound to. Returns the device and the
+ * parsed body.
+ */
+export async function verifyDeviceRequest<
+  T extends { stationId?: string; portId?: string },
+>(req: Request): Promise<VerifiedDeviceRequest<T>> {
+  const deviceId = req.headers.get("x-device-id");
+  if (!deviceId) {
+    throw new HardwareAuthError("Missing device signature headers");
+  }
+  const headers = signatureHeaders(req);
+
+  await dbConnect();
+  const device = await HardwareDevice.findOne({ deviceId }).select("+secret");
+  if (!device) {
+    throw new HardwareAuthError("Unknown device");
+  }
+
+  const body = await verifySignedBody<T>(req, headers, {
+    nonceKey: deviceId,
+    secret: device.secret,
+  });
+
+  if (body.stationId !== device.stationId || body.portId !== device.portId) {
+    throw new HardwareAuthError("Device is not bound to this port", 403);
+  }
+
+  return { device, body };
+}
+
+export interface VerifiedChargePointRequest<T> {
+  chargePoint: IChargePointDocument;
+  body: T;
+}
+
+/** Check a call forwarded by the OCPP central system for a charge point */
+export async function verifyChargePointRequest<T>(
+  req: Request,
+  chargePointId: string
+): Promise<VerifiedChargePointRequest<T>> {
+  const headers = signatureHeaders(req);
+
+  await dbConnect();
+  const chargePoint = await ChargePoint.findOne({ chargePointId }).select("+password");
+  if (!chargePoint) {
+    throw new HardwareAuthError("Unknown charge point");
+  }
+
+  const body = await verifySignedBody<T>(req, headers, {
+    // Kept apart from device ids, which share the nonce collection
+    nonceKey: `ocpp:${chargePointId}`,
+    secret: chargePoint.password,
+  });
+
+  return { chargePoint, body };
+}
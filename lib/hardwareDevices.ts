@@ -0,0 +1,121 @@
+/**
+ * Station operators' side of the hardware device registry: binding devices
+ * to ports, rotating their secrets and removing them. A secret is only ever
+ * returned when it is issued; afterwards it can be replaced but not read.
+ */
+
+import mongoose from "mongoose";
+import Station from "@/lib/models/Station";
+import HardwareDevice, {
+  type IHardwareDeviceDocument,
+} from "@/lib/models/HardwareDevice";
+import ChargePoint from "@/lib/models/ChargePoint";
+import type { IUserDocument } from "@/lib/models/User";
+import { canOperate } from "@/lib/stationOperators";
+import { generateDeviceId, generateDeviceSecret } from "@/lib/hardwareAuth";
+
+export class HardwareDeviceError extends Error {
+  constructor(
+    message: string,
+    public readonly httpStatus: number = 400
+  ) {
+    super(message);
+    this.name = "HardwareDeviceError";
+  }
+}
+
+export interface IssuedDevice {
+  device: IHardwareDeviceDocument;
+  /** Only available here; the device must be flashed with it */
+  secret: string;
+}
+
+async function operatedStation(operator: IUserDocument, stationId: string) {
+  const station = mongoose.isValidObjectId(stationId)
+    ? await Station.findById(stationId)
+    : null;
+  if (!station) {
+    throw new HardwareDeviceError("Station not found", 404);
+  }
+  if (!canOperate(operator, station)) {
+    throw new HardwareDeviceError("You can only manage your own stations", 403);
+  }
+  return station;
+}
+
+async function stationDevice(stationId: string, deviceId: string) {
+  const device = await HardwareDevice.findOne({ stationId, deviceId });
+  if (!device) {
+    throw new HardwareDeviceError("Device not found", 404);
+  }
+  return device;
+}
+
+export async function listDevices(
+  operator: IUserDocument,
+  stationId: string
+): Promise<IHardwareDeviceDocument[]> {
+  await operatedStation(operator, stationId);
+  return HardwareDevice.find({ stationId }).sort({ createdAt: 1 });
+}
+
+/** Register a device for one of the station's ports */
+export async function registerDevice(
+  operator: IUserDocument,
+  stationId: string,
+  portId: string,
+  name = ""
+): Promise<IssuedDevice> {
+  const station = await operatedStation(operator, stationId);
+  const port = station.chargingPorts.find((p) => p._id?.toString() === portId);
+  if (!port) {
+    throw new HardwareDeviceError("Port not found", 404);
+  }
+  if (await ChargePoint.exists({ stationId, "connectors.portId": portId })) {
+    throw new HardwareDeviceError("This port is fed by an OCPP charge point", 409);
+  }
+
+  const secret = generateDeviceSecret();
+  try {
+    const device = await HardwareDevice.create({
+      deviceId: generateDeviceId(),
+      name: name.trim() || `Port ${port.portNumber}`,
+      stationId: String(station._id),
+      portId,
+      secret,
+      createdBy: operator.clerkId,
+    });
+    return { device, secret };
+  } catch (error) {
+    if ((error as { code?: number }).code === 11000) {
+      throw new HardwareDeviceError("This port already has a device", 409);
+    }
+    throw error;
+  }
+}
+
+/** Issue a new secret; the old one stops working immediately */
+export async function rotateDeviceSecret(
+  operator: IUserDocument,
+  stationId: string,
+  deviceId: string
+): Promise<IssuedDevice> {
+  await operatedStation(operator, stationId);
+  const device = await stationDevice(stationId, deviceId);
+
+  const secret = generateDeviceSecret();
+  device.secret = secret;
+  device.secretRotatedAt = new Date();
+  await device.save();
+  return { device, secret };
+}
+
+export async function removeDevice(
+  operator: IUserDocument,
+  stationId: string,
+  deviceId: string
+): Promise<void> {
+  await operatedStation(operator, stationId);
+  const device = await stationDevice(stationId, deviceId);
+  await device.deleteOne();
+}
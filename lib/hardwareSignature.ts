@@ -0,0 +1,33 @@
+/**
+ * Request signing for charging port hardware, free of database imports so
+ * signing clients (the OCPP central system, the hardware simulator) can use
+ * it anywhere. Verification lives in lib/hardwareAuth.
+ */
+
+import { createHmac, randomBytes } from "crypto";
+import { MS_PER_SECOND } from "@/lib/constants";
+
+export function signDeviceRequest(
+  secret: string,
+  timestamp: string,
+  nonce: string,
+  body: string
+): string {
+  return createHmac("sha256", secret)
+    .update(`${timestamp}.${nonce}.${body}`)
+    .digest("hex");
+}
+
+/** Signature headers for a request body, as a device would send them */
+export function signRequestHeaders(
+  secret: string,
+  body: string
+): Record<string, string> {
+  const timestamp = String(Math.floor(Date.now() / MS_PER_SECOND));
+  const nonce = randomBytes(16).toString("hex");
+  return {
+    "x-timestamp": timestamp,
+    "x-nonce": nonce,
+    "x-signature": signDeviceRequest(secret, timestamp, nonce, body),
+  };
+}
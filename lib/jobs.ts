@@ -0,0 +1,62 @@
+import { registerJob } from "@/lib/scheduler";
+import { sweepBookings } from "@/lib/bookingSweeper";
+import { retryFailedRefunds } from "@/lib/refunds";
+import { reconcilePendingPayments } from "@/lib/paymentReconciliation";
+import { detectOfflineDevices } from "@/lib/deviceHealth";
+import { expireQueueTurns } from "@/lib/queueTurns";
+import { retryNotificationDeliveries } from "@/lib/notifications";
+import { sendBookingReminders } from "@/lib/bookingReminders";
+import {
+  BOOKING_REMINDER_INTERVAL_MS,
+  BOOKING_SWEEP_INTERVAL_MS,
+  DEVICE_WATCHDOG_INTERVAL_MS,
+  NOTIFICATION_RETRY_INTERVAL_MS,
+  PAYMENT_RECONCILE_INTERVAL_MS,
+  QUEUE_EXPIRY_INTERVAL_MS,
+  REFUND_RETRY_INTERVAL_MS,
+} from "@/lib/constants";
+
+/** Register every background job. Safe to call more than once. */
+export function registerJobs(): void {
+  registerJob({
+    name: "sweep-bookings",
+    intervalMs: BOOKING_SWEEP_INTERVAL_MS,
+    run: sweepBookings,
+  });
+
+  registerJob({
+    name: "reconcile-payments",
+    intervalMs: PAYMENT_RECONCILE_INTERVAL_MS,
+    run: reconcilePendingPayments,
+  });
+
+  registerJob({
+    name: "retry-refunds",
+    intervalMs: REFUND_RETRY_INTERVAL_MS,
+    run: retryFailedRefunds,
+  });
+
+  registerJob({
+    name: "watch-devices",
+    intervalMs: DEVICE_WATCHDOG_INTERVAL_MS,
+    run: detectOfflineDevices,
+  });
+
+  registerJob({
+    name: "expire-queue-turns",
+    intervalMs: QUEUE_EXPIRY_INTERVAL_MS,
+    run: expireQueueTurns,
+  });
+
+  registerJob({
+    name: "retry-notifications",
+    intervalMs: NOTIFICATION_RETRY_INTERVAL_MS,
+    run: retryNotificationDeliveries,
+  });
+
+  registerJob({
+    name: "send-booking-reminders",
+    intervalMs: BOOKING_REMINDER_INTERVAL_MS,
+    run: sendBookingReminders,
+  });
+}
@@ -4,10 +4,16 @@ function getKhaltiSecretKey() {
   return process.env.KHALTI_SECRET_KEY || "";
 }
 
-function getBaseUrl() {
+/** API root; KHALTI_API_URL points it at a local stub server in tests */
+function getApiRoot() {
+  if (process.env.KHALTI_API_URL) return process.env.KHALTI_API_URL;
   return process.env.KHALTI_ENV === "production"
-    ? "https://khalti.com/api/v2"
-    : "https://dev.khalti.com/api/v2";
+    ? "https://khalti.com/api"
+    : "https://dev.khalti.com/api";
+}
+
+function getBaseUrl() {
+  return `${getApiRoot()}/v2`;
 }
 
 export interface KhaltiInitiatePayload {
@@ -44,6 +50,18 @@ export interface KhaltiLookupResponse {
   refunded: boolean;
 }
 
+export interface KhaltiRefundPayload {
+  /** Partial refund amount in paisa — omit to refund the full transaction */
+  amount?: number;
+  /** Payer's Khalti mobile number, required by Khalti for partial refunds */
+  mobile?: string;
+}
+
+export interface KhaltiRefundResponse {
+  detail: string;
+  idx: string;
+}
+
 /** Initiate a Khalti e-payment */
 export async function khaltiInitiate(
   payload: KhaltiInitiatePayload
@@ -89,3 +107,30 @@ export async function khaltiLookup(
 
   return res.json();
 }
+
+/** Refund a completed Khalti transaction, fully or partially */
+export async function khaltiRefund(
+  transactionId: string,
+  payload: KhaltiRefundPayload = {}
+): Promise<KhaltiRefundResponse> {
+  const res = await fetch(
+    `${getApiRoot()}/merchant-transaction/${encodeURIComponent(transactionId)}/refund/`,
+    {
+      method: "POST",
+      headers: {
+        Authorization: `Key ${getKhaltiSecretKey()}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(payload),
+    }
+  );
+
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}));
+    throw new Error(
+      `Khalti refund failed (${res.status}): ${JSON.stringify(err)}`
+    );
+  }
+
+  return res.json();
+}
@@ -0,0 +1,123 @@
+/**
+ * Meter readings reported by charging port hardware.
+ *
+ * Readings are attributed to the booking currently holding the port. A
+ * session start activates a confirmed booking that hasn't been scanned in
+ * yet; a session stop records when charging ended; the vehicle disconnecting
+ * afterwards completes the booking, which triggers final billing (including
+ * any idle fee for the time in between) through the booking lifecycle.
+ */
+
+import Booking, { type IBookingDocument } from "@/lib/models/Booking";
+import Station from "@/lib/models/Station";
+import {
+  transitionBooking,
+  BookingTransitionError,
+} from "@/lib/bookingLifecycle";
+import { MS_PER_MINUTE } from "@/lib/constants";
+
+export interface MeterReport {
+  stationId: string;
+  portId: string;
+  /** kWh delivered so far in the current session */
+  energyKwh?: number;
+  session?: "start" | "stop" | "disconnect";
+  at: Date;
+}
+
+function portMatch(portId: string): Record<string, unknown> {
+  return /^[a-f\d]{24}$/i.test(portId) ? { _id: portId } : { portNumber: portId };
+}
+
+/**
+ * Apply a meter report to the booking holding the port.
+ * Returns the booking as it stands afterwards, or null if the port is idle.
+ */
+export async function recordMeterReport(
+  report: MeterReport
+): Promise<IBookingDocument | null> {
+  if (report.stationId.startsWith("station-")) return null;
+
+  const station = await Station.findOne(
+    {
+      _id: report.stationId,
+      chargingPorts: { $elemMatch: portMatch(report.portId) },
+    },
+    { "chargingPorts.$": 1 }
+  ).lean();
+  const bookingId = station?.chargingPorts?.[0]?.currentBookingId;
+  if (!bookingId) return null;
+
+  const found = await Booking.findById(bookingId);
+  if (!found) return null;
+  let booking: IBookingDocument = found;
+
+  try {
+    if (report.session === "start") {
+      if (booking.status === "confirmed") {
+        booking = await transitionBooking(booking, "active", {
+          actor: "hardware",
+          reason: "charging_started",
+        });
+      }
+      await Booking.updateOne(
+        { _id: booking._id, "metering.startedAt": { $exists: false } },
+        { $set: { "metering.startedAt": report.at, "metering.energyKwh": 0 } }
+      );
+    }
+
+    const energyKwh = Number(report.energyKwh);
+    if (report.energyKwh != null && Number.isFinite(energyKwh) && energyKwh >= 0) {
+      // Readings are cumulative, so a late or duplicate report never lowers the
+      // total, and only a session the meter started (and hasn't stopped) counts
+      await Booking.updateOne(
+        {
+          _id: booking._id,
+          "metering.startedAt": { $exists: true },
+          "metering.stoppedAt": { $exists: false },
+        },
+        {
+          $max: { "metering.energyKwh": energyKwh },
+          $set: { "metering.lastReadingAt": report.at },
+        }
+      );
+    }
+
+    if (report.session === "stop" && booking.status === "active") {
+      const current = (await Booking.findById(booking._id)) ?? booking;
+      const startedAt = current.metering?.startedAt;
+      // A repeated "complete" report must not end a session it never started
+      if (startedAt && !current.metering?.stoppedAt) {
+        await Booking.updateOne(
+          { _id: booking._id, "metering.stoppedAt": { $exists: false } },
+          {
+            $set: {
+              "metering.stoppedAt": report.at,
+              "metering.durationMinutes": Math.max(
+                0,
+                Math.round((report.at.getTime() - new Date(startedAt).getTime()) / MS_PER_MINUTE)
+              ),
+            },
+          }
+        );
+      }
+    }
+
+    if (report.session === "disconnect" && booking.status === "active") {
+      const current = (await Booking.findById(booking._id)) ?? booking;
+      if (!current.metering?.startedAt) return current;
+
+      // Completing frees the port and bills the session
+      return await transitionBooking(current, "completed", {
+        actor: "hardware",
+        reason: "vehicle_disconnected",
+        set: { endTime: report.at },
+      });
+    }
+  } catch (error) {
+    // The booking moved on concurrently — the reading itself is still recorded
+    if (!(error instanceof BookingTransitionError)) throw error;
+  }
+
+  return Booking.findById(booking._id);
+}
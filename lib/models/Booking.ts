@@ -1,4 +1,55 @@
 import mongoose, { Schema, Document, Model } from "mongoose";
+import { BILLING_MODES, type BillingMode } from "@/lib/tariff";
+
+export type BookingStatus =
+  | "pending"
+  | "confirmed"
+  | "active"
+  | "completed"
+  | "cancelled"
+  | "no-show";
+
+export type BookingActor = "user" | "admin" | "payment" | "system" | "hardware";
+
+/** Ways a driver can pay for an online booking */
+export type PaymentMethod = "khalti" | "esewa" | "cash";
+
+export const PAYMENT_METHODS: PaymentMethod[] = ["khalti", "esewa", "cash"];
+
+export interface IBookingStatusChange {
+  from: BookingStatus | null;
+  to: BookingStatus;
+  actor: BookingActor;
+  actorId?: string;
+  reason?: string;
+  at: Date;
+}
+
+/** What the port's meter reported for this booking's charging session */
+export interface IBookingMetering {
+  energyKwh: number;
+  startedAt?: Date;
+  stoppedAt?: Date;
+  lastReadingAt?: Date;
+  durationMinutes?: number;
+}
+
+/** Final bill for a metered session and how it was settled against the prepaid amount */
+export interface IBookingBilling {
+  mode: BillingMode;
+  energyKwh: number;
+  durationMinutes: number;
+  finalAmount: number;
+  prepaidAmount: number;
+  /** finalAmount - prepaidAmount: positive is owed by the driver, negative is refunded */
+  adjustment: number;
+  /** Minutes the vehicle stayed plugged in after charging, beyond the grace period */
+  idleMinutes: number;
+  idleFee: number;
+  lineItems: { label: string; amount: number }[];
+  settlement: "none" | "refund" | "topup_due" | "topup_paid";
+  settledAt: Date;
+}
 
 export interface IBookingDocument extends Document {
   userId: string;
@@ -9,7 +60,8 @@ export interface IBookingDocument extends Document {
   startTime: Date;
   estimatedDuration: number;
   endTime: Date;
-  status: "pending" | "confirmed" | "active" | "completed" | "cancelled" | "no-show";
+  status: BookingStatus;
+  statusHistory: IBookingStatusChange[];
   source: "online" | "walk-in-qr" | "walk-in-manual";
   qrCode?: string;
   userLocation?: {
@@ -22,8 +74,34 @@ export interface IBookingDocument extends Document {
     updatedAt: Date;
   };
   khaltiPidx?: string;
+  khaltiTransactionId?: string;
+  esewaTransactionUuid?: string;
+  esewaRefId?: string;
   amountPaid?: number;
-  paymentMethod?: "khalti" | "cash" | "other";
+  /** Series this booking is an occurrence of */
+  seriesId?: mongoose.Types.ObjectId;
+  /**
+   * Total of the checkout this booking was paid in, when one payment covered
+   * several bookings; amountPaid is this booking's share of it
+   */
+  paymentAmount?: number;
+  /** A pending booking still unpaid at this time is released */
+  paymentDueAt?: Date;
+  /** Itemized price quoted when the booking was made */
+  quote?: {
+    lineItems: { label: string; amount: number }[];
+    total: number;
+    promoCode?: string;
+    promoPercentOff?: number;
+  };
+  metering?: IBookingMetering;
+  billing?: IBookingBilling;
+  refund?: {
+    refundId: mongoose.Types.ObjectId;
+    status: "pending" | "completed" | "failed" | "manual" | "not_eligible";
+    amount: number;
+  };
+  paymentMethod?: PaymentMethod | "other";
   customerName?: string;
   customerPhone?: string;
   vehicleNumber?: string;
@@ -33,6 +111,39 @@ export interface IBookingDocument extends Document {
   updatedAt: Date;
 }
 
+const BOOKING_STATUSES = [
+  "pending",
+  "confirmed",
+  "active",
+  "completed",
+  "cancelled",
+  "no-show",
+];
+
+const BookingStatusChangeSchema = new Schema<IBookingStatusChange>(
+  {
+    from: { type: String, enum: [...BOOKING_STATUSES, null], default: null },
+    to: { type: String, enum: BOOKING_STATUSES, required: true },
+    actor: {
+      type: String,
+      enum: ["user", "admin", "payment", "system", "hardware"],
+      required: true,
+    },
+    actorId: { type: String },
+    reason: { type: String },
+    at: { type: Date, default: Date.now },
+  },
+  { _id: false }
+);
+
+const QuoteLineItemSchema = new Schema(
+  {
+    label: { type: String, required: true },
+    amount: { type: Number, required: true },
+  },
+  { _id: false }
+);
+
 const BookingSchema = new Schema<IBookingDocument>(
   {
     userId: { type: String, required: true, index: true },
@@ -49,10 +160,11 @@ const BookingSchema = new Schema<IBookingDocument>(
     endTime: { type: Date, required: true },
     status: {
       type: String,
-      enum: ["pending", "confirmed", "active", "completed", "cancelled", "no-show"],
+      enum: BOOKING_STATUSES,
       default: "pending",
       index: true,
     },
+    statusHistory: { type: [BookingStatusChangeSchema], default: [] },
     qrCode: { type: String },
     userLocation: {
       lat: { type: Number },
@@ -64,7 +176,50 @@ const BookingSchema = new Schema<IBookingDocument>(
       updatedAt: { type: Date },
     },
     khaltiPidx: { type: String, index: true },
+    khaltiTransactionId: { type: String },
+    esewaTransactionUuid: { type: String, index: true },
+    esewaRefId: { type: String },
     amountPaid: { type: Number, default: 0 },
+    seriesId: { type: Schema.Types.ObjectId, ref: "BookingSeries", index: true },
+    paymentAmount: { type: Number },
+    paymentDueAt: { type: Date },
+    quote: {
+      lineItems: { type: [QuoteLineItemSchema], default: undefined },
+      total: { type: Number },
+      promoCode: { type: String },
+      promoPercentOff: { type: Number },
+    },
+    metering: {
+      energyKwh: { type: Number },
+      startedAt: { type: Date },
+      stoppedAt: { type: Date },
+      lastReadingAt: { type: Date },
+      durationMinutes: { type: Number },
+    },
+    billing: {
+      mode: { type: String, enum: BILLING_MODES },
+      energyKwh: { type: Number },
+      durationMinutes: { type: Number },
+      finalAmount: { type: Number },
+      prepaidAmount: { type: Number },
+      adjustment: { type: Number },
+      idleMinutes: { type: Number },
+      idleFee: { type: Number },
+      lineItems: { type: [QuoteLineItemSchema], default: undefined },
+      settlement: {
+        type: String,
+        enum: ["none", "refund", "topup_due", "topup_paid"],
+      },
+      settledAt: { type: Date },
+    },
+    refund: {
+      refundId: { type: Schema.Types.ObjectId, ref: "Refund" },
+      status: {
+        type: String,
+        enum: ["pending", "completed", "failed", "manual", "not_eligible"],
+      },
+      amount: { type: Number },
+    },
     source: {
       type: String,
       enum: ["online", "walk-in-qr", "walk-in-manual"],
@@ -73,7 +228,7 @@ const BookingSchema = new Schema<IBookingDocument>(
     },
     paymentMethod: {
       type: String,
-      enum: ["khalti", "cash", "other"],
+      enum: [...PAYMENT_METHODS, "other"],
       default: "khalti",
     },
     customerName: { type: String, default: "" },
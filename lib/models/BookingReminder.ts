@@ -0,0 +1,51 @@
+import mongoose, { Schema, Document, Model } from "mongoose";
+
+export const BOOKING_REMINDER_KINDS = [
+  "starts_soon",
+  "leave_now",
+  "ending_soon",
+  "charging_complete",
+] as const;
+export type BookingReminderKind = (typeof BOOKING_REMINDER_KINDS)[number];
+
+/**
+ * A notification due at a point in a booking's life, kept in the database
+ * so it is still sent after a restart. One per booking and kind.
+ */
+export interface IBookingReminderDocument extends Document {
+  bookingId: mongoose.Types.ObjectId;
+  userId: string;
+  kind: BookingReminderKind;
+  sendAt: Date;
+  /** "cancelled" once the booking closes or moves past the reminder */
+  status: "scheduled" | "sent" | "cancelled";
+  sentAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const BookingReminderSchema = new Schema<IBookingReminderDocument>(
+  {
+    bookingId: { type: Schema.Types.ObjectId, ref: "Booking", required: true },
+    userId: { type: String, required: true },
+    kind: { type: String, enum: BOOKING_REMINDER_KINDS, required: true },
+    sendAt: { type: Date, required: true },
+    status: {
+      type: String,
+      enum: ["scheduled", "sent", "cancelled"],
+      default: "scheduled",
+    },
+    sentAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+BookingReminderSchema.index({ bookingId: 1, kind: 1 }, { unique: true });
+// Reminder job: scheduled reminders that are due
+BookingReminderSchema.index({ status: 1, sendAt: 1 });
+
+const BookingReminder: Model<IBookingReminderDocument> =
+  mongoose.models.BookingReminder ||
+  mongoose.model<IBookingReminderDocument>("BookingReminder", BookingReminderSchema);
+
+export default BookingReminder;
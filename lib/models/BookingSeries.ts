@@ -0,0 +1,70 @@
+import mongoose, { Schema, Document, Model } from "mongoose";
+import { PAYMENT_METHODS, type PaymentMethod } from "@/lib/models/Booking";
+
+/** Repeat rule of a recurring series, in Nepal time */
+export interface IRecurrencePattern {
+  frequency: "daily" | "weekly";
+  /** Days of week (0 = Sunday) a weekly series runs on */
+  daysOfWeek: number[];
+  /** "HH:mm" start time of every occurrence */
+  time: string;
+  /** "YYYY-MM-DD" first and last day, inclusive */
+  startDate: string;
+  endDate: string;
+}
+
+export interface IBookingSeriesDocument extends Document {
+  userId: string;
+  stationId: string;
+  portId: string;
+  /** "recurring" follows `pattern`; "multi" is a hand-picked list of slots */
+  kind: "recurring" | "multi";
+  pattern?: IRecurrencePattern;
+  estimatedDuration: number;
+  paymentMethod: PaymentMethod;
+  /** One checkout for every occurrence, or each occurrence paid on its own */
+  paymentMode: "single" | "per_occurrence";
+  status: "active" | "cancelled";
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const RecurrencePatternSchema = new Schema<IRecurrencePattern>(
+  {
+    frequency: { type: String, enum: ["daily", "weekly"], required: true },
+    daysOfWeek: [{ type: Number, min: 0, max: 6 }],
+    time: { type: String, required: true },
+    startDate: { type: String, required: true },
+    endDate: { type: String, required: true },
+  },
+  { _id: false }
+);
+
+const BookingSeriesSchema = new Schema<IBookingSeriesDocument>(
+  {
+    userId: { type: String, required: true, index: true },
+    stationId: { type: String, required: true },
+    portId: { type: String, required: true },
+    kind: { type: String, enum: ["recurring", "multi"], required: true },
+    pattern: { type: RecurrencePatternSchema },
+    estimatedDuration: { type: Number, required: true },
+    paymentMethod: { type: String, enum: PAYMENT_METHODS, required: true },
+    paymentMode: {
+      type: String,
+      enum: ["single", "per_occurrence"],
+      default: "single",
+    },
+    status: {
+      type: String,
+      enum: ["active", "cancelled"],
+      default: "active",
+    },
+  },
+  { timestamps: true }
+);
+
+const BookingSeries: Model<IBookingSeriesDocument> =
+  mongoose.models.BookingSeries ||
+  mongoose.model<IBookingSeriesDocument>("BookingSeries", BookingSeriesSchema);
+
+export default BookingSeries;
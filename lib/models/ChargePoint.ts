@@ -0,0 +1,85 @@
+import mongoose, { Schema, Document, Model } from "mongoose";
+
+/** OCPP connector number → station port it feeds */
+export interface IChargePointConnector {
+  connectorId: number;
+  portId: string;
+  /** The port's status before the watchdog took it offline */
+  statusBeforeOffline?: string;
+}
+
+/** An OCPP 1.6-J charge point, whose connectors drive station ports */
+export interface IChargePointDocument extends Document {
+  /** OCPP identity: the last segment of the URL the charge point connects to */
+  chargePointId: string;
+  name: string;
+  stationId: string;
+  connectors: IChargePointConnector[];
+  /**
+   * Basic auth password of the charge point's connection, which also signs
+   * the calls the central system forwards for it; never returned by queries
+   * by default
+   */
+  password: string;
+  passwordRotatedAt: Date;
+  vendor?: string;
+  // `model` is taken by mongoose documents
+  modelName?: string;
+  serialNumber?: string;
+  firmwareVersion?: string;
+  lastSeenAt?: Date;
+  /** Set by the watchdog when heartbeats stop; cleared on the next call */
+  offlineAt?: Date;
+  /** Set while a central system instance holds its connection */
+  connectedAt?: Date;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ChargePointConnectorSchema = new Schema<IChargePointConnector>(
+  {
+    connectorId: { type: Number, required: true, min: 1 },
+    portId: { type: String, required: true },
+    statusBeforeOffline: { type: String },
+  },
+  { _id: false }
+);
+
+const ChargePointSchema = new Schema<IChargePointDocument>(
+  {
+    chargePointId: { type: String, required: true, unique: true },
+    name: { type: String, default: "" },
+    stationId: { type: String, required: true, index: true },
+    connectors: { type: [ChargePointConnectorSchema], required: true },
+    password: { type: String, required: true, select: false },
+    passwordRotatedAt: { type: Date, default: Date.now },
+    vendor: { type: String },
+    modelName: { type: String },
+    serialNumber: { type: String },
+    firmwareVersion: { type: String },
+    lastSeenAt: { type: Date },
+    offlineAt: { type: Date },
+    connectedAt: { type: Date },
+    createdBy: { type: String, required: true },
+  },
+  {
+    timestamps: true,
+    // Keep the password out of API responses even when it was just set
+    toJSON: {
+      transform: (_doc, ret: Record<string, unknown>) => {
+        delete ret.password;
+        return ret;
+      },
+    },
+  }
+);
+
+// A port is fed by at most one connector
+ChargePointSchema.index({ stationId: 1, "connectors.portId": 1 }, { unique: true });
+
+const ChargePoint: Model<IChargePointDocument> =
+  mongoose.models.ChargePoint ||
+  mongoose.model<IChargePointDocument>("ChargePoint", ChargePointSchema);
+
+export default ChargePoint;
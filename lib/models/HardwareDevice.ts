@@ -0,0 +1,57 @@
+import mongoose, { Schema, Document, Model } from "mongoose";
+
+/** A charging port controller allowed to report on exactly one port */
+export interface IHardwareDeviceDocument extends Document {
+  /** Public id the device sends with every request */
+  deviceId: string;
+  name: string;
+  stationId: string;
+  portId: string;
+  /** HMAC key shared with the device; never returned by queries by default */
+  secret: string;
+  secretRotatedAt: Date;
+  lastSeenAt?: Date;
+  firmwareVersion?: string;
+  /** Set by the watchdog when heartbeats stop; cleared by the next contact */
+  offlineAt?: Date;
+  /** Port status the watchdog replaced with "offline", restored on recovery */
+  statusBeforeOffline?: string;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const HardwareDeviceSchema = new Schema<IHardwareDeviceDocument>(
+  {
+    deviceId: { type: String, required: true, unique: true },
+    name: { type: String, default: "" },
+    stationId: { type: String, required: true, index: true },
+    portId: { type: String, required: true },
+    secret: { type: String, required: true, select: false },
+    secretRotatedAt: { type: Date, default: Date.now },
+    lastSeenAt: { type: Date },
+    firmwareVersion: { type: String },
+    offlineAt: { type: Date },
+    statusBeforeOffline: { type: String },
+    createdBy: { type: String, required: true },
+  },
+  {
+    timestamps: true,
+    // Keep the secret out of API responses even when it was just set
+    toJSON: {
+      transform: (_doc, ret: Record<string, unknown>) => {
+        delete ret.secret;
+        return ret;
+      },
+    },
+  }
+);
+
+// One device per port
+HardwareDeviceSchema.index({ stationId: 1, portId: 1 }, { unique: true });
+
+const HardwareDevice: Model<IHardwareDeviceDocument> =
+  mongoose.models.HardwareDevice ||
+  mongoose.model<IHardwareDeviceDocument>("HardwareDevice", HardwareDeviceSchema);
+
+export default HardwareDevice;
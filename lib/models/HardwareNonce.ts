@@ -0,0 +1,23 @@
+import mongoose, { Schema, Document, Model } from "mongoose";
+
+/** Nonces seen from a device, kept until their timestamp falls out of the signature window */
+export interface IHardwareNonceDocument extends Document {
+  deviceId: string;
+  nonce: string;
+  expiresAt: Date;
+}
+
+const HardwareNonceSchema = new Schema<IHardwareNonceDocument>({
+  deviceId: { type: String, required: true },
+  nonce: { type: String, required: true },
+  expiresAt: { type: Date, required: true },
+});
+
+HardwareNonceSchema.index({ deviceId: 1, nonce: 1 }, { unique: true });
+HardwareNonceSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const HardwareNonce: Model<IHardwareNonceDocument> =
+  mongoose.models.HardwareNonce ||
+  mongoose.model<IHardwareNonceDocument>("HardwareNonce", HardwareNonceSchema);
+
+export default HardwareNonce;
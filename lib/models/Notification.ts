@@ -4,10 +4,13 @@ export interface INotificationDocument extends Document {
   userId: string;
   type:
     | "port_available"
+    | "booking_confirmed"
     | "booking_reminder"
     | "queue_turn"
     | "charging_complete"
     | "queue_update"
+    | "device_offline"
+    | "refund_issued"
     | "general";
   title: string;
   message: string;
@@ -26,10 +29,13 @@ const NotificationSchema = new Schema<INotificationDocument>(
       type: String,
       enum: [
         "port_available",
+        "booking_confirmed",
         "booking_reminder",
         "queue_turn",
         "charging_complete",
         "queue_update",
+        "device_offline",
+        "refund_issued",
         "general",
       ],
       required: true,
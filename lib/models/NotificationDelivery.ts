@@ -0,0 +1,87 @@
+import mongoose, { Schema, Document, Model } from "mongoose";
+
+export const NOTIFICATION_CHANNELS = ["in_app", "email", "sms"] as const;
+export type NotificationChannel = (typeof NOTIFICATION_CHANNELS)[number];
+
+export const DELIVERY_STATUSES = ["pending", "sent", "failed", "skipped"] as const;
+export type DeliveryStatus = (typeof DELIVERY_STATUSES)[number];
+
+/** What a channel sends, rendered once so retries send the same thing */
+export interface IDeliveryContent {
+  notificationType: string;
+  title: string;
+  message: string;
+  actionUrl?: string;
+  stationId?: string;
+  stationName?: string;
+  portId?: string;
+  subject?: string;
+  html?: string;
+  text?: string;
+}
+
+/** One attempt-tracked send of a notification event over one channel */
+export interface INotificationDeliveryDocument extends Document {
+  userId: string;
+  event: string;
+  channel: NotificationChannel;
+  /** Email address or phone number; unset for in-app */
+  to?: string;
+  content: IDeliveryContent;
+  /**
+   * "skipped" when the channel can't reach the user (no email or phone on
+   * file); "failed" deliveries are retried until the attempts run out
+   */
+  status: DeliveryStatus;
+  attempts: number;
+  lastError?: string;
+  /** Next retry of a failed delivery, or the end of the quiet hours a pending one waits for */
+  nextAttemptAt?: Date;
+  sentAt?: Date;
+  /** In-app Notification id, or the email/SMS provider's message id */
+  providerId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const NotificationDeliverySchema = new Schema<INotificationDeliveryDocument>(
+  {
+    userId: { type: String, required: true, index: true },
+    event: { type: String, required: true },
+    channel: { type: String, enum: NOTIFICATION_CHANNELS, required: true },
+    to: { type: String },
+    content: {
+      notificationType: { type: String, required: true },
+      title: { type: String, required: true },
+      message: { type: String, required: true },
+      actionUrl: { type: String },
+      stationId: { type: String },
+      stationName: { type: String },
+      portId: { type: String },
+      subject: { type: String },
+      html: { type: String },
+      text: { type: String },
+    },
+    status: { type: String, enum: DELIVERY_STATUSES, default: "pending" },
+    attempts: { type: Number, default: 0 },
+    lastError: { type: String },
+    nextAttemptAt: { type: Date },
+    sentAt: { type: Date },
+    providerId: { type: String },
+  },
+  { timestamps: true }
+);
+
+// Retry job: failed and quiet-hours deliveries that are due
+NotificationDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
+// Keep the delivery log as long as the notifications themselves
+NotificationDeliverySchema.index({ createdAt: 1 }, { expireAfterSeconds: 2592000 });
+
+const NotificationDelivery: Model<INotificationDeliveryDocument> =
+  mongoose.models.NotificationDelivery ||
+  mongoose.model<INotificationDeliveryDocument>(
+    "NotificationDelivery",
+    NotificationDeliverySchema
+  );
+
+export default NotificationDelivery;
@@ -0,0 +1,47 @@
+import mongoose, { Schema, Document, Model } from "mongoose";
+
+/** A charging session as an OCPP charge point reported it */
+export interface IOcppTransactionDocument extends Document {
+  /** Integer id the central system issued in StartTransaction.conf */
+  transactionId: number;
+  chargePointId: string;
+  connectorId: number;
+  stationId: string;
+  portId: string;
+  idTag: string;
+  /** Meter register at the start, in Wh */
+  meterStartWh: number;
+  /** Latest register reading, in Wh */
+  lastMeterWh: number;
+  startedAt: Date;
+  stoppedAt?: Date;
+  stopReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const OcppTransactionSchema = new Schema<IOcppTransactionDocument>(
+  {
+    transactionId: { type: Number, required: true, unique: true },
+    chargePointId: { type: String, required: true },
+    connectorId: { type: Number, required: true },
+    stationId: { type: String, required: true },
+    portId: { type: String, required: true },
+    idTag: { type: String, required: true },
+    meterStartWh: { type: Number, required: true },
+    lastMeterWh: { type: Number, required: true },
+    startedAt: { type: Date, required: true },
+    stoppedAt: { type: Date },
+    stopReason: { type: String },
+  },
+  { timestamps: true }
+);
+
+// Open transaction of a connector
+OcppTransactionSchema.index({ chargePointId: 1, connectorId: 1, stoppedAt: 1 });
+
+const OcppTransaction: Model<IOcppTransactionDocument> =
+  mongoose.models.OcppTransaction ||
+  mongoose.model<IOcppTransactionDocument>("OcppTransaction", OcppTransactionSchema);
+
+export default OcppTransaction;
@@ -0,0 +1,26 @@
+import mongoose, { Schema, Document, Model } from "mongoose";
+
+/** Latest hardware-reported status of a port, for the polling fallback */
+export interface IPortStatusDocument extends Document {
+  stationId: string;
+  portId: string;
+  status: string;
+  updatedAt: Date;
+}
+
+const PortStatusSchema = new Schema<IPortStatusDocument>(
+  {
+    stationId: { type: String, required: true },
+    portId: { type: String, required: true },
+    status: { type: String, required: true },
+  },
+  { timestamps: { createdAt: false, updatedAt: true } }
+);
+
+PortStatusSchema.index({ stationId: 1, portId: 1 }, { unique: true });
+
+const PortStatus: Model<IPortStatusDocument> =
+  mongoose.models.PortStatus ||
+  mongoose.model<IPortStatusDocument>("PortStatus", PortStatusSchema);
+
+export default PortStatus;
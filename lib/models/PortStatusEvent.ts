@@ -0,0 +1,44 @@
+import mongoose, { Schema, Document, Model } from "mongoose";
+
+export const PORT_STATUS_SOURCES = ["hardware", "admin", "booking", "watchdog", "queue"] as const;
+export type PortStatusSource = (typeof PORT_STATUS_SOURCES)[number];
+
+/** One change of a port's status, kept for timelines and uptime reporting */
+export interface IPortStatusEventDocument extends Document {
+  stationId: string;
+  portId: string;
+  /**
+   * What changed the status: a device or charge point, an operator, a
+   * booking, the device watchdog, or a queue turn holding the port
+   */
+  source: PortStatusSource;
+  /** Unset for the first status recorded for a port */
+  previousStatus?: string;
+  status: string;
+  /** Port-update event or booking transition behind the change */
+  event?: string;
+  /** Clerk id of the operator, for admin changes */
+  actorId?: string;
+  at: Date;
+}
+
+const PortStatusEventSchema = new Schema<IPortStatusEventDocument>({
+  stationId: { type: String, required: true },
+  portId: { type: String, required: true },
+  source: { type: String, enum: PORT_STATUS_SOURCES, required: true },
+  previousStatus: { type: String },
+  status: { type: String, required: true },
+  event: { type: String },
+  actorId: { type: String },
+  at: { type: Date, required: true },
+});
+
+PortStatusEventSchema.index({ stationId: 1, portId: 1, at: -1 });
+// Station-wide windows, for uptime and occupancy reports
+PortStatusEventSchema.index({ stationId: 1, at: 1 });
+
+const PortStatusEvent: Model<IPortStatusEventDocument> =
+  mongoose.models.PortStatusEvent ||
+  mongoose.model<IPortStatusEventDocument>("PortStatusEvent", PortStatusEventSchema);
+
+export default PortStatusEvent;
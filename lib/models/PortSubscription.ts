@@ -1,9 +1,28 @@
 import mongoose, { Schema, Document, Model } from "mongoose";
 
+/** Daily window, in Nepal time, during which a subscriber wants alerts */
+export interface PortSubscriptionWindow {
+  /** "HH:mm"; a window ending before it starts runs past midnight */
+  start: string;
+  end: string;
+}
+
 export interface IPortSubscriptionDocument extends Document {
   userId: string;
   stationId: string;
   active: boolean;
+  /** Connector the driver needs; any port fits without one */
+  connectorType?: string;
+  minPowerKw?: number;
+  /** Only this port, by its `_id` (or port number at file-based stations) */
+  portId?: string;
+  window?: PortSubscriptionWindow;
+  /** When the driver (re)subscribed; earlier subscribers are alerted first */
+  subscribedAt: Date;
+  expiresAt: Date;
+  /** The port the subscriber was alerted about */
+  notifiedPortId?: string;
+  notifiedAt?: Date;
   createdAt: Date;
 }
 
@@ -12,11 +31,28 @@ const PortSubscriptionSchema = new Schema<IPortSubscriptionDocument>(
     userId: { type: String, required: true },
     stationId: { type: String, required: true },
     active: { type: Boolean, default: true },
+    connectorType: { type: String },
+    minPowerKw: { type: Number, min: 0 },
+    portId: { type: String },
+    window: {
+      type: new Schema<PortSubscriptionWindow>(
+        {
+          start: { type: String, required: true },
+          end: { type: String, required: true },
+        },
+        { _id: false }
+      ),
+    },
+    subscribedAt: { type: Date, default: Date.now },
+    expiresAt: { type: Date, required: true },
+    notifiedPortId: { type: String },
+    notifiedAt: { type: Date },
   },
   { timestamps: true }
 );
 
-PortSubscriptionSchema.index({ stationId: 1, active: 1 });
+PortSubscriptionSchema.index({ stationId: 1, active: 1, subscribedAt: 1 });
+PortSubscriptionSchema.index({ stationId: 1, notifiedAt: 1 });
 PortSubscriptionSchema.index({ userId: 1, stationId: 1 }, { unique: true });
 
 const PortSubscription: Model<IPortSubscriptionDocument> =
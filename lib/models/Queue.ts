@@ -6,6 +6,11 @@ export interface IQueueDocument extends Document {
   stationId: string;
   position: number;
   status: "waiting" | "notified" | "expired" | "completed";
+  /** Connector the driver needs; any port fits without one */
+  connectorType?: string;
+  minPowerKw?: number;
+  /** Port offered to the driver when their turn came */
+  portId?: string;
   notifiedAt?: Date;
   expiresAt?: Date;
   joinedAt: Date;
@@ -24,6 +29,9 @@ const QueueSchema = new Schema<IQueueDocument>(
       default: "waiting",
       index: true,
     },
+    connectorType: { type: String },
+    minPowerKw: { type: Number, min: 0 },
+    portId: { type: String },
     notifiedAt: { type: Date },
     expiresAt: { type: Date },
     joinedAt: { type: Date, default: Date.now },
@@ -0,0 +1,33 @@
+import mongoose, { Schema, Document, Model } from "mongoose";
+import type { RealtimeEvent } from "@/lib/realtime/types";
+
+/** Event relayed between app instances by the MongoDB realtime backend */
+export interface IRealtimeEventDocument extends Document {
+  /** Bus-wide increasing id, sent to SSE clients as the event id */
+  seq: number;
+  type: RealtimeEvent["type"];
+  /** Replay streams the event belongs to */
+  streams: string[];
+  event: RealtimeEvent;
+  createdAt: Date;
+}
+
+const RealtimeEventSchema = new Schema<IRealtimeEventDocument>(
+  {
+    seq: { type: Number, required: true, unique: true },
+    type: { type: String, required: true },
+    streams: [{ type: String }],
+    event: { type: Schema.Types.Mixed, required: true },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+RealtimeEventSchema.index({ streams: 1, seq: -1 });
+// Kept for an hour for change streams and reconnecting clients
+RealtimeEventSchema.index({ createdAt: 1 }, { expireAfterSeconds: 3600 });
+
+const RealtimeEventModel: Model<IRealtimeEventDocument> =
+  mongoose.models.RealtimeEvent ||
+  mongoose.model<IRealtimeEventDocument>("RealtimeEvent", RealtimeEventSchema);
+
+export default RealtimeEventModel;
@@ -0,0 +1,67 @@
+import mongoose, { Schema, Document, Model } from "mongoose";
+
+export type RefundStatus =
+  | "pending"
+  /** Claimed by a caller that is sending it to the provider */
+  | "processing"
+  | "completed"
+  | "failed"
+  | "manual"
+  | "not_eligible";
+
+export interface IRefundDocument extends Document {
+  bookingId: mongoose.Types.ObjectId;
+  userId: string;
+  stationId: string;
+  provider: "khalti" | "esewa";
+  reason: "user_cancelled" | "admin_cancelled" | "no_show" | "usage_adjustment";
+  paidAmount: number;
+  amount: number;
+  percent: number;
+  status: RefundStatus;
+  attempts: number;
+  lastError?: string;
+  providerReference?: string;
+  processedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const RefundSchema = new Schema<IRefundDocument>(
+  {
+    bookingId: {
+      type: Schema.Types.ObjectId,
+      ref: "Booking",
+      required: true,
+      unique: true,
+    },
+    userId: { type: String, required: true, index: true },
+    stationId: { type: String, required: true, index: true },
+    provider: { type: String, enum: ["khalti", "esewa"], default: "khalti" },
+    reason: {
+      type: String,
+      enum: ["user_cancelled", "admin_cancelled", "no_show", "usage_adjustment"],
+      required: true,
+    },
+    paidAmount: { type: Number, required: true },
+    amount: { type: Number, required: true },
+    percent: { type: Number, required: true },
+    status: {
+      type: String,
+      enum: ["pending", "processing", "completed", "failed", "manual", "not_eligible"],
+      default: "pending",
+      index: true,
+    },
+    attempts: { type: Number, default: 0 },
+    lastError: { type: String },
+    providerReference: { type: String },
+    processedAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+const Refund: Model<IRefundDocument> =
+  mongoose.models.Refund ||
+  mongoose.model<IRefundDocument>("Refund", RefundSchema);
+
+export default Refund;
@@ -1,4 +1,7 @@
 import mongoose, { Schema, Document, Model } from "mongoose";
+import { PAYMENT_METHODS, type PaymentMethod } from "@/lib/models/Booking";
+import { BILLING_MODES, type BillingMode } from "@/lib/tariff";
+import type { PricingRules } from "@/lib/pricing";
 
 export interface IChargingPort {
   _id?: mongoose.Types.ObjectId;
@@ -6,8 +9,11 @@ export interface IChargingPort {
   connectorType: string;
   powerOutput: string;
   chargerType: string;
-  status: "available" | "occupied" | "maintenance" | "reserved";
+  /** "offline" is only ever set by the device watchdog */
+  status: "available" | "occupied" | "maintenance" | "reserved" | "offline";
   currentBookingId?: mongoose.Types.ObjectId;
+  /** Queue entry whose turn the port is reserved for, with no booking yet */
+  heldForQueueEntryId?: mongoose.Types.ObjectId;
 }
 
 export interface IStationDocument extends Document {
@@ -28,10 +34,21 @@ export interface IStationDocument extends Document {
     open: string;
     close: string;
   };
+  /** Holidays and temporary closures; no endsAt means closed until reopened */
+  closures: { startsAt: Date; endsAt?: Date; reason?: string }[];
   chargingPorts: IChargingPort[];
   pricing: {
     perHour: number;
+    billingMode: BillingMode;
+    perKwh: number;
+    perMinute: number;
   };
+  pricingRules: PricingRules;
+  cancellationPolicy: {
+    fullRefundHoursBefore: number;
+    partialRefundPercent: number;
+  };
+  paymentMethods: PaymentMethod[];
   amenities: string[];
   photos: string[];
   rating: number;
@@ -48,12 +65,44 @@ const ChargingPortSchema = new Schema<IChargingPort>({
   chargerType: { type: String, default: "" },
   status: {
     type: String,
-    enum: ["available", "occupied", "maintenance", "reserved"],
+    enum: ["available", "occupied", "maintenance", "reserved", "offline"],
     default: "available",
   },
   currentBookingId: { type: Schema.Types.ObjectId, ref: "Booking" },
+  heldForQueueEntryId: { type: Schema.Types.ObjectId, ref: "Queue" },
 });
 
+const TimeOfUseWindowSchema = new Schema(
+  {
+    label: { type: String, default: "Peak" },
+    days: [{ type: Number, min: 0, max: 6 }],
+    start: { type: String, required: true },
+    end: { type: String, required: true },
+    multiplier: { type: Number, default: 1, min: 0 },
+  },
+  { _id: false }
+);
+
+const PromoCodeSchema = new Schema(
+  {
+    code: { type: String, required: true, uppercase: true, trim: true },
+    percentOff: { type: Number, required: true, min: 0, max: 100 },
+    validFrom: { type: Date },
+    validUntil: { type: Date },
+    active: { type: Boolean, default: true },
+  },
+  { _id: false }
+);
+
+const ClosureSchema = new Schema(
+  {
+    startsAt: { type: Date, required: true },
+    endsAt: { type: Date },
+    reason: { type: String, default: "" },
+  },
+  { _id: false }
+);
+
 const StationSchema = new Schema<IStationDocument>(
   {
     name: { type: String, required: true },
@@ -73,9 +122,37 @@ const StationSchema = new Schema<IStationDocument>(
       open: { type: String, default: "00:00" },
       close: { type: String, default: "23:59" },
     },
+    closures: { type: [ClosureSchema], default: [] },
     chargingPorts: [ChargingPortSchema],
     pricing: {
       perHour: { type: Number, default: 0 },
+      billingMode: { type: String, enum: BILLING_MODES, default: "hourly" },
+      perKwh: { type: Number, default: 0, min: 0 },
+      perMinute: { type: Number, default: 0, min: 0 },
+    },
+    pricingRules: {
+      timeOfUse: { type: [TimeOfUseWindowSchema], default: [] },
+      weekend: {
+        days: { type: [Number], default: [6] },
+        multiplier: { type: Number, default: 1, min: 0 },
+      },
+      portMultipliers: {
+        ac: { type: Number, default: 1, min: 0 },
+        dc: { type: Number, default: 1, min: 0 },
+      },
+      idleFee: {
+        perMinute: { type: Number, default: 0, min: 0 },
+        graceMinutes: { type: Number, default: 10, min: 0 },
+      },
+      promos: { type: [PromoCodeSchema], default: [] },
+    },
+    cancellationPolicy: {
+      fullRefundHoursBefore: { type: Number, default: 2, min: 0 },
+      partialRefundPercent: { type: Number, default: 50, min: 0, max: 100 },
+    },
+    paymentMethods: {
+      type: [{ type: String, enum: PAYMENT_METHODS }],
+      default: ["khalti"],
     },
     amenities: [{ type: String }],
     photos: [{ type: String }],
@@ -1,4 +1,6 @@
 import mongoose, { Schema, Document, Model } from "mongoose";
+import { NOTIFICATION_CHANNELS } from "@/lib/models/NotificationDelivery";
+import type { NotificationPreferences } from "@/lib/notifications/preferences";
 
 export interface IUserDocument extends Document {
   clerkId: string;
@@ -13,6 +15,8 @@ export interface IUserDocument extends Document {
     connectorType: string;
   };
   favoriteStations: mongoose.Types.ObjectId[];
+  /** Channel choices per notification type and quiet hours (lib/notifications/preferences) */
+  notificationPreferences?: NotificationPreferences;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -35,6 +39,21 @@ const UserSchema = new Schema<IUserDocument>(
       connectorType: String,
     },
     favoriteStations: [{ type: Schema.Types.ObjectId, ref: "Station" }],
+    notificationPreferences: {
+      channels: [
+        {
+          _id: false,
+          type: { type: String, required: true },
+          channel: { type: String, enum: NOTIFICATION_CHANNELS, required: true },
+          enabled: { type: Boolean, required: true },
+        },
+      ],
+      quietHours: {
+        enabled: { type: Boolean },
+        start: { type: String },
+        end: { type: String },
+      },
+    },
   },
   { timestamps: true }
 );
@@ -0,0 +1,42 @@
+import mongoose, { Schema, Document, Model } from "mongoose";
+
+/** A browser's Web Push subscription, one per device a user enabled push on */
+export interface IWebPushSubscriptionDocument extends Document {
+  userId: string;
+  /** Push service URL; unique per browser subscription */
+  endpoint: string;
+  keys: {
+    p256dh: string;
+    auth: string;
+  };
+  /** When the push service will drop the subscription, if it said */
+  expiresAt?: Date;
+  userAgent?: string;
+  lastPushedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WebPushSubscriptionSchema = new Schema<IWebPushSubscriptionDocument>(
+  {
+    userId: { type: String, required: true, index: true },
+    endpoint: { type: String, required: true, unique: true },
+    keys: {
+      p256dh: { type: String, required: true },
+      auth: { type: String, required: true },
+    },
+    expiresAt: { type: Date },
+    userAgent: { type: String },
+    lastPushedAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+const WebPushSubscription: Model<IWebPushSubscriptionDocument> =
+  mongoose.models.WebPushSubscription ||
+  mongoose.model<IWebPushSubscriptionDocument>(
+    "WebPushSubscription",
+    WebPushSubscriptionSchema
+  );
+
+export default WebPushSubscription;
@@ -0,0 +1,229 @@
+/**
+ * Notification dispatcher.
+ *
+ * `notify` takes a typed event, renders it once per channel from its
+ * template and routes it to the channels the user gets that notification
+ * type on (see ./preferences): an in-app `Notification` plus a realtime
+ * event, an email, an SMS. Every send is written to the
+ * `NotificationDelivery` log first, so a failed one is retried with backoff
+ * by the `retry-notifications` job, which also sends what quiet hours held
+ * back. A channel that can't reach the user (no email or phone on file, or
+ * no provider configured for it) is logged as skipped.
+ */
+
+import dbConnect from "@/lib/db";
+import Notification from "@/lib/models/Notification";
+import NotificationDelivery, {
+  type IDeliveryContent,
+  type INotificationDeliveryDocument,
+} from "@/lib/models/NotificationDelivery";
+import User from "@/lib/models/User";
+import { broadcastNotification } from "@/lib/realtime";
+import {
+  NOTIFICATION_MAX_ATTEMPTS,
+  NOTIFICATION_RETRY_BACKOFF_MS,
+} from "@/lib/constants";
+import { renderNotification } from "./templates";
+import {
+  getEmailTransport,
+  getSmsTransport,
+  hasEmailTransport,
+  hasSmsTransport,
+} from "./transports";
+import { channelsFor, deferUntil } from "./preferences";
+import type {
+  NotificationChannel,
+  NotificationEvent,
+  RenderedNotification,
+} from "./types";
+
+export type * from "./types";
+export { getCapturedMessages, clearCapturedMessages } from "./transports";
+export * from "./preferences";
+
+const RETRY_BATCH_SIZE = 50;
+
+interface NotifyOptions {
+  /** Only consider these channels, still subject to the user's preferences */
+  channels?: NotificationChannel[];
+  now?: Date;
+}
+
+function channelContent(
+  rendered: RenderedNotification,
+  channel: NotificationChannel
+): IDeliveryContent {
+  const { email, sms, ...inApp } = rendered;
+  switch (channel) {
+    case "in_app":
+      return inApp;
+    case "email":
+      return { ...inApp, ...email };
+    case "sms":
+      return { ...inApp, text: sms };
+  }
+}
+
+/** Send a delivery over its channel, returning the id to log against it */
+async function send(delivery: INotificationDeliveryDocument): Promise<string | undefined> {
+  const { content } = delivery;
+  switch (delivery.channel) {
+    case "in_app": {
+      // A retry after the broadcast failed mustn't create a second notification
+      let notificationId = delivery.providerId;
+      if (!notificationId) {
+        const notification = await Notification.create({
+          userId: delivery.userId,
+          type: content.notificationType,
+          title: content.title,
+          message: content.message,
+          stationId: content.stationId,
+          stationName: content.stationName,
+          portId: content.portId,
+          actionUrl: content.actionUrl,
+        });
+        notificationId = notification._id.toString();
+        delivery.providerId = notificationId;
+      }
+
+      await broadcastNotification({
+        userId: delivery.userId,
+        notification: {
+          _id: notificationId,
+          title: content.title,
+          message: content.message,
+          notificationType: content.notificationType,
+          stationId: content.stationId,
+          actionUrl: content.actionUrl,
+        },
+      });
+      return notificationId;
+    }
+    case "email":
+      return requireTransport(getEmailTransport(), "email").send({
+        to: delivery.to!,
+        subject: content.subject ?? content.title,
+        html: content.html ?? content.message,
+        text: content.text ?? content.message,
+        idempotencyKey: delivery._id.toString(),
+      });
+    case "sms":
+      return requireTransport(getSmsTransport(), "SMS").send({
+        to: delivery.to!,
+        text: content.text ?? content.message,
+      });
+  }
+}
+
+function requireTransport<T>(transport: T | null, label: string): T {
+  if (!transport) throw new Error(`No ${label} provider configured`);
+  return transport;
+}
+
+/** Why a channel can't reach the user, if it can't */
+function unreachableReason(channel: NotificationChannel, to: string | undefined): string | null {
+  switch (channel) {
+    case "in_app":
+      return null;
+    case "email":
+      if (!to) return "No email address on file";
+      return hasEmailTransport() ? null : "No email provider configured";
+    case "sms":
+      if (!to) return "No phone number on file";
+      return hasSmsTransport() ? null : "No SMS provider configured";
+  }
+}
+
+/** Try a delivery once, scheduling the next attempt if it fails */
+async function attempt(
+  delivery: INotificationDeliveryDocument,
+  now: Date
+): Promise<INotificationDeliveryDocument> {
+  try {
+    delivery.providerId = await send(delivery);
+    delivery.status = "sent";
+    delivery.sentAt = now;
+    delivery.lastError = undefined;
+    delivery.nextAttemptAt = undefined;
+  } catch (error) {
+    delivery.status = "failed";
+    delivery.lastError = error instanceof Error ? error.message : String(error);
+    delivery.nextAttemptAt = new Date(
+      now.getTime() + NOTIFICATION_RETRY_BACKOFF_MS * 2 ** delivery.attempts
+    );
+    console.error(
+      `Notification delivery ${delivery._id} (${delivery.channel}) failed:`,
+      delivery.lastError
+    );
+  }
+
+  delivery.attempts += 1;
+  await delivery.save();
+  return delivery;
+}
+
+/** Notify a user of an event on each of its channels */
+export async function notify(
+  event: NotificationEvent,
+  options: NotifyOptions = {}
+): Promise<INotificationDeliveryDocument[]> {
+  await dbConnect();
+  const now = options.now ?? new Date();
+  const rendered = renderNotification(event);
+  const type = rendered.notificationType;
+
+  const recipient = await User.findOne({ clerkId: event.userId })
+    .select("email phone notificationPreferences")
+    .lean();
+  const preferences = recipient?.notificationPreferences;
+  const addresses: Record<NotificationChannel, string | undefined> = {
+    in_app: undefined,
+    email: recipient?.email || undefined,
+    sms: recipient?.phone || undefined,
+  };
+
+  const deliveries: INotificationDeliveryDocument[] = [];
+  for (const channel of channelsFor(type, preferences, options.channels)) {
+    const to = addresses[channel];
+    const unreachable = unreachableReason(channel, to);
+    const quietUntil = unreachable ? null : deferUntil(type, channel, preferences, now);
+    const delivery = await NotificationDelivery.create({
+      userId: event.userId,
+      event: event.type,
+      channel,
+      to,
+      content: channelContent(rendered, channel),
+      status: unreachable ? "skipped" : "pending",
+      lastError: unreachable ?? undefined,
+      nextAttemptAt: quietUntil ?? undefined,
+    });
+    deliveries.push(unreachable || quietUntil ? delivery : await attempt(delivery, now));
+  }
+  return deliveries;
+}
+
+/**
+ * Scheduled job: retry failed deliveries whose backoff has passed and send
+ * the ones held back for quiet hours that have ended
+ */
+export async function retryNotificationDeliveries(
+  now: Date = new Date()
+): Promise<{ retried: number; sent: number }> {
+  await dbConnect();
+
+  const due = await NotificationDelivery.find({
+    status: { $in: ["pending", "failed"] },
+    attempts: { $lt: NOTIFICATION_MAX_ATTEMPTS },
+    nextAttemptAt: { $lte: now },
+  })
+    .sort({ nextAttemptAt: 1 })
+    .limit(RETRY_BATCH_SIZE);
+
+  let sent = 0;
+  for (const delivery of due) {
+    const result = await attempt(delivery, now);
+    if (result.status === "sent") sent++;
+  }
+
+  return { retried: due.length, sent };
+}
@@ -0,0 +1,176 @@
+/**
+ * Notification preferences: which channels each notification type goes out
+ * on, and quiet hours (a daily "HH:mm" window in Nepal time, which may run
+ * past midnight) during which non-urgent email and SMS wait until the window
+ * ends. In-app notifications are never held back. Pure so the profile page
+ * shows the same defaults the dispatcher applies.
+ */
+
+import { MINUTES_PER_DAY, MS_PER_MINUTE } from "@/lib/constants";
+import { parseTimeOfDay, toNepalClock } from "@/lib/utils";
+import type { NotificationChannel, NotificationType } from "./types";
+
+export const PREFERENCE_CHANNELS: NotificationChannel[] = ["in_app", "email", "sms"];
+
+/** Channels a type goes out on for users who haven't chosen */
+export const DEFAULT_CHANNELS: Record<NotificationType, NotificationChannel[]> = {
+  booking_confirmed: ["in_app", "email", "sms"],
+  booking_reminder: ["in_app", "sms"],
+  queue_turn: ["in_app", "sms"],
+  queue_update: ["in_app"],
+  port_available: ["in_app"],
+  charging_complete: ["in_app", "sms"],
+  refund_issued: ["in_app", "email"],
+  device_offline: ["in_app", "email"],
+  general: ["in_app"],
+};
+
+/** Types that can't wait for quiet hours to end */
+export const URGENT_TYPES: NotificationType[] = [
+  "booking_reminder",
+  "queue_turn",
+  "port_available",
+  "charging_complete",
+  "device_offline",
+];
+
+export interface ChannelPreference {
+  type: NotificationType;
+  channel: NotificationChannel;
+  enabled: boolean;
+}
+
+export interface QuietHours {
+  enabled: boolean;
+  /** "HH:mm" Nepal time */
+  start: string;
+  end: string;
+}
+
+export interface NotificationPreferences {
+  /** Choices that differ from DEFAULT_CHANNELS; anything unlisted keeps the default */
+  channels: ChannelPreference[];
+  quietHours?: QuietHours;
+}
+
+export const DEFAULT_QUIET_HOURS: QuietHours = { enabled: false, start: "22:00", end: "07:00" };
+
+export class NotificationPreferencesError extends Error {
+  constructor(
+    message: string,
+    public readonly httpStatus: number = 400
+  ) {
+    super(message);
+    this.name = "NotificationPreferencesError";
+  }
+}
+
+export function isNotificationType(value: unknown): value is NotificationType {
+  return typeof value === "string" && Object.hasOwn(DEFAULT_CHANNELS, value);
+}
+
+export function isChannelEnabled(
+  type: NotificationType,
+  channel: NotificationChannel,
+  preferences?: NotificationPreferences | null
+): boolean {
+  const choice = preferences?.channels?.find(
+    (p) => p.type === type && p.channel === channel
+  );
+  return choice ? choice.enabled : DEFAULT_CHANNELS[type].includes(channel);
+}
+
+/** Channels a user gets a type on, out of the given candidates */
+export function channelsFor(
+  type: NotificationType,
+  preferences?: NotificationPreferences | null,
+  candidates: NotificationChannel[] = PREFERENCE_CHANNELS
+): NotificationChannel[] {
+  return candidates.filter((channel) => isChannelEnabled(type, channel, preferences));
+}
+
+/** End of the quiet hours `now` falls in, or null outside them */
+export function quietHoursEnd(
+  preferences: NotificationPreferences | null | undefined,
+  now: Date
+): Date | null {
+  const quiet = preferences?.quietHours;
+  if (!quiet?.enabled) return null;
+
+  const start = parseTimeOfDay(quiet.start);
+  const end = parseTimeOfDay(quiet.end);
+  if (Number.isNaN(start) || Number.isNaN(end) || start === end) return null;
+
+  const { minutes } = toNepalClock(now);
+  const inside = start < end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+  if (!inside) return null;
+
+  const untilEnd = (end - minutes + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const endAt = new Date(now.getTime() + untilEnd * MS_PER_MINUTE);
+  endAt.setUTCSeconds(0, 0);
+  return endAt;
+}
+
+/** Whether a delivery should wait for quiet hours to end, and until when */
+export function deferUntil(
+  type: NotificationType,
+  channel: NotificationChannel,
+  preferences: NotificationPreferences | null | undefined,
+  now: Date
+): Date | null {
+  if (channel === "in_app" || URGENT_TYPES.includes(type)) return null;
+  return quietHoursEnd(preferences, now);
+}
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Validate preferences sent by the profile page. Choices that match the
+ * defaults are dropped so later changes to the defaults still reach them.
+ *
+ * @throws NotificationPreferencesError when a field is malformed
+ */
+export function parseNotificationPreferences(input: unknown): NotificationPreferences {
+  if (!input || typeof input !== "object") {
+    throw new NotificationPreferencesError("notificationPreferences must be an object");
+  }
+  const { channels = [], quietHours } = input as Record<string, unknown>;
+  if (!Array.isArray(channels)) {
+    throw new NotificationPreferencesError("notificationPreferences.channels must be an array");
+  }
+
+  const choices = new Map<string, ChannelPreference>();
+  for (const choice of channels) {
+    const { type, channel, enabled } = (choice ?? {}) as Record<string, unknown>;
+    if (!isNotificationType(type)) {
+      throw new NotificationPreferencesError(`Unknown notification type "${type}"`);
+    }
+    if (!PREFERENCE_CHANNELS.includes(channel as NotificationChannel)) {
+      throw new NotificationPreferencesError(`Unknown notification channel "${channel}"`);
+    }
+    if (typeof enabled !== "boolean") {
+      throw new NotificationPreferencesError("Each channel choice needs a boolean \"enabled\"");
+    }
+    if (DEFAULT_CHANNELS[type].includes(channel as NotificationChannel) !== enabled) {
+      choices.set(`${type}:${channel}`, { type, channel: channel as NotificationChannel, enabled });
+    }
+  }
+
+  const preferences: NotificationPreferences = { channels: [...choices.values()] };
+  if (quietHours !== undefined) {
+    const { enabled, start, end } = (quietHours ?? {}) as Record<string, unknown>;
+    if (typeof enabled !== "boolean") {
+      throw new NotificationPreferencesError("quietHours.enabled must be a boolean");
+    }
+    if (typeof start !== "string" || !TIME_OF_DAY.test(start) || typeof end !== "string" || !TIME_OF_DAY.test(end)) {
+      throw new NotificationPreferencesError("Quiet hours need a start and end as HH:mm");
+    }
+    if (enabled && start === end) {
+      throw new NotificationPreferencesError("Quiet hours must start and end at different times");
+    }
+    preferences.quietHours = { enabled, start, end };
+  }
+  return preferences;
+}
@@ -0,0 +1,186 @@
+/**
+ * Notification templates. Each event renders a title, message and link for
+ * the in-app notification; the email and SMS bodies are built from those
+ * unless the event has its own.
+ */
+
+import { formatDuration, formatNepalTime, formatPrice, toNepalDate } from "@/lib/utils";
+import type {
+  NotificationEvent,
+  NotificationType,
+  RenderedNotification,
+} from "./types";
+
+interface Content {
+  notificationType: NotificationType;
+  title: string;
+  message: string;
+  actionUrl?: string;
+  stationId?: string;
+  stationName?: string;
+  portId?: string;
+  /** Shorter SMS body; defaults to the message */
+  sms?: string;
+}
+
+function appUrl(path = ""): string {
+  const origin = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+  return `${origin}${path}`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function content(event: NotificationEvent): Content {
+  switch (event.type) {
+    case "booking_confirmed": {
+      const when = `${toNepalDate(event.startTime)} ${formatNepalTime(event.startTime)}–${formatNepalTime(event.endTime)}`;
+      const port = event.portNumber ? `Port ${event.portNumber}` : "Your port";
+      return {
+        notificationType: "booking_confirmed",
+        title: "Booking confirmed ✅",
+        message: `${port} at ${event.stationName} is reserved for you on ${when}.`,
+        actionUrl: `/booking/confirmation/${event.bookingId}`,
+        stationId: event.stationId,
+        stationName: event.stationName,
+        sms: `Urja Station: booking confirmed at ${event.stationName}, ${when}.`,
+      };
+    }
+    case "booking_reminder": {
+      const base = {
+        notificationType: "booking_reminder" as const,
+        actionUrl: `/booking/confirmation/${event.bookingId}`,
+        stationId: event.stationId,
+        stationName: event.stationName,
+      };
+      switch (event.kind) {
+        case "starts_soon":
+          return {
+            ...base,
+            title: "Upcoming booking ⏰",
+            message: `Your charging slot at ${event.stationName} starts at ${formatNepalTime(event.startTime)}.`,
+          };
+        case "leave_now":
+          return {
+            ...base,
+            title: "Time to leave 🚗",
+            message: `It's about ${formatDuration(event.etaMinutes ?? 0)} to ${event.stationName}. Leave now to make your ${formatNepalTime(event.startTime)} slot.`,
+          };
+        case "ending_soon":
+          return {
+            ...base,
+            title: "Session ends soon",
+            message: `Your session at ${event.stationName} ends at ${formatNepalTime(event.endTime)}. Please be ready to unplug so the next driver can charge.`,
+          };
+      }
+    }
+    case "charging_complete": {
+      const details = [
+        event.energyKwh ? `${event.energyKwh.toFixed(1)} kWh` : null,
+        event.durationMinutes ? formatDuration(event.durationMinutes) : null,
+      ].filter(Boolean);
+      return {
+        notificationType: "charging_complete",
+        title: "Charging complete 🔋",
+        message: `Your car has finished charging at ${event.stationName}${
+          details.length ? ` (${details.join(", ")})` : ""
+        }. Please move your car so the next driver can charge.`,
+        actionUrl: "/dashboard/bookings",
+        stationId: event.stationId,
+        stationName: event.stationName,
+        sms: `Urja Station: charging at ${event.stationName} is complete. Please move your car.`,
+      };
+    }
+    case "refund_issued":
+      return {
+        notificationType: "refund_issued",
+        title: "Refund issued",
+        message: `${formatPrice(event.amount)} has been refunded${
+          event.paymentMethod
+            ? ` to your ${event.paymentMethod[0].toUpperCase()}${event.paymentMethod.slice(1)} account`
+            : ""
+        }.`,
+        actionUrl: "/dashboard/bookings",
+      };
+    case "port_available":
+      return {
+        notificationType: "port_available",
+        title: "Port Available! ⚡",
+        message: `${event.portNumber ? `Port ${event.portNumber}` : "A charging port"} is now available at ${event.stationName}. Book now before it's taken!`,
+        actionUrl: `/booking/${event.stationId}`,
+        stationId: event.stationId,
+        stationName: event.stationName,
+        portId: event.portId,
+      };
+    case "queue_turn":
+      return {
+        notificationType: "queue_turn",
+        title: "It's Your Turn! 🎉",
+        message: `${event.portNumber ? `Port ${event.portNumber}` : "A port"} is now available at ${event.stationName}. You have ${event.turnMinutes} minutes to book before your spot expires.`,
+        actionUrl: `/booking/${event.stationId}`,
+        stationId: event.stationId,
+        stationName: event.stationName,
+        portId: event.portId,
+        sms: `Urja Station: it's your turn at ${event.stationName}. Book within ${event.turnMinutes} min: ${appUrl(`/booking/${event.stationId}`)}`,
+      };
+    case "queue_turn_expired":
+      return {
+        notificationType: "queue_update",
+        title: "Your queue turn expired",
+        message: event.penaltyUntil
+          ? `You didn't book in time and have missed several turns recently, so you can't join a queue until ${formatNepalTime(event.penaltyUntil)}.`
+          : "You didn't book in time, so the port went to the next driver. You can join the queue again.",
+        actionUrl: `/stations/${event.stationId}`,
+        stationId: event.stationId,
+        portId: event.portId,
+      };
+    case "device_offline":
+      return {
+        notificationType: "device_offline",
+        title: "Charger offline",
+        message: `Port ${event.portNumber} at ${event.stationName} stopped sending heartbeats${
+          event.lastSeenAt ? ` after ${formatNepalTime(event.lastSeenAt)}` : ""
+        } and is marked offline.`,
+        actionUrl: `/admin/stations/${event.stationId}`,
+        stationId: event.stationId,
+        stationName: event.stationName,
+        portId: event.portId,
+      };
+  }
+}
+
+function emailHtml(title: string, message: string, actionUrl?: string): string {
+  const button = actionUrl
+    ? `<p style="margin:24px 0 0"><a href="${escapeHtml(appUrl(actionUrl))}" style="background:#10b981;color:#fff;padding:10px 18px;border-radius:8px;text-decoration:none;font-weight:600">Open Urja Station</a></p>`
+    : "";
+  return `<!doctype html>
+<html>
+  <body style="margin:0;padding:24px;background:#f8fafc;font-family:system-ui,sans-serif;color:#0f172a">
+    <div style="max-width:480px;margin:0 auto;background:#fff;border-radius:12px;padding:24px">
+      <h1 style="margin:0 0 12px;font-size:18px">${escapeHtml(title)}</h1>
+      <p style="margin:0;font-size:14px;line-height:1.5">${escapeHtml(message)}</p>
+      ${button}
+    </div>
+  </body>
+</html>`;
+}
+
+export function renderNotification(event: NotificationEvent): RenderedNotification {
+  const { sms, ...inApp } = content(event);
+  return {
+    ...inApp,
+    email: {
+      subject: inApp.title,
+      html: emailHtml(inApp.title, inApp.message, inApp.actionUrl),
+      text: inApp.actionUrl
+        ? `${inApp.message}\n\n${appUrl(inApp.actionUrl)}`
+        : inApp.message,
+    },
+    sms: sms ?? `Urja Station: ${inApp.message}`,
+  };
+}
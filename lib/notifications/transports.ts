@@ -0,0 +1,158 @@
+/**
+ * Email and SMS transports.
+ *
+ * `EMAIL_TRANSPORT` picks "resend" (needs `RESEND_API_KEY` and `EMAIL_FROM`)
+ * or "capture"; `SMS_TRANSPORT` picks "sparrow" (Sparrow SMS, needs
+ * `SPARROW_SMS_TOKEN` and `SPARROW_SMS_FROM`) or "capture". Each defaults to
+ * the real provider when its key is set, and otherwise to capture outside
+ * production; in production a channel with no provider has no transport and
+ * its deliveries are skipped. The capture transports keep the latest
+ * CAPTURE_LIMIT messages in memory instead, for tests and local development.
+ */
+
+import { randomUUID } from "crypto";
+import { Resend } from "resend";
+import type { EmailMessage, MessageTransport, SmsMessage } from "./types";
+
+const SPARROW_SMS_URL = "https://api.sparrowsms.com/v2/sms/";
+const CAPTURE_LIMIT = 100;
+
+const globalForTransports = globalThis as unknown as {
+  __capturedEmails: EmailMessage[] | undefined;
+  __capturedSms: SmsMessage[] | undefined;
+};
+
+function captured<T>(key: "__capturedEmails" | "__capturedSms"): T[] {
+  globalForTransports[key] ??= [];
+  return globalForTransports[key] as T[];
+}
+
+/** Messages sent through the capture transports, oldest first */
+export function getCapturedMessages(): { email: EmailMessage[]; sms: SmsMessage[] } {
+  return {
+    email: captured<EmailMessage>("__capturedEmails"),
+    sms: captured<SmsMessage>("__capturedSms"),
+  };
+}
+
+export function clearCapturedMessages(): void {
+  captured("__capturedEmails").length = 0;
+  captured("__capturedSms").length = 0;
+}
+
+function createCaptureTransport<T>(
+  key: "__capturedEmails" | "__capturedSms"
+): MessageTransport<T> {
+  return {
+    name: "capture",
+    async send(message) {
+      const messages = captured<T>(key);
+      messages.push(message);
+      if (messages.length > CAPTURE_LIMIT) messages.shift();
+      return `capture-${randomUUID()}`;
+    },
+  };
+}
+
+function createResendTransport(apiKey: string): MessageTransport<EmailMessage> {
+  const from = process.env.EMAIL_FROM;
+  if (!from) {
+    throw new Error("EMAIL_TRANSPORT=resend needs the EMAIL_FROM environment variable");
+  }
+  const resend = new Resend(apiKey);
+  return {
+    name: "resend",
+    async send({ to, subject, html, text, idempotencyKey }) {
+      const { data, error } = await resend.emails.send(
+        { from, to, subject, html, text },
+        { idempotencyKey }
+      );
+      if (error) throw new Error(`Resend: ${error.message}`);
+      return data.id;
+    },
+  };
+}
+
+function createSparrowTransport(token: string): MessageTransport<SmsMessage> {
+  const from = process.env.SPARROW_SMS_FROM;
+  if (!from) {
+    throw new Error("SMS_TRANSPORT=sparrow needs the SPARROW_SMS_FROM environment variable");
+  }
+  return {
+    name: "sparrow",
+    async send({ to, text }) {
+      const res = await fetch(SPARROW_SMS_URL, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token, from, to, text }),
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(`Sparrow SMS ${res.status}: ${body.response ?? res.statusText}`);
+      }
+      return body.message_id !== undefined ? String(body.message_id) : undefined;
+    },
+  };
+}
+
+/** Capture stands in for a missing provider only outside production */
+function defaultTransport(provider: string, key: string | undefined): string | undefined {
+  if (key) return provider;
+  return process.env.NODE_ENV !== "production" ? "capture" : undefined;
+}
+
+function emailTransportName(): string | undefined {
+  return process.env.EMAIL_TRANSPORT ?? defaultTransport("resend", process.env.RESEND_API_KEY);
+}
+
+function smsTransportName(): string | undefined {
+  return process.env.SMS_TRANSPORT ?? defaultTransport("sparrow", process.env.SPARROW_SMS_TOKEN);
+}
+
+/** Whether emails have a transport to go out through */
+export function hasEmailTransport(): boolean {
+  return emailTransportName() !== undefined;
+}
+
+/** Whether texts have a transport to go out through */
+export function hasSmsTransport(): boolean {
+  return smsTransportName() !== undefined;
+}
+
+/** The email transport, or null when no provider is configured */
+export function getEmailTransport(): MessageTransport<EmailMessage> | null {
+  const apiKey = process.env.RESEND_API_KEY;
+  const transport = emailTransportName();
+  switch (transport) {
+    case undefined:
+      return null;
+    case "resend":
+      if (!apiKey) {
+        throw new Error("EMAIL_TRANSPORT=resend needs the RESEND_API_KEY environment variable");
+      }
+      return createResendTransport(apiKey);
+    case "capture":
+      return createCaptureTransport("__capturedEmails");
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT "${transport}"`);
+  }
+}
+
+/** The SMS transport, or null when no provider is configured */
+export function getSmsTransport(): MessageTransport<SmsMessage> | null {
+  const token = process.env.SPARROW_SMS_TOKEN;
+  const transport = smsTransportName();
+  switch (transport) {
+    case undefined:
+      return null;
+    case "sparrow":
+      if (!token) {
+        throw new Error("SMS_TRANSPORT=sparrow needs the SPARROW_SMS_TOKEN environment variable");
+      }
+      return createSparrowTransport(token);
+    case "capture":
+      return createCaptureTransport("__capturedSms");
+    default:
+      throw new Error(`Unknown SMS_TRANSPORT "${transport}"`);
+  }
+}
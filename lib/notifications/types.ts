@@ -0,0 +1,108 @@
+import type { INotificationDocument } from "@/lib/models/Notification";
+import type { NotificationChannel } from "@/lib/models/NotificationDelivery";
+
+export type { NotificationChannel };
+export type NotificationType = INotificationDocument["type"];
+
+interface StationRef {
+  stationId: string;
+  stationName: string;
+}
+
+/** Events the app notifies users about, each with what its templates need */
+export type NotificationEvent =
+  | ({
+      type: "booking_confirmed";
+      userId: string;
+      bookingId: string;
+      portNumber?: string;
+      startTime: Date;
+      endTime: Date;
+    } & StationRef)
+  | ({
+      type: "booking_reminder";
+      userId: string;
+      bookingId: string;
+      kind: "starts_soon" | "leave_now" | "ending_soon";
+      startTime: Date;
+      endTime: Date;
+      /** Driving time to the station, for "leave now" nudges */
+      etaMinutes?: number;
+    } & StationRef)
+  | ({
+      type: "charging_complete";
+      userId: string;
+      bookingId: string;
+      energyKwh?: number;
+      durationMinutes?: number;
+    } & StationRef)
+  | {
+      type: "refund_issued";
+      userId: string;
+      bookingId: string;
+      amount: number;
+      paymentMethod?: string;
+    }
+  | ({
+      type: "port_available";
+      userId: string;
+      portId: string;
+      portNumber?: string;
+    } & StationRef)
+  | ({
+      type: "queue_turn";
+      userId: string;
+      portId: string;
+      portNumber?: string;
+      turnMinutes: number;
+    } & StationRef)
+  | {
+      type: "queue_turn_expired";
+      userId: string;
+      stationId: string;
+      portId?: string;
+      /** Set when the driver has missed too many turns to queue again yet */
+      penaltyUntil?: Date | null;
+    }
+  | ({
+      type: "device_offline";
+      userId: string;
+      portId: string;
+      portNumber: string;
+      lastSeenAt?: Date;
+    } & StationRef);
+
+export type NotificationEventType = NotificationEvent["type"];
+
+/** A notification rendered for every channel */
+export interface RenderedNotification {
+  notificationType: NotificationType;
+  title: string;
+  message: string;
+  actionUrl?: string;
+  stationId?: string;
+  stationName?: string;
+  portId?: string;
+  email: { subject: string; html: string; text: string };
+  sms: string;
+}
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  /** Sent as the provider's idempotency key so a retried send isn't duplicated */
+  idempotencyKey?: string;
+}
+
+export interface SmsMessage {
+  to: string;
+  text: string;
+}
+
+/** Sends a message and returns the provider's message id, throwing on failure */
+export interface MessageTransport<T> {
+  name: string;
+  send(message: T): Promise<string | undefined>;
+}
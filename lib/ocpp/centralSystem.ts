@@ -0,0 +1,324 @@
+/**
+ * OCPP 1.6-J central system. Runs inside the custom server (server.ts), next
+ * to the realtime gateway: charge points connect to `<path>/<chargePointId>`
+ * with the "ocpp1.6" subprotocol and HTTP Basic auth (their id and password,
+ * OCPP security profile 1).
+ *
+ * Calls from a charge point are not handled here: each one is forwarded to
+ * POST /api/ocpp/[chargePointId], signed with the charge point's password,
+ * and the app's answer goes back as the CALLRESULT or CALLERROR. Remote
+ * commands arrive over the realtime bus, so whichever instance holds a charge
+ * point's connection can run them.
+ */
+
+import type { IncomingMessage } from "http";
+import type { Duplex } from "stream";
+import { createHash, randomUUID, timingSafeEqual } from "crypto";
+import { WebSocketServer, type WebSocket } from "ws";
+import dbConnect from "@/lib/db";
+import ChargePoint from "@/lib/models/ChargePoint";
+import { signRequestHeaders } from "@/lib/hardwareSignature";
+import { getRealtimeBus, type OcppCommandResultEvent } from "@/lib/realtime";
+import { OCPP_CALL_TIMEOUT_MS, SOCKET_PING_INTERVAL_MS } from "@/lib/constants";
+import {
+  CALL,
+  CALL_ERROR,
+  CALL_RESULT,
+  OCPP_SUBPROTOCOL,
+  OcppError,
+  isChargePointAction,
+  parseFrame,
+  type ForwardedCallResponse,
+  type OcppCall,
+  type OcppFrame,
+  type RemoteCommand,
+} from "./protocol";
+
+export interface OcppCentralSystemOptions {
+  /** Path prefix charge points connect under */
+  path: string;
+  /** Base URL of the Next.js app, for forwarding calls */
+  appUrl: string;
+}
+
+export interface OcppCentralSystem {
+  /** Take over an upgrade request; false if it's for some other path */
+  handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer): boolean;
+  close(): void;
+}
+
+interface PendingCall {
+  resolve: (payload: Record<string, unknown>) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+interface Connection {
+  chargePointId: string;
+  /** Signs the calls forwarded to the app */
+  password: string;
+  socket: WebSocket;
+  /** Our calls awaiting the charge point's answer, by unique id */
+  pending: Map<string, PendingCall>;
+  alive: boolean;
+}
+
+function send(connection: Connection, frame: OcppFrame) {
+  if (connection.socket.readyState === connection.socket.OPEN) {
+    connection.socket.send(JSON.stringify(frame));
+  }
+}
+
+function sendError(connection: Connection, uniqueId: string, error: OcppError) {
+  send(connection, [CALL_ERROR, uniqueId, error.code, error.message, {}]);
+}
+
+function reject(socket: Duplex, status: string, headers: string[] = []) {
+  socket.end([`HTTP/1.1 ${status}`, ...headers, "", ""].join("\r\n"));
+}
+
+/** Credentials from a Basic Authorization header */
+function basicCredentials(req: IncomingMessage): { user: string; password: string } | null {
+  const [scheme, encoded] = (req.headers.authorization ?? "").split(" ");
+  if (scheme?.toLowerCase() !== "basic" || !encoded) return null;
+  const decoded = Buffer.from(encoded, "base64").toString("utf8");
+  const separator = decoded.indexOf(":");
+  if (separator < 0) return null;
+  return { user: decoded.slice(0, separator), password: decoded.slice(separator + 1) };
+}
+
+function passwordsMatch(expected: string, received: string): boolean {
+  // Hashed first so the comparison doesn't leak the password's length
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(expected), digest(received));
+}
+
+/** The charge point's password if the upgrade request authenticates it */
+async function authenticate(
+  req: IncomingMessage,
+  chargePointId: string
+): Promise<string | null> {
+  const credentials = basicCredentials(req);
+  if (!credentials || credentials.user !== chargePointId) return null;
+
+  await dbConnect();
+  const chargePoint = await ChargePoint.findOne({ chargePointId }).select("+password");
+  if (!chargePoint || !passwordsMatch(chargePoint.password, credentials.password)) {
+    return null;
+  }
+  return chargePoint.password;
+}
+
+export function createOcppCentralSystem(
+  options: OcppCentralSystemOptions
+): OcppCentralSystem {
+  const wss = new WebSocketServer({
+    noServer: true,
+    handleProtocols: (protocols) =>
+      protocols.has(OCPP_SUBPROTOCOL) ? OCPP_SUBPROTOCOL : false,
+  });
+  /** Open connections by charge point id */
+  const connections = new Map<string, Connection>();
+
+  async function forwardCall(connection: Connection, [, uniqueId, action, payload]: OcppCall) {
+    if (!isChargePointAction(action)) {
+      sendError(connection, uniqueId, new OcppError("NotImplemented", `${action} is not supported`));
+      return;
+    }
+
+    const body = JSON.stringify({ action, payload });
+    const res = await fetch(
+      new URL(`/api/ocpp/${encodeURIComponent(connection.chargePointId)}`, options.appUrl),
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...signRequestHeaders(connection.password, body),
+        },
+        body,
+      }
+    );
+    const data: ForwardedCallResponse | null = await res.json().catch(() => null);
+
+    if (data && "result" in data) {
+      send(connection, [CALL_RESULT, uniqueId, data.result]);
+    } else {
+      const { code = "InternalError", description = "Call failed" } = data?.error ?? {};
+      sendError(connection, uniqueId, new OcppError(code, description));
+    }
+
+    // The password was rotated or the charge point removed since it connected
+    if (res.status === 401) {
+      connection.socket.close(1008, "Charge point credentials are no longer valid");
+    }
+  }
+
+  function answer(connection: Connection, frame: OcppFrame) {
+    const pending = connection.pending.get(frame[1]);
+    if (!pending) return;
+    connection.pending.delete(frame[1]);
+    clearTimeout(pending.timer);
+
+    if (frame[0] === CALL_RESULT) {
+      pending.resolve(frame[2]);
+    } else if (frame[0] === CALL_ERROR) {
+      pending.reject(new Error(`${frame[2]}: ${frame[3] || "call rejected"}`));
+    }
+  }
+
+  /** Make a call to a charge point and wait for its answer */
+  function call(
+    connection: Connection,
+    { action, payload }: RemoteCommand
+  ): Promise<Record<string, unknown>> {
+    return new Promise((resolve, reject) => {
+      const uniqueId = randomUUID();
+      const timer = setTimeout(() => {
+        connection.pending.delete(uniqueId);
+        reject(new Error("Charge point did not answer"));
+      }, OCPP_CALL_TIMEOUT_MS);
+      connection.pending.set(uniqueId, { resolve, reject, timer });
+      send(connection, [CALL, uniqueId, action, { ...payload }]);
+    });
+  }
+
+  async function publishResult(event: Omit<OcppCommandResultEvent, "type">) {
+    try {
+      await getRealtimeBus().publish({ ...event, type: "ocpp-command-result" });
+    } catch (error) {
+      console.error("Failed to publish OCPP command result:", error);
+    }
+  }
+
+  const stopCommands = getRealtimeBus().subscribe("ocpp-command", (event) => {
+    // Another instance holds the connection, if anyone does
+    const connection = connections.get(event.chargePointId);
+    if (!connection) return;
+
+    const { requestId } = event;
+    call(connection, event).then(
+      (payload) => publishResult({ requestId, ok: true, payload }),
+      (error: Error) => publishResult({ requestId, ok: false, error: error.message })
+    );
+  });
+
+  function open(socket: WebSocket, chargePointId: string, password: string) {
+    const connection: Connection = {
+      chargePointId,
+      password,
+      socket,
+      pending: new Map(),
+      alive: true,
+    };
+
+    // A charge point that reconnects replaces its stale connection
+    const previous = connections.get(chargePointId);
+    connections.set(chargePointId, connection);
+    previous?.socket.terminate();
+
+    const now = new Date();
+    ChargePoint.updateOne(
+      { chargePointId },
+      { $set: { connectedAt: now, lastSeenAt: now } }
+    ).catch((error) => console.error("Failed to record OCPP connection:", error));
+
+    // Calls are handled one at a time, in order; answers to our own calls
+    // are picked up straight away
+    let queue = Promise.resolve();
+
+    socket.on("message", (raw) => {
+      let frame: OcppFrame;
+      try {
+        frame = parseFrame(raw.toString());
+      } catch (error) {
+        sendError(connection, (error as OcppError).uniqueId, error as OcppError);
+        return;
+      }
+
+      if (frame[0] !== CALL) {
+        answer(connection, frame);
+        return;
+      }
+      const callFrame = frame;
+      queue = queue.then(async () => {
+        try {
+          await forwardCall(connection, callFrame);
+        } catch (error) {
+          console.error(`OCPP call from ${chargePointId} failed:`, error);
+          sendError(connection, callFrame[1], new OcppError("InternalError", "Call failed"));
+        }
+      });
+    });
+
+    socket.on("pong", () => {
+      connection.alive = true;
+    });
+
+    socket.on("close", () => {
+      for (const pending of connection.pending.values()) {
+        clearTimeout(pending.timer);
+        pending.reject(new Error("Charge point disconnected"));
+      }
+      connection.pending.clear();
+
+      if (connections.get(chargePointId) !== connection) return;
+      connections.delete(chargePointId);
+      ChargePoint.updateOne({ chargePointId }, { $unset: { connectedAt: 1 } }).catch(
+        (error) => console.error("Failed to record OCPP disconnection:", error)
+      );
+    });
+  }
+
+  const ping = setInterval(() => {
+    for (const connection of connections.values()) {
+      if (!connection.alive) {
+        connection.socket.terminate();
+        continue;
+      }
+      connection.alive = false;
+      connection.socket.ping();
+    }
+  }, SOCKET_PING_INTERVAL_MS);
+
+  return {
+    handleUpgrade(req, socket, head) {
+      const { pathname } = new URL(req.url ?? "/", "http://localhost");
+      const prefix = `${options.path}/`;
+      if (!pathname.startsWith(prefix)) return false;
+
+      const chargePointId = decodeURIComponent(pathname.slice(prefix.length));
+      const protocols = (req.headers["sec-websocket-protocol"] ?? "")
+        .split(",")
+        .map((protocol) => protocol.trim());
+      if (!chargePointId || chargePointId.includes("/")) {
+        reject(socket, "404 Not Found");
+        return true;
+      }
+      if (!protocols.includes(OCPP_SUBPROTOCOL)) {
+        reject(socket, "400 Bad Request");
+        return true;
+      }
+
+      authenticate(req, chargePointId).then(
+        (password) => {
+          if (!password) {
+            reject(socket, "401 Unauthorized", ['WWW-Authenticate: Basic realm="OCPP"']);
+            return;
+          }
+          wss.handleUpgrade(req, socket, head, (ws) => open(ws, chargePointId, password));
+        },
+        (error) => {
+          console.error("OCPP authentication failed:", error);
+          reject(socket, "500 Internal Server Error");
+        }
+      );
+      return true;
+    },
+    close() {
+      clearInterval(ping);
+      stopCommands();
+      for (const connection of connections.values()) connection.socket.terminate();
+      wss.close();
+    },
+  };
+}
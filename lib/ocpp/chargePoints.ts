@@ -0,0 +1,247 @@
+/**
+ * Station operators' side of OCPP charge points: registering them with the
+ * ports their connectors feed, rotating their passwords, removing them and
+ * starting or stopping charging remotely. Like device secrets, a password is
+ * only ever returned when it is issued.
+ */
+
+import { randomBytes, randomUUID } from "crypto";
+import mongoose from "mongoose";
+import Station from "@/lib/models/Station";
+import HardwareDevice from "@/lib/models/HardwareDevice";
+import ChargePoint, { type IChargePointDocument } from "@/lib/models/ChargePoint";
+import OcppTransaction from "@/lib/models/OcppTransaction";
+import type { IUserDocument } from "@/lib/models/User";
+import { canOperate } from "@/lib/stationOperators";
+import { getRealtimeBus } from "@/lib/realtime";
+import { OCPP_CALL_TIMEOUT_MS, OCPP_REMOTE_ID_TAG } from "@/lib/constants";
+import type { RemoteCommand, RemoteTransactionResponse } from "./protocol";
+
+// Printable and URL-safe, as OCPP identities must be
+const CHARGE_POINT_ID_PATTERN = /^[A-Za-z0-9._-]{1,48}$/;
+// Time for the instance holding the connection to get the charge point's answer back
+const COMMAND_RESULT_GRACE_MS = 5_000;
+
+export class ChargePointError extends Error {
+  constructor(
+    message: string,
+    public readonly httpStatus: number = 400
+  ) {
+    super(message);
+    this.name = "ChargePointError";
+  }
+}
+
+export interface IssuedChargePoint {
+  chargePoint: IChargePointDocument;
+  /** Only available here; the charge point must be configured with it */
+  password: string;
+}
+
+export type RemoteAction = "start" | "stop";
+
+// 40 characters, the longest Basic auth password OCPP 1.6 chargers must accept
+function generatePassword(): string {
+  return randomBytes(20).toString("hex");
+}
+
+async function operatedStation(operator: IUserDocument, stationId: string) {
+  const station = mongoose.isValidObjectId(stationId)
+    ? await Station.findById(stationId)
+    : null;
+  if (!station) {
+    throw new ChargePointError("Station not found", 404);
+  }
+  if (!canOperate(operator, station)) {
+    throw new ChargePointError("You can only manage your own stations", 403);
+  }
+  return station;
+}
+
+async function stationChargePoint(stationId: string, chargePointId: string) {
+  const chargePoint = await ChargePoint.findOne({ stationId, chargePointId });
+  if (!chargePoint) {
+    throw new ChargePointError("Charge point not found", 404);
+  }
+  return chargePoint;
+}
+
+export async function listChargePoints(
+  operator: IUserDocument,
+  stationId: string
+): Promise<IChargePointDocument[]> {
+  await operatedStation(operator, stationId);
+  return ChargePoint.find({ stationId }).sort({ createdAt: 1 });
+}
+
+/**
+ * Register a charge point whose connectors 1, 2, … feed the given ports, in
+ * that order
+ */
+export async function registerChargePoint(
+  operator: IUserDocument,
+  stationId: string,
+  chargePointId: string,
+  portIds: string[],
+  name = ""
+): Promise<IssuedChargePoint> {
+  if (!CHARGE_POINT_ID_PATTERN.test(chargePointId)) {
+    throw new ChargePointError(
+      "Charge point id must be 1–48 letters, digits, dots, dashes or underscores"
+    );
+  }
+  if (portIds.length === 0 || new Set(portIds).size !== portIds.length) {
+    throw new ChargePointError("Pick each of the charge point's ports once");
+  }
+
+  const station = await operatedStation(operator, stationId);
+  const ports = portIds.map((portId) =>
+    station.chargingPorts.find((p) => p._id?.toString() === portId)
+  );
+  if (ports.some((port) => !port)) {
+    throw new ChargePointError("Port not found", 404);
+  }
+  // A port reports through one integration, or its statuses would fight
+  if (await HardwareDevice.exists({ stationId, portId: { $in: portIds } })) {
+    throw new ChargePointError("A port already has a hardware device", 409);
+  }
+
+  const password = generatePassword();
+  try {
+    const chargePoint = await ChargePoint.create({
+      chargePointId,
+      name: name.trim() || chargePointId,
+      stationId: String(station._id),
+      connectors: portIds.map((portId, index) => ({ connectorId: index + 1, portId })),
+      password,
+      createdBy: operator.clerkId,
+    });
+    return { chargePoint, password };
+  } catch (error) {
+    if ((error as { code?: number }).code === 11000) {
+      throw new ChargePointError(
+        "That charge point id is taken, or a port already has a charge point",
+        409
+      );
+    }
+    throw error;
+  }
+}
+
+/** Issue a new password; the charge point is disconnected at its next call */
+export async function rotateChargePointPassword(
+  operator: IUserDocument,
+  stationId: string,
+  chargePointId: string
+): Promise<IssuedChargePoint> {
+  await operatedStation(operator, stationId);
+  const chargePoint = await stationChargePoint(stationId, chargePointId);
+
+  const password = generatePassword();
+  chargePoint.password = password;
+  chargePoint.passwordRotatedAt = new Date();
+  await chargePoint.save();
+  return { chargePoint, password };
+}
+
+export async function removeChargePoint(
+  operator: IUserDocument,
+  stationId: string,
+  chargePointId: string
+): Promise<void> {
+  await operatedStation(operator, stationId);
+  const chargePoint = await stationChargePoint(stationId, chargePointId);
+  await chargePoint.deleteOne();
+}
+
+/**
+ * Run a command on a charge point through whichever central system instance
+ * holds its connection, and wait for the charge point's answer
+ */
+async function commandChargePoint(
+  chargePointId: string,
+  command: RemoteCommand
+): Promise<Record<string, unknown>> {
+  const bus = getRealtimeBus();
+  const requestId = randomUUID();
+
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      stop();
+      reject(new ChargePointError("The charge point did not answer", 504));
+    }, OCPP_CALL_TIMEOUT_MS + COMMAND_RESULT_GRACE_MS);
+
+    // Listening before publishing, so a quick answer isn't missed
+    const stop = bus.subscribe("ocpp-command-result", (event) => {
+      if (event.requestId !== requestId) return;
+      clearTimeout(timer);
+      stop();
+      if (event.ok) {
+        resolve(event.payload ?? {});
+      } else {
+        reject(new ChargePointError(event.error || "Command failed", 502));
+      }
+    });
+
+    bus
+      .publish({ type: "ocpp-command", requestId, chargePointId, ...command })
+      .catch((error) => {
+        clearTimeout(timer);
+        stop();
+        reject(error);
+      });
+  });
+}
+
+/** Start or stop charging on a port fed by a charge point */
+export async function sendRemoteCommand(
+  operator: IUserDocument,
+  stationId: string,
+  chargePointId: string,
+  action: RemoteAction,
+  portId: string
+): Promise<RemoteTransactionResponse> {
+  await operatedStation(operator, stationId);
+  const chargePoint = await stationChargePoint(stationId, chargePointId);
+  if (!chargePoint.connectedAt) {
+    throw new ChargePointError("The charge point is not connected", 409);
+  }
+
+  const connector = chargePoint.connectors.find((c) => c.portId === portId);
+  if (!connector) {
+    throw new ChargePointError("Port not found", 404);
+  }
+  const transaction = await OcppTransaction.findOne({
+    chargePointId,
+    connectorId: connector.connectorId,
+    stoppedAt: { $exists: false },
+  }).sort({ startedAt: -1 });
+
+  let command: RemoteCommand;
+  if (action === "start") {
+    if (transaction) {
+      throw new ChargePointError("This port is already charging", 409);
+    }
+    command = {
+      action: "RemoteStartTransaction",
+      payload: { connectorId: connector.connectorId, idTag: OCPP_REMOTE_ID_TAG },
+    };
+  } else {
+    if (!transaction) {
+      throw new ChargePointError("This port isn't charging", 409);
+    }
+    command = {
+      action: "RemoteStopTransaction",
+      payload: { transactionId: transaction.transactionId },
+    };
+  }
+
+  const response = (await commandChargePoint(
+    chargePointId,
+    command
+  )) as unknown as RemoteTransactionResponse;
+  if (response.status !== "Accepted") {
+    throw new ChargePointError("The charge point rejected the command", 409);
+  }
+  return response;
+}
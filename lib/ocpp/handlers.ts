@@ -0,0 +1,315 @@
+/**
+ * What the app does with each call an OCPP charge point makes. The central
+ * system (./centralSystem) only relays calls; they are handled here, inside
+ * the app, where booking and billing code can run.
+ *
+ * Connector statuses and transactions drive the same port side effects as a
+ * `port-update` report (see lib/portReports): a transaction start and stop
+ * are a session start and stop, meter values are energy readings, and a
+ * connector becoming Available again is the vehicle disconnecting.
+ */
+
+import { randomInt } from "crypto";
+import ChargePoint, { type IChargePointDocument } from "@/lib/models/ChargePoint";
+import OcppTransaction, {
+  type IOcppTransactionDocument,
+} from "@/lib/models/OcppTransaction";
+import { applyPortReport, type PortReport } from "@/lib/portReports";
+import { recordChargePointContact } from "@/lib/deviceHealth";
+import { HARDWARE_HEARTBEAT_INTERVAL_MS, MS_PER_SECOND } from "@/lib/constants";
+import {
+  OcppError,
+  type AuthorizeRequest,
+  type AuthorizeResponse,
+  type BootNotificationRequest,
+  type BootNotificationResponse,
+  type ChargePointAction,
+  type ChargePointStatus,
+  type HeartbeatResponse,
+  type MeterValue,
+  type MeterValuesRequest,
+  type StartTransactionRequest,
+  type StartTransactionResponse,
+  type StatusNotificationRequest,
+  type StopTransactionRequest,
+  type StopTransactionResponse,
+} from "./protocol";
+
+const TRANSACTION_ID_ATTEMPTS = 5;
+
+/** Port status and port-update event a connector status stands for */
+const CONNECTOR_STATUSES: Record<
+  ChargePointStatus,
+  Pick<PortReport, "status" | "event" | "session">
+> = {
+  Available: { status: "available", event: "port_available", session: "disconnect" },
+  Preparing: { status: "occupied", event: "vehicle_connected" },
+  Charging: { status: "occupied", event: "charging_started" },
+  SuspendedEV: { status: "occupied", event: "charging_suspended" },
+  SuspendedEVSE: { status: "occupied", event: "charging_suspended" },
+  Finishing: { status: "occupied", event: "charging_complete" },
+  Reserved: { status: "reserved", event: "port_reserved" },
+  Unavailable: { status: "maintenance", event: "port_unavailable" },
+  Faulted: { status: "maintenance", event: "error" },
+};
+
+function connectorPort(chargePoint: IChargePointDocument, connectorId: number): string {
+  const connector = chargePoint.connectors.find((c) => c.connectorId === connectorId);
+  if (!connector) {
+    throw new OcppError("PropertyConstraintViolation", `Unknown connector ${connectorId}`);
+  }
+  return connector.portId;
+}
+
+function readingTime(timestamp: string | undefined, now: Date): Date {
+  const at = timestamp ? new Date(timestamp) : now;
+  return Number.isNaN(at.getTime()) ? now : at;
+}
+
+/** Latest energy register reading among meter values, in Wh */
+function energyRegisterWh(meterValues: MeterValue[] = []): number | null {
+  let latest: { at: number; wh: number } | null = null;
+  for (const meterValue of meterValues) {
+    const at = new Date(meterValue.timestamp).getTime();
+    for (const sample of meterValue.sampledValue ?? []) {
+      const measurand = sample.measurand ?? "Energy.Active.Import.Register";
+      const value = Number(sample.value);
+      if (measurand !== "Energy.Active.Import.Register" || !Number.isFinite(value)) {
+        continue;
+      }
+      const wh = sample.unit === "kWh" ? value * 1000 : value;
+      if (!latest || at >= latest.at) latest = { at, wh };
+    }
+  }
+  return latest?.wh ?? null;
+}
+
+/** kWh delivered in a transaction up to a register reading */
+function deliveredKwh(transaction: IOcppTransactionDocument, registerWh: number): number {
+  return Math.max(0, registerWh - transaction.meterStartWh) / 1000;
+}
+
+async function openTransaction(
+  chargePoint: IChargePointDocument,
+  request: StartTransactionRequest,
+  portId: string,
+  now: Date
+): Promise<IOcppTransactionDocument> {
+  // Charge points expect a plain integer id, so draw one and retry on collision
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await OcppTransaction.create({
+        transactionId: randomInt(1, 2 ** 31 - 1),
+        chargePointId: chargePoint.chargePointId,
+        connectorId: request.connectorId,
+        stationId: chargePoint.stationId,
+        portId,
+        idTag: request.idTag,
+        meterStartWh: request.meterStart,
+        lastMeterWh: request.meterStart,
+        startedAt: readingTime(request.timestamp, now),
+      });
+    } catch (error) {
+      if ((error as { code?: number }).code !== 11000 || attempt >= TRANSACTION_ID_ATTEMPTS) {
+        throw error;
+      }
+    }
+  }
+}
+
+async function bootNotification(
+  chargePoint: IChargePointDocument,
+  request: BootNotificationRequest,
+  now: Date
+): Promise<BootNotificationResponse> {
+  await ChargePoint.updateOne(
+    { _id: chargePoint._id },
+    {
+      $set: {
+        vendor: String(request.chargePointVendor ?? "").slice(0, 20),
+        modelName: String(request.chargePointModel ?? "").slice(0, 20),
+        ...(request.chargePointSerialNumber
+          ? { serialNumber: String(request.chargePointSerialNumber).slice(0, 25) }
+          : {}),
+        ...(request.firmwareVersion
+          ? { firmwareVersion: String(request.firmwareVersion).slice(0, 50) }
+          : {}),
+      },
+    }
+  );
+  return {
+    status: "Accepted",
+    currentTime: now.toISOString(),
+    interval: HARDWARE_HEARTBEAT_INTERVAL_MS / MS_PER_SECOND,
+  };
+}
+
+async function statusNotification(
+  chargePoint: IChargePointDocument,
+  request: StatusNotificationRequest,
+  now: Date
+): Promise<Record<string, never>> {
+  // Connector 0 is the charge point itself, which no port stands for
+  if (request.connectorId === 0) return {};
+
+  const report = CONNECTOR_STATUSES[request.status];
+  if (!report) {
+    throw new OcppError("PropertyConstraintViolation", `Unknown status ${request.status}`);
+  }
+  await applyPortReport(
+    {
+      stationId: chargePoint.stationId,
+      portId: connectorPort(chargePoint, request.connectorId),
+      ...report,
+    },
+    readingTime(request.timestamp, now)
+  );
+  return {};
+}
+
+// Sessions are paid for through bookings, not charging cards, so any tag
+// may charge; the booking holding the port is what gets billed
+function authorize(request: AuthorizeRequest): AuthorizeResponse {
+  if (!request.idTag) {
+    throw new OcppError("PropertyConstraintViolation", "idTag is required");
+  }
+  return { idTagInfo: { status: "Accepted" } };
+}
+
+async function startTransaction(
+  chargePoint: IChargePointDocument,
+  request: StartTransactionRequest,
+  now: Date
+): Promise<StartTransactionResponse> {
+  const portId = connectorPort(chargePoint, request.connectorId);
+  if (!request.idTag || !Number.isFinite(request.meterStart)) {
+    throw new OcppError("PropertyConstraintViolation", "idTag and meterStart are required");
+  }
+
+  const transaction = await openTransaction(chargePoint, request, portId, now);
+  await applyPortReport(
+    {
+      stationId: chargePoint.stationId,
+      portId,
+      status: "occupied",
+      event: "charging_started",
+      session: "start",
+      energyKwh: 0,
+    },
+    transaction.startedAt
+  );
+
+  return {
+    transactionId: transaction.transactionId,
+    idTagInfo: { status: "Accepted" },
+  };
+}
+
+async function meterValues(
+  chargePoint: IChargePointDocument,
+  request: MeterValuesRequest,
+  now: Date
+): Promise<Record<string, never>> {
+  // Readings outside a transaction have no session to bill
+  if (request.transactionId == null) return {};
+
+  const registerWh = energyRegisterWh(request.meterValue);
+  if (registerWh == null) return {};
+
+  const transaction = await OcppTransaction.findOneAndUpdate(
+    {
+      transactionId: request.transactionId,
+      chargePointId: chargePoint.chargePointId,
+      stoppedAt: { $exists: false },
+    },
+    { $max: { lastMeterWh: registerWh } },
+    { new: true }
+  );
+  if (!transaction) return {};
+
+  await applyPortReport(
+    {
+      stationId: transaction.stationId,
+      portId: transaction.portId,
+      energyKwh: deliveredKwh(transaction, transaction.lastMeterWh),
+    },
+    now
+  );
+  return {};
+}
+
+async function stopTransaction(
+  chargePoint: IChargePointDocument,
+  request: StopTransactionRequest,
+  now: Date
+): Promise<StopTransactionResponse> {
+  const registerWh = Number.isFinite(request.meterStop)
+    ? request.meterStop
+    : energyRegisterWh(request.transactionData);
+  const stoppedAt = readingTime(request.timestamp, now);
+
+  const transaction = await OcppTransaction.findOneAndUpdate(
+    {
+      transactionId: request.transactionId,
+      chargePointId: chargePoint.chargePointId,
+      stoppedAt: { $exists: false },
+    },
+    {
+      $set: { stoppedAt, ...(request.reason ? { stopReason: request.reason } : {}) },
+      ...(registerWh != null ? { $max: { lastMeterWh: registerWh } } : {}),
+    },
+    { new: true }
+  );
+
+  // Charge points retry a stop until it is acknowledged, so an unknown or
+  // already stopped transaction is still accepted
+  if (transaction) {
+    await applyPortReport(
+      {
+        stationId: transaction.stationId,
+        portId: transaction.portId,
+        event: "charging_complete",
+        session: "stop",
+        energyKwh: deliveredKwh(transaction, transaction.lastMeterWh),
+      },
+      stoppedAt
+    );
+  }
+
+  return request.idTag ? { idTagInfo: { status: "Accepted" } } : {};
+}
+
+/** Handle one call from a charge point; throws OcppError to reject it */
+export async function handleChargePointCall(
+  chargePoint: IChargePointDocument,
+  action: ChargePointAction,
+  payload: Record<string, unknown>,
+  now: Date = new Date()
+): Promise<object> {
+  // Any call counts as contact, not only heartbeats; status notifications
+  // set the ports themselves
+  await recordChargePointContact(
+    chargePoint,
+    { restoreStatus: action !== "StatusNotification" },
+    now
+  );
+
+  switch (action) {
+    case "BootNotification":
+      return bootNotification(chargePoint, payload as unknown as BootNotificationRequest, now);
+    case "Heartbeat":
+      return { currentTime: now.toISOString() } satisfies HeartbeatResponse;
+    case "StatusNotification":
+      return statusNotification(chargePoint, payload as unknown as StatusNotificationRequest, now);
+    case "Authorize":
+      return authorize(payload as unknown as AuthorizeRequest);
+    case "StartTransaction":
+      return startTransaction(chargePoint, payload as unknown as StartTransactionRequest, now);
+    case "StopTransaction":
+      return stopTransaction(chargePoint, payload as unknown as StopTransactionRequest, now);
+    case "MeterValues":
+      return meterValues(chargePoint, payload as unknown as MeterValuesRequest, now);
+    default:
+      throw new OcppError("NotImplemented", `${action} is not supported`);
+  }
+}
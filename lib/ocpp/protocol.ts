@@ -0,0 +1,220 @@
+/**
+ * OCPP 1.6-J framing and the message payloads the central system speaks.
+ *
+ * Every WebSocket message is a JSON array: a CALL `[2, uniqueId, action,
+ * payload]` is answered by a CALLRESULT `[3, uniqueId, payload]` or a
+ * CALLERROR `[4, uniqueId, errorCode, errorDescription, errorDetails]`.
+ * Only the Core profile subset below is supported.
+ */
+
+export const OCPP_SUBPROTOCOL = "ocpp1.6";
+
+export const CALL = 2;
+export const CALL_RESULT = 3;
+export const CALL_ERROR = 4;
+
+export type OcppErrorCode =
+  | "NotImplemented"
+  | "NotSupported"
+  | "InternalError"
+  | "ProtocolError"
+  | "SecurityError"
+  | "FormationViolation"
+  | "PropertyConstraintViolation"
+  | "OccurenceConstraintViolation"
+  | "TypeConstraintViolation"
+  | "GenericError";
+
+export type OcppCall = [typeof CALL, string, string, Record<string, unknown>];
+export type OcppCallResult = [typeof CALL_RESULT, string, Record<string, unknown>];
+export type OcppCallError = [
+  typeof CALL_ERROR,
+  string,
+  OcppErrorCode,
+  string,
+  Record<string, unknown>,
+];
+export type OcppFrame = OcppCall | OcppCallResult | OcppCallError;
+
+/** A call the central system rejects with a CALLERROR */
+export class OcppError extends Error {
+  constructor(
+    public readonly code: OcppErrorCode,
+    message: string,
+    /** Id of the malformed message, when it could be read */
+    public readonly uniqueId = ""
+  ) {
+    super(message);
+    this.name = "OcppError";
+  }
+}
+
+/** Parse one WebSocket message into a frame; throws OcppError if malformed */
+export function parseFrame(raw: string): OcppFrame {
+  let frame: unknown;
+  try {
+    frame = JSON.parse(raw);
+  } catch {
+    throw new OcppError("FormationViolation", "Message is not JSON");
+  }
+  if (!Array.isArray(frame) || typeof frame[1] !== "string") {
+    throw new OcppError("FormationViolation", "Message is not an OCPP frame");
+  }
+  const uniqueId: string = frame[1];
+  const isObject = (value: unknown) =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+
+  switch (frame[0]) {
+    case CALL:
+      if (frame.length === 4 && typeof frame[2] === "string" && isObject(frame[3])) {
+        return frame as OcppCall;
+      }
+      break;
+    case CALL_RESULT:
+      if (frame.length === 3 && isObject(frame[2])) return frame as OcppCallResult;
+      break;
+    case CALL_ERROR:
+      if (frame.length === 5 && typeof frame[2] === "string") return frame as OcppCallError;
+      break;
+  }
+  throw new OcppError("FormationViolation", "Message is not an OCPP frame", uniqueId);
+}
+
+// ── Charge point → central system ──
+
+/** Actions a charge point may call */
+export const CHARGE_POINT_ACTIONS = [
+  "BootNotification",
+  "Heartbeat",
+  "StatusNotification",
+  "Authorize",
+  "StartTransaction",
+  "StopTransaction",
+  "MeterValues",
+] as const;
+
+export type ChargePointAction = (typeof CHARGE_POINT_ACTIONS)[number];
+
+export function isChargePointAction(action: string): action is ChargePointAction {
+  return (CHARGE_POINT_ACTIONS as readonly string[]).includes(action);
+}
+
+export interface BootNotificationRequest {
+  chargePointVendor: string;
+  chargePointModel: string;
+  chargePointSerialNumber?: string;
+  firmwareVersion?: string;
+}
+
+export interface BootNotificationResponse {
+  status: "Accepted" | "Pending" | "Rejected";
+  currentTime: string;
+  /** Heartbeat interval, in seconds */
+  interval: number;
+}
+
+export interface HeartbeatResponse {
+  currentTime: string;
+}
+
+export type ChargePointStatus =
+  | "Available"
+  | "Preparing"
+  | "Charging"
+  | "SuspendedEVSE"
+  | "SuspendedEV"
+  | "Finishing"
+  | "Reserved"
+  | "Unavailable"
+  | "Faulted";
+
+export interface StatusNotificationRequest {
+  /** 0 is the charge point as a whole */
+  connectorId: number;
+  errorCode: string;
+  status: ChargePointStatus;
+  info?: string;
+  timestamp?: string;
+}
+
+export interface IdTagInfo {
+  status: "Accepted" | "Blocked" | "Expired" | "Invalid" | "ConcurrentTx";
+}
+
+export interface AuthorizeRequest {
+  idTag: string;
+}
+
+export interface AuthorizeResponse {
+  idTagInfo: IdTagInfo;
+}
+
+export interface StartTransactionRequest {
+  connectorId: number;
+  idTag: string;
+  /** Meter register, in Wh */
+  meterStart: number;
+  timestamp: string;
+  reservationId?: number;
+}
+
+export interface StartTransactionResponse {
+  transactionId: number;
+  idTagInfo: IdTagInfo;
+}
+
+export interface SampledValue {
+  value: string;
+  context?: string;
+  measurand?: string;
+  unit?: string;
+}
+
+export interface MeterValue {
+  timestamp: string;
+  sampledValue: SampledValue[];
+}
+
+export interface StopTransactionRequest {
+  transactionId: number;
+  /** Meter register, in Wh */
+  meterStop: number;
+  timestamp: string;
+  idTag?: string;
+  reason?: string;
+  transactionData?: MeterValue[];
+}
+
+export interface StopTransactionResponse {
+  idTagInfo?: IdTagInfo;
+}
+
+export interface MeterValuesRequest {
+  connectorId: number;
+  transactionId?: number;
+  meterValue: MeterValue[];
+}
+
+// ── Central system → charge point ──
+
+export interface RemoteStartTransactionRequest {
+  connectorId?: number;
+  idTag: string;
+}
+
+export interface RemoteStopTransactionRequest {
+  transactionId: number;
+}
+
+export interface RemoteTransactionResponse {
+  status: "Accepted" | "Rejected";
+}
+
+export type RemoteCommand =
+  | { action: "RemoteStartTransaction"; payload: RemoteStartTransactionRequest }
+  | { action: "RemoteStopTransaction"; payload: RemoteStopTransactionRequest };
+
+/** What the internal call route answers the central system with */
+export type ForwardedCallResponse =
+  | { result: Record<string, unknown> }
+  | { error: { code: OcppErrorCode; description: string } };
@@ -0,0 +1,191 @@
+/**
+ * Station opening hours and closures, in Nepal time.
+ *
+ * `operatingHours` is a daily "HH:mm" window; a close at or before the open
+ * time runs past midnight into the next day. Closures are admin-managed
+ * intervals (public holidays, maintenance) during which nothing can be
+ * booked; one without an end is a temporary closure that lasts until an
+ * admin reopens the station. Pure so the same rules run in routes and in
+ * the browser.
+ */
+
+import { MINUTES_PER_DAY, MS_PER_MINUTE } from "@/lib/constants";
+import { fromNepalClock, parseTimeOfDay, toNepalDate } from "@/lib/utils";
+
+export interface StationClosure {
+  startsAt: Date | string;
+  /** Open-ended when absent: closed until reopened */
+  endsAt?: Date | string | null;
+  reason?: string;
+}
+
+export interface StationHours {
+  operatingHours?: { open: string; close: string };
+  closures?: StationClosure[];
+}
+
+export interface TimeWindow {
+  start: Date;
+  end: Date;
+}
+
+export interface OpenState {
+  open: boolean;
+  /** When an open station next closes */
+  closesAt?: Date;
+  /** When a closed station next opens, if known */
+  opensAt?: Date;
+  /** Why a closed station is closed outside its normal hours */
+  reason?: string;
+}
+
+const MS_PER_DAY = MINUTES_PER_DAY * MS_PER_MINUTE;
+const LOOKAHEAD_DAYS = 14;
+
+function shiftDate(date: string, days: number): string {
+  return toNepalDate(new Date(fromNepalClock(date, 0).getTime() + days * MS_PER_DAY));
+}
+
+/** Opening and closing instants of a Nepal-time date */
+export function operatingWindow(
+  date: string,
+  hours: { open: string; close: string } = { open: "00:00", close: "23:59" }
+): TimeWindow | null {
+  const open = parseTimeOfDay(hours.open);
+  let close = parseTimeOfDay(hours.close);
+  if (Number.isNaN(open) || Number.isNaN(close)) return null;
+  // "23:59" is how the admin form says "until midnight"
+  if (close === MINUTES_PER_DAY - 1) close = MINUTES_PER_DAY;
+  if (close <= open) close += MINUTES_PER_DAY;
+  return { start: fromNepalClock(date, open), end: fromNepalClock(date, close) };
+}
+
+/** A closure as an interval; open-ended closures run forever */
+export function closureWindow(closure: StationClosure): TimeWindow {
+  return {
+    start: new Date(closure.startsAt),
+    end: closure.endsAt ? new Date(closure.endsAt) : new Date(8.64e15),
+  };
+}
+
+function overlappingClosure(
+  station: StationHours,
+  start: Date,
+  end: Date
+): StationClosure | undefined {
+  return station.closures?.find((closure) => {
+    const window = closureWindow(closure);
+    return window.start < end && window.end > start;
+  });
+}
+
+/** Operating window (today's, or yesterday's if it runs overnight) containing an instant */
+function windowAt(station: StationHours, at: Date): TimeWindow | null {
+  return openWindowAt(station, at)?.window ?? null;
+}
+
+function openWindowAt(
+  station: StationHours,
+  at: Date
+): { date: string; window: TimeWindow } | null {
+  const today = toNepalDate(at);
+  for (const date of [shiftDate(today, -1), today]) {
+    const window = operatingWindow(date, station.operatingHours);
+    if (window && window.start <= at && at < window.end) return { date, window };
+  }
+  return null;
+}
+
+/**
+ * Operating window containing `start`, joined with the following days'
+ * windows for as long as each opens by the time the previous one closes —
+ * a 24-hour station is open straight through midnight — until it reaches
+ * `until`.
+ */
+function continuousWindowAt(
+  station: StationHours,
+  start: Date,
+  until: Date
+): TimeWindow | null {
+  const found = openWindowAt(station, start);
+  if (!found) return null;
+
+  let { date } = found;
+  const window = { ...found.window };
+  for (let day = 0; day < LOOKAHEAD_DAYS && window.end < until; day++) {
+    date = shiftDate(date, 1);
+    const next = operatingWindow(date, station.operatingHours);
+    if (!next || next.start > window.end) break;
+    if (next.end > window.end) window.end = next.end;
+  }
+  return window;
+}
+
+function describeClosure(closure: StationClosure): string {
+  return closure.reason
+    ? `Station is closed (${closure.reason})`
+    : "Station is temporarily closed";
+}
+
+/**
+ * Why a slot can't be booked, or null if the station is open for all of it.
+ * The slot must fit in the station's hours — through midnight only where
+ * one day's hours run into the next — and avoid closures.
+ */
+export function slotClosedReason(
+  station: StationHours,
+  start: Date,
+  end: Date
+): string | null {
+  const window = continuousWindowAt(station, start, end);
+  if (!window || end > window.end) {
+    const hours = station.operatingHours;
+    return hours
+      ? `Station operates between ${hours.open} and ${hours.close} (Nepal time). Your booking must start and end within these hours.`
+      : "Station is closed at this time";
+  }
+
+  const closure = overlappingClosure(station, start, end);
+  return closure ? describeClosure(closure) : null;
+}
+
+/** Whether a station is open now, and when that changes */
+export function getOpenState(
+  station: StationHours,
+  now: Date = new Date()
+): OpenState {
+  const closure = overlappingClosure(station, now, new Date(now.getTime() + 1));
+  const window = windowAt(station, now);
+
+  if (window && !closure) {
+    // Closing early for an upcoming closure counts as closing
+    const next = station.closures
+      ?.map(closureWindow)
+      .filter((c) => c.start > now && c.start < window.end)
+      .sort((a, b) => a.start.getTime() - b.start.getTime())[0];
+    return { open: true, closesAt: next?.start ?? window.end };
+  }
+
+  // Next opening that isn't swallowed by a closure
+  let opensAt: Date | undefined;
+  const today = toNepalDate(now);
+  for (let day = 0; day <= LOOKAHEAD_DAYS && !opensAt; day++) {
+    const candidate = operatingWindow(shiftDate(today, day), station.operatingHours);
+    if (!candidate || candidate.end <= now) continue;
+
+    let start = candidate.start > now ? candidate.start : now;
+    const blocking = overlappingClosure(station, start, candidate.end);
+    if (blocking) {
+      const blockEnd = closureWindow(blocking).end;
+      if (blockEnd >= candidate.end) continue;
+      start = blockEnd;
+    }
+    opensAt = start;
+  }
+
+  return {
+    open: false,
+    opensAt,
+    ...(closure && { reason: closure.reason || "Temporarily closed" }),
+  };
+}
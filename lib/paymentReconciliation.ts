@@ -0,0 +1,222 @@
+/**
+ * Payment reconciliation shared by the browser verify route, the
+ * server-to-server callbacks and the periodic reconciler.
+ *
+ * The provider's lookup API is the only source of truth: whatever the caller
+ * claims, the booking is confirmed or cancelled from the lookup result, and
+ * applying the same result twice is a no-op. A payment that covered several
+ * bookings of a series settles all of them together.
+ */
+
+import dbConnect from "@/lib/db";
+import Booking, { type IBookingDocument } from "@/lib/models/Booking";
+import {
+  getPaymentProvider,
+  type PaymentLookupResult,
+  type PaymentProvider,
+} from "@/lib/payments";
+import {
+  transitionBooking,
+  BookingTransitionError,
+} from "@/lib/bookingLifecycle";
+import {
+  MS_PER_MINUTE,
+  PAYMENT_PENDING_EXPIRY_MINUTES,
+} from "@/lib/constants";
+
+/** Other pending bookings paid in the same checkout as this one */
+async function sharedPaymentSiblings(
+  booking: IBookingDocument,
+  provider: PaymentProvider
+): Promise<IBookingDocument[]> {
+  if (!booking.seriesId || booking.paymentAmount == null) return [];
+
+  const reference = provider.getReference(booking);
+  const siblings = await Booking.find({
+    _id: { $ne: booking._id },
+    seriesId: booking.seriesId,
+    status: "pending",
+  });
+  return siblings.filter((b) => provider.getReference(b) === reference);
+}
+
+/** Apply the same payment outcome to the rest of a shared checkout */
+async function settleSiblings(
+  siblings: IBookingDocument[],
+  to: "confirmed" | "cancelled",
+  options: Parameters<typeof transitionBooking>[2]
+): Promise<void> {
+  for (const sibling of siblings) {
+    try {
+      await transitionBooking(sibling, to, options);
+    } catch (error) {
+      if (!(error instanceof BookingTransitionError)) throw error;
+    }
+  }
+}
+
+export interface PaymentReconcileResult {
+  verified: boolean;
+  status: string;
+  booking: IBookingDocument;
+}
+
+/**
+ * Apply a provider lookup result to its booking. Only pending bookings move;
+ * anything already confirmed or closed is reported as-is.
+ */
+export async function applyPaymentLookup(
+  booking: IBookingDocument,
+  provider: PaymentProvider,
+  lookup: PaymentLookupResult
+): Promise<PaymentReconcileResult> {
+  if (["confirmed", "active", "completed"].includes(booking.status)) {
+    return { verified: true, status: lookup.status, booking };
+  }
+  if (booking.status !== "pending") {
+    return { verified: false, status: lookup.status, booking };
+  }
+
+  const reference = provider.getReference(booking);
+
+  try {
+    if (lookup.outcome === "completed") {
+      const expected = booking.paymentAmount ?? booking.amountPaid ?? 0;
+      if (expected > 0 && Math.round(lookup.amount * 100) !== Math.round(expected * 100)) {
+        console.error(
+          `${provider.label} amount mismatch for booking`,
+          booking._id,
+          { expected, received: lookup.amount }
+        );
+        return { verified: false, status: lookup.status, booking };
+      }
+
+      const siblings = await sharedPaymentSiblings(booking, provider);
+      const options = {
+        actor: "payment" as const,
+        reason: `${provider.method}:${reference}`,
+        set: lookup.set,
+      };
+      const confirmed = await transitionBooking(booking, "confirmed", options);
+      await settleSiblings(siblings, "confirmed", options);
+      return { verified: true, status: lookup.status, booking: confirmed };
+    }
+
+    if (lookup.outcome === "failed") {
+      const siblings = await sharedPaymentSiblings(booking, provider);
+      const options = {
+        actor: "payment" as const,
+        reason: `${provider.method}:${lookup.status}`,
+      };
+      const cancelled = await transitionBooking(booking, "cancelled", options);
+      await settleSiblings(siblings, "cancelled", options);
+      return { verified: false, status: lookup.status, booking: cancelled };
+    }
+  } catch (error) {
+    // Another caller applied the same payment first — report its outcome
+    if (error instanceof BookingTransitionError) {
+      const current = (await Booking.findById(booking._id)) ?? booking;
+      return {
+        verified: ["confirmed", "active", "completed"].includes(current.status),
+        status: lookup.status,
+        booking: current,
+      };
+    }
+    throw error;
+  }
+
+  // Still processing
+  return { verified: false, status: lookup.status, booking };
+}
+
+/**
+ * Look up a booking's payment with its provider and apply the result.
+ * Returns null when the booking has no online payment to look up.
+ */
+export async function reconcileBookingPayment(
+  booking: IBookingDocument
+): Promise<PaymentReconcileResult | null> {
+  const provider = getPaymentProvider(booking.paymentMethod);
+  if (!provider?.getReference(booking)) return null;
+
+  const lookup = await provider.lookup(booking);
+  return applyPaymentLookup(booking, provider, lookup);
+}
+
+/** Look up a Khalti pidx and apply it to the booking that owns it */
+export async function reconcileKhaltiPidx(
+  pidx: string
+): Promise<PaymentReconcileResult | null> {
+  await dbConnect();
+
+  const booking = await Booking.findOne({ khaltiPidx: pidx });
+  if (!booking) return null;
+
+  return reconcileBookingPayment(booking);
+}
+
+/**
+ * Scheduled job: re-check every pending booking. Bookings the provider
+ * reports as paid are confirmed; ones still unpaid after the expiry window
+ * or their payment due time (or that never got a payment reference) are
+ * cancelled so their slot is released. Series occurrences paid on their own
+ * are left alone until their payment falls due.
+ */
+export async function reconcilePendingPayments(
+  now: Date = new Date()
+): Promise<{ checked: number; confirmed: number; expired: number }> {
+  await dbConnect();
+
+  const staleBefore = new Date(
+    now.getTime() - PAYMENT_PENDING_EXPIRY_MINUTES * MS_PER_MINUTE
+  );
+
+  const pending = await Booking.find({
+    status: "pending",
+    source: "online",
+    $or: [
+      { paymentDueAt: { $exists: false } },
+      {
+        paymentDueAt: {
+          $lte: new Date(now.getTime() + PAYMENT_PENDING_EXPIRY_MINUTES * MS_PER_MINUTE),
+        },
+      },
+    ],
+  })
+    .sort({ createdAt: 1 })
+    .limit(100);
+
+  let confirmed = 0;
+  let expired = 0;
+
+  for (const booking of pending) {
+    try {
+      let current: IBookingDocument = booking;
+
+      if (getPaymentProvider(booking.paymentMethod)?.isConfigured()) {
+        const result = await reconcileBookingPayment(booking);
+        if (result?.verified) {
+          confirmed++;
+          continue;
+        }
+        if (result) current = result.booking;
+      }
+
+      const overdue = current.paymentDueAt
+        ? current.paymentDueAt <= now
+        : current.createdAt < staleBefore;
+      if (current.status === "pending" && overdue) {
+        await transitionBooking(current, "cancelled", {
+          actor: "system",
+          reason: `Payment not completed within ${PAYMENT_PENDING_EXPIRY_MINUTES} min`,
+        });
+        expired++;
+      }
+    } catch (error) {
+      if (error instanceof BookingTransitionError) continue;
+      console.error("Payment reconcile failed for booking:", booking._id, error);
+    }
+  }
+
+  return { checked: pending.length, confirmed, expired };
+}
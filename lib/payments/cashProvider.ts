@@ -0,0 +1,27 @@
+import type { PaymentProvider } from "./types";
+
+/**
+ * Pay at the station. The booking is confirmed straight away and the
+ * attendant collects the amount on arrival, so there is nothing to look up
+ * and nothing to refund online.
+ */
+export const cashProvider: PaymentProvider = {
+  method: "cash",
+  label: "Pay at station",
+
+  isConfigured() {
+    return true;
+  },
+
+  async initiate() {
+    return { next: { type: "none" }, set: {}, confirmNow: true };
+  },
+
+  getReference() {
+    return undefined;
+  },
+
+  async lookup() {
+    return { outcome: "pending", status: "Pay at station", amount: 0 };
+  },
+};
@@ -0,0 +1,61 @@
+import { esewaBuildForm, esewaStatus } from "@/lib/esewa";
+import type { PaymentLookupResult, PaymentProvider } from "./types";
+
+const FAILED_STATUSES = ["CANCELED", "NOT_FOUND", "FULL_REFUND", "PARTIAL_REFUND"];
+
+/**
+ * eSewa ePay v2. Checkout is a signed form post and the status API is the
+ * source of truth. eSewa has no merchant refund API, so refunds are left
+ * for the station to pay out from the merchant portal.
+ */
+export const esewaProvider: PaymentProvider = {
+  method: "esewa",
+  label: "eSewa",
+
+  isConfigured() {
+    return !!process.env.ESEWA_SECRET_KEY;
+  },
+
+  async initiate({ booking, amount, returnUrl }) {
+    // eSewa rejects reused uuids, so a retried checkout needs a fresh one
+    const transactionUuid = `${booking._id}-${Date.now()}`;
+    const form = esewaBuildForm({
+      amount,
+      transaction_uuid: transactionUuid,
+      // eSewa appends "?data=..." itself, so the success URL carries no query
+      success_url: returnUrl,
+      failure_url: `${returnUrl}?payment=failed`,
+    });
+
+    return {
+      next: { type: "form", action: form.action, fields: form.fields },
+      set: { esewaTransactionUuid: transactionUuid },
+    };
+  },
+
+  getReference(booking) {
+    return booking.esewaTransactionUuid;
+  },
+
+  async lookup(booking): Promise<PaymentLookupResult> {
+    if (!booking.esewaTransactionUuid) {
+      throw new Error("Booking has no eSewa payment");
+    }
+    const status = await esewaStatus(
+      booking.esewaTransactionUuid,
+      booking.paymentAmount ?? booking.amountPaid ?? 0
+    );
+
+    return {
+      outcome:
+        status.status === "COMPLETE"
+          ? "completed"
+          : FAILED_STATUSES.includes(status.status)
+            ? "failed"
+            : "pending",
+      status: status.status,
+      amount: Number(status.total_amount),
+      set: { esewaRefId: status.ref_id ?? undefined },
+    };
+  },
+};
@@ -0,0 +1,67 @@
+/**
+ * Payment provider registry.
+ *
+ * Every online payment goes through a `PaymentProvider`; routes pick one by
+ * the booking's `paymentMethod`, limited to the methods its station accepts.
+ */
+
+import { PAYMENT_METHODS, type IBookingDocument } from "@/lib/models/Booking";
+import { khaltiProvider } from "./khaltiProvider";
+import { esewaProvider } from "./esewaProvider";
+import { cashProvider } from "./cashProvider";
+import type {
+  PaymentInitiateResult,
+  PaymentMethod,
+  PaymentProvider,
+} from "./types";
+
+export type * from "./types";
+
+const PROVIDERS: Record<PaymentMethod, PaymentProvider> = {
+  khalti: khaltiProvider,
+  esewa: esewaProvider,
+  cash: cashProvider,
+};
+
+export const DEFAULT_PAYMENT_METHODS: PaymentMethod[] = ["khalti"];
+
+export function isPaymentMethod(value: unknown): value is PaymentMethod {
+  return PAYMENT_METHODS.includes(value as PaymentMethod);
+}
+
+/** Provider for a booking's payment method, or null for walk-in methods like "other" */
+export function getPaymentProvider(
+  method: string | undefined
+): PaymentProvider | null {
+  return isPaymentMethod(method) ? PROVIDERS[method] : null;
+}
+
+/** Methods a station accepts; stations that never chose default to Khalti */
+export function stationPaymentMethods(station: {
+  paymentMethods?: string[];
+}): PaymentMethod[] {
+  const methods = (station.paymentMethods ?? []).filter(isPaymentMethod);
+  return methods.length > 0 ? methods : DEFAULT_PAYMENT_METHODS;
+}
+
+/** Paid through an online provider — cash is settled at the station */
+export function hasOnlinePayment(booking: IBookingDocument): boolean {
+  const provider = getPaymentProvider(booking.paymentMethod);
+  return !!provider?.getReference(booking) && (booking.amountPaid ?? 0) > 0;
+}
+
+/** Response fields that tell the browser how to continue a checkout */
+export function checkoutResponse(payment: PaymentInitiateResult) {
+  return {
+    ...(payment.next.type === "redirect" && {
+      payment_url: payment.next.url,
+    }),
+    ...(payment.next.type === "form" && {
+      payment_form: {
+        action: payment.next.action,
+        fields: payment.next.fields,
+      },
+    }),
+    ...(payment.set.khaltiPidx && { pidx: payment.set.khaltiPidx }),
+  };
+}
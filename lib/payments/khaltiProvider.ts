@@ -0,0 +1,82 @@
+import { khaltiInitiate, khaltiLookup, khaltiRefund } from "@/lib/khalti";
+import { KHALTI_AMOUNT_UNIT } from "@/lib/constants";
+import type { PaymentLookupResult, PaymentProvider } from "./types";
+
+const FAILED_STATUSES = [
+  "User canceled",
+  "Expired",
+  "Refunded",
+  "Partially refunded",
+];
+
+export const khaltiProvider: PaymentProvider = {
+  method: "khalti",
+  label: "Khalti",
+
+  isConfigured() {
+    return !!process.env.KHALTI_SECRET_KEY;
+  },
+
+  async initiate({ booking, amount, orderName, customer, returnUrl, websiteUrl }) {
+    const res = await khaltiInitiate({
+      return_url: returnUrl,
+      website_url: websiteUrl,
+      amount: Math.round(amount * KHALTI_AMOUNT_UNIT),
+      purchase_order_id: String(booking._id),
+      purchase_order_name: orderName,
+      customer_info: customer,
+      merchant_booking_id: String(booking._id),
+      merchant_station_id: String(booking.stationId),
+      merchant_port_id: String(booking.portId),
+      merchant_start_time: booking.startTime.toISOString(),
+      merchant_estimated_duration: String(booking.estimatedDuration),
+    });
+
+    return {
+      next: { type: "redirect", url: res.payment_url },
+      set: { khaltiPidx: res.pidx },
+    };
+  },
+
+  getReference(booking) {
+    return booking.khaltiPidx;
+  },
+
+  async lookup(booking): Promise<PaymentLookupResult> {
+    if (!booking.khaltiPidx) {
+      throw new Error("Booking has no Khalti payment");
+    }
+    const lookup = await khaltiLookup(booking.khaltiPidx);
+
+    return {
+      outcome:
+        lookup.status === "Completed"
+          ? "completed"
+          : FAILED_STATUSES.includes(lookup.status)
+            ? "failed"
+            : "pending",
+      status: lookup.status,
+      amount: lookup.total_amount / KHALTI_AMOUNT_UNIT,
+      set: { khaltiTransactionId: lookup.transaction_id ?? undefined },
+    };
+  },
+
+  async refund(booking, { amount, isFull, mobile }) {
+    if (!booking.khaltiPidx) {
+      throw new Error("Booking has no Khalti payment to refund");
+    }
+
+    const transactionId =
+      booking.khaltiTransactionId ||
+      (await khaltiLookup(booking.khaltiPidx)).transaction_id;
+    if (!transactionId) {
+      throw new Error("Khalti transaction id not available");
+    }
+
+    const res = await khaltiRefund(
+      transactionId,
+      isFull ? {} : { amount: amount * KHALTI_AMOUNT_UNIT, mobile }
+    );
+    return res.idx;
+  },
+};
@@ -0,0 +1,84 @@
+import type { IBookingDocument, PaymentMethod } from "@/lib/models/Booking";
+
+export type { PaymentMethod };
+
+/** Booking fields a provider may write to record its payment references */
+export type PaymentBookingFields = Partial<
+  Pick<
+    IBookingDocument,
+    | "khaltiPidx"
+    | "khaltiTransactionId"
+    | "esewaTransactionUuid"
+    | "esewaRefId"
+  >
+>;
+
+export interface PaymentInitiateInput {
+  booking: IBookingDocument;
+  /** Amount to charge in NPR */
+  amount: number;
+  orderName: string;
+  customer: {
+    name: string;
+    email: string;
+    phone?: string;
+  };
+  /** Page the provider sends the driver back to once checkout ends */
+  returnUrl: string;
+  websiteUrl: string;
+}
+
+/**
+ * How the browser continues after initiate: follow a URL, post a signed
+ * form, or nothing at all when the provider settles without a checkout.
+ */
+export type PaymentNextAction =
+  | { type: "redirect"; url: string }
+  | { type: "form"; action: string; fields: Record<string, string> }
+  | { type: "none" };
+
+export interface PaymentInitiateResult {
+  next: PaymentNextAction;
+  /** References to save on the booking */
+  set: PaymentBookingFields;
+  /** The booking is paid for (or payment is deferred) and can be confirmed now */
+  confirmNow?: boolean;
+}
+
+export interface PaymentLookupResult {
+  outcome: "completed" | "pending" | "failed";
+  /** The provider's own status string, reported back to the client */
+  status: string;
+  /** Amount the provider says was paid, in NPR */
+  amount: number;
+  /** References to save when the booking is confirmed */
+  set?: PaymentBookingFields;
+}
+
+export interface PaymentRefundRequest {
+  /** Amount to return in NPR */
+  amount: number;
+  isFull: boolean;
+  /** Payer's mobile number, needed by some providers for partial refunds */
+  mobile?: string;
+}
+
+export interface PaymentProvider {
+  method: PaymentMethod;
+  label: string;
+  /** Whether the gateway credentials for this provider are present */
+  isConfigured(): boolean;
+  initiate(input: PaymentInitiateInput): Promise<PaymentInitiateResult>;
+  /** The provider's reference for a booking's payment, if one was started */
+  getReference(booking: IBookingDocument): string | undefined;
+  lookup(booking: IBookingDocument): Promise<PaymentLookupResult>;
+  /**
+   * Return money to the payer and resolve to the provider's refund id.
+   * Providers without a refund API leave this out; their refunds are paid
+   * out by the station by hand.
+   */
+  refund?(
+    booking: IBookingDocument,
+    request: PaymentRefundRequest
+  ): Promise<string>;
+}
@@ -0,0 +1,23 @@
+/**
+ * "Port became available" flow shared by hardware reports and the booking
+ * lifecycle: offers the port to the first driver in the station's virtual
+ * queue it fits (see lib/queue) and, if no one there takes it, alerts
+ * "Notify me when free" subscribers (see lib/portSubscriptions).
+ */
+
+import { offerPortToQueue } from "@/lib/queue";
+import { notifyPortSubscribers } from "@/lib/portSubscriptions";
+
+export async function handlePortAvailable(stationId: string, portId: string) {
+  try {
+    // ── Process virtual queue — offer the port to the first driver it fits ──
+    // Drivers in the queue have been waiting in line, so they come first
+    const turn = await offerPortToQueue(stationId, portId);
+    if (turn) return;
+
+    // ── Notify "Notify Me When Free" subscribers ──
+    await notifyPortSubscribers(stationId, portId);
+  } catch (error) {
+    console.error("Error handling port available:", error);
+  }
+}
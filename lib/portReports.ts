@@ -0,0 +1,103 @@
+/**
+ * Side effects of a hardware report on a port, shared by every hardware
+ * protocol (the signed JSON `port-update` route and OCPP charge points):
+ * broadcast the status, bill meter readings against the booking holding the
+ * port, persist the status and its history, ask the driver to move their
+ * car once charging is done and, once the port is free, notify subscribers
+ * and process the queue.
+ */
+
+import dbConnect from "@/lib/db";
+import Station from "@/lib/models/Station";
+import { broadcastPortUpdate } from "@/lib/realtime";
+import { handlePortAvailable } from "@/lib/portAvailability";
+import { recordMeterReport, type MeterReport } from "@/lib/metering";
+import { recordPortStatusChange } from "@/lib/portStatusHistory";
+import { notifyChargingComplete } from "@/lib/bookingReminders";
+
+export interface PortReport {
+  stationId: string;
+  portId: string;
+  /** New port status; meter-only reports leave the status alone */
+  status?: string;
+  event?: string;
+  /** kWh delivered so far in the current session */
+  energyKwh?: number;
+  session?: MeterReport["session"];
+}
+
+export async function applyPortReport(
+  report: PortReport,
+  now: Date = new Date()
+): Promise<void> {
+  const { stationId, portId, status, energyKwh, session } = report;
+  const fileBased = stationId.startsWith("station-");
+
+  // 1. Broadcast real-time SSE update immediately
+  if (status) {
+    await broadcastPortUpdate({
+      stationId,
+      portId,
+      status,
+      event: report.event || "status_change",
+      timestamp: now.toISOString(),
+    });
+  }
+
+  // 2. Record meter readings against the booking holding the port.
+  // A disconnect completes that booking, which already frees the port.
+  let completedByMeter = false;
+  if (!fileBased && (session || energyKwh != null)) {
+    try {
+      await dbConnect();
+      const booking = await recordMeterReport({
+        stationId,
+        portId,
+        energyKwh,
+        session,
+        at: now,
+      });
+      completedByMeter =
+        session === "disconnect" && booking?.status === "completed";
+    } catch (error) {
+      console.error("Failed to record meter reading:", error);
+    }
+  }
+
+  // 3. The car is done but still plugged in — tell the driver to move it
+  if (report.event === "charging_complete") {
+    await notifyChargingComplete(stationId, portId, now);
+  }
+
+  if (!status) return;
+
+  // 4. Update DB station (skip for file-based stations)
+  if (!fileBased) {
+    try {
+      await dbConnect();
+      const before = await Station.findOneAndUpdate(
+        { _id: stationId, "chargingPorts._id": portId },
+        { $set: { "chargingPorts.$.status": status } },
+        { projection: { "chargingPorts.$": 1 } }
+      ).lean();
+      if (before) {
+        await recordPortStatusChange({
+          stationId,
+          portId,
+          source: "hardware",
+          previousStatus: before.chargingPorts[0]?.status,
+          status,
+          event: report.event,
+          at: now,
+        });
+      }
+    } catch {
+      // DB update failed — SSE broadcast already sent
+    }
+  }
+
+  // 5. If port became available, notify subscribers and process queue
+  if (status === "available" && !completedByMeter) {
+    await handlePortAvailable(stationId, portId);
+  }
+}
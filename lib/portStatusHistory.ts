@@ -0,0 +1,303 @@
+/**
+ * History of port status changes and the uptime figures derived from it.
+ *
+ * Every place that writes `chargingPorts.$.status` — hardware reports, the
+ * device watchdog, operators, the booking lifecycle and queue turns — records
+ * the change here with the status it replaced. A port's time in each status over a
+ * window follows from its status at the start of the window and the changes
+ * within it; ports with no recorded change are taken to have held their
+ * current status throughout.
+ */
+
+import mongoose from "mongoose";
+import dbConnect from "@/lib/db";
+import Station from "@/lib/models/Station";
+import PortStatusEvent, {
+  type IPortStatusEventDocument,
+  type PortStatusSource,
+} from "@/lib/models/PortStatusEvent";
+import type { IUserDocument } from "@/lib/models/User";
+import { canOperate } from "@/lib/stationOperators";
+import {
+  MS_PER_DAY,
+  PORT_HISTORY_DEFAULT_DAYS,
+  PORT_HISTORY_MAX_DAYS,
+  PORT_TIMELINE_LIMIT,
+} from "@/lib/constants";
+
+export type { PortStatusSource };
+
+export class PortHistoryError extends Error {
+  constructor(
+    message: string,
+    public readonly httpStatus: number = 400
+  ) {
+    super(message);
+    this.name = "PortHistoryError";
+  }
+}
+
+export interface PortStatusChange {
+  stationId: string;
+  portId: string;
+  source: PortStatusSource;
+  previousStatus?: string;
+  status: string;
+  event?: string;
+  actorId?: string;
+  at?: Date;
+}
+
+/** Time a port spent in each status over a window */
+export interface PortUptime {
+  /** Time covered by the figures below; less than the window for new ports */
+  trackedMs: number;
+  msByStatus: Record<string, number>;
+  /** Share of tracked time the port was free to book */
+  availabilityPercent: number;
+  /** Share of tracked time the port was neither in maintenance nor offline */
+  uptimePercent: number;
+  /** Share of tracked time the port was occupied, i.e. charging */
+  utilizationPercent: number;
+  /**
+   * Share of tracked time the port was reserved — held for a booking or a
+   * queue turn, whether or not the driver came
+   */
+  reservedPercent: number;
+  maintenancePeriods: number;
+  meanMaintenanceMs: number;
+  changes: number;
+}
+
+export interface PortHistory extends PortUptime {
+  portId: string;
+  portNumber: string;
+  status: string;
+  /** Most recent changes first */
+  timeline: IPortStatusEventDocument[];
+}
+
+export interface StationPortHistory {
+  from: Date;
+  to: Date;
+  ports: PortHistory[];
+}
+
+type TimelineEntry = Pick<IPortStatusEventDocument, "previousStatus" | "status" | "at">;
+
+/**
+ * Record a status change; no-op when the status didn't change. Failures are
+ * logged, never thrown — the change itself has already been made.
+ */
+export async function recordPortStatusChange(change: PortStatusChange): Promise<void> {
+  if (change.previousStatus === change.status) return;
+  try {
+    await dbConnect();
+    await PortStatusEvent.create({ ...change, at: change.at ?? new Date() });
+  } catch (error) {
+    console.error("Failed to record port status change:", error);
+  }
+}
+
+function percent(part: number, whole: number): number {
+  return whole > 0 ? Math.round((part / whole) * 10000) / 100 : 0;
+}
+
+/**
+ * Time in each status between `from` and `to`, given the port's status at
+ * `from` (undefined if unknown) and its changes in that window, oldest first
+ */
+export function summarizePortTimeline(
+  initialStatus: string | undefined,
+  changes: TimelineEntry[],
+  from: Date,
+  to: Date
+): PortUptime {
+  const msByStatus: Record<string, number> = {};
+  let status = initialStatus ?? changes[0]?.previousStatus;
+  let since = from.getTime();
+  let maintenancePeriods = status === "maintenance" ? 1 : 0;
+
+  const advance = (until: number) => {
+    if (status && until > since) {
+      msByStatus[status] = (msByStatus[status] ?? 0) + until - since;
+    }
+    since = Math.max(since, until);
+  };
+
+  for (const change of changes) {
+    advance(change.at.getTime());
+    if (change.status === "maintenance" && status !== "maintenance") {
+      maintenancePeriods++;
+    }
+    status = change.status;
+  }
+  advance(to.getTime());
+
+  const trackedMs = Object.values(msByStatus).reduce((sum, ms) => sum + ms, 0);
+  const ms = (...statuses: string[]) =>
+    statuses.reduce((sum, s) => sum + (msByStatus[s] ?? 0), 0);
+
+  return {
+    trackedMs,
+    msByStatus,
+    availabilityPercent: percent(ms("available"), trackedMs),
+    uptimePercent: percent(trackedMs - ms("maintenance", "offline"), trackedMs),
+    utilizationPercent: percent(ms("occupied"), trackedMs),
+    reservedPercent: percent(ms("reserved"), trackedMs),
+    maintenancePeriods,
+    meanMaintenanceMs: maintenancePeriods
+      ? Math.round(ms("maintenance") / maintenancePeriods)
+      : 0,
+    changes: changes.length,
+  };
+}
+
+/** Each port's last recorded status before `at`, keyed by station and port */
+async function statusesBefore(
+  stationIds: string[],
+  at: Date
+): Promise<Map<string, string>> {
+  const latest: { _id: { stationId: string; portId: string }; status: string }[] =
+    await PortStatusEvent.aggregate([
+      { $match: { stationId: { $in: stationIds }, at: { $lt: at } } },
+      { $sort: { at: -1 } },
+      {
+        $group: {
+          _id: { stationId: "$stationId", portId: "$portId" },
+          status: { $first: "$status" },
+        },
+      },
+    ]);
+  return new Map(latest.map((l) => [`${l._id.stationId}:${l._id.portId}`, l.status]));
+}
+
+async function changesBetween(
+  stationIds: string[],
+  from: Date,
+  to: Date
+): Promise<Map<string, TimelineEntry[]>> {
+  const changes = await PortStatusEvent.find({
+    stationId: { $in: stationIds },
+    at: { $gte: from, $lte: to },
+  })
+    .sort({ at: 1 })
+    .select("stationId portId previousStatus status at")
+    .lean();
+
+  const byPort = new Map<string, TimelineEntry[]>();
+  for (const change of changes) {
+    const key = `${change.stationId}:${change.portId}`;
+    const entries = byPort.get(key) ?? [];
+    entries.push(change);
+    byPort.set(key, entries);
+  }
+  return byPort;
+}
+
+interface TrackedPort {
+  stationId: string;
+  portId: string;
+  /** Current status, assumed throughout for ports with no history */
+  status: string;
+}
+
+async function summarizePorts(
+  ports: TrackedPort[],
+  from: Date,
+  to: Date
+): Promise<PortUptime[]> {
+  const stationIds = [...new Set(ports.map((p) => p.stationId))];
+  const [before, within] = await Promise.all([
+    statusesBefore(stationIds, from),
+    changesBetween(stationIds, from, to),
+  ]);
+
+  return ports.map((port) => {
+    const key = `${port.stationId}:${port.portId}`;
+    const changes = within.get(key) ?? [];
+    const initial = before.get(key) ?? (changes.length === 0 ? port.status : undefined);
+    return summarizePortTimeline(initial, changes, from, to);
+  });
+}
+
+/**
+ * Share of port time spent occupied (charging) across the matching
+ * stations, from their recorded status changes
+ */
+export async function getUtilizationRate(
+  stationFilter: Record<string, unknown>,
+  from: Date,
+  to: Date = new Date()
+): Promise<number> {
+  await dbConnect();
+  const stations = await Station.find(stationFilter)
+    .select("chargingPorts._id chargingPorts.status")
+    .lean();
+  const ports = stations.flatMap((station) =>
+    station.chargingPorts.map((port) => ({
+      stationId: String(station._id),
+      portId: String(port._id),
+      status: port.status,
+    }))
+  );
+
+  const uptimes = await summarizePorts(ports, from, to);
+  const tracked = uptimes.reduce((sum, u) => sum + u.trackedMs, 0);
+  // Reserved time isn't use: no-shows and queue holds would inflate it
+  const utilized = uptimes.reduce((sum, u) => sum + (u.msByStatus.occupied ?? 0), 0);
+  return percent(utilized, tracked);
+}
+
+/** Uptime figures and recent status changes of every port of a station */
+export async function getStationPortHistory(
+  operator: IUserDocument,
+  stationId: string,
+  days: number = PORT_HISTORY_DEFAULT_DAYS,
+  now: Date = new Date()
+): Promise<StationPortHistory> {
+  if (!Number.isInteger(days) || days < 1 || days > PORT_HISTORY_MAX_DAYS) {
+    throw new PortHistoryError(`days must be between 1 and ${PORT_HISTORY_MAX_DAYS}`);
+  }
+
+  const station = mongoose.isValidObjectId(stationId)
+    ? await Station.findById(stationId)
+    : null;
+  if (!station) {
+    throw new PortHistoryError("Station not found", 404);
+  }
+  if (!canOperate(operator, station)) {
+    throw new PortHistoryError("You can only manage your own stations", 403);
+  }
+
+  const from = new Date(now.getTime() - days * MS_PER_DAY);
+  const ports = station.chargingPorts.map((port) => ({
+    stationId,
+    portId: String(port._id),
+    portNumber: port.portNumber,
+    status: port.status,
+  }));
+
+  const [uptimes, timelines] = await Promise.all([
+    summarizePorts(ports, from, now),
+    Promise.all(
+      ports.map((port) =>
+        PortStatusEvent.find({ stationId, portId: port.portId, at: { $gte: from } })
+          .sort({ at: -1 })
+          .limit(PORT_TIMELINE_LIMIT)
+      )
+    ),
+  ]);
+
+  return {
+    from,
+    to: now,
+    ports: ports.map(({ portId, portNumber, status }, i) => ({
+      portId,
+      portNumber,
+      status,
+      ...uptimes[i],
+      timeline: timelines[i],
+    })),
+  };
+}
@@ -0,0 +1,307 @@
+/**
+ * "Notify me when free" subscriptions. A driver can scope one to a connector
+ * type (by default their vehicle's), a minimum power, a single port and a
+ * daily time window in Nepal time; it lapses after `expiresInHours`.
+ *
+ * When a port frees up, each free port at the station is announced to at
+ * most one subscriber — the earliest one it fits — and isn't announced
+ * again, even if it's reported free again, for PORT_ALERT_COOLDOWN_MINUTES,
+ * so a single free port doesn't wake everyone watching the station. Alerts
+ * are one-shot: an alerted subscription ends, while subscribers no free port
+ * fits, or outside their window, keep waiting.
+ */
+
+import dbConnect from "@/lib/db";
+import PortSubscription, {
+  type IPortSubscriptionDocument,
+  type PortSubscriptionWindow,
+} from "@/lib/models/PortSubscription";
+import User from "@/lib/models/User";
+import { loadQueueStation, portFits, portKey, type QueuePort } from "@/lib/queue";
+import { notify } from "@/lib/notifications";
+import { parseTimeOfDay, toNepalClock } from "@/lib/utils";
+import {
+  MS_PER_HOUR,
+  MS_PER_MINUTE,
+  PORT_ALERT_COOLDOWN_MINUTES,
+  PORT_SUBSCRIPTION_DEFAULT_HOURS,
+  PORT_SUBSCRIPTION_MAX_HOURS,
+} from "@/lib/constants";
+
+export class PortSubscriptionError extends Error {
+  constructor(
+    message: string,
+    public readonly httpStatus: number = 400
+  ) {
+    super(message);
+    this.name = "PortSubscriptionError";
+  }
+}
+
+export interface PortSubscriptionInput {
+  /** "any" accepts every connector; omitted, the driver's vehicle decides */
+  connectorType?: string;
+  minPowerKw?: number;
+  portId?: string;
+  window?: PortSubscriptionWindow;
+  expiresInHours?: number;
+}
+
+export interface PortSubscriptionStatus {
+  subscribed: boolean;
+  subscription: {
+    connectorType: string | null;
+    minPowerKw: number | null;
+    portId: string | null;
+    window: PortSubscriptionWindow | null;
+    expiresAt: Date;
+  } | null;
+}
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+type SubscriptionFilters = Pick<
+  IPortSubscriptionDocument,
+  "connectorType" | "minPowerKw" | "portId" | "window"
+>;
+
+/** Validate the body of a subscribe request */
+export function parsePortSubscription(input: unknown): PortSubscriptionInput {
+  const body = (input ?? {}) as Record<string, unknown>;
+  const parsed: PortSubscriptionInput = {};
+
+  if (body.connectorType != null && body.connectorType !== "") {
+    if (typeof body.connectorType !== "string") {
+      throw new PortSubscriptionError("connectorType must be a string");
+    }
+    parsed.connectorType = body.connectorType;
+  }
+  if (body.minPowerKw != null && body.minPowerKw !== "") {
+    const minPowerKw = Number(body.minPowerKw);
+    if (!Number.isFinite(minPowerKw) || minPowerKw < 0) {
+      throw new PortSubscriptionError("minPowerKw must be positive");
+    }
+    if (minPowerKw > 0) parsed.minPowerKw = minPowerKw;
+  }
+  if (body.portId != null && body.portId !== "") {
+    if (typeof body.portId !== "string") {
+      throw new PortSubscriptionError("portId must be a string");
+    }
+    parsed.portId = body.portId;
+  }
+  if (body.window != null) {
+    const { start, end } = body.window as Record<string, unknown>;
+    if (typeof start !== "string" || !TIME_OF_DAY.test(start) || typeof end !== "string" || !TIME_OF_DAY.test(end)) {
+      throw new PortSubscriptionError("The time window needs a start and end as HH:mm");
+    }
+    if (start === end) {
+      throw new PortSubscriptionError("The time window must start and end at different times");
+    }
+    parsed.window = { start, end };
+  }
+  if (body.expiresInHours != null) {
+    const hours = Number(body.expiresInHours);
+    if (!Number.isFinite(hours) || hours <= 0 || hours > PORT_SUBSCRIPTION_MAX_HOURS) {
+      throw new PortSubscriptionError(
+        `expiresInHours must be between 0 and ${PORT_SUBSCRIPTION_MAX_HOURS}`
+      );
+    }
+    parsed.expiresInHours = hours;
+  }
+  return parsed;
+}
+
+/** Whether `now` falls in the subscriber's daily window; no window is always */
+function inWindow(window: PortSubscriptionWindow | undefined, now: Date): boolean {
+  if (!window) return true;
+  const start = parseTimeOfDay(window.start);
+  const end = parseTimeOfDay(window.end);
+  const { minutes } = toNepalClock(now);
+  return start < end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+}
+
+function subscriptionFits(sub: SubscriptionFilters, port: QueuePort): boolean {
+  if (sub.portId && sub.portId !== portKey(port)) return false;
+  return portFits(port, sub);
+}
+
+function toStatus(sub: IPortSubscriptionDocument | null): PortSubscriptionStatus {
+  if (!sub) return { subscribed: false, subscription: null };
+  return {
+    subscribed: true,
+    subscription: {
+      connectorType: sub.connectorType ?? null,
+      minPowerKw: sub.minPowerKw ?? null,
+      portId: sub.portId ?? null,
+      window: sub.window ? { start: sub.window.start, end: sub.window.end } : null,
+      expiresAt: sub.expiresAt,
+    },
+  };
+}
+
+/** The user's live subscription at a station, if any */
+export async function getPortSubscription(
+  stationId: string,
+  userId: string,
+  now: Date = new Date()
+): Promise<PortSubscriptionStatus> {
+  await dbConnect();
+  const sub = await PortSubscription.findOne({
+    userId,
+    stationId,
+    active: true,
+    expiresAt: { $gt: now },
+  });
+  return toStatus(sub);
+}
+
+/**
+ * Subscribe to a station's ports, replacing the user's previous filters
+ * there. Without a connector the driver's vehicle connector is used, if
+ * their profile has one; `connectorType: "any"` accepts every port.
+ */
+export async function subscribeToPorts(
+  stationId: string,
+  userId: string,
+  input: PortSubscriptionInput = {},
+  now: Date = new Date()
+): Promise<PortSubscriptionStatus> {
+  await dbConnect();
+
+  const station = await loadQueueStation(stationId);
+  if (!station) {
+    throw new PortSubscriptionError("Station not found", 404);
+  }
+
+  let connectorType = input.connectorType?.trim().toLowerCase();
+  if (!connectorType) {
+    const user = await User.findOne({ clerkId: userId }).select("vehicleInfo").lean();
+    connectorType = user?.vehicleInfo?.connectorType?.toLowerCase() || undefined;
+  }
+  if (connectorType === "any") connectorType = undefined;
+
+  let portId: string | undefined;
+  if (input.portId) {
+    const port = station.ports.find(
+      (p) => portKey(p) === input.portId || p.portNumber === input.portId
+    );
+    if (!port) {
+      throw new PortSubscriptionError("Port not found", 404);
+    }
+    portId = portKey(port);
+  }
+
+  const filters: SubscriptionFilters = {
+    connectorType,
+    minPowerKw: input.minPowerKw,
+    portId,
+    window: input.window,
+  };
+  if (!station.ports.some((port) => subscriptionFits(filters, port))) {
+    throw new PortSubscriptionError("No port at this station fits your vehicle", 422);
+  }
+
+  const hours = input.expiresInHours ?? PORT_SUBSCRIPTION_DEFAULT_HOURS;
+  const $set: Record<string, unknown> = {
+    active: true,
+    subscribedAt: now,
+    expiresAt: new Date(now.getTime() + hours * MS_PER_HOUR),
+  };
+  const $unset: Record<string, true> = {};
+  for (const [key, value] of Object.entries(filters)) {
+    if (value === undefined) $unset[key] = true;
+    else $set[key] = value;
+  }
+
+  const sub = await PortSubscription.findOneAndUpdate(
+    { userId, stationId },
+    { $set, $unset },
+    { upsert: true, new: true }
+  );
+  return toStatus(sub);
+}
+
+export async function unsubscribeFromPorts(
+  stationId: string,
+  userId: string
+): Promise<void> {
+  await dbConnect();
+  await PortSubscription.updateOne(
+    { userId, stationId },
+    { $set: { active: false } }
+  );
+}
+
+/**
+ * Tell subscribers that a port at the station is free: every free port goes
+ * to the earliest subscriber it fits, as long as the freed port fits them.
+ * Returns how many subscribers were alerted.
+ */
+export async function notifyPortSubscribers(
+  stationId: string,
+  portId: string,
+  now: Date = new Date()
+): Promise<number> {
+  await dbConnect();
+  const station = await loadQueueStation(stationId);
+  const freed = station?.ports.find((p) => portKey(p) === portId || p.portNumber === portId);
+  if (!station || !freed) return 0;
+
+  const subscribers = await PortSubscription.find({
+    stationId,
+    active: true,
+    expiresAt: { $gt: now },
+  })
+    .sort({ subscribedAt: 1 })
+    .lean();
+  const candidates = subscribers.filter(
+    (sub) => subscriptionFits(sub, freed) && inWindow(sub.window, now)
+  );
+  if (candidates.length === 0) return 0;
+
+  // A port just announced to someone is theirs to book for a few minutes
+  const announced = new Set<string>(
+    await PortSubscription.distinct("notifiedPortId", {
+      stationId,
+      notifiedAt: { $gt: new Date(now.getTime() - PORT_ALERT_COOLDOWN_MINUTES * MS_PER_MINUTE) },
+    })
+  );
+  // A device re-reporting "available" doesn't reach past the cooldown
+  if (announced.has(portKey(freed))) return 0;
+  // The freed port first, then the others still free
+  const free = [
+    freed,
+    ...station.ports.filter(
+      (p) => p !== freed && p.status === "available" && !announced.has(portKey(p))
+    ),
+  ];
+
+  let notified = 0;
+  for (const sub of candidates) {
+    if (free.length === 0) break;
+    const idx = free.findIndex((port) => subscriptionFits(sub, port));
+    if (idx < 0) continue;
+    const port = free[idx];
+
+    // Claim the subscription, in case another report for the station races us
+    const claimed = await PortSubscription.findOneAndUpdate(
+      { _id: sub._id, active: true },
+      { $set: { active: false, notifiedPortId: portKey(port), notifiedAt: now } }
+    );
+    if (!claimed) continue;
+    free.splice(idx, 1);
+
+    await notify({
+      type: "port_available",
+      userId: sub.userId,
+      stationId,
+      stationName: station.name,
+      portId: portKey(port),
+      portNumber: port.portNumber,
+    });
+    notified++;
+  }
+  return notified;
+}
@@ -0,0 +1,215 @@
+/**
+ * Pricing rules engine — turns a station's tariff and rules into an itemized
+ * quote for an exact slot on an exact port.
+ *
+ * Rules layer on top of the tariff's base charge in a fixed order:
+ * time-of-use windows and weekend rates (weighted by how much of the slot
+ * they cover, in Nepal time), then the AC/DC port multiplier, then a promo
+ * discount. Idle fees are not part of the quote; they are billed when the
+ * session completes. check-availability, payments/initiate and final billing
+ * all price through `quoteSession`, so a driver is charged what was quoted.
+ */
+
+import {
+  estimateSessionCost,
+  meteredSessionCost,
+  describeTariff,
+  type StationTariff,
+} from "@/lib/tariff";
+import { parseTimeOfDay, toNepalClock } from "@/lib/utils";
+import { MS_PER_MINUTE } from "@/lib/constants";
+
+export interface TimeOfUseWindow {
+  label: string;
+  /** Days of week (0 = Sunday) the window applies to; empty = every day */
+  days: number[];
+  /** "HH:mm" Nepal time; a window with end <= start runs past midnight */
+  start: string;
+  end: string;
+  multiplier: number;
+}
+
+export interface PromoCode {
+  code: string;
+  percentOff: number;
+  validFrom?: Date | string;
+  validUntil?: Date | string;
+  active: boolean;
+}
+
+export interface PricingRules {
+  timeOfUse: TimeOfUseWindow[];
+  weekend: { days: number[]; multiplier: number };
+  portMultipliers: { ac: number; dc: number };
+  idleFee: { perMinute: number; graceMinutes: number };
+  promos: PromoCode[];
+}
+
+export const DEFAULT_PRICING_RULES: PricingRules = {
+  timeOfUse: [],
+  weekend: { days: [6], multiplier: 1 },
+  portMultipliers: { ac: 1, dc: 1 },
+  idleFee: { perMinute: 0, graceMinutes: 10 },
+  promos: [],
+};
+
+export interface QuoteLineItem {
+  label: string;
+  amount: number;
+}
+
+export interface PriceQuote {
+  lineItems: QuoteLineItem[];
+  total: number;
+  promoCode?: string;
+  promoPercentOff?: number;
+  /** Charged per minute a vehicle stays plugged in after charging completes */
+  idleFee?: { perMinute: number; graceMinutes: number };
+  currency: "NPR";
+}
+
+export interface QuoteInput {
+  tariff: StationTariff;
+  rules?: Partial<PricingRules>;
+  port: { chargerType?: string; connectorType?: string; powerOutput?: string };
+  start: Date;
+  durationMinutes: number;
+  /** Metered energy for a final bill; omit for an up-front estimate */
+  energyKwh?: number;
+  promoCode?: string;
+  now?: Date;
+}
+
+export class PromoCodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PromoCodeError";
+  }
+}
+
+const DC_CONNECTORS = ["ccssae", "chademo"];
+
+export function isDcPort(port: QuoteInput["port"]): boolean {
+  if (port.chargerType) {
+    if (/dc/i.test(port.chargerType)) return true;
+    if (/ac/i.test(port.chargerType)) return false;
+  }
+  return DC_CONNECTORS.includes(port.connectorType ?? "");
+}
+
+function inWindow(window: TimeOfUseWindow, day: number, minutes: number): boolean {
+  if (window.days.length > 0 && !window.days.includes(day)) return false;
+  const start = parseTimeOfDay(window.start);
+  const end = parseTimeOfDay(window.end);
+  return start < end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+}
+
+function findPromo(
+  promos: PromoCode[],
+  code: string,
+  now: Date
+): PromoCode {
+  const promo = promos.find(
+    (p) => p.code.toUpperCase() === code.trim().toUpperCase()
+  );
+  if (!promo || !promo.active) {
+    throw new PromoCodeError("Promo code is not valid for this station");
+  }
+  if (
+    (promo.validFrom && now < new Date(promo.validFrom)) ||
+    (promo.validUntil && now > new Date(promo.validUntil))
+  ) {
+    throw new PromoCodeError("Promo code has expired or is not active yet");
+  }
+  return promo;
+}
+
+/**
+ * Price a session. Throws PromoCodeError when a promo code is given but
+ * can't be applied.
+ */
+export function quoteSession(input: QuoteInput): PriceQuote {
+  const rules: PricingRules = { ...DEFAULT_PRICING_RULES, ...input.rules };
+  const { tariff, port, start, durationMinutes } = input;
+
+  const base =
+    input.energyKwh != null
+      ? meteredSessionCost(tariff, { energyKwh: input.energyKwh, durationMinutes })
+      : estimateSessionCost(tariff, durationMinutes, port.powerOutput);
+
+  const lineItems: QuoteLineItem[] = [
+    { label: `Charging (${describeTariff(tariff)})`, amount: base },
+  ];
+
+  // Time-of-use and weekend rates: weight each multiplier by the minutes it covers
+  const covered = new Map<string, { minutes: number; multiplier: number }>();
+  let weekendMinutes = 0;
+  for (let i = 0; i < durationMinutes; i++) {
+    const { day, minutes } = toNepalClock(
+      new Date(start.getTime() + i * MS_PER_MINUTE)
+    );
+    const window = rules.timeOfUse.find((w) => inWindow(w, day, minutes));
+    if (window && window.multiplier !== 1) {
+      const key = `${window.label} (${window.start}–${window.end})`;
+      const entry = covered.get(key) ?? { minutes: 0, multiplier: window.multiplier };
+      entry.minutes++;
+      covered.set(key, entry);
+    }
+    if (rules.weekend.days.includes(day)) weekendMinutes++;
+  }
+  if (weekendMinutes > 0 && rules.weekend.multiplier !== 1) {
+    covered.set("Weekend rate", {
+      minutes: weekendMinutes,
+      multiplier: rules.weekend.multiplier,
+    });
+  }
+  for (const [label, { minutes, multiplier }] of covered) {
+    const amount = Math.round(
+      base * (minutes / durationMinutes) * (multiplier - 1)
+    );
+    if (amount !== 0) {
+      lineItems.push({ label: `${label} ×${multiplier}`, amount });
+    }
+  }
+
+  // Port type multiplier applies to the time-adjusted charge
+  const dc = isDcPort(port);
+  const portMultiplier = dc ? rules.portMultipliers.dc : rules.portMultipliers.ac;
+  if (portMultiplier !== 1) {
+    const timeAdjusted = lineItems.reduce((sum, item) => sum + item.amount, 0);
+    lineItems.push({
+      label: `${dc ? "DC fast" : "AC"} charging ×${portMultiplier}`,
+      amount: Math.round(timeAdjusted * (portMultiplier - 1)),
+    });
+  }
+
+  let promoCode: string | undefined;
+  let promoPercentOff: number | undefined;
+  if (input.promoCode?.trim()) {
+    const promo = findPromo(rules.promos, input.promoCode, input.now ?? new Date());
+    const subtotal = lineItems.reduce((sum, item) => sum + item.amount, 0);
+    const percent = Math.max(0, Math.min(100, promo.percentOff));
+    promoCode = promo.code;
+    promoPercentOff = percent;
+    lineItems.push({
+      label: `Promo ${promo.code} (−${percent}%)`,
+      amount: -Math.round((subtotal * percent) / 100),
+    });
+  }
+
+  const total = Math.max(
+    0,
+    lineItems.reduce((sum, item) => sum + item.amount, 0)
+  );
+
+  return {
+    lineItems,
+    total,
+    promoCode,
+    promoPercentOff,
+    ...(rules.idleFee.perMinute > 0 && { idleFee: rules.idleFee }),
+    currency: "NPR",
+  };
+}
@@ -0,0 +1,591 @@
+/**
+ * Virtual queue of drivers waiting for a port at a busy station.
+ *
+ * Each entry may ask for a connector type and a minimum power (by default
+ * the connector of the driver's vehicle), and a freed port is offered to the
+ * first waiting driver it fits, not simply the first in line. Wait estimates
+ * replay the queue against the station's ports: each port frees up when the
+ * booking holding it ends — or after a typical session at the station, from
+ * its recent completed bookings — and then serves the next driver it fits.
+ *
+ * The port offered to a driver is held for them — reserved, with no booking —
+ * for QUEUE_TURN_MINUTES; lib/queueTurns ends turns that run out and hands
+ * the port on. Drivers who keep letting their turn run out are barred from
+ * queueing for a while.
+ */
+
+import dbConnect from "@/lib/db";
+import Station from "@/lib/models/Station";
+import Booking from "@/lib/models/Booking";
+import Queue, { type IQueueDocument } from "@/lib/models/Queue";
+import User from "@/lib/models/User";
+import { loadStationFromFile } from "@/lib/stations";
+import { getOpenState } from "@/lib/operatingHours";
+import { parsePowerKw } from "@/lib/tariff";
+import { broadcastPortUpdate, broadcastQueueUpdate } from "@/lib/realtime";
+import { notify } from "@/lib/notifications";
+import { recordPortStatusChange } from "@/lib/portStatusHistory";
+import { formatNepalTime } from "@/lib/utils";
+import {
+  DEFAULT_PORT_POWER_KW,
+  MS_PER_DAY,
+  MS_PER_HOUR,
+  MS_PER_MINUTE,
+  QUEUE_DEFAULT_SESSION_MINUTES,
+  QUEUE_MISSED_TURN_LIMIT,
+  QUEUE_MISSED_TURN_WINDOW_DAYS,
+  QUEUE_PENALTY_HOURS,
+  QUEUE_SESSION_HISTORY_DAYS,
+  QUEUE_TURN_MINUTES,
+} from "@/lib/constants";
+
+export class QueueError extends Error {
+  constructor(
+    message: string,
+    public readonly httpStatus: number = 400
+  ) {
+    super(message);
+    this.name = "QueueError";
+  }
+}
+
+/** What a driver's vehicle needs from a port */
+export interface QueuePreferences {
+  connectorType?: string;
+  minPowerKw?: number;
+}
+
+export interface QueuePort {
+  _id?: unknown;
+  portNumber: string;
+  connectorType: string;
+  powerOutput: string;
+  status: string;
+  currentBookingId?: unknown;
+}
+
+export interface QueueStation {
+  name: string;
+  open: boolean;
+  ports: QueuePort[];
+}
+
+export interface QueueStatus {
+  queue: {
+    position: number;
+    userName: string;
+    status: string;
+    connectorType: string | null;
+    joinedAt: Date;
+  }[];
+  totalInQueue: number;
+  userPosition: number | null;
+  userStatus: string | null;
+  userExpiresAt: Date | null;
+  estimatedWaitMin: number | null;
+  /** Until when the user may not queue, after missing too many turns */
+  penaltyUntil: Date | null;
+}
+
+export const ACTIVE_STATUSES = ["waiting", "notified"];
+// Ports that will serve drivers again without an operator stepping in
+const IN_SERVICE_STATUSES = ["available", "occupied", "reserved"];
+
+export function portKey(port: QueuePort): string {
+  return String(port._id ?? port.portNumber);
+}
+
+function portPowerKw(port: QueuePort): number {
+  return parsePowerKw(port.powerOutput) ?? DEFAULT_PORT_POWER_KW;
+}
+
+/** Whether a port suits a driver's vehicle; connector types compare case-insensitively */
+export function portFits(port: QueuePort, preferences: QueuePreferences): boolean {
+  if (
+    preferences.connectorType &&
+    port.connectorType.toLowerCase() !== preferences.connectorType.toLowerCase()
+  ) {
+    return false;
+  }
+  return !preferences.minPowerKw || portPowerKw(port) >= preferences.minPowerKw;
+}
+
+export async function loadQueueStation(stationId: string): Promise<QueueStation | null> {
+  if (stationId.startsWith("station-")) {
+    const station = loadStationFromFile(stationId);
+    return station && { name: station.name, open: true, ports: station.chargingPorts };
+  }
+  const station = await Station.findById(stationId)
+    .select("name operatingHours closures chargingPorts")
+    .lean()
+    .catch(() => null);
+  return (
+    station && {
+      name: station.name,
+      open: getOpenState(station).open,
+      ports: station.chargingPorts,
+    }
+  );
+}
+
+/** Average length of the station's recently completed sessions, in minutes */
+async function typicalSessionMinutes(stationId: string, now: Date): Promise<number> {
+  if (stationId.startsWith("station-")) return QUEUE_DEFAULT_SESSION_MINUTES;
+
+  const [history] = await Booking.aggregate<{ minutes: number }>([
+    {
+      $match: {
+        stationId,
+        status: "completed",
+        endTime: { $gte: new Date(now.getTime() - QUEUE_SESSION_HISTORY_DAYS * MS_PER_DAY) },
+      },
+    },
+    {
+      $group: {
+        _id: null,
+        minutes: { $avg: { $ifNull: ["$metering.durationMinutes", "$estimatedDuration"] } },
+      },
+    },
+  ]);
+  return history?.minutes > 0 ? history.minutes : QUEUE_DEFAULT_SESSION_MINUTES;
+}
+
+/**
+ * Minutes each waiting entry can expect to wait, by entry id; null for
+ * entries no port in service fits. Entries must be in queue order.
+ */
+async function estimateWaits(
+  stationId: string,
+  station: QueueStation,
+  entries: IQueueDocument[],
+  now: Date
+): Promise<Map<string, number | null>> {
+  const sessionMs = (await typicalSessionMinutes(stationId, now)) * MS_PER_MINUTE;
+
+  const heldBy = station.ports
+    .filter((port) => port.currentBookingId != null)
+    .map((port) => String(port.currentBookingId));
+  const holding = heldBy.length
+    ? await Booking.find({ _id: { $in: heldBy }, status: { $in: ["confirmed", "active"] } })
+        .select("endTime")
+        .lean()
+    : [];
+  const endOf = new Map(holding.map((b) => [String(b._id), new Date(b.endTime).getTime()]));
+  // Ports offered to a notified driver are taken for a session from now
+  const offered = new Set(
+    entries.filter((e) => e.status === "notified" && e.portId).map((e) => e.portId)
+  );
+
+  const ports = station.ports
+    .filter((port) => IN_SERVICE_STATUSES.includes(port.status))
+    .map((port) => {
+      let freeAt = now.getTime();
+      if (offered.has(portKey(port))) {
+        freeAt += sessionMs;
+      } else if (port.status !== "available") {
+        const bookingEnd = endOf.get(String(port.currentBookingId));
+        freeAt = bookingEnd ? Math.max(bookingEnd, freeAt) : freeAt + sessionMs;
+      }
+      return { port, freeAt };
+    });
+
+  const waits = new Map<string, number | null>();
+  for (const entry of entries) {
+    if (entry.status !== "waiting") continue;
+    const fitting = ports.filter(({ port }) => portFits(port, entry));
+    if (fitting.length === 0) {
+      waits.set(String(entry._id), null);
+      continue;
+    }
+    const next = fitting.reduce((a, b) => (b.freeAt < a.freeAt ? b : a));
+    const waitMs = Math.max(0, next.freeAt - now.getTime());
+    waits.set(String(entry._id), Math.round(waitMs / MS_PER_MINUTE));
+    next.freeAt = Math.max(next.freeAt, now.getTime()) + sessionMs;
+  }
+  return waits;
+}
+
+async function activeEntries(stationId: string): Promise<IQueueDocument[]> {
+  return Queue.find({ stationId, status: { $in: ACTIVE_STATUSES } }).sort({ position: 1 });
+}
+
+/** The queue at a station, and the given user's place and expected wait in it */
+export async function getQueueStatus(
+  stationId: string,
+  userId: string | null,
+  now: Date = new Date()
+): Promise<QueueStatus> {
+  await dbConnect();
+  const [entries, station] = await Promise.all([
+    activeEntries(stationId),
+    loadQueueStation(stationId),
+  ]);
+
+  const userIdx = userId ? entries.findIndex((e) => e.userId === userId) : -1;
+  const userEntry = userIdx >= 0 ? entries[userIdx] : null;
+  let estimatedWaitMin: number | null = null;
+  if (userEntry?.status === "waiting" && station) {
+    const waits = await estimateWaits(stationId, station, entries, now);
+    estimatedWaitMin = waits.get(String(userEntry._id)) ?? null;
+  }
+  const penaltyUntil = userId && !userEntry ? await queuePenaltyUntil(userId, now) : null;
+
+  return {
+    queue: entries.map((e, i) => ({
+      position: i + 1,
+      userName: e.userName,
+      status: e.status,
+      connectorType: e.connectorType ?? null,
+      joinedAt: e.joinedAt,
+    })),
+    totalInQueue: entries.length,
+    userPosition: userIdx >= 0 ? userIdx + 1 : null,
+    userStatus: userEntry?.status ?? null,
+    userExpiresAt: userEntry?.expiresAt ?? null,
+    estimatedWaitMin,
+    penaltyUntil,
+  };
+}
+
+/** Send every waiting driver their place in the queue and expected wait */
+export async function broadcastQueuePositions(
+  stationId: string,
+  now: Date = new Date()
+): Promise<void> {
+  const [entries, station] = await Promise.all([
+    activeEntries(stationId),
+    loadQueueStation(stationId),
+  ]);
+  const waits = station
+    ? await estimateWaits(stationId, station, entries, now)
+    : new Map<string, number | null>();
+
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    if (entry.status !== "waiting") continue;
+    await broadcastQueueUpdate({
+      stationId,
+      userId: entry.userId,
+      position: i + 1,
+      queueStatus: "waiting",
+      estimatedWaitMin: waits.get(String(entry._id)) ?? null,
+    });
+  }
+}
+
+/**
+ * Join a station's queue. Without preferences the driver's vehicle
+ * connector is used, if their profile has one; `connectorType: "any"`
+ * accepts every port.
+ */
+export async function joinQueue(
+  stationId: string,
+  userId: string,
+  userName: string,
+  preferences: QueuePreferences = {},
+  now: Date = new Date()
+): Promise<{ entry: IQueueDocument; estimatedWaitMin: number | null }> {
+  await dbConnect();
+
+  const station = await loadQueueStation(stationId);
+  if (!station) {
+    throw new QueueError("Station not found", 404);
+  }
+  // Only queue for a station that's open now
+  if (!station.open) {
+    throw new QueueError("Station is closed right now", 409);
+  }
+  const penaltyUntil = await queuePenaltyUntil(userId, now);
+  if (penaltyUntil) {
+    throw new QueueError(
+      `You let ${QUEUE_MISSED_TURN_LIMIT} queue turns expire recently, so you can't join a queue until ${formatNepalTime(penaltyUntil)}`,
+      403
+    );
+  }
+
+  let connectorType = preferences.connectorType?.trim().toLowerCase();
+  if (!connectorType) {
+    const user = await User.findOne({ clerkId: userId }).select("vehicleInfo").lean();
+    connectorType = user?.vehicleInfo?.connectorType?.toLowerCase() || undefined;
+  }
+  if (connectorType === "any") connectorType = undefined;
+  const minPowerKw = Number(preferences.minPowerKw) || undefined;
+  if (minPowerKw != null && minPowerKw < 0) {
+    throw new QueueError("minPowerKw must be positive");
+  }
+  if (!station.ports.some((port) => portFits(port, { connectorType, minPowerKw }))) {
+    throw new QueueError("No port at this station fits your vehicle", 422);
+  }
+
+  // Prevent duplicate entries
+  const existing = await Queue.findOne({
+    userId,
+    stationId,
+    status: { $in: ACTIVE_STATUSES },
+  });
+  if (existing) {
+    throw new QueueError("Already in queue", 409);
+  }
+
+  const lastEntry = await Queue.findOne({ stationId, status: { $in: ACTIVE_STATUSES } })
+    .sort({ position: -1 })
+    .lean();
+
+  const entry = await Queue.create({
+    userId,
+    userName,
+    stationId,
+    position: (lastEntry?.position ?? 0) + 1,
+    status: "waiting",
+    connectorType,
+    minPowerKw,
+    joinedAt: now,
+  });
+
+  const waits = await estimateWaits(stationId, station, await activeEntries(stationId), now);
+  const estimatedWaitMin = waits.get(String(entry._id)) ?? null;
+  await broadcastQueueUpdate({
+    stationId,
+    userId,
+    position: entry.position,
+    queueStatus: "waiting",
+    estimatedWaitMin,
+  });
+
+  return { entry, estimatedWaitMin };
+}
+
+/**
+ * Offer a freed port to the first waiting driver it fits, giving them
+ * QUEUE_TURN_MINUTES to book it. Returns the notified entry, if any.
+ */
+export async function offerPortToQueue(
+  stationId: string,
+  portId: string,
+  now: Date = new Date()
+): Promise<IQueueDocument | null> {
+  await dbConnect();
+  const station = await loadQueueStation(stationId);
+  // A closed station can't take the booking, so the queue waits for opening
+  if (!station?.open) return null;
+
+  const port = station.ports.find((p) => portKey(p) === portId || p.portNumber === portId);
+  // Entries store connector types lowercased
+  const fits = port && {
+    $and: [
+      {
+        $or: [
+          { connectorType: { $exists: false } },
+          { connectorType: port.connectorType.toLowerCase() },
+        ],
+      },
+      {
+        $or: [{ minPowerKw: { $exists: false } }, { minPowerKw: { $lte: portPowerKw(port) } }],
+      },
+    ],
+  };
+
+  const entry = await Queue.findOneAndUpdate(
+    { stationId, status: "waiting", ...fits },
+    {
+      $set: {
+        status: "notified",
+        portId: port ? portKey(port) : portId,
+        notifiedAt: now,
+        expiresAt: new Date(now.getTime() + QUEUE_TURN_MINUTES * MS_PER_MINUTE),
+      },
+    },
+    { sort: { position: 1 }, new: true }
+  );
+  if (!entry) return null;
+
+  if (port && !stationId.startsWith("station-")) {
+    await holdPortForTurn(stationId, portKey(port), entry._id, now);
+  }
+
+  await notify({
+    type: "queue_turn",
+    userId: entry.userId,
+    stationId,
+    stationName: station.name,
+    portId,
+    portNumber: port?.portNumber,
+    turnMinutes: QUEUE_TURN_MINUTES,
+  });
+
+  await broadcastQueueUpdate({
+    stationId,
+    userId: entry.userId,
+    position: entry.position,
+    queueStatus: "notified",
+    estimatedWaitMin: 0,
+  });
+
+  // Everyone still waiting moves up, and the offered port is taken
+  await broadcastQueuePositions(stationId, now);
+  return entry;
+}
+
+/**
+ * Reserve a port with no booking for the driver whose turn it is, if it is
+ * still free. The hold records the queue entry, so only the end of that
+ * turn (or a booking claiming the port) releases it.
+ */
+async function holdPortForTurn(
+  stationId: string,
+  portId: string,
+  entryId: unknown,
+  now: Date
+): Promise<void> {
+  const held = await Station.findOneAndUpdate(
+    { _id: stationId, chargingPorts: { $elemMatch: { _id: portId, status: "available" } } },
+    {
+      $set: {
+        "chargingPorts.$.status": "reserved",
+        "chargingPorts.$.heldForQueueEntryId": entryId,
+      },
+    }
+  );
+  if (!held) return;
+
+  await recordPortStatusChange({
+    stationId,
+    portId,
+    source: "queue",
+    previousStatus: "available",
+    status: "reserved",
+    event: "queue_turn",
+    at: now,
+  });
+  await broadcastPortUpdate({
+    stationId,
+    portId,
+    status: "reserved",
+    event: "queue_turn",
+    timestamp: now.toISOString(),
+  });
+}
+
+/**
+ * Free a port held for a queue turn that ended without a booking claiming
+ * it. Returns whether the port was freed — then it's up to the caller to
+ * run the port-available flow.
+ */
+export async function releaseTurnHold(
+  stationId: string,
+  portId: string,
+  entryId: unknown,
+  now: Date = new Date()
+): Promise<boolean> {
+  if (stationId.startsWith("station-")) return false;
+
+  const released = await Station.findOneAndUpdate(
+    {
+      _id: stationId,
+      chargingPorts: {
+        $elemMatch: { _id: portId, status: "reserved", heldForQueueEntryId: entryId },
+      },
+    },
+    {
+      $set: { "chargingPorts.$.status": "available" },
+      $unset: { "chargingPorts.$.heldForQueueEntryId": "" },
+    }
+  );
+  if (!released) return false;
+
+  await recordPortStatusChange({
+    stationId,
+    portId,
+    source: "queue",
+    previousStatus: "reserved",
+    status: "available",
+    event: "queue_turn_ended",
+    at: now,
+  });
+  await broadcastPortUpdate({
+    stationId,
+    portId,
+    status: "available",
+    event: "queue_turn_ended",
+    timestamp: now.toISOString(),
+  });
+  return true;
+}
+
+/**
+ * Hand a port held for a queue turn to the booking the driver made on it.
+ * The port stays reserved, now for the booking, so the booking ending —
+ * even cancelled or expired before it was paid — frees it like any other.
+ * Returns whether the port was held for the turn.
+ */
+export async function transferTurnHold(
+  stationId: string,
+  portId: string,
+  entryId: unknown,
+  bookingId: unknown
+): Promise<boolean> {
+  if (stationId.startsWith("station-")) return false;
+
+  const transferred = await Station.findOneAndUpdate(
+    {
+      _id: stationId,
+      chargingPorts: {
+        $elemMatch: { _id: portId, status: "reserved", heldForQueueEntryId: entryId },
+      },
+    },
+    {
+      $set: { "chargingPorts.$.currentBookingId": bookingId },
+      $unset: { "chargingPorts.$.heldForQueueEntryId": "" },
+    }
+  );
+  return !!transferred;
+}
+
+/**
+ * Refuse a booking on a port held for another driver's queue turn that
+ * would start before the turn ends
+ */
+export async function assertNoQueueHold(
+  stationId: string,
+  portId: string,
+  userId: string,
+  start: Date,
+  now: Date = new Date()
+): Promise<void> {
+  const hold = await Queue.findOne({
+    stationId,
+    portId,
+    status: "notified",
+    userId: { $ne: userId },
+    expiresAt: { $gt: now },
+  }).lean();
+  if (hold?.expiresAt && start < hold.expiresAt) {
+    throw new QueueError(
+      `This port is held for the next driver in the queue until ${formatNepalTime(hold.expiresAt)}`,
+      409
+    );
+  }
+}
+
+/**
+ * End of the penalty of a driver who let QUEUE_MISSED_TURN_LIMIT turns
+ * expire within QUEUE_MISSED_TURN_WINDOW_DAYS, or null
+ */
+export async function queuePenaltyUntil(
+  userId: string,
+  now: Date = new Date()
+): Promise<Date | null> {
+  const missed = await Queue.find({
+    userId,
+    status: "expired",
+    expiresAt: { $gte: new Date(now.getTime() - QUEUE_MISSED_TURN_WINDOW_DAYS * MS_PER_DAY) },
+  })
+    .sort({ expiresAt: -1 })
+    .limit(QUEUE_MISSED_TURN_LIMIT)
+    .select("expiresAt")
+    .lean();
+  if (missed.length < QUEUE_MISSED_TURN_LIMIT) return null;
+
+  const until = new Date(missed[0].expiresAt!.getTime() + QUEUE_PENALTY_HOURS * MS_PER_HOUR);
+  return until > now ? until : null;
+}
@@ -0,0 +1,129 @@
+/**
+ * Ends of a queue turn, each of which may free the port held for it:
+ *  - the driver books (their turn is used) or leaves the queue
+ *  - the turn runs out: the expiry job marks it expired, tells the driver
+ *    and hands the port to the next driver it fits
+ *
+ * A freed port goes through the same port-available flow as a hardware
+ * report, so "Notify me when free" subscribers hear about it too.
+ */
+
+import dbConnect from "@/lib/db";
+import Queue, { type IQueueDocument } from "@/lib/models/Queue";
+import { broadcastQueueUpdate } from "@/lib/realtime";
+import { notify } from "@/lib/notifications";
+import { handlePortAvailable } from "@/lib/portAvailability";
+import {
+  ACTIVE_STATUSES,
+  broadcastQueuePositions,
+  queuePenaltyUntil,
+  releaseTurnHold,
+  transferTurnHold,
+} from "@/lib/queue";
+
+const EXPIRY_BATCH_SIZE = 100;
+
+export interface QueueExpiryResult {
+  expired: number;
+}
+
+/** Free the port held for a turn and offer it on */
+async function handOff(entry: IQueueDocument, now: Date): Promise<void> {
+  if (!entry.portId) return;
+  const fileBased = entry.stationId.startsWith("station-");
+  // File-based stations never hold ports, so theirs is simply free again
+  if (fileBased || (await releaseTurnHold(entry.stationId, entry.portId, entry._id, now))) {
+    await handlePortAvailable(entry.stationId, entry.portId);
+  }
+}
+
+export async function leaveQueue(stationId: string, userId: string): Promise<void> {
+  await dbConnect();
+  const entry = await Queue.findOneAndUpdate(
+    { userId, stationId, status: { $in: ACTIVE_STATUSES } },
+    { $set: { status: "completed" } }
+  );
+  if (entry?.status === "notified") {
+    await handOff(entry, new Date());
+  }
+  await broadcastQueuePositions(stationId);
+}
+
+/**
+ * A driver booked at a station: their place in its queue is used up. A
+ * notified driver who booked the port held for them moves the hold onto
+ * the booking; one who booked a different port frees the held one.
+ */
+export async function claimQueueTurn(
+  stationId: string,
+  userId: string,
+  portId: string,
+  bookingId: unknown,
+  now: Date = new Date()
+): Promise<void> {
+  const entry = await Queue.findOneAndUpdate(
+    { userId, stationId, status: { $in: ACTIVE_STATUSES } },
+    { $set: { status: "completed" } }
+  );
+  if (!entry) return;
+
+  if (entry.status === "notified" && entry.portId) {
+    if (entry.portId === portId) {
+      await transferTurnHold(stationId, portId, entry._id, bookingId);
+    } else {
+      await handOff(entry, now);
+    }
+  }
+  await broadcastQueuePositions(stationId, now);
+}
+
+async function notifyExpired(entry: IQueueDocument, now: Date): Promise<void> {
+  const penaltyUntil = await queuePenaltyUntil(entry.userId, now);
+  await notify({
+    type: "queue_turn_expired",
+    userId: entry.userId,
+    stationId: entry.stationId,
+    portId: entry.portId,
+    penaltyUntil,
+  });
+
+  await broadcastQueueUpdate({
+    stationId: entry.stationId,
+    userId: entry.userId,
+    position: entry.position,
+    queueStatus: "expired",
+    estimatedWaitMin: null,
+  });
+}
+
+/** Expire notified drivers who didn't book in time and hand their port on */
+export async function expireQueueTurns(
+  now: Date = new Date()
+): Promise<QueueExpiryResult> {
+  await dbConnect();
+
+  const due = await Queue.find({ status: "notified", expiresAt: { $lte: now } })
+    .sort({ expiresAt: 1 })
+    .limit(EXPIRY_BATCH_SIZE);
+
+  let expired = 0;
+  for (const entry of due) {
+    // Claim the turn so concurrent runs hand it off once
+    const claimed = await Queue.findOneAndUpdate(
+      { _id: entry._id, status: "notified" },
+      { $set: { status: "expired" } },
+      { new: true }
+    );
+    if (!claimed) continue;
+    expired++;
+
+    try {
+      await notifyExpired(claimed, now);
+      await handOff(claimed, now);
+    } catch (error) {
+      console.error(`Failed to hand off expired queue turn ${claimed._id}:`, error);
+    }
+  }
+
+  return { expired };
+}
@@ -0,0 +1,408 @@
+/**
+ * WebSocket gateway for two-way station dashboards. Runs inside the custom
+ * server (server.ts), next to the Next.js request handler, and serves the
+ * protocol in ./protocol over the same realtime bus the SSE routes read.
+ *
+ * Commands are not executed here: they are forwarded to the admin REST routes
+ * with the socket's session token, so a command over the socket is authorized
+ * and validated exactly like the same request over HTTP.
+ */
+
+import type { IncomingMessage } from "http";
+import type { Duplex } from "stream";
+import mongoose from "mongoose";
+import { WebSocketServer, type WebSocket } from "ws";
+import { verifyToken } from "@clerk/backend";
+import Station from "@/lib/models/Station";
+import { canOperate, findStationOperator } from "@/lib/stationOperators";
+import { SOCKET_PING_INTERVAL_MS } from "@/lib/constants";
+import { getRealtimeBus } from "./index";
+import { subscribeResumable, type ResumableSubscriptionOptions } from "./subscription";
+import { queueStream, stationStream, userStream } from "./streams";
+import {
+  subscriptionKey,
+  type SocketClientMessage,
+  type SocketCommand,
+  type SocketServerMessage,
+  type SocketSubscription,
+} from "./protocol";
+
+export interface RealtimeGatewayOptions {
+  /** Upgrade path the gateway answers on */
+  path: string;
+  /** Base URL of the Next.js app, for forwarding commands */
+  appUrl: string;
+  /**
+   * Origins pages may open the socket from. The socket signs in from the
+   * session cookie, so any other site could otherwise open one as the visitor.
+   */
+  allowedOrigins: string[];
+}
+
+export interface RealtimeGateway {
+  /** Take over an upgrade request; false if it's for some other path */
+  handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer): boolean;
+  close(): void;
+}
+
+class GatewayError extends Error {
+  constructor(
+    message: string,
+    public readonly httpStatus: number = 400
+  ) {
+    super(message);
+    this.name = "GatewayError";
+  }
+}
+
+interface Connection {
+  socket: WebSocket;
+  userId: string | null;
+  /** Latest verified session token, forwarded with commands */
+  token: string | null;
+  subscriptions: Map<string, () => void>;
+  alive: boolean;
+}
+
+function send(connection: Connection, message: SocketServerMessage) {
+  if (connection.socket.readyState === connection.socket.OPEN) {
+    connection.socket.send(JSON.stringify(message));
+  }
+}
+
+/** Clerk's `__session` cookie, sent with same-origin upgrade requests */
+function sessionCookie(req: IncomingMessage): string | null {
+  for (const part of (req.headers.cookie ?? "").split(";")) {
+    const [name, ...value] = part.trim().split("=");
+    if (name === "__session") return decodeURIComponent(value.join("="));
+  }
+  return null;
+}
+
+/** Whether an upgrade comes from a page of one of the allowed origins */
+function originAllowed(req: IncomingMessage, allowed: Set<string>): boolean {
+  const origin = req.headers.origin;
+  if (!origin) return false;
+  try {
+    return allowed.has(new URL(origin).origin);
+  } catch {
+    return false;
+  }
+}
+
+/** Whether a parsed frame looks like a client message, to dispatch on its type */
+function isClientMessage(value: unknown): value is SocketClientMessage {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as { type?: unknown }).type === "string"
+  );
+}
+
+/** Clerk user id behind a session token, or null if it doesn't verify */
+async function verifySession(token: string): Promise<string | null> {
+  try {
+    const payload = await verifyToken(token, {
+      secretKey: process.env.CLERK_SECRET_KEY,
+    });
+    return payload.sub ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/** Bus subscription behind a socket subscription, after checking access */
+async function resolveSubscription(
+  connection: Connection,
+  subscription: SocketSubscription
+): Promise<Pick<ResumableSubscriptionOptions, "stream" | "types" | "accepts">> {
+  if (subscription.channel === "station") {
+    const { stationId } = subscription;
+    if (!stationId) throw new GatewayError("stationId is required");
+    return {
+      stream: stationStream(stationId),
+      types: ["port-update"],
+      accepts: (event) =>
+        event.type === "port-update" && event.stationId === stationId,
+    };
+  }
+
+  const { userId } = connection;
+  if (!userId) throw new GatewayError("Unauthorized", 401);
+
+  if (subscription.channel === "user") {
+    return {
+      stream: userStream(userId),
+      types: ["notification", "queue-update"],
+      accepts: (event) =>
+        (event.type === "notification" || event.type === "queue-update") &&
+        event.userId === userId,
+    };
+  }
+
+  const { stationId } = subscription;
+  if (!stationId) throw new GatewayError("stationId is required");
+
+  // Operators see the whole queue, everyone else only their own entry
+  const operator = await findStationOperator(userId);
+  const station =
+    operator && mongoose.isValidObjectId(stationId)
+      ? await Station.findById(stationId).select("adminId").lean()
+      : null;
+  if (operator && station && canOperate(operator, station)) {
+    return {
+      stream: queueStream(stationId),
+      types: ["queue-update"],
+      accepts: (event) =>
+        event.type === "queue-update" && event.stationId === stationId,
+    };
+  }
+  return {
+    stream: userStream(userId),
+    types: ["queue-update"],
+    accepts: (event) =>
+      event.type === "queue-update" &&
+      event.stationId === stationId &&
+      event.userId === userId,
+  };
+}
+
+/** REST request a command maps to */
+function commandRequest(command: SocketCommand): {
+  method: string;
+  path: string;
+  body: Record<string, unknown>;
+} {
+  switch (command.command) {
+    case "start_session":
+      return {
+        method: "POST",
+        path: "/api/admin/walk-in",
+        body: { action: "start", stationId: command.stationId, portId: command.portId },
+      };
+    case "stop_session":
+      return {
+        method: "POST",
+        path: "/api/admin/walk-in",
+        body: { action: "stop", bookingId: command.bookingId },
+      };
+    case "set_port_status":
+      return {
+        method: "PATCH",
+        path: `/api/admin/stations/${encodeURIComponent(command.stationId)}/ports`,
+        body: { portId: command.portId, status: command.status },
+      };
+    default:
+      throw new GatewayError("Unknown command");
+  }
+}
+
+export function createRealtimeGateway(
+  options: RealtimeGatewayOptions
+): RealtimeGateway {
+  const wss = new WebSocketServer({ noServer: true });
+  const connections = new Set<Connection>();
+  const allowedOrigins = new Set(
+    options.allowedOrigins.flatMap((url) => {
+      try {
+        return [new URL(url).origin];
+      } catch {
+        return [];
+      }
+    })
+  );
+
+  async function runCommand(
+    connection: Connection,
+    message: Extract<SocketClientMessage, { type: "command" }>
+  ) {
+    const { requestId } = message;
+    if (!connection.token) {
+      send(connection, { type: "result", requestId, ok: false, error: "Unauthorized", status: 401 });
+      return;
+    }
+
+    const request = commandRequest(message);
+    const res = await fetch(new URL(request.path, options.appUrl), {
+      method: request.method,
+      headers: {
+        Authorization: `Bearer ${connection.token}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(request.body),
+    });
+    const data = await res.json().catch(() => ({}));
+    if (res.ok) {
+      send(connection, { type: "result", requestId, ok: true, data });
+    } else {
+      send(connection, {
+        type: "result",
+        requestId,
+        ok: false,
+        error: data.error || "Command failed",
+        status: res.status,
+      });
+    }
+  }
+
+  async function handleMessage(connection: Connection, message: SocketClientMessage) {
+    switch (message.type) {
+      case "auth": {
+        const userId = await verifySession(message.token);
+        if (!userId) throw new GatewayError("Invalid session token", 401);
+        if (connection.userId && connection.userId !== userId) {
+          throw new GatewayError("Socket is already signed in as another user", 409);
+        }
+        connection.userId = userId;
+        connection.token = message.token;
+        send(connection, { type: "welcome", authenticated: true, userId });
+        return;
+      }
+
+      case "subscribe": {
+        const key = subscriptionKey(message);
+        const resolved = await resolveSubscription(connection, message);
+        connection.subscriptions.get(key)?.();
+        connection.subscriptions.delete(key);
+
+        const unsubscribe = await subscribeResumable(getRealtimeBus(), {
+          ...resolved,
+          lastEventId: message.lastEventId,
+          onEvent: (event) => send(connection, { type: "event", key, event }),
+          onResync: () => send(connection, { type: "resync", key }),
+        });
+        if (connection.socket.readyState !== connection.socket.OPEN) {
+          unsubscribe();
+          return;
+        }
+        connection.subscriptions.set(key, unsubscribe);
+        send(connection, { type: "subscribed", key });
+        return;
+      }
+
+      case "unsubscribe": {
+        const key = subscriptionKey(message);
+        connection.subscriptions.get(key)?.();
+        connection.subscriptions.delete(key);
+        return;
+      }
+
+      case "command":
+        await runCommand(connection, message);
+        return;
+
+      default:
+        throw new GatewayError("Unknown message type");
+    }
+  }
+
+  wss.on("connection", (socket: WebSocket, req: IncomingMessage) => {
+    const connection: Connection = {
+      socket,
+      userId: null,
+      token: null,
+      subscriptions: new Map(),
+      alive: true,
+    };
+    connections.add(connection);
+
+    // Messages are handled one at a time, after the cookie session is
+    // checked, so a subscribe sent right after auth sees the signed-in user
+    let queue = (async () => {
+      const cookieToken = sessionCookie(req);
+      const userId = cookieToken ? await verifySession(cookieToken) : null;
+      if (userId) {
+        connection.userId = userId;
+        connection.token = cookieToken;
+      }
+      send(connection, {
+        type: "welcome",
+        authenticated: !!userId,
+        ...(userId ? { userId } : {}),
+      });
+    })().catch((error) => {
+      console.error("Realtime gateway error:", error);
+      send(connection, { type: "error", error: "Request failed" });
+    });
+
+    socket.on("message", (raw) => {
+      queue = queue
+        .then(async () => {
+          let message: SocketClientMessage;
+          try {
+            const parsed: unknown = JSON.parse(raw.toString());
+            if (!isClientMessage(parsed)) throw new GatewayError("Malformed message");
+            message = parsed;
+          } catch {
+            send(connection, { type: "error", error: "Malformed message" });
+            return;
+          }
+          try {
+            await handleMessage(connection, message);
+          } catch (error) {
+            if (!(error instanceof GatewayError)) {
+              console.error("Realtime gateway error:", error);
+            }
+            const text = error instanceof GatewayError ? error.message : "Request failed";
+            if (message.type === "command") {
+              send(connection, {
+                type: "result",
+                requestId: message.requestId,
+                ok: false,
+                error: text,
+                status: error instanceof GatewayError ? error.httpStatus : 500,
+              });
+            } else {
+              send(connection, { type: "error", error: text });
+            }
+          }
+        })
+        // A failure must not break the chain, or later messages go unanswered
+        .catch((error) => {
+          console.error("Realtime gateway error:", error);
+          send(connection, { type: "error", error: "Request failed" });
+        });
+    });
+
+    socket.on("pong", () => {
+      connection.alive = true;
+    });
+
+    socket.on("close", () => {
+      connections.delete(connection);
+      queue.then(() => {
+        connection.subscriptions.forEach((unsubscribe) => unsubscribe());
+        connection.subscriptions.clear();
+      });
+    });
+  });
+
+  const ping = setInterval(() => {
+    for (const connection of connections) {
+      if (!connection.alive) {
+        connection.socket.terminate();
+        continue;
+      }
+      connection.alive = false;
+      connection.socket.ping();
+    }
+  }, SOCKET_PING_INTERVAL_MS);
+
+  return {
+    handleUpgrade(req, socket, head) {
+      const { pathname } = new URL(req.url ?? "/", "http://localhost");
+      if (pathname !== options.path) return false;
+      if (!originAllowed(req, allowedOrigins)) {
+        socket.end("HTTP/1.1 403 Forbidden\r\nConnection: close\r\n\r\n");
+        return true;
+      }
+      wss.handleUpgrade(req, socket, head, (ws) => wss.emit("connection", ws, req));
+      return true;
+    },
+    close() {
+      clearInterval(ping);
+      for (const connection of connections) connection.socket.terminate();
+      wss.close();
+    },
+  };
+}
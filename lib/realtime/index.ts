@@ -0,0 +1,102 @@
+/**
+ * Realtime events for SSE clients.
+ *
+ * Routes publish through a `RealtimeBus` and read live port statuses from a
+ * `PortStatusStore`. `REALTIME_BACKEND` picks where both live: "memory" (one
+ * instance, the default in development), "mongo" (change streams on the
+ * existing database) or "redis" (pub/sub on `REDIS_URL`). The backend is
+ * created once per process and survives Next.js HMR.
+ */
+
+import { createMemoryBackend } from "./memoryBus";
+import { createMongoBackend } from "./mongoBus";
+import { createRedisBackend } from "./redisBus";
+import { pushNotification } from "@/lib/webPush";
+import type {
+  PortUpdateEvent,
+  QueueUpdateEvent,
+  RealtimeBackend,
+  RealtimeBus,
+  RealtimeEvent,
+  UserNotificationEvent,
+} from "./types";
+
+export type * from "./types";
+
+const globalForRealtime = globalThis as unknown as {
+  __realtimeBackend: RealtimeBackend | undefined;
+};
+
+function createBackend(): RealtimeBackend {
+  const backend = process.env.REALTIME_BACKEND ?? "memory";
+  switch (backend) {
+    case "redis": {
+      const url = process.env.REDIS_URL;
+      if (!url) {
+        throw new Error("REALTIME_BACKEND=redis needs the REDIS_URL environment variable");
+      }
+      return createRedisBackend(url);
+    }
+    case "mongo":
+      return createMongoBackend();
+    case "memory":
+      return createMemoryBackend();
+    default:
+      throw new Error(`Unknown REALTIME_BACKEND "${backend}"`);
+  }
+}
+
+function getBackend(): RealtimeBackend {
+  globalForRealtime.__realtimeBackend ??= createBackend();
+  return globalForRealtime.__realtimeBackend;
+}
+
+export function getRealtimeBus(): RealtimeBus {
+  return getBackend().bus;
+}
+
+export function getPortStatuses(
+  stationId: string
+): Promise<Record<string, string>> {
+  return getBackend().portStatus.getAll(stationId);
+}
+
+// ── Helper broadcasters ──
+// A realtime outage must never fail the request that caused the event, so
+// these log instead of throwing.
+
+async function publish(event: RealtimeEvent): Promise<void> {
+  try {
+    await getRealtimeBus().publish(event);
+  } catch (error) {
+    console.error(`Failed to publish ${event.type} event:`, error);
+  }
+}
+
+export async function broadcastPortUpdate(
+  event: Omit<PortUpdateEvent, "type">
+): Promise<void> {
+  // Store latest status for the polling fallback
+  try {
+    await getBackend().portStatus.set(event.stationId, event.portId, event.status);
+  } catch (error) {
+    console.error("Failed to store port status:", error);
+  }
+  await publish({ ...event, type: "port-update" });
+}
+
+/** Open tabs get the notification over SSE/WebSocket, closed ones by Web Push */
+export async function broadcastNotification(
+  event: Omit<UserNotificationEvent, "type">
+): Promise<void> {
+  await Promise.all([
+    publish({ ...event, type: "notification" }),
+    pushNotification(event),
+  ]);
+}
+
+export async function broadcastQueueUpdate(
+  event: Omit<QueueUpdateEvent, "type">
+): Promise<void> {
+  await publish({ ...event, type: "queue-update" });
+}
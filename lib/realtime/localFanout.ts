@@ -0,0 +1,34 @@
+import { EventEmitter } from "events";
+import type {
+  RealtimeEventOf,
+  RealtimeEventType,
+  SequencedEvent,
+} from "./types";
+
+/**
+ * In-process delivery to this instance's listeners. Every backend ends here:
+ * the memory bus emits straight into it, the others once an event comes
+ * back from Redis or MongoDB.
+ */
+export class LocalFanout {
+  private readonly emitter = new EventEmitter();
+
+  constructor() {
+    // One listener per open SSE connection — there is no sensible cap
+    this.emitter.setMaxListeners(0);
+  }
+
+  emit(event: SequencedEvent): void {
+    this.emitter.emit(event.type, event);
+  }
+
+  on<T extends RealtimeEventType>(
+    type: T,
+    listener: (event: SequencedEvent<RealtimeEventOf<T>>) => void
+  ): () => void {
+    this.emitter.on(type, listener);
+    return () => {
+      this.emitter.off(type, listener);
+    };
+  }
+}
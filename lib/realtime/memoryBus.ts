@@ -0,0 +1,48 @@
+import { REALTIME_REPLAY_LIMIT } from "@/lib/constants";
+import { LocalFanout } from "./localFanout";
+import { eventStreams, replayFrom } from "./streams";
+import type {
+  PortStatusStore,
+  RealtimeBackend,
+  RealtimeBus,
+  SequencedEvent,
+} from "./types";
+
+/** Single-instance backend: events and port statuses never leave the process */
+export function createMemoryBackend(): RealtimeBackend {
+  const fanout = new LocalFanout();
+  const statuses = new Map<string, Record<string, string>>();
+  const buffers = new Map<string, SequencedEvent[]>();
+  // Starting from the clock keeps ids increasing across restarts, so a
+  // client's id from before a restart can't match a new event
+  let lastId = Date.now();
+
+  const bus: RealtimeBus = {
+    name: "memory",
+    async publish(event) {
+      const sequenced = { ...event, id: ++lastId };
+      for (const stream of eventStreams(event)) {
+        const buffer = [...(buffers.get(stream) ?? []), sequenced];
+        buffers.set(stream, buffer.slice(-REALTIME_REPLAY_LIMIT));
+      }
+      fanout.emit(sequenced);
+    },
+    subscribe(type, listener) {
+      return fanout.on(type, listener);
+    },
+    async replay(stream, afterId) {
+      return replayFrom(buffers.get(stream) ?? [], afterId);
+    },
+  };
+
+  const portStatus: PortStatusStore = {
+    async set(stationId, portId, status) {
+      statuses.set(stationId, { ...statuses.get(stationId), [portId]: status });
+    },
+    async getAll(stationId) {
+      return { ...statuses.get(stationId) };
+    },
+  };
+
+  return { bus, portStatus };
+}
@@ -0,0 +1,136 @@
+import type { mongo } from "mongoose";
+import dbConnect from "@/lib/db";
+import RealtimeEventModel, {
+  type IRealtimeEventDocument,
+} from "@/lib/models/RealtimeEvent";
+import PortStatus from "@/lib/models/PortStatus";
+import { REALTIME_REPLAY_LIMIT } from "@/lib/constants";
+import { LocalFanout } from "./localFanout";
+import { eventStreams, replayFrom } from "./streams";
+import type {
+  PortStatusStore,
+  RealtimeBackend,
+  RealtimeBus,
+  SequencedEvent,
+} from "./types";
+
+const RESTART_DELAY_MS = 5000;
+const COUNTERS_COLLECTION = "realtimecounters";
+
+function toSequenced(doc: Pick<IRealtimeEventDocument, "seq" | "event">): SequencedEvent {
+  return { ...doc.event, id: doc.seq };
+}
+
+async function nextSequence(): Promise<number> {
+  const counter = await RealtimeEventModel.db
+    .collection<{ _id: string; value: number }>(COUNTERS_COLLECTION)
+    .findOneAndUpdate(
+      { _id: "seq" },
+      { $inc: { value: 1 } },
+      { upsert: true, returnDocument: "after" }
+    );
+  return counter!.value;
+}
+
+/**
+ * MongoDB backend for deployments without Redis. Publishing inserts into a
+ * short-lived collection and every instance tails it with a change stream
+ * (which needs a replica set — the same one booking transactions need).
+ * That collection doubles as the replay buffer, bounded by its TTL and by
+ * REALTIME_REPLAY_LIMIT per stream. Port statuses are upserted into their
+ * own collection.
+ */
+export function createMongoBackend(): RealtimeBackend {
+  const fanout = new LocalFanout();
+  let stream: mongo.ChangeStream | null = null;
+  let starting: Promise<void> | null = null;
+  let resumeAfter: mongo.ResumeToken | undefined;
+
+  async function startStream(): Promise<void> {
+    await dbConnect();
+    const changes = RealtimeEventModel.watch<
+      IRealtimeEventDocument,
+      mongo.ChangeStreamDocument<IRealtimeEventDocument>
+    >(
+      [{ $match: { operationType: "insert" } }],
+      resumeAfter ? { resumeAfter } : {}
+    );
+
+    changes.on("change", (change) => {
+      resumeAfter = change._id;
+      if (change.operationType === "insert" && change.fullDocument) {
+        fanout.emit(toSequenced(change.fullDocument));
+      }
+    });
+    changes.on("error", (error) => {
+      console.error("Realtime change stream failed:", error.message);
+      void changes.close();
+      stream = null;
+      // Pick up from the last event seen so nothing published meanwhile is lost
+      setTimeout(ensureStream, RESTART_DELAY_MS);
+    });
+
+    stream = changes;
+  }
+
+  function ensureStream(): void {
+    if (stream || starting) return;
+    starting = startStream()
+      .catch((error) => {
+        console.error("Realtime change stream could not start:", error);
+        setTimeout(ensureStream, RESTART_DELAY_MS);
+      })
+      .finally(() => {
+        starting = null;
+      });
+  }
+
+  const bus: RealtimeBus = {
+    name: "mongo",
+    async publish(event) {
+      await dbConnect();
+      await RealtimeEventModel.create({
+        seq: await nextSequence(),
+        type: event.type,
+        streams: eventStreams(event),
+        event,
+      });
+    },
+    subscribe(type, listener) {
+      ensureStream();
+      return fanout.on(type, listener);
+    },
+    async replay(stream, afterId) {
+      await dbConnect();
+      const buffered = await RealtimeEventModel.find({
+        streams: stream,
+        seq: { $gte: afterId },
+      })
+        .sort({ seq: -1 })
+        .limit(REALTIME_REPLAY_LIMIT)
+        .select("seq event")
+        .lean();
+      return replayFrom(buffered.reverse().map(toSequenced), afterId);
+    },
+  };
+
+  const portStatus: PortStatusStore = {
+    async set(stationId, portId, status) {
+      await dbConnect();
+      await PortStatus.updateOne(
+        { stationId, portId },
+        { $set: { status } },
+        { upsert: true }
+      );
+    },
+    async getAll(stationId) {
+      await dbConnect();
+      const ports = await PortStatus.find({ stationId })
+        .select("portId status")
+        .lean();
+      return Object.fromEntries(ports.map((p) => [p.portId, p.status]));
+    },
+  };
+
+  return { bus, portStatus };
+}
@@ -0,0 +1,59 @@
+/**
+ * WebSocket gateway protocol. One socket multiplexes any number of
+ * subscriptions and carries operator commands; events are the same
+ * `RealtimeEvent`s SSE clients receive, with the same ids, so a socket can
+ * resume a subscription from the last id it saw.
+ */
+
+import type { SequencedEvent } from "./types";
+
+/**
+ * What a subscription covers:
+ * - station: port updates of one station (public)
+ * - user: the signed-in user's notifications and queue updates
+ * - queue: queue updates at one station — all of them for the station's
+ *   operators, only the user's own for everyone else
+ */
+export type SocketSubscription =
+  | { channel: "station"; stationId: string }
+  | { channel: "user" }
+  | { channel: "queue"; stationId: string };
+
+export type SocketCommand =
+  | { command: "start_session"; stationId: string; portId: string }
+  | { command: "stop_session"; bookingId: string }
+  | {
+      command: "set_port_status";
+      stationId: string;
+      portId: string;
+      status: string;
+    };
+
+export type SocketClientMessage =
+  /** Clerk session token; needed for user/queue channels and commands */
+  | { type: "auth"; token: string }
+  | ({ type: "subscribe"; lastEventId?: number } & SocketSubscription)
+  | ({ type: "unsubscribe" } & SocketSubscription)
+  | ({ type: "command"; requestId: string } & SocketCommand);
+
+export type SocketServerMessage =
+  | { type: "welcome"; authenticated: boolean; userId?: string }
+  | { type: "subscribed"; key: string }
+  | { type: "event"; key: string; event: SequencedEvent }
+  /** Events since the requested id were lost; reload state and carry on */
+  | { type: "resync"; key: string }
+  | { type: "result"; requestId: string; ok: true; data: unknown }
+  | { type: "result"; requestId: string; ok: false; error: string; status: number }
+  | { type: "error"; error: string };
+
+/** Stable name of a subscription, used to address it in both directions */
+export function subscriptionKey(subscription: SocketSubscription): string {
+  switch (subscription.channel) {
+    case "station":
+      return `station:${subscription.stationId}`;
+    case "user":
+      return "user";
+    case "queue":
+      return `queue:${subscription.stationId}`;
+  }
+}
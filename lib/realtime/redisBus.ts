@@ -0,0 +1,97 @@
+import Redis from "ioredis";
+import { REALTIME_REPLAY_LIMIT } from "@/lib/constants";
+import { LocalFanout } from "./localFanout";
+import { eventStreams, replayFrom } from "./streams";
+import type {
+  PortStatusStore,
+  RealtimeBackend,
+  RealtimeBus,
+  SequencedEvent,
+} from "./types";
+
+const KEY_PREFIX = "urja:";
+const EVENTS_CHANNEL = `${KEY_PREFIX}realtime`;
+const SEQUENCE_KEY = `${KEY_PREFIX}realtime:seq`;
+
+function replayKey(stream: string): string {
+  return `${KEY_PREFIX}replay:${stream}`;
+}
+
+function portStatusKey(stationId: string): string {
+  return `${KEY_PREFIX}port-status:${stationId}`;
+}
+
+/**
+ * Redis pub/sub backend. Every instance publishes to one channel and keeps
+ * a single subscriber connection that fans events out to its own listeners.
+ * Ids come from a shared counter, replay buffers are capped lists per stream
+ * and port statuses live in one hash per station.
+ */
+export function createRedisBackend(url: string): RealtimeBackend {
+  const fanout = new LocalFanout();
+  const client = new Redis(url, { lazyConnect: true });
+  // A connection in subscriber mode can't run other commands
+  const subscriber = new Redis(url, { lazyConnect: true });
+  let subscribed: Promise<unknown> | null = null;
+
+  subscriber.on("message", (channel: string, message: string) => {
+    if (channel !== EVENTS_CHANNEL) return;
+    try {
+      fanout.emit(JSON.parse(message) as SequencedEvent);
+    } catch (error) {
+      console.error("Dropping malformed realtime message:", error);
+    }
+  });
+  for (const connection of [client, subscriber]) {
+    connection.on("error", (error) => {
+      console.error("Realtime Redis connection error:", error.message);
+    });
+  }
+
+  function ensureSubscribed(): void {
+    // ioredis re-subscribes by itself after a reconnect
+    subscribed ??= subscriber.subscribe(EVENTS_CHANNEL).catch((error) => {
+      subscribed = null;
+      console.error("Realtime Redis subscribe failed:", error);
+    });
+  }
+
+  const bus: RealtimeBus = {
+    name: "redis",
+    async publish(event) {
+      const id = await client.incr(SEQUENCE_KEY);
+      const message = JSON.stringify({ ...event, id });
+
+      const pipeline = client.multi();
+      for (const stream of eventStreams(event)) {
+        pipeline
+          .rpush(replayKey(stream), message)
+          .ltrim(replayKey(stream), -REALTIME_REPLAY_LIMIT, -1);
+      }
+      pipeline.publish(EVENTS_CHANNEL, message);
+      await pipeline.exec();
+    },
+    subscribe(type, listener) {
+      ensureSubscribed();
+      return fanout.on(type, listener);
+    },
+    async replay(stream, afterId) {
+      const buffered = await client.lrange(replayKey(stream), 0, -1);
+      return replayFrom(
+        buffered.map((message) => JSON.parse(message) as SequencedEvent),
+        afterId
+      );
+    },
+  };
+
+  const portStatus: PortStatusStore = {
+    async set(stationId, portId, status) {
+      await client.hset(portStatusKey(stationId), portId, status);
+    },
+    async getAll(stationId) {
+      return client.hgetall(portStatusKey(stationId));
+    },
+  };
+
+  return { bus, portStatus };
+}
@@ -0,0 +1,102 @@
+import { getRealtimeBus } from "./index";
+import { subscribeResumable } from "./subscription";
+import type { RealtimeEventType, SequencedEvent } from "./types";
+import { SSE_HEARTBEAT_INTERVAL_MS, SSE_RETRY_MS } from "@/lib/constants";
+
+export interface EventStreamOptions {
+  /** Replay stream the client's events are buffered in */
+  stream: string;
+  types: RealtimeEventType[];
+  /** Whether an event on the bus is meant for this client */
+  accepts: (event: SequencedEvent) => boolean;
+  /** Payload of the initial "connected" message */
+  hello: Record<string, unknown>;
+}
+
+/** Id of the last event the client saw: EventSource's header, or `?lastEventId=` for manual reconnects */
+function lastEventId(req: Request): number | null {
+  const raw =
+    req.headers.get("last-event-id") ??
+    new URL(req.url).searchParams.get("lastEventId");
+  const id = Number(raw);
+  return raw && Number.isSafeInteger(id) && id > 0 ? id : null;
+}
+
+/**
+ * Server-sent event response for one client. Every event carries its bus id;
+ * a reconnecting client gets what it missed from the replay buffer, or a
+ * `resync` event when the gap is too old to replay.
+ */
+export function openEventStream(
+  req: Request,
+  options: EventStreamOptions
+): Response {
+  const encoder = new TextEncoder();
+  let closed = false;
+  let stop: (() => void) | null = null;
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const write = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          closed = true;
+        }
+      };
+
+      write(`retry: ${SSE_RETRY_MS}\n`);
+      write(
+        `data: ${JSON.stringify({
+          type: "connected",
+          ...options.hello,
+          timestamp: new Date().toISOString(),
+        })}\n\n`
+      );
+
+      let unsubscribe: (() => void) | null = null;
+      const heartbeat = setInterval(() => {
+        write(`: heartbeat\n\n`);
+        if (closed) cleanup();
+      }, SSE_HEARTBEAT_INTERVAL_MS);
+
+      function cleanup() {
+        closed = true;
+        unsubscribe?.();
+        clearInterval(heartbeat);
+        try {
+          controller.close();
+        } catch {}
+      }
+
+      stop = cleanup;
+      req.signal?.addEventListener("abort", cleanup);
+
+      unsubscribe = await subscribeResumable(getRealtimeBus(), {
+        stream: options.stream,
+        types: options.types,
+        accepts: options.accepts,
+        lastEventId: lastEventId(req),
+        onEvent: (event) =>
+          write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`),
+        onResync: () => write(`event: resync\ndata: {}\n\n`),
+      });
+      // The client may have gone while the replay was loading
+      if (closed) unsubscribe();
+    },
+    cancel() {
+      closed = true;
+      stop?.();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
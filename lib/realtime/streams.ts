@@ -0,0 +1,47 @@
+import type { RealtimeEvent, ReplayResult, SequencedEvent } from "./types";
+
+/** Every station's port updates, for clients watching all stations */
+export const ALL_STATIONS_STREAM = "station:*";
+
+export function stationStream(stationId: string): string {
+  return `station:${stationId}`;
+}
+
+export function userStream(userId: string): string {
+  return `user:${userId}`;
+}
+
+/** Every queue update at one station, for its operators */
+export function queueStream(stationId: string): string {
+  return `queue:${stationId}`;
+}
+
+/** Replay streams an event is buffered in */
+export function eventStreams(event: RealtimeEvent): string[] {
+  switch (event.type) {
+    case "port-update":
+      return [stationStream(event.stationId), ALL_STATIONS_STREAM];
+    case "notification":
+      return [userStream(event.userId)];
+    case "queue-update":
+      return [userStream(event.userId), queueStream(event.stationId)];
+    case "ocpp-command":
+    case "ocpp-command-result":
+      // Only meaningful while someone waits for them, so never replayed
+      return [];
+  }
+}
+
+/**
+ * Replay from a stream's buffer (oldest first). The client's last event must
+ * still be buffered, otherwise something after it may have been dropped.
+ */
+export function replayFrom(
+  buffer: SequencedEvent[],
+  afterId: number
+): ReplayResult {
+  return {
+    events: buffer.filter((event) => event.id > afterId),
+    complete: buffer.some((event) => event.id === afterId),
+  };
+}
@@ -0,0 +1,62 @@
+import type { RealtimeBus, RealtimeEventType, SequencedEvent } from "./types";
+
+export interface ResumableSubscriptionOptions {
+  /** Replay stream the subscriber's events are buffered in */
+  stream: string;
+  types: RealtimeEventType[];
+  /** Whether an event on the bus is meant for this subscriber */
+  accepts: (event: SequencedEvent) => boolean;
+  /** Id of the last event the subscriber saw, to replay from */
+  lastEventId?: number | null;
+  onEvent: (event: SequencedEvent) => void;
+  /** Events since `lastEventId` can't be replayed */
+  onResync: () => void;
+}
+
+/**
+ * Subscribe to the bus, first replaying what the subscriber missed since
+ * `lastEventId`. Live events that arrive while the replay loads are held
+ * back and delivered after it, without duplicates. Resolves to the function
+ * that unsubscribes.
+ */
+export async function subscribeResumable(
+  bus: RealtimeBus,
+  options: ResumableSubscriptionOptions
+): Promise<() => void> {
+  // A live event can also have made it into the replay
+  const replayed = new Set<number>();
+  const deliverLive = (event: SequencedEvent) => {
+    if (!replayed.has(event.id)) options.onEvent(event);
+  };
+
+  let pending: SequencedEvent[] | null = [];
+  const listener = (event: SequencedEvent) => {
+    if (!options.accepts(event)) return;
+    if (pending) pending.push(event);
+    else deliverLive(event);
+  };
+  const unsubscribe = options.types.map((type) => bus.subscribe(type, listener));
+
+  if (options.lastEventId) {
+    try {
+      const replay = await bus.replay(options.stream, options.lastEventId);
+      if (replay.complete) {
+        for (const event of replay.events.filter(options.accepts)) {
+          replayed.add(event.id);
+          options.onEvent(event);
+        }
+      } else {
+        options.onResync();
+      }
+    } catch (error) {
+      console.error("Realtime replay failed:", error);
+      options.onResync();
+    }
+  }
+
+  const waiting = pending;
+  pending = null;
+  waiting.sort((a, b) => a.id - b.id).forEach(deliverLive);
+
+  return () => unsubscribe.forEach((off) => off());
+}
@@ -0,0 +1,118 @@
+import type { RemoteCommand } from "@/lib/ocpp/protocol";
+
+// ── Event type definitions ──
+
+export interface PortUpdateEvent {
+  type: "port-update";
+  stationId: string;
+  portId: string;
+  status: string;
+  event: string;
+  timestamp: string;
+}
+
+export interface UserNotificationEvent {
+  type: "notification";
+  userId: string;
+  notification: {
+    _id: string;
+    title: string;
+    message: string;
+    notificationType: string;
+    stationId?: string;
+    actionUrl?: string;
+  };
+}
+
+export interface QueueUpdateEvent {
+  type: "queue-update";
+  stationId: string;
+  userId: string;
+  position: number;
+  queueStatus: string;
+  /** Null when no port in service fits the driver's connector */
+  estimatedWaitMin: number | null;
+}
+
+/**
+ * A command for an OCPP charge point, sent to every instance; the one holding
+ * the charge point's connection runs it and publishes the result.
+ */
+export type OcppCommandEvent = {
+  type: "ocpp-command";
+  requestId: string;
+  chargePointId: string;
+} & RemoteCommand;
+
+export interface OcppCommandResultEvent {
+  type: "ocpp-command-result";
+  requestId: string;
+  ok: boolean;
+  /** The charge point's CALLRESULT payload */
+  payload?: Record<string, unknown>;
+  error?: string;
+}
+
+export type RealtimeEvent =
+  | PortUpdateEvent
+  | UserNotificationEvent
+  | QueueUpdateEvent
+  | OcppCommandEvent
+  | OcppCommandResultEvent;
+
+export type RealtimeEventType = RealtimeEvent["type"];
+
+export type RealtimeEventOf<T extends RealtimeEventType> = Extract<
+  RealtimeEvent,
+  { type: T }
+>;
+
+/** An event as delivered, stamped with its bus-wide, increasing id */
+export type SequencedEvent<E extends RealtimeEvent = RealtimeEvent> = E & {
+  id: number;
+};
+
+export interface ReplayResult {
+  /** Buffered events after the requested id, oldest first */
+  events: SequencedEvent[];
+  /**
+   * False when the requested id is no longer buffered (trimmed, expired or
+   * from before a restart), so events may be missing and the client must
+   * resync from scratch.
+   */
+  complete: boolean;
+}
+
+// ── Backend contracts ──
+
+/**
+ * Delivers events to every subscriber in every app instance. Publishing
+ * resolves once the backend has accepted the event; delivery to listeners
+ * (including ones in the publishing instance) may happen after that.
+ *
+ * Every event is also kept in a bounded replay buffer for each stream it
+ * belongs to (see `eventStreams`), so a client that reconnects can catch up.
+ */
+export interface RealtimeBus {
+  readonly name: string;
+  publish(event: RealtimeEvent): Promise<void>;
+  /** Listen for one event type; returns the function that stops listening */
+  subscribe<T extends RealtimeEventType>(
+    type: T,
+    listener: (event: SequencedEvent<RealtimeEventOf<T>>) => void
+  ): () => void;
+  /** Buffered events of one stream published after `afterId` */
+  replay(stream: string, afterId: number): Promise<ReplayResult>;
+}
+
+/** Latest hardware-reported status of each port, shared by all instances */
+export interface PortStatusStore {
+  set(stationId: string, portId: string, status: string): Promise<void>;
+  /** Port id → status for one station */
+  getAll(stationId: string): Promise<Record<string, string>>;
+}
+
+export interface RealtimeBackend {
+  bus: RealtimeBus;
+  portStatus: PortStatusStore;
+}
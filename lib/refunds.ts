@@ -0,0 +1,249 @@
+/**
+ * Refunds for paid bookings that are cancelled or end as a no-show.
+ *
+ * The refundable share comes from the station's cancellation policy:
+ * a full refund when cancelled at least `fullRefundHoursBefore` hours ahead,
+ * `partialRefundPercent` after that, nothing on a no-show. Admin-initiated
+ * cancellations are always refunded in full. Metered sessions that use
+ * less than was prepaid get the difference back as a usage adjustment.
+ *
+ * The payout goes through the booking's payment provider. Providers without
+ * a refund API (eSewa) leave the refund as "manual" for the station to pay.
+ */
+
+import mongoose from "mongoose";
+import dbConnect from "@/lib/db";
+import Booking, { type IBookingDocument } from "@/lib/models/Booking";
+import Station from "@/lib/models/Station";
+import User from "@/lib/models/User";
+import Refund, { type IRefundDocument } from "@/lib/models/Refund";
+import { getPaymentProvider, hasOnlinePayment } from "@/lib/payments";
+import { notify } from "@/lib/notifications";
+import {
+  DEFAULT_FULL_REFUND_HOURS_BEFORE,
+  DEFAULT_PARTIAL_REFUND_PERCENT,
+  MAX_REFUND_ATTEMPTS,
+  MS_PER_HOUR,
+} from "@/lib/constants";
+
+export interface CancellationPolicy {
+  fullRefundHoursBefore: number;
+  partialRefundPercent: number;
+}
+
+export type RefundReason = IRefundDocument["reason"];
+
+export const DEFAULT_CANCELLATION_POLICY: CancellationPolicy = {
+  fullRefundHoursBefore: DEFAULT_FULL_REFUND_HOURS_BEFORE,
+  partialRefundPercent: DEFAULT_PARTIAL_REFUND_PERCENT,
+};
+
+/** Percentage of the paid amount that is refundable (0–100) */
+export function refundPercentFor(
+  policy: CancellationPolicy,
+  reason: RefundReason,
+  startTime: Date,
+  now: Date = new Date()
+): number {
+  if (reason === "no_show") return 0;
+  if (reason === "admin_cancelled") return 100;
+
+  const hoursBefore = (new Date(startTime).getTime() - now.getTime()) / MS_PER_HOUR;
+  return hoursBefore >= policy.fullRefundHoursBefore
+    ? 100
+    : Math.max(0, Math.min(100, policy.partialRefundPercent));
+}
+
+async function loadCancellationPolicy(
+  stationId: string
+): Promise<CancellationPolicy> {
+  if (stationId.startsWith("station-")) return DEFAULT_CANCELLATION_POLICY;
+
+  const station = await Station.findById(stationId)
+    .select("cancellationPolicy")
+    .lean();
+  return { ...DEFAULT_CANCELLATION_POLICY, ...station?.cancellationPolicy };
+}
+
+/**
+ * Create the Refund record for a closed booking and attempt the payout.
+ * Idempotent: a booking only ever gets one Refund.
+ */
+export async function createRefundForBooking(
+  booking: IBookingDocument,
+  reason: RefundReason,
+  now: Date = new Date()
+): Promise<IRefundDocument | null> {
+  if (!hasOnlinePayment(booking)) return null;
+
+  const existing = await Refund.findOne({ bookingId: booking._id });
+  if (existing) return existing;
+
+  const policy = await loadCancellationPolicy(String(booking.stationId));
+  const paidAmount = booking.amountPaid ?? 0;
+  const percent = refundPercentFor(policy, reason, booking.startTime, now);
+
+  return openRefund(booking, reason, Math.round((paidAmount * percent) / 100));
+}
+
+/**
+ * Refund the part of the prepaid amount a metered session did not use.
+ * Idempotent like cancellation refunds — one Refund per booking.
+ */
+export async function createUsageRefund(
+  booking: IBookingDocument,
+  amount: number
+): Promise<IRefundDocument | null> {
+  if (!hasOnlinePayment(booking)) return null;
+
+  const existing = await Refund.findOne({ bookingId: booking._id });
+  if (existing) return existing;
+
+  return openRefund(booking, "usage_adjustment", Math.round(amount));
+}
+
+async function openRefund(
+  booking: IBookingDocument,
+  reason: RefundReason,
+  amount: number
+): Promise<IRefundDocument | null> {
+  const paidAmount = booking.amountPaid ?? 0;
+  const provider = getPaymentProvider(booking.paymentMethod)!;
+
+  let refund: IRefundDocument;
+  try {
+    refund = await Refund.create({
+      bookingId: booking._id,
+      userId: booking.userId,
+      stationId: String(booking.stationId),
+      provider: provider.method,
+      reason,
+      paidAmount,
+      amount,
+      percent: paidAmount > 0 ? Math.round((amount / paidAmount) * 100) : 0,
+      status:
+        amount <= 0 ? "not_eligible" : provider.refund ? "pending" : "manual",
+    });
+  } catch (error) {
+    // Lost a race with another caller creating the same refund
+    if ((error as { code?: number }).code === 11000) {
+      return Refund.findOne({ bookingId: booking._id });
+    }
+    throw error;
+  }
+
+  await syncBookingRefund(refund);
+
+  if (refund.status === "pending") {
+    // Already claimed by the retry job, which records the outcome
+    return (await processRefund(refund)) ?? refund;
+  }
+  return refund;
+}
+
+/**
+ * Send a pending or failed refund to the payment provider and record the
+ * outcome. The refund is claimed first, so it is only ever paid out by one
+ * caller — the retry job may pick it up while openRefund is still on it.
+ * Returns null when another caller has it or it is out of attempts.
+ */
+export async function processRefund(
+  pending: IRefundDocument
+): Promise<IRefundDocument | null> {
+  const refund = await Refund.findOneAndUpdate(
+    {
+      _id: pending._id,
+      status: { $in: ["pending", "failed"] },
+      attempts: { $lt: MAX_REFUND_ATTEMPTS },
+    },
+    { $set: { status: "processing" }, $inc: { attempts: 1 } },
+    { new: true }
+  );
+  if (!refund) return null;
+
+  try {
+    const booking = await Booking.findById(refund.bookingId);
+    if (!booking) throw new Error("Booking not found");
+
+    const provider = getPaymentProvider(booking.paymentMethod);
+    if (!provider?.refund || !provider.getReference(booking)) {
+      throw new Error("Booking has no online payment to refund");
+    }
+
+    // A share of a multi-booking payment is never the whole transaction
+    const isFull = refund.amount >= (booking.paymentAmount ?? refund.paidAmount);
+    const mobile = isFull
+      ? undefined
+      : (await User.findOne({ clerkId: booking.userId }).select("phone").lean())
+          ?.phone || booking.customerPhone || undefined;
+
+    const reference = await provider.refund(booking, {
+      amount: refund.amount,
+      isFull,
+      mobile,
+    });
+
+    refund.status = "completed";
+    refund.providerReference = reference;
+    refund.processedAt = new Date();
+    refund.lastError = undefined;
+  } catch (error) {
+    refund.status = "failed";
+    refund.lastError = error instanceof Error ? error.message : String(error);
+    console.error("Refund failed:", refund._id, refund.lastError);
+  }
+
+  await refund.save();
+  await syncBookingRefund(refund);
+
+  if (refund.status === "completed") {
+    await notify({
+      type: "refund_issued",
+      userId: refund.userId,
+      bookingId: refund.bookingId.toString(),
+      amount: refund.amount,
+      paymentMethod: refund.provider,
+    }).catch((error) => console.error("Failed to notify refund:", refund._id, error));
+  }
+  return refund;
+}
+
+/** Scheduled job: retry refunds that are still pending or failed */
+export async function retryFailedRefunds(): Promise<{
+  retried: number;
+  completed: number;
+}> {
+  await dbConnect();
+
+  const refunds = await Refund.find({
+    status: { $in: ["pending", "failed"] },
+    attempts: { $lt: MAX_REFUND_ATTEMPTS },
+  })
+    .sort({ updatedAt: 1 })
+    .limit(50);
+
+  let retried = 0;
+  let completed = 0;
+  for (const refund of refunds) {
+    const result = await processRefund(refund);
+    if (!result) continue;
+    retried++;
+    if (result.status === "completed") completed++;
+  }
+  return { retried, completed };
+}
+
+async function syncBookingRefund(refund: IRefundDocument): Promise<void> {
+  await Booking.updateOne(
+    { _id: refund.bookingId },
+    {
+      $set: {
+        refund: {
+          refundId: refund._id as mongoose.Types.ObjectId,
+          status: refund.status,
+          amount: refund.amount,
+        },
+      },
+    }
+  );
+}
@@ -0,0 +1,82 @@
+/**
+ * Minimal in-process job scheduler.
+ *
+ * Jobs are registered by name and run on a fixed interval once the scheduler
+ * is started from `instrumentation.ts`. The same jobs can be triggered over
+ * HTTP through `/api/cron/[job]` on platforms without long-lived processes.
+ * Every job must be safe to run concurrently on several instances.
+ */
+
+export interface ScheduledJob {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<unknown>;
+}
+
+// ── Singleton registry (survives Next.js HMR) ──
+
+interface SchedulerState {
+  jobs: Map<string, ScheduledJob>;
+  timers: Map<string, ReturnType<typeof setInterval>>;
+  running: Set<string>;
+}
+
+const globalForScheduler = globalThis as unknown as {
+  __scheduler: SchedulerState | undefined;
+};
+
+const state: SchedulerState = globalForScheduler.__scheduler ?? {
+  jobs: new Map(),
+  timers: new Map(),
+  running: new Set(),
+};
+
+if (!globalForScheduler.__scheduler) {
+  globalForScheduler.__scheduler = state;
+}
+
+export function registerJob(job: ScheduledJob): void {
+  state.jobs.set(job.name, job);
+}
+
+export function getJob(name: string): ScheduledJob | undefined {
+  return state.jobs.get(name);
+}
+
+/**
+ * Run a job once. Skips (returning null) if the previous run of the same job
+ * on this instance has not finished yet.
+ */
+export async function runJob(name: string): Promise<unknown> {
+  const job = state.jobs.get(name);
+  if (!job) throw new Error(`Unknown job "${name}"`);
+  if (state.running.has(name)) return null;
+
+  state.running.add(name);
+  try {
+    return await job.run();
+  } finally {
+    state.running.delete(name);
+  }
+}
+
+/** Start interval timers for every registered job that isn't already running */
+export function startScheduler(): void {
+  for (const job of state.jobs.values()) {
+    if (state.timers.has(job.name)) continue;
+
+    const timer = setInterval(() => {
+      runJob(job.name).catch((error) => {
+        console.error(`Scheduled job "${job.name}" failed:`, error);
+      });
+    }, job.intervalMs);
+    // Never keep the process alive just for housekeeping
+    timer.unref?.();
+    state.timers.set(job.name, timer);
+  }
+}
+
+export function stopScheduler(): void {
+  for (const timer of state.timers.values()) clearInterval(timer);
+  state.timers.clear();
+}
@@ -0,0 +1,113 @@
+/**
+ * Many simulated ports at once, each running a scenario, with request
+ * statistics for load testing the realtime fan-out and queue processing.
+ */
+
+import {
+  createSimulatedPort,
+  type DeviceCredentials,
+  type SimulatedPortOptions,
+  type SimulatorReport,
+} from "./port";
+import type { Scenario } from "./scenarios";
+
+export interface FleetOptions {
+  baseUrl: string;
+  devices: DeviceCredentials[];
+  scenario: Scenario;
+  /** Run for this long; without it, until the signal aborts */
+  durationMs?: number;
+  signal?: AbortSignal;
+  /** Spread port start-ups over this long instead of starting all at once */
+  rampUpMs?: number;
+  /** Options applied to every port */
+  port?: Omit<SimulatedPortOptions, "baseUrl" | "device" | "onReport">;
+  onReport?: (report: SimulatorReport) => void;
+}
+
+export interface FleetStats {
+  ports: number;
+  requests: number;
+  failures: number;
+  /** Request count by HTTP status; 0 means no response */
+  byStatus: Record<number, number>;
+  latencyMs: { p50: number; p95: number; p99: number; max: number };
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length))];
+}
+
+/** Run the fleet until it is done and return its request statistics */
+export async function runFleet(options: FleetOptions): Promise<FleetStats> {
+  const latencies: number[] = [];
+  const byStatus: Record<number, number> = {};
+  let failures = 0;
+
+  const onReport = (report: SimulatorReport) => {
+    latencies.push(report.latencyMs);
+    byStatus[report.httpStatus] = (byStatus[report.httpStatus] ?? 0) + 1;
+    if (!report.ok) failures++;
+    options.onReport?.(report);
+  };
+
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  options.signal?.addEventListener("abort", abort, { once: true });
+  if (options.signal?.aborted) abort();
+  const timer =
+    options.durationMs != null ? setTimeout(abort, options.durationMs) : undefined;
+
+  const ports = options.devices.map((device) =>
+    createSimulatedPort({ ...options.port, baseUrl: options.baseUrl, device, onReport })
+  );
+  const step = ports.length > 1 ? (options.rampUpMs ?? 0) / (ports.length - 1) : 0;
+
+  await Promise.all(
+    ports.map(async (port, index) => {
+      try {
+        if (step > 0) {
+          await new Promise<void>((resolve) => {
+            const delay = setTimeout(resolve, index * step);
+            controller.signal.addEventListener(
+              "abort",
+              () => {
+                clearTimeout(delay);
+                resolve();
+              },
+              { once: true }
+            );
+          });
+        }
+        if (controller.signal.aborted) return;
+        await port.start();
+        await options.scenario(port, controller.signal);
+      } catch (error) {
+        // Scenarios end by throwing the abort reason; anything else ends the run
+        if (controller.signal.aborted) return;
+        abort();
+        throw error;
+      } finally {
+        port.stop();
+      }
+    })
+  );
+
+  clearTimeout(timer);
+  options.signal?.removeEventListener("abort", abort);
+
+  const sorted = [...latencies].sort((a, b) => a - b);
+  return {
+    ports: ports.length,
+    requests: latencies.length,
+    failures,
+    byStatus,
+    latencyMs: {
+      p50: percentile(sorted, 50),
+      p95: percentile(sorted, 95),
+      p99: percentile(sorted, 99),
+      max: sorted[sorted.length - 1] ?? 0,
+    },
+  };
+}
@@ -0,0 +1,10 @@
+/**
+ * Software stand-in for charging port hardware: simulated ports that talk to
+ * /api/hardware/* exactly like the ESP32 sketch, scenarios that drive them
+ * and a fleet runner for load tests. Plain Node — it only needs the app's
+ * URL and registered device credentials. CLI: scripts/hardware-simulator.ts.
+ */
+
+export * from "./port";
+export * from "./scenarios";
+export * from "./fleet";
@@ -0,0 +1,236 @@
+/**
+ * A charging port controller in software: the same state machine, reports
+ * and heartbeats as hardware/esp32-station-port, signed with a registered
+ * device's secret, so the backend can't tell it from the board.
+ *
+ *   available → connected → charging → complete → available
+ *
+ * `advance()` is the board's BOOT button; charging also completes by itself
+ * after `chargeDurationMs`, metering simulated power on the way.
+ */
+
+import { signRequestHeaders } from "@/lib/hardwareSignature";
+import { HARDWARE_HEARTBEAT_INTERVAL_MS } from "@/lib/constants";
+
+export type PortState = "available" | "connected" | "charging" | "complete" | "error";
+
+/** A registered device, as the admin station page issues it */
+export interface DeviceCredentials {
+  deviceId: string;
+  secret: string;
+  stationId: string;
+  portId: string;
+}
+
+export interface SimulatedPortOptions {
+  /** Base URL of the app, e.g. http://localhost:3000 */
+  baseUrl: string;
+  device: DeviceCredentials;
+  powerKw?: number;
+  /** Simulated charging time per real time, for the meter */
+  timeScale?: number;
+  meterIntervalMs?: number;
+  /** Charging completes by itself after this long; 0 waits for advance() */
+  chargeDurationMs?: number;
+  heartbeatIntervalMs?: number;
+  firmwareVersion?: string;
+  /** Called after every request the port makes */
+  onReport?: (report: SimulatorReport) => void;
+}
+
+export interface SimulatorReport {
+  deviceId: string;
+  kind: "port-update" | "heartbeat";
+  /** port-update event, e.g. "charging_started" */
+  event?: string;
+  /** HTTP status; 0 when the request didn't get a response */
+  httpStatus: number;
+  ok: boolean;
+  latencyMs: number;
+  error?: string;
+}
+
+export interface SimulatedPort {
+  readonly device: DeviceCredentials;
+  state(): PortState;
+  /** kWh delivered in the current (or last) session */
+  energyKwh(): number;
+  /** Report the initial state and start sending heartbeats */
+  start(): Promise<void>;
+  /** Move to the next state, like pressing the BOOT button */
+  advance(): Promise<void>;
+  /** Report a fault; the next advance() makes the port available again */
+  fail(): Promise<void>;
+  /** Stop all timers; nothing more is sent */
+  stop(): void;
+}
+
+// Mirrors the sketch's stateStatuses / stateEvents
+const STATE_STATUS: Record<PortState, string> = {
+  available: "available",
+  connected: "occupied",
+  charging: "occupied",
+  complete: "occupied",
+  error: "maintenance",
+};
+
+const STATE_EVENT: Record<PortState, string> = {
+  available: "port_available",
+  connected: "vehicle_connected",
+  charging: "charging_started",
+  complete: "charging_complete",
+  error: "error",
+};
+
+const NEXT_STATE: Record<PortState, PortState> = {
+  available: "connected",
+  connected: "charging",
+  charging: "complete",
+  complete: "available",
+  error: "available",
+};
+
+// The sketch's defaults
+const DEFAULT_POWER_KW = 7.2;
+const DEFAULT_TIME_SCALE = 120;
+const DEFAULT_METER_INTERVAL_MS = 5000;
+const DEFAULT_CHARGE_DURATION_MS = 30_000;
+const DEFAULT_FIRMWARE_VERSION = "sim-1.2.0";
+const REQUEST_TIMEOUT_MS = 5000;
+
+export function createSimulatedPort(options: SimulatedPortOptions): SimulatedPort {
+  const { device } = options;
+  const powerKw = options.powerKw ?? DEFAULT_POWER_KW;
+  const timeScale = options.timeScale ?? DEFAULT_TIME_SCALE;
+  const meterIntervalMs = options.meterIntervalMs ?? DEFAULT_METER_INTERVAL_MS;
+  const chargeDurationMs = options.chargeDurationMs ?? DEFAULT_CHARGE_DURATION_MS;
+
+  let state: PortState = "available";
+  let sessionKwh = 0;
+  let lastEnergyAt = 0;
+  let stopped = false;
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+  let meter: ReturnType<typeof setInterval> | undefined;
+  let autoComplete: ReturnType<typeof setTimeout> | undefined;
+  // Reports go out one at a time, in order, like the board's blocking HTTP
+  let outbox = Promise.resolve();
+
+  async function post(kind: SimulatorReport["kind"], body: Record<string, unknown>) {
+    if (stopped) return;
+    const raw = JSON.stringify(body);
+    const startedAt = Date.now();
+    const report: SimulatorReport = {
+      deviceId: device.deviceId,
+      kind,
+      event: typeof body.event === "string" ? body.event : undefined,
+      httpStatus: 0,
+      ok: false,
+      latencyMs: 0,
+    };
+
+    try {
+      const res = await fetch(new URL(`/api/hardware/${kind}`, options.baseUrl), {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-device-id": device.deviceId,
+          ...signRequestHeaders(device.secret, raw),
+        },
+        body: raw,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      report.httpStatus = res.status;
+      report.ok = res.ok;
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        report.error = data.error || res.statusText;
+      }
+    } catch (error) {
+      report.error = (error as Error).message;
+    }
+    report.latencyMs = Date.now() - startedAt;
+    options.onReport?.(report);
+  }
+
+  function send(kind: SimulatorReport["kind"], body: Record<string, unknown>) {
+    outbox = outbox.then(() => post(kind, body));
+    return outbox;
+  }
+
+  function sendReport(event: string) {
+    return send("port-update", {
+      stationId: device.stationId,
+      portId: device.portId,
+      status: STATE_STATUS[state],
+      event,
+      // Meter reading for the session in progress / just finished
+      ...(state === "charging" || state === "complete"
+        ? { energyKwh: Number(sessionKwh.toFixed(3)) }
+        : {}),
+    });
+  }
+
+  function integrateEnergy() {
+    const now = Date.now();
+    sessionKwh += (powerKw * timeScale * (now - lastEnergyAt)) / 3_600_000;
+    lastEnergyAt = now;
+  }
+
+  function clearChargingTimers() {
+    clearInterval(meter);
+    clearTimeout(autoComplete);
+    meter = autoComplete = undefined;
+  }
+
+  function enter(next: PortState) {
+    if (state === "charging") integrateEnergy();
+    clearChargingTimers();
+    state = next;
+
+    // A new charging session starts the meter from zero
+    if (state === "charging") {
+      sessionKwh = 0;
+      lastEnergyAt = Date.now();
+      meter = setInterval(() => {
+        integrateEnergy();
+        void sendReport("meter_values");
+      }, meterIntervalMs);
+      if (chargeDurationMs > 0) {
+        autoComplete = setTimeout(() => void port.advance(), chargeDurationMs);
+      }
+    }
+    return sendReport(STATE_EVENT[state]);
+  }
+
+  const port: SimulatedPort = {
+    device,
+    state: () => state,
+    energyKwh: () => sessionKwh,
+    async start() {
+      stopped = false;
+      clearInterval(heartbeat);
+      heartbeat = setInterval(
+        () =>
+          void send("heartbeat", {
+            stationId: device.stationId,
+            portId: device.portId,
+            firmwareVersion: options.firmwareVersion ?? DEFAULT_FIRMWARE_VERSION,
+          }),
+        options.heartbeatIntervalMs ?? HARDWARE_HEARTBEAT_INTERVAL_MS
+      );
+      await sendReport(STATE_EVENT[state]);
+    },
+    advance() {
+      return enter(NEXT_STATE[state]);
+    },
+    fail() {
+      return enter("error");
+    },
+    stop() {
+      stopped = true;
+      clearInterval(heartbeat);
+      clearChargingTimers();
+    },
+  };
+  return port;
+}
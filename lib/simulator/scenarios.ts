@@ -0,0 +1,110 @@
+/**
+ * Scenarios drive a simulated port until their signal aborts. Each port of a
+ * fleet runs its own copy, so random scenarios desynchronise naturally.
+ */
+
+import type { SimulatedPort } from "./port";
+
+export type Scenario = (port: SimulatedPort, signal: AbortSignal) => Promise<void>;
+
+/** One step of a scripted scenario */
+export type ScenarioStep =
+  | { action: "advance" }
+  | { action: "fail" }
+  | { action: "wait"; ms: number };
+
+/** Inclusive range of milliseconds, picked uniformly */
+export type DurationRange = [min: number, max: number];
+
+export interface RandomScenarioOptions {
+  /** Time a port stays free before the next vehicle arrives */
+  idleMs?: DurationRange;
+  /** Time between plugging in and charging */
+  connectMs?: DurationRange;
+  /** Charging time, unless the port completes by itself first */
+  chargeMs?: DurationRange;
+  /** Time the vehicle stays plugged in after charging */
+  unplugMs?: DurationRange;
+  /** Chance (0–1) that a session ends in a fault instead */
+  faultRate?: number;
+  /** Time a faulted port stays down */
+  repairMs?: DurationRange;
+}
+
+/** Resolves after `ms`, or rejects as soon as the signal aborts */
+export function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+function pick([min, max]: DurationRange): number {
+  return min + Math.random() * (max - min);
+}
+
+/** Like the sketch's AUTO_DEMO_MODE: advance every `cycleMs` */
+export function cycleScenario(cycleMs = 10_000): Scenario {
+  return async (port, signal) => {
+    for (;;) {
+      await sleep(cycleMs, signal);
+      await port.advance();
+    }
+  };
+}
+
+/** Run steps in order, over and over if `repeat` */
+export function scriptedScenario(steps: ScenarioStep[], repeat = false): Scenario {
+  return async (port, signal) => {
+    do {
+      for (const step of steps) {
+        if (signal.aborted) return;
+        if (step.action === "wait") await sleep(step.ms, signal);
+        else if (step.action === "fail") await port.fail();
+        else await port.advance();
+      }
+    } while (repeat && !signal.aborted);
+  };
+}
+
+/** Vehicles arrive, charge and leave at random, with the odd fault */
+export function randomScenario({
+  idleMs = [5_000, 60_000],
+  connectMs = [2_000, 10_000],
+  chargeMs = [20_000, 120_000],
+  unplugMs = [2_000, 30_000],
+  faultRate = 0,
+  repairMs = [30_000, 120_000],
+}: RandomScenarioOptions = {}): Scenario {
+  return async (port, signal) => {
+    // Ports start at random points of their idle time
+    await sleep(Math.random() * pick(idleMs), signal);
+    for (;;) {
+      await port.advance(); // connected
+      await sleep(pick(connectMs), signal);
+
+      if (Math.random() < faultRate) {
+        await port.fail();
+        await sleep(pick(repairMs), signal);
+        await port.advance(); // available
+        await sleep(pick(idleMs), signal);
+        continue;
+      }
+
+      await port.advance(); // charging
+      await sleep(pick(chargeMs), signal);
+      if (port.state() === "charging") await port.advance(); // complete
+      await sleep(pick(unplugMs), signal);
+      await port.advance(); // available
+      await sleep(pick(idleMs), signal);
+    }
+  };
+}
@@ -0,0 +1,219 @@
+/**
+ * Operator commands on a station's ports: start and stop walk-in sessions
+ * and set a port's status by hand. The admin REST routes call these, and the
+ * realtime WebSocket gateway forwards its commands to those routes, so both
+ * enforce the same rules.
+ */
+
+import mongoose from "mongoose";
+import Booking, { type IBookingDocument } from "@/lib/models/Booking";
+import Station, { type IStationDocument } from "@/lib/models/Station";
+import type { IUserDocument } from "@/lib/models/User";
+import { openBooking, transitionBooking } from "@/lib/bookingLifecycle";
+import { broadcastPortUpdate } from "@/lib/realtime";
+import { canOperate } from "@/lib/stationOperators";
+import { recordPortStatusChange } from "@/lib/portStatusHistory";
+
+export { canOperate, findStationOperator } from "@/lib/stationOperators";
+
+export class StationCommandError extends Error {
+  constructor(
+    message: string,
+    public readonly httpStatus: number = 400
+  ) {
+    super(message);
+    this.name = "StationCommandError";
+  }
+}
+
+export const OPERATOR_PORT_STATUSES = [
+  "available",
+  "occupied",
+  "maintenance",
+  "reserved",
+] as const;
+
+export type OperatorPortStatus = (typeof OPERATOR_PORT_STATUSES)[number];
+
+function toObjectId(id: string): mongoose.Types.ObjectId | null {
+  return mongoose.Types.ObjectId.isValid(id) ? new mongoose.Types.ObjectId(id) : null;
+}
+
+/** Open an active walk-in session on a port */
+export async function startWalkInSession(
+  operator: IUserDocument,
+  stationId: string,
+  portId: string
+): Promise<IBookingDocument> {
+  if (!stationId || !portId) {
+    throw new StationCommandError("Station and port are required");
+  }
+
+  // Convert to ObjectId if valid, keep as string otherwise
+  const stationObjId = toObjectId(stationId);
+  const portObjId = toObjectId(portId);
+
+  const station = stationObjId ? await Station.findById(stationObjId) : null;
+  if (!station) {
+    throw new StationCommandError("Station not found in database", 404);
+  }
+  if (!canOperate(operator, station)) {
+    throw new StationCommandError("Not authorized for this station", 403);
+  }
+
+  // Check no active walk-in already on this port (match both ObjectId and string)
+  const portMatches = portObjId ? [portObjId, portId] : [portId];
+  const stationMatches = stationObjId ? [stationObjId, stationId] : [stationId];
+  const existing = await Booking.findOne({
+    stationId: { $in: stationMatches },
+    portId: { $in: portMatches },
+    source: { $in: ["walk-in-manual", "walk-in-qr"] },
+    status: "active",
+  });
+  if (existing) {
+    throw new StationCommandError(
+      "This port already has an active walk-in session",
+      409
+    );
+  }
+
+  // Opening the booking as active also marks the port occupied
+  const now = new Date();
+  return openBooking(
+    {
+      userId: `walk-in-${Date.now()}`,
+      userName: "Walk-in",
+      userEmail: "",
+      stationId: stationObjId || stationId,
+      portId: portObjId || portId,
+      startTime: now,
+      endTime: new Date(now.getTime() + 3600000), // placeholder 1h
+      estimatedDuration: 60,
+      status: "active",
+      source: "walk-in-manual",
+      amountPaid: 0,
+      paymentMethod: "cash",
+      customerName: "Walk-in",
+      customerPhone: "",
+      vehicleNumber: "",
+      vehicleType: "",
+      notes: "",
+    },
+    { actor: "admin", actorId: operator.clerkId, reason: "walk-in-start" }
+  );
+}
+
+export interface StoppedWalkIn {
+  booking: IBookingDocument;
+  amount: number;
+  durationMins: number;
+}
+
+/** Complete an active walk-in session and charge for the time used */
+export async function stopWalkInSession(
+  operator: IUserDocument,
+  bookingId: string
+): Promise<StoppedWalkIn> {
+  if (!bookingId) {
+    throw new StationCommandError("Booking ID is required");
+  }
+
+  const booking = await Booking.findById(bookingId);
+  if (!booking || booking.status !== "active") {
+    throw new StationCommandError("Active walk-in session not found", 404);
+  }
+
+  const stObjId = toObjectId(String(booking.stationId));
+  const station = stObjId ? await Station.findById(stObjId) : null;
+  if (operator.role === "admin" && (!station || !canOperate(operator, station))) {
+    throw new StationCommandError("Not authorized", 403);
+  }
+
+  const now = new Date();
+  const durationMs = now.getTime() - new Date(booking.startTime).getTime();
+  const durationMins = Math.max(1, Math.round(durationMs / 60000));
+
+  // Calculate amount from station pricing; metered tariffs are re-billed
+  // from the meter reading when the booking completes
+  const perHour = station?.pricing?.perHour || 200;
+  const estimate = Math.round((durationMs / 3600000) * perHour);
+
+  // Completing the booking also frees the port
+  const completed = await transitionBooking(booking, "completed", {
+    actor: "admin",
+    actorId: operator.clerkId,
+    reason: "walk-in-stop",
+    set: {
+      endTime: now,
+      estimatedDuration: durationMins,
+      amountPaid: estimate,
+    },
+  });
+
+  return {
+    booking: completed,
+    amount: completed.amountPaid ?? estimate,
+    durationMins,
+  };
+}
+
+/** Set a port's status by hand; marking it available also releases its booking */
+export async function setPortStatus(
+  operator: IUserDocument,
+  stationId: string,
+  portId: string,
+  status: string
+): Promise<IStationDocument> {
+  if (!portId || !status) {
+    throw new StationCommandError("portId and status are required");
+  }
+  if (!OPERATOR_PORT_STATUSES.includes(status as OperatorPortStatus)) {
+    throw new StationCommandError(
+      `Invalid status. Must be one of: ${OPERATOR_PORT_STATUSES.join(", ")}`
+    );
+  }
+
+  const station = toObjectId(stationId) ? await Station.findById(stationId) : null;
+  if (!station) {
+    throw new StationCommandError("Station not found", 404);
+  }
+  if (!canOperate(operator, station)) {
+    throw new StationCommandError("You can only manage your own stations", 403);
+  }
+
+  // Find the port by _id or portNumber
+  const port = station.chargingPorts.find(
+    (p: { _id?: { toString(): string }; portNumber?: string }) =>
+      p._id?.toString() === portId || p.portNumber === portId
+  );
+  if (!port) {
+    throw new StationCommandError("Port not found", 404);
+  }
+
+  const previousStatus = port.status;
+  port.status = status as OperatorPortStatus;
+  if (status === "available") {
+    port.currentBookingId = undefined;
+    port.heldForQueueEntryId = undefined;
+  }
+  await station.save();
+
+  await recordPortStatusChange({
+    stationId: String(station._id),
+    portId: String(port._id ?? port.portNumber),
+    source: "admin",
+    previousStatus,
+    status,
+    event: "admin_override",
+    actorId: operator.clerkId,
+  });
+  await broadcastPortUpdate({
+    stationId: String(station._id),
+    portId: String(port._id ?? port.portNumber),
+    status,
+    event: "admin_override",
+    timestamp: new Date().toISOString(),
+  });
+
+  return station;
+}
@@ -0,0 +1,27 @@
+/**
+ * Who may operate a station. Kept free of the booking and payment modules so
+ * the realtime gateway can check operators from outside the Next.js runtime.
+ */
+
+import dbConnect from "@/lib/db";
+import type { IStationDocument } from "@/lib/models/Station";
+import User, { type IUserDocument } from "@/lib/models/User";
+
+/** The admin behind a Clerk user id, or null if they aren't one */
+export async function findStationOperator(
+  clerkId: string
+): Promise<IUserDocument | null> {
+  await dbConnect();
+  const user = await User.findOne({ clerkId });
+  return user && (user.role === "admin" || user.role === "superadmin")
+    ? user
+    : null;
+}
+
+/** Whether an admin may operate a station — superadmins operate all of them */
+export function canOperate(
+  operator: IUserDocument,
+  station: Pick<IStationDocument, "adminId">
+): boolean {
+  return operator.role === "superadmin" || station.adminId === operator.clerkId;
+}
@@ -0,0 +1,106 @@
+/**
+ * Station tariffs — how a charging session is priced.
+ *
+ * "hourly" is the original flat rate: the amount is fixed up front from the
+ * booked duration. The metered modes bill the session from what the port's
+ * meter reports once it ends; the amount taken up front is only an estimate
+ * and the difference is settled when the booking completes.
+ *
+ * Pure functions only, so the booking page can show the same estimate the
+ * server charges.
+ */
+
+import { DEFAULT_HOURLY_RATE_NPR, DEFAULT_PORT_POWER_KW } from "@/lib/constants";
+import { formatPrice } from "@/lib/utils";
+
+export type BillingMode = "hourly" | "per_kwh" | "per_minute" | "hybrid";
+
+export const BILLING_MODES: BillingMode[] = [
+  "hourly",
+  "per_kwh",
+  "per_minute",
+  "hybrid",
+];
+
+export interface StationTariff {
+  perHour: number;
+  billingMode?: BillingMode;
+  /** NPR per kWh delivered (per_kwh, hybrid) */
+  perKwh?: number;
+  /** NPR per minute connected (per_minute, hybrid) */
+  perMinute?: number;
+}
+
+export interface SessionUsage {
+  energyKwh: number;
+  durationMinutes: number;
+}
+
+export function isMetered(tariff: StationTariff | undefined): boolean {
+  return !!tariff?.billingMode && tariff.billingMode !== "hourly";
+}
+
+/** Rated power in kW from strings like "7.2Kw", "22 kW" or "50" */
+export function parsePowerKw(powerOutput: string | undefined): number | null {
+  const match = powerOutput?.match(/(\d+(?:\.\d+)?)/);
+  const kw = match ? Number(match[1]) : NaN;
+  return kw > 0 ? kw : null;
+}
+
+/** Bill for a finished session from its metered usage, in NPR */
+export function meteredSessionCost(
+  tariff: StationTariff,
+  usage: SessionUsage
+): number {
+  const energy = Math.max(0, usage.energyKwh) * (tariff.perKwh ?? 0);
+  const time = Math.max(0, usage.durationMinutes) * (tariff.perMinute ?? 0);
+
+  switch (tariff.billingMode) {
+    case "per_kwh":
+      return Math.round(energy);
+    case "per_minute":
+      return Math.round(time);
+    case "hybrid":
+      return Math.round(energy + time);
+    default:
+      return Math.round(
+        (tariff.perHour ?? DEFAULT_HOURLY_RATE_NPR) * (usage.durationMinutes / 60)
+      );
+  }
+}
+
+/**
+ * Amount to charge up front for a booked duration, in NPR. Metered tariffs
+ * assume the port delivers its rated power for the whole booking.
+ */
+export function estimateSessionCost(
+  tariff: StationTariff | undefined,
+  durationMinutes: number,
+  powerOutput?: string
+): number {
+  if (!tariff || !isMetered(tariff)) {
+    const perHour = tariff?.perHour ?? DEFAULT_HOURLY_RATE_NPR;
+    return Math.round(perHour * (durationMinutes / 60));
+  }
+
+  const powerKw = parsePowerKw(powerOutput) ?? DEFAULT_PORT_POWER_KW;
+  return meteredSessionCost(tariff, {
+    energyKwh: powerKw * (durationMinutes / 60),
+    durationMinutes,
+  });
+}
+
+/** Short human-readable rate, e.g. "Rs. 25/kWh + Rs. 2/min" */
+export function describeTariff(tariff: StationTariff): string {
+  const rs = (n: number | undefined) => formatPrice(n ?? 0);
+  switch (tariff.billingMode) {
+    case "per_kwh":
+      return `${rs(tariff.perKwh)}/kWh`;
+    case "per_minute":
+      return `${rs(tariff.perMinute)}/min`;
+    case "hybrid":
+      return `${rs(tariff.perKwh)}/kWh + ${rs(tariff.perMinute)}/min`;
+    default:
+      return `${rs(tariff.perHour)}/hr`;
+  }
+}
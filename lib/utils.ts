@@ -1,5 +1,6 @@
 import { clsx, type ClassValue } from "clsx";
 import { twMerge } from "tailwind-merge";
+import { MS_PER_MINUTE, NEPAL_UTC_OFFSET_MINUTES } from "@/lib/constants";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -58,6 +59,42 @@ export function pointToRouteDistance(
   return minDist;
 }
 
+/** "HH:mm" → minutes since midnight (NaN if malformed) */
+export function parseTimeOfDay(value: string): number {
+  const [h, m] = value.split(":").map(Number);
+  return h * 60 + (m || 0);
+}
+
+/** Day of week (0 = Sunday) and minutes since midnight in Nepal time */
+export function toNepalClock(date: Date): { day: number; minutes: number } {
+  const local = new Date(date.getTime() + NEPAL_UTC_OFFSET_MINUTES * MS_PER_MINUTE);
+  return {
+    day: local.getUTCDay(),
+    minutes: local.getUTCHours() * 60 + local.getUTCMinutes(),
+  };
+}
+
+/** Instant at `minutes` past midnight Nepal time on a "YYYY-MM-DD" date */
+export function fromNepalClock(date: string, minutes: number): Date {
+  const [y, m, d] = date.split("-").map(Number);
+  return new Date(
+    Date.UTC(y, m - 1, d) + (minutes - NEPAL_UTC_OFFSET_MINUTES) * MS_PER_MINUTE
+  );
+}
+
+/** Calendar date in Nepal time as "YYYY-MM-DD" */
+export function toNepalDate(date: Date): string {
+  return new Date(date.getTime() + NEPAL_UTC_OFFSET_MINUTES * MS_PER_MINUTE)
+    .toISOString()
+    .slice(0, 10);
+}
+
+/** "HH:mm" in Nepal time */
+export function formatNepalTime(date: Date | string): string {
+  const { minutes } = toNepalClock(new Date(date));
+  return `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+}
+
 export function formatPrice(amount: number): string {
   return `Rs. ${(amount ?? 0).toLocaleString("en-NP")}`;
 }
@@ -100,6 +137,7 @@ export function getStatusColor(status: string): string {
     occupied: "text-red-400 bg-red-500/10",
     reserved: "text-yellow-400 bg-yellow-500/10",
     maintenance: "text-slate-400 bg-slate-500/10",
+    offline: "text-slate-500 bg-slate-500/10",
   };
   return colors[status] || "text-slate-400 bg-slate-500/10";
 }
@@ -0,0 +1,180 @@
+/**
+ * Web Push delivery of in-app notifications, for drivers with the app
+ * closed. Browsers subscribe through `public/sw.js`; every notification
+ * broadcast to a user is also pushed to each of their subscriptions, signed
+ * with the VAPID keys in `NEXT_PUBLIC_VAPID_PUBLIC_KEY` / `VAPID_PRIVATE_KEY`.
+ * Without keys push is off. Subscriptions the push service reports gone
+ * (404/410), or that are past their expiry, are deleted.
+ */
+
+import webpush, { WebPushError } from "web-push";
+import dbConnect from "@/lib/db";
+import WebPushSubscription from "@/lib/models/WebPushSubscription";
+import { URGENT_TYPES } from "@/lib/notifications/preferences";
+import type { NotificationType } from "@/lib/notifications/types";
+import type { UserNotificationEvent } from "@/lib/realtime/types";
+import {
+  QUEUE_TURN_MINUTES,
+  SECONDS_PER_MINUTE,
+  WEB_PUSH_TTL_SECONDS,
+} from "@/lib/constants";
+
+export class PushSubscriptionError extends Error {
+  constructor(
+    message: string,
+    public readonly httpStatus: number = 400
+  ) {
+    super(message);
+    this.name = "PushSubscriptionError";
+  }
+}
+
+/** What the service worker receives and shows */
+export interface WebPushPayload {
+  title: string;
+  body: string;
+  /** Notifications with the same tag replace each other */
+  tag: string;
+  url: string;
+  notificationType: string;
+}
+
+export interface PushSubscriptionInput {
+  endpoint: string;
+  expirationTime?: number | null;
+  keys: { p256dh: string; auth: string };
+}
+
+function vapidDetails() {
+  const publicKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+  if (!publicKey || !privateKey) return null;
+  return {
+    subject: process.env.VAPID_SUBJECT || "mailto:support@urjastation.com",
+    publicKey,
+    privateKey,
+  };
+}
+
+export function isWebPushConfigured(): boolean {
+  return vapidDetails() !== null;
+}
+
+/** Validate a browser's `PushSubscription.toJSON()` */
+export function parsePushSubscription(input: unknown): PushSubscriptionInput {
+  const sub = (input ?? {}) as Record<string, unknown>;
+  if (typeof sub.endpoint !== "string" || !/^https:\/\//.test(sub.endpoint)) {
+    throw new PushSubscriptionError("subscription.endpoint must be an https URL");
+  }
+  const { p256dh, auth } = (sub.keys ?? {}) as Record<string, unknown>;
+  if (typeof p256dh !== "string" || typeof auth !== "string") {
+    throw new PushSubscriptionError("subscription.keys needs p256dh and auth");
+  }
+  return {
+    endpoint: sub.endpoint,
+    expirationTime: typeof sub.expirationTime === "number" ? sub.expirationTime : null,
+    keys: { p256dh, auth },
+  };
+}
+
+/**
+ * Store a browser's subscription for a user. A browser that re-subscribes
+ * under a different account moves its subscription to that account.
+ */
+export async function savePushSubscription(
+  userId: string,
+  subscription: PushSubscriptionInput,
+  userAgent?: string
+): Promise<void> {
+  if (!isWebPushConfigured()) {
+    throw new PushSubscriptionError("Push notifications are not enabled", 503);
+  }
+  await dbConnect();
+  await WebPushSubscription.updateOne(
+    { endpoint: subscription.endpoint },
+    {
+      $set: {
+        userId,
+        keys: subscription.keys,
+        expiresAt: subscription.expirationTime
+          ? new Date(subscription.expirationTime)
+          : undefined,
+        userAgent,
+      },
+    },
+    { upsert: true }
+  );
+}
+
+export async function removePushSubscription(
+  userId: string,
+  endpoint: string
+): Promise<void> {
+  await dbConnect();
+  await WebPushSubscription.deleteOne({ userId, endpoint });
+}
+
+/** How long the push service should keep trying a device that's offline */
+function ttlSeconds(type: string): number {
+  // A queue turn is worthless once it has expired
+  return type === "queue_turn"
+    ? QUEUE_TURN_MINUTES * SECONDS_PER_MINUTE
+    : WEB_PUSH_TTL_SECONDS;
+}
+
+/**
+ * Push a notification to every device the user subscribed. Failures are
+ * logged, never thrown — the in-app notification has already been stored.
+ */
+export async function pushNotification(
+  event: Omit<UserNotificationEvent, "type">,
+  now: Date = new Date()
+): Promise<void> {
+  const vapid = vapidDetails();
+  if (!vapid) return;
+
+  try {
+    await dbConnect();
+    await WebPushSubscription.deleteMany({ userId: event.userId, expiresAt: { $lte: now } });
+    const subscriptions = await WebPushSubscription.find({ userId: event.userId }).lean();
+    if (subscriptions.length === 0) return;
+
+    const { notification } = event;
+    const payload: WebPushPayload = {
+      title: notification.title,
+      body: notification.message,
+      tag: notification.stationId
+        ? `${notification.notificationType}:${notification.stationId}`
+        : notification._id,
+      url: notification.actionUrl || "/dashboard",
+      notificationType: notification.notificationType,
+    };
+    const urgent = URGENT_TYPES.includes(notification.notificationType as NotificationType);
+
+    await Promise.all(
+      subscriptions.map(async (sub) => {
+        try {
+          await webpush.sendNotification(
+            { endpoint: sub.endpoint, keys: sub.keys },
+            JSON.stringify(payload),
+            {
+              vapidDetails: vapid,
+              TTL: ttlSeconds(notification.notificationType),
+              urgency: urgent ? "high" : "normal",
+            }
+          );
+          await WebPushSubscription.updateOne({ _id: sub._id }, { $set: { lastPushedAt: now } });
+        } catch (error) {
+          // The browser unsubscribed or the subscription expired
+          if (error instanceof WebPushError && (error.statusCode === 404 || error.statusCode === 410)) {
+            await WebPushSubscription.deleteOne({ _id: sub._id });
+            return;
+          }
+          console.error("Web push failed:", sub.endpoint, error);
+        }
+      })
+    );
+  } catch (error) {
+    console.error("Failed to push notification to user:", event.userId, error);
+  }
+}
@@ -0,0 +1,71 @@
+/* Service worker for Web Push notifications (see lib/webPush.ts). */
+
+self.addEventListener("install", () => {
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener("push", (event) => {
+  if (!event.data) return;
+
+  let payload;
+  try {
+    payload = event.data.json();
+  } catch {
+    payload = { title: "Urja Station", body: event.data.text() };
+  }
+
+  event.waitUntil(
+    self.clients
+      .matchAll({ type: "window", includeUncontrolled: true })
+      .then((clients) => {
+        // A visible tab already shows it live through the notification bell
+        if (clients.some((client) => client.visibilityState === "visible")) return;
+
+        return self.registration.showNotification(payload.title, {
+          body: payload.body,
+          tag: payload.tag,
+          renotify: !!payload.tag,
+          icon: "/favicon/favicon.png",
+          badge: "/favicon/favicon.png",
+          requireInteraction: payload.notificationType === "queue_turn",
+          data: { url: payload.url || "/dashboard" },
+        });
+      })
+  );
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || "/dashboard", self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((clients) => {
+      const existing = clients.find((client) => client.url.startsWith(self.location.origin));
+      if (existing) {
+        return existing.focus().then((client) => client.navigate(url));
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
+
+// The push service rotated the subscription: store the new one
+self.addEventListener("pushsubscriptionchange", (event) => {
+  const options = event.oldSubscription?.options;
+  if (!options) return;
+
+  event.waitUntil(
+    self.registration.pushManager.subscribe(options).then((subscription) =>
+      fetch("/api/notifications/push", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "same-origin",
+        body: JSON.stringify({ subscription: subscription.toJSON() }),
+      })
+    )
+  );
+});
@@ -0,0 +1,211 @@
+/**
+ * Simulated charging port hardware (see lib/simulator), for local
+ * development and load tests without flashing a board.
+ *
+ * Register devices for the ports to simulate — on the admin station page, or
+ * all at once straight in the database:
+ *
+ *   MONGODB_URI=... npx tsx scripts/hardware-simulator.ts provision \
+ *     --station <stationId> [--station <stationId> ...] --out devices.json
+ *
+ * then run them against the app:
+ *
+ *   npx tsx scripts/hardware-simulator.ts run --devices devices.json [options]
+ *
+ *   --url <url>             app URL (default http://localhost:3000)
+ *   --scenario <scenario>   manual (Enter advances every port, "f" faults
+ *                           them), cycle, random, or a JSON file of steps
+ *                           (default manual)
+ *   --duration <s>          stop after this long (default: until Ctrl+C)
+ *   --ramp-up <s>           spread port start-ups over this long
+ *   --cycle <s>             cycle scenario interval (default 10)
+ *   --fault-rate <0-1>      random scenario fault chance (default 0)
+ *   --charge <s>            charging completes by itself after this long
+ *                           (default 30, 0 = never)
+ *   --time-scale <n>        simulated charging time per real time (default 120)
+ *   --heartbeat <s>         heartbeat interval (default 60)
+ *   --verbose               log every request
+ *
+ * A devices file is a JSON array of { deviceId, secret, stationId, portId }.
+ * A steps file is a JSON array of { "action": "advance" | "fail" } and
+ * { "action": "wait", "ms": 1000 } steps, or { "repeat": true, "steps": [...] }.
+ */
+
+import fs from "fs";
+import readline from "readline";
+import { parseArgs } from "util";
+import {
+  cycleScenario,
+  randomScenario,
+  runFleet,
+  scriptedScenario,
+  type DeviceCredentials,
+  type Scenario,
+  type ScenarioStep,
+} from "../lib/simulator";
+
+const { values: options, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    url: { type: "string", default: "http://localhost:3000" },
+    devices: { type: "string" },
+    station: { type: "string", multiple: true },
+    out: { type: "string", default: "devices.json" },
+    scenario: { type: "string", default: "manual" },
+    duration: { type: "string" },
+    "ramp-up": { type: "string", default: "0" },
+    cycle: { type: "string", default: "10" },
+    "fault-rate": { type: "string", default: "0" },
+    charge: { type: "string", default: "30" },
+    "time-scale": { type: "string", default: "120" },
+    heartbeat: { type: "string", default: "60" },
+    verbose: { type: "boolean", default: false },
+  },
+});
+
+const seconds = (value: string | undefined) => Number(value) * 1000;
+
+/** Every port answers Enter (advance) and "f" (fail) typed on the terminal */
+function manualScenario(): Scenario {
+  const listeners = new Set<(line: string) => void>();
+  readline
+    .createInterface({ input: process.stdin })
+    .on("line", (line) => listeners.forEach((listener) => listener(line.trim())));
+  console.log('Press Enter to advance every port, "f" + Enter to fault them.');
+
+  return async (port, signal) => {
+    const onLine = (line: string) => {
+      const action = line === "f" ? port.fail() : port.advance();
+      action.then(() => console.log(`${port.device.deviceId} → ${port.state()}`));
+    };
+    listeners.add(onLine);
+    try {
+      await new Promise<void>((_, reject) =>
+        signal.addEventListener("abort", () => reject(signal.reason), { once: true })
+      );
+    } finally {
+      listeners.delete(onLine);
+    }
+  };
+}
+
+function loadScenario(name: string): Scenario {
+  switch (name) {
+    case "manual":
+      return manualScenario();
+    case "cycle":
+      return cycleScenario(seconds(options.cycle));
+    case "random":
+      return randomScenario({ faultRate: Number(options["fault-rate"]) || 0 });
+    default: {
+      const script = JSON.parse(fs.readFileSync(name, "utf8")) as
+        | ScenarioStep[]
+        | { repeat?: boolean; steps: ScenarioStep[] };
+      return Array.isArray(script)
+        ? scriptedScenario(script)
+        : scriptedScenario(script.steps, script.repeat);
+    }
+  }
+}
+
+async function run() {
+  if (!options.devices) {
+    throw new Error("--devices <file> is required");
+  }
+  const devices: DeviceCredentials[] = JSON.parse(fs.readFileSync(options.devices, "utf8"));
+  const controller = new AbortController();
+  process.on("SIGINT", () => controller.abort());
+
+  console.log(`Simulating ${devices.length} port(s) against ${options.url}…`);
+  const stats = await runFleet({
+    baseUrl: options.url,
+    devices,
+    scenario: loadScenario(options.scenario),
+    durationMs: options.duration ? seconds(options.duration) : undefined,
+    rampUpMs: seconds(options["ramp-up"]),
+    signal: controller.signal,
+    port: {
+      chargeDurationMs: seconds(options.charge),
+      timeScale: Number(options["time-scale"]),
+      heartbeatIntervalMs: seconds(options.heartbeat),
+    },
+    onReport: (report) => {
+      if (options.verbose || !report.ok) {
+        console.log(
+          `${report.deviceId} ${report.kind}${report.event ? ` ${report.event}` : ""} → ` +
+            `${report.httpStatus || "no response"} in ${report.latencyMs}ms` +
+            (report.error ? ` (${report.error})` : "")
+        );
+      }
+    },
+  });
+
+  console.log("\nDone.");
+  console.log(`Ports:     ${stats.ports}`);
+  console.log(`Requests:  ${stats.requests} (${stats.failures} failed)`);
+  console.log(`By status: ${JSON.stringify(stats.byStatus)}`);
+  console.log(
+    `Latency:   p50 ${stats.latencyMs.p50}ms, p95 ${stats.latencyMs.p95}ms, ` +
+      `p99 ${stats.latencyMs.p99}ms, max ${stats.latencyMs.max}ms`
+  );
+  process.exit(0);
+}
+
+/** Register a device for every port of the stations that has none yet */
+async function provision() {
+  const stationIds = options.station ?? [];
+  if (stationIds.length === 0) {
+    throw new Error("--station <stationId> is required");
+  }
+  if (!process.env.MONGODB_URI) {
+    throw new Error("Set MONGODB_URI to provision devices");
+  }
+
+  // Loaded here: lib/db needs MONGODB_URI, which `run` doesn't
+  const { default: mongoose } = await import("mongoose");
+  const { default: dbConnect } = await import("../lib/db");
+  const { default: Station } = await import("../lib/models/Station");
+  const { default: HardwareDevice } = await import("../lib/models/HardwareDevice");
+  const { default: ChargePoint } = await import("../lib/models/ChargePoint");
+  const { generateDeviceId, generateDeviceSecret } = await import("../lib/hardwareAuth");
+
+  await dbConnect();
+  const devices: DeviceCredentials[] = [];
+  for (const stationId of stationIds) {
+    const station = await Station.findById(stationId);
+    if (!station) {
+      console.warn(`Station ${stationId} not found, skipped`);
+      continue;
+    }
+    for (const port of station.chargingPorts) {
+      const portId = String(port._id);
+      if (
+        (await HardwareDevice.exists({ stationId, portId })) ||
+        (await ChargePoint.exists({ stationId, "connectors.portId": portId }))
+      ) {
+        console.warn(`${station.name} port ${port.portNumber} already reports, skipped`);
+        continue;
+      }
+      const secret = generateDeviceSecret();
+      const device = await HardwareDevice.create({
+        deviceId: generateDeviceId(),
+        name: `Simulator — port ${port.portNumber}`,
+        stationId,
+        portId,
+        secret,
+        createdBy: "simulator",
+      });
+      devices.push({ deviceId: device.deviceId, secret, stationId, portId });
+    }
+  }
+
+  fs.writeFileSync(options.out, JSON.stringify(devices, null, 2));
+  console.log(`Registered ${devices.length} device(s); credentials written to ${options.out}`);
+  await mongoose.disconnect();
+}
+
+const command = positionals[0] ?? "run";
+(command === "provision" ? provision() : run()).catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,243 @@
+/**
+ * Simulated OCPP 1.6-J charge point, for trying the central system without a
+ * real charger. Register the charge point in the admin dashboard first, then
+ * run the custom server (`npm run dev:realtime`) and:
+ *
+ *   npx tsx scripts/ocpp-simulator.ts <chargePointId> <password> [options]
+ *
+ *   --url <url>              central system (default ws://localhost:3000/ocpp)
+ *   --connectors <n>         connectors on the charge point (default 1)
+ *   --power-kw <kW>          charging power (default 7.4)
+ *   --meter-interval <s>     seconds between MeterValues while charging (default 10)
+ *   --session <c>:<minutes>  plug into connector c and charge for that long
+ *
+ * It boots, reports its connectors Available, sends heartbeats, and answers
+ * RemoteStartTransaction / RemoteStopTransaction by running a session:
+ * Preparing → StartTransaction → Charging (with MeterValues) →
+ * StopTransaction → Finishing → Available once the vehicle is unplugged.
+ */
+
+import { randomUUID } from "crypto";
+import { parseArgs } from "util";
+import WebSocket from "ws";
+import {
+  CALL,
+  CALL_ERROR,
+  CALL_RESULT,
+  OCPP_SUBPROTOCOL,
+  type ChargePointStatus,
+  type OcppFrame,
+} from "../lib/ocpp/protocol";
+
+const UNPLUG_DELAY_MS = 3000;
+
+const { values: options, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    url: { type: "string", default: "ws://localhost:3000/ocpp" },
+    connectors: { type: "string", default: "1" },
+    "power-kw": { type: "string", default: "7.4" },
+    "meter-interval": { type: "string", default: "10" },
+    session: { type: "string" },
+  },
+});
+
+const [chargePointId, password] = positionals;
+if (!chargePointId || !password) {
+  console.error("Usage: npx tsx scripts/ocpp-simulator.ts <chargePointId> <password> [options]");
+  process.exit(1);
+}
+
+const connectorCount = Math.max(1, Number(options.connectors) || 1);
+const powerKw = Number(options["power-kw"]) || 7.4;
+const meterIntervalMs = (Number(options["meter-interval"]) || 10) * 1000;
+
+interface Connector {
+  status: ChargePointStatus;
+  /** Energy register, in Wh */
+  meterWh: number;
+  transactionId?: number;
+  meterTimer?: ReturnType<typeof setInterval>;
+}
+
+const connectors = new Map<number, Connector>(
+  Array.from({ length: connectorCount }, (_, i) => [i + 1, { status: "Available", meterWh: 0 }])
+);
+const pending = new Map<string, (frame: OcppFrame) => void>();
+let heartbeat: ReturnType<typeof setInterval> | undefined;
+
+const socket = new WebSocket(`${options.url}/${encodeURIComponent(chargePointId)}`, OCPP_SUBPROTOCOL, {
+  headers: {
+    Authorization: `Basic ${Buffer.from(`${chargePointId}:${password}`).toString("base64")}`,
+  },
+});
+
+function log(message: string) {
+  console.log(`[${new Date().toISOString()}] ${message}`);
+}
+
+/** Make a call and wait for its CALLRESULT payload */
+function call(action: string, payload: Record<string, unknown> = {}): Promise<Record<string, unknown>> {
+  const uniqueId = randomUUID();
+  return new Promise((resolve, reject) => {
+    pending.set(uniqueId, (frame) => {
+      if (frame[0] === CALL_RESULT) resolve(frame[2]);
+      else if (frame[0] === CALL_ERROR) reject(new Error(`${action}: ${frame[2]} ${frame[3]}`));
+    });
+    socket.send(JSON.stringify([CALL, uniqueId, action, payload]));
+    log(`→ ${action} ${JSON.stringify(payload)}`);
+  });
+}
+
+async function setStatus(connectorId: number, status: ChargePointStatus) {
+  connectors.get(connectorId)!.status = status;
+  await call("StatusNotification", {
+    connectorId,
+    errorCode: "NoError",
+    status,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+function meterValue(connector: Connector) {
+  return [
+    {
+      timestamp: new Date().toISOString(),
+      sampledValue: [
+        { value: String(Math.round(connector.meterWh)), measurand: "Energy.Active.Import.Register", unit: "Wh" },
+      ],
+    },
+  ];
+}
+
+async function startSession(connectorId: number, idTag: string) {
+  const connector = connectors.get(connectorId)!;
+  await setStatus(connectorId, "Preparing");
+  const { transactionId } = await call("StartTransaction", {
+    connectorId,
+    idTag,
+    meterStart: Math.round(connector.meterWh),
+    timestamp: new Date().toISOString(),
+  });
+  connector.transactionId = Number(transactionId);
+  await setStatus(connectorId, "Charging");
+
+  connector.meterTimer = setInterval(() => {
+    connector.meterWh += (powerKw * 1000 * meterIntervalMs) / 3_600_000;
+    call("MeterValues", {
+      connectorId,
+      transactionId: connector.transactionId,
+      meterValue: meterValue(connector),
+    }).catch((error) => log(`MeterValues failed: ${error.message}`));
+  }, meterIntervalMs);
+}
+
+async function stopSession(connectorId: number, reason: string) {
+  const connector = connectors.get(connectorId)!;
+  if (connector.transactionId == null) return;
+  clearInterval(connector.meterTimer);
+
+  await call("StopTransaction", {
+    transactionId: connector.transactionId,
+    meterStop: Math.round(connector.meterWh),
+    timestamp: new Date().toISOString(),
+    reason,
+  });
+  connector.transactionId = undefined;
+  await setStatus(connectorId, "Finishing");
+
+  // The driver unplugs a little later
+  setTimeout(() => {
+    setStatus(connectorId, "Available").catch((error) => log(`Status failed: ${error.message}`));
+  }, UNPLUG_DELAY_MS);
+}
+
+/** Answer a call from the central system */
+function handleCall(uniqueId: string, action: string, payload: Record<string, unknown>) {
+  const reply = (result: Record<string, unknown>) =>
+    socket.send(JSON.stringify([CALL_RESULT, uniqueId, result]));
+
+  switch (action) {
+    case "RemoteStartTransaction": {
+      const connectorId = Number(payload.connectorId ?? 1);
+      const connector = connectors.get(connectorId);
+      const accepted = connector?.status === "Available";
+      reply({ status: accepted ? "Accepted" : "Rejected" });
+      if (accepted) {
+        startSession(connectorId, String(payload.idTag)).catch((error) =>
+          log(`Remote start failed: ${error.message}`)
+        );
+      }
+      return;
+    }
+    case "RemoteStopTransaction": {
+      const entry = [...connectors].find(
+        ([, connector]) => connector.transactionId === Number(payload.transactionId)
+      );
+      reply({ status: entry ? "Accepted" : "Rejected" });
+      if (entry) {
+        stopSession(entry[0], "Remote").catch((error) => log(`Remote stop failed: ${error.message}`));
+      }
+      return;
+    }
+    default:
+      socket.send(
+        JSON.stringify([CALL_ERROR, uniqueId, "NotImplemented", `${action} is not simulated`, {}])
+      );
+  }
+}
+
+socket.on("message", (raw) => {
+  const frame = JSON.parse(raw.toString()) as OcppFrame;
+  if (frame[0] === CALL) {
+    log(`← ${frame[2]} ${JSON.stringify(frame[3])}`);
+    handleCall(frame[1], frame[2], frame[3]);
+    return;
+  }
+  log(`← ${JSON.stringify(frame[2])}`);
+  pending.get(frame[1])?.(frame);
+  pending.delete(frame[1]);
+});
+
+socket.on("open", async () => {
+  log(`Connected as ${chargePointId}`);
+  try {
+    const boot = await call("BootNotification", {
+      chargePointVendor: "Urja",
+      chargePointModel: "Simulator",
+      firmwareVersion: "sim-1.0",
+    });
+    heartbeat = setInterval(
+      () => call("Heartbeat").catch((error) => log(`Heartbeat failed: ${error.message}`)),
+      Number(boot.interval || 60) * 1000
+    );
+    for (const connectorId of connectors.keys()) {
+      await setStatus(connectorId, "Available");
+    }
+
+    if (options.session) {
+      const [connector, minutes] = options.session.split(":").map(Number);
+      await call("Authorize", { idTag: "SIM-TAG" });
+      await startSession(connector, "SIM-TAG");
+      setTimeout(() => {
+        stopSession(connector, "Local").catch((error) => log(`Stop failed: ${error.message}`));
+      }, (minutes || 1) * 60_000);
+    }
+  } catch (error) {
+    log(`Startup failed: ${(error as Error).message}`);
+  }
+});
+
+socket.on("unexpected-response", (_req, res) => {
+  log(`Connection refused: HTTP ${res.statusCode}`);
+  process.exit(1);
+});
+
+socket.on("close", (code, reason) => {
+  log(`Disconnected (${code} ${reason.toString()})`);
+  clearInterval(heartbeat);
+  for (const connector of connectors.values()) clearInterval(connector.meterTimer);
+  process.exit(0);
+});
+
+process.on("SIGINT", () => socket.close());
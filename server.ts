@@ -0,0 +1,64 @@
+/**
+ * Custom server: Next.js plus the realtime WebSocket gateway and the OCPP
+ * central system on the same port. Only needed for two-way dashboards and
+ * OCPP chargers — `next dev` / `next start` keep working with SSE alone.
+ *
+ *   npm run dev:realtime      (development)
+ *   npm run start:realtime    (after `npm run build`)
+ */
+
+import { createServer } from "http";
+import next from "next";
+import { OCPP_PATH, REALTIME_SOCKET_PATH } from "./lib/constants";
+
+const dev = process.env.NODE_ENV !== "production";
+const port = Number(process.env.PORT) || 3000;
+
+const app = next({ dev, port });
+const handle = app.getRequestHandler();
+
+await app.prepare();
+
+// Loaded after prepare() so it sees the env files Next has read
+const { createRealtimeGateway } = await import("./lib/realtime/gateway");
+const { createOcppCentralSystem } = await import("./lib/ocpp/centralSystem");
+const appUrl = `http://localhost:${port}`;
+// The app's public URL, plus any extra origins (comma-separated) allowed to open the socket
+const allowedOrigins = [
+  appUrl,
+  process.env.NEXT_PUBLIC_APP_URL,
+  ...(process.env.REALTIME_ALLOWED_ORIGINS ?? "").split(","),
+].filter((origin): origin is string => !!origin?.trim());
+const gateway = createRealtimeGateway({
+  path: REALTIME_SOCKET_PATH,
+  appUrl,
+  allowedOrigins: allowedOrigins.map((origin) => origin.trim()),
+});
+const centralSystem = createOcppCentralSystem({ path: OCPP_PATH, appUrl });
+const upgrade = app.getUpgradeHandler();
+
+const server = createServer((req, res) => handle(req, res));
+
+// Everything that isn't ours (e.g. HMR in dev) goes to Next
+server.on("upgrade", (req, socket, head) => {
+  if (
+    !gateway.handleUpgrade(req, socket, head) &&
+    !centralSystem.handleUpgrade(req, socket, head)
+  ) {
+    upgrade(req, socket, head);
+  }
+});
+
+server.listen(port, () => {
+  console.log(
+    `> Ready on ${appUrl} (realtime socket at ${REALTIME_SOCKET_PATH}, OCPP at ${OCPP_PATH}/<chargePointId>)`
+  );
+});
+
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+  process.on(signal, () => {
+    gateway.close();
+    centralSystem.close();
+    server.close(() => process.exit(0));
+  });
+}
@@ -20,10 +20,38 @@ export interface ChargingPort {
   connectorType: string;
   powerOutput: string;
   chargerType: string;
-  status: "available" | "occupied" | "maintenance" | "reserved";
+  status: "available" | "occupied" | "maintenance" | "reserved" | "offline";
   currentBookingId?: string;
 }
 
+export type PaymentMethod = "khalti" | "esewa" | "cash";
+
+export interface PriceLineItem {
+  label: string;
+  amount: number;
+}
+
+export interface StationPricingRules {
+  timeOfUse: {
+    label: string;
+    days: number[];
+    start: string;
+    end: string;
+    multiplier: number;
+  }[];
+  weekend: { days: number[]; multiplier: number };
+  portMultipliers: { ac: number; dc: number };
+  idleFee: { perMinute: number; graceMinutes: number };
+  /** Only returned to station admins */
+  promos?: {
+    code: string;
+    percentOff: number;
+    validFrom?: string;
+    validUntil?: string;
+    active: boolean;
+  }[];
+}
+
 export interface IStation {
   _id: string;
   name: string;
@@ -35,10 +63,21 @@ export interface IStation {
     open: string;
     close: string;
   };
+  /** Holidays and temporary closures; no endsAt means closed until reopened */
+  closures?: { startsAt: string; endsAt?: string | null; reason?: string }[];
   chargingPorts: ChargingPort[];
   pricing: {
     perHour: number;
+    billingMode?: "hourly" | "per_kwh" | "per_minute" | "hybrid";
+    perKwh?: number;
+    perMinute?: number;
+  };
+  pricingRules?: StationPricingRules;
+  cancellationPolicy?: {
+    fullRefundHoursBefore: number;
+    partialRefundPercent: number;
   };
+  paymentMethods?: PaymentMethod[];
   amenities: string[];
   photos: string[];
   rating: number;
@@ -48,6 +87,107 @@ export interface IStation {
   updatedAt: string;
 }
 
+export interface PortDayAvailability {
+  portId: string;
+  portNumber: string;
+  connectorType: string;
+  powerOutput: string;
+  chargerType: string;
+  status: ChargingPort["status"];
+  booked: { start: string; end: string; status: string }[];
+  free: { start: string; end: string }[];
+}
+
+export interface StationDayAvailability {
+  date: string;
+  opensAt: string | null;
+  closesAt: string | null;
+  slotMinutes: number;
+  closures: { start: string; end: string; reason?: string }[];
+  ports: PortDayAvailability[];
+}
+
+export interface RecurrencePattern {
+  frequency: "daily" | "weekly";
+  daysOfWeek: number[];
+  time: string;
+  startDate: string;
+  endDate: string;
+}
+
+export interface IHardwareDevice {
+  _id: string;
+  deviceId: string;
+  name: string;
+  stationId: string;
+  portId: string;
+  secretRotatedAt: string;
+  lastSeenAt?: string;
+  firmwareVersion?: string;
+  offlineAt?: string;
+  createdAt: string;
+}
+
+export interface IChargePoint {
+  _id: string;
+  chargePointId: string;
+  name: string;
+  stationId: string;
+  connectors: { connectorId: number; portId: string }[];
+  passwordRotatedAt: string;
+  vendor?: string;
+  modelName?: string;
+  firmwareVersion?: string;
+  lastSeenAt?: string;
+  connectedAt?: string;
+  createdAt: string;
+}
+
+export interface IPortStatusEvent {
+  _id: string;
+  portId: string;
+  source: "hardware" | "admin" | "booking" | "watchdog" | "queue";
+  previousStatus?: string;
+  status: string;
+  event?: string;
+  at: string;
+}
+
+export interface PortHistory {
+  portId: string;
+  portNumber: string;
+  status: string;
+  trackedMs: number;
+  msByStatus: Record<string, number>;
+  availabilityPercent: number;
+  uptimePercent: number;
+  utilizationPercent: number;
+  reservedPercent: number;
+  maintenancePeriods: number;
+  meanMaintenanceMs: number;
+  changes: number;
+  timeline: IPortStatusEvent[];
+}
+
+export interface IBookingSeries {
+  _id: string;
+  stationId: string;
+  stationName?: string;
+  portId: string;
+  portNumber?: string;
+  kind: "recurring" | "multi";
+  pattern?: RecurrencePattern;
+  estimatedDuration: number;
+  paymentMethod: PaymentMethod;
+  paymentMode: "single" | "per_occurrence";
+  status: "active" | "cancelled";
+  occurrences: Pick<
+    IBooking,
+    "_id" | "startTime" | "endTime" | "status" | "amountPaid" | "paymentAmount" | "paymentDueAt"
+  >[];
+  createdAt: string;
+}
+
 export interface IBooking {
   _id: string;
   userId: string;
@@ -59,6 +199,14 @@ export interface IBooking {
   estimatedDuration: number;
   endTime: string;
   status: "pending" | "confirmed" | "active" | "completed" | "cancelled" | "no-show";
+  statusHistory?: {
+    from: string | null;
+    to: string;
+    actor: "user" | "admin" | "payment" | "system" | "hardware";
+    actorId?: string;
+    reason?: string;
+    at: string;
+  }[];
   source?: "online" | "walk-in-qr" | "walk-in-manual";
   qrCode?: string;
   userLocation?: {
@@ -71,7 +219,42 @@ export interface IBooking {
     updatedAt: string;
   };
   amountPaid?: number;
-  paymentMethod?: "khalti" | "cash" | "other";
+  seriesId?: string;
+  /** Checkout total when the booking was paid together with its series */
+  paymentAmount?: number;
+  paymentDueAt?: string;
+  quote?: {
+    lineItems: PriceLineItem[];
+    total: number;
+    promoCode?: string;
+    promoPercentOff?: number;
+  };
+  metering?: {
+    energyKwh: number;
+    startedAt?: string;
+    stoppedAt?: string;
+    lastReadingAt?: string;
+    durationMinutes?: number;
+  };
+  billing?: {
+    mode: "hourly" | "per_kwh" | "per_minute" | "hybrid";
+    energyKwh: number;
+    durationMinutes: number;
+    finalAmount: number;
+    prepaidAmount: number;
+    adjustment: number;
+    idleMinutes?: number;
+    idleFee?: number;
+    lineItems?: PriceLineItem[];
+    settlement: "none" | "refund" | "topup_due" | "topup_paid";
+    settledAt: string;
+  };
+  refund?: {
+    refundId: string;
+    status: "pending" | "completed" | "failed" | "manual" | "not_eligible";
+    amount: number;
+  };
+  paymentMethod?: PaymentMethod | "other";
   customerName?: string;
   customerPhone?: string;
   vehicleNumber?: string;